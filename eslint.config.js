@@ -58,6 +58,14 @@ export default [
               name: "../memory/store.js",
               message: "Import from ../memory/index.js (public API) instead.",
             },
+            {
+              name: "../memory/sqlite-store.js",
+              message: "Import from ../memory/index.js (public API) instead.",
+            },
+            {
+              name: "../memory/state-store.js",
+              message: "Import from ../memory/index.js (public API) instead.",
+            },
             {
               name: "../regulator/logic.js",
               message:
@@ -3,52 +3,126 @@
 // Observations from Sensorium are interpreted into Regulator mutations here.
 // Episode mutations are gated through the Membrane before reaching the Regulator.
 
-import { JsonStore } from "../../libs/memory/index.js";
-import type { EpisodeType, NodeRef, State } from "../../libs/memory/index.js";
-import { checkEpisodeConstraints } from "../../libs/membrane/index.js";
+import {
+  createStateStore,
+  decodeExport,
+  describeSaveRejection,
+  diffStates,
+  encodeExport,
+  formatNodeRef,
+  getStateLockPath,
+  importState,
+  mergeStates,
+  readExport,
+  readStateFile,
+  writeExport,
+} from "../../libs/memory/index.js";
+import type {
+  MutationType,
+  NodeRef,
+  State,
+  StateStore,
+} from "../../libs/memory/index.js";
+import {
+  checkActionConstraints,
+  checkEpisodeCloseConstraints,
+  checkEpisodeConstraints,
+  checkNoteConstraints,
+  checkSignalConstraints,
+  checkVariableConstraints,
+  explainMembrane,
+} from "../../libs/membrane/index.js";
 import type {
   MembraneResult,
   MembraneWarning,
 } from "../../libs/membrane/index.js";
-import { getStatusData, Regulator } from "../../libs/regulator/index.js";
-import type { Result } from "../../libs/regulator/index.js";
+import {
+  getActiveEpisodesByNode,
+  getArchivedEntities,
+  getDueMeasurements,
+  getEpisodeEffectivenessReport,
+  getExceptionAudit,
+  getExceptionRates,
+  getNormsDueForReview,
+  getOpenEpisodeActions,
+  getOverdueEpisodes,
+  getStatusAnalytics,
+  getStatusData,
+  getStatusHistory,
+  parseBatchOperations,
+  planRevert,
+  Regulator,
+  replayJournal,
+} from "../../libs/regulator/index.js";
+import type {
+  PendingActionDisposition,
+  RegulatorMutation,
+  Result,
+} from "../../libs/regulator/index.js";
 import { parseCli, parseObservation } from "../../libs/sensorium/index.js";
 import type { Observation } from "../../libs/sensorium/index.js";
-import { formatStatus } from "./format.js";
+import {
+  clearStaleFileLock,
+  getConfig,
+  inspectFileLock,
+} from "../../libs/shared/index.js";
+import { getEventLogLockPath } from "../../libs/signaling/index.js";
+import {
+  formatArchivedList,
+  formatDueMeasurements,
+  formatEpisodeReport,
+  formatExceptionAudit,
+  formatNormsDueForReview,
+  formatImportReport,
+  formatLockReport,
+  formatMembraneExplanation,
+  formatMergeReport,
+  formatOpenActions,
+  formatRecoveryReport,
+  formatReviewItem,
+  formatSnapshotList,
+  formatStateDiff,
+  formatStatus,
+  formatStatusHistory,
+} from "./format.js";
+import type { LockReportEntry } from "./format.js";
 import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as readline from "node:readline";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
 /**
- * Result of checking Membrane constraints for episode opening.
+ * Result of checking Membrane constraints for a mutation.
  * Contains the decision and any warnings/exceptions to log.
  */
 interface MembraneCheckResult {
   proceed: boolean;
-  /** Warnings to log as exceptions after mutation succeeds */
+  /** What was gated, recorded on each logged exception */
+  mutationType: MutationType;
+  /** Warnings to log as exceptions along with the mutation */
   warningsToLog: MembraneWarning[];
-  /** Block override to log as exception after mutation succeeds */
+  /** Block override to log as an exception along with the mutation */
   blockOverride?: { modelId: string; justification: string };
 }
 
 /**
- * Checks Membrane constraints for episode opening.
+ * Acts on a Membrane decision for a mutation: exits on a block (unless
+ * overridden where allowed) and prints warnings.
  *
- * @param state Current state
- * @param node Node to check
- * @param episodeType Type of episode being opened
+ * @param result Decision from the Membrane check for this mutation
+ * @param mutationType What is being gated, for the exceptions to log
  * @param override Optional justification for overriding a block
+ * @param explainCommand Optional `becoming check` invocation to suggest on a block
  * @returns MembraneCheckResult indicating whether to proceed and what to log
  */
-function checkMembraneForEpisode(
-  state: State,
-  node: NodeRef,
-  episodeType: EpisodeType,
+function gateThroughMembrane(
+  result: MembraneResult,
+  mutationType: MutationType,
   override?: string,
+  explainCommand?: string,
 ): MembraneCheckResult {
-  const result: MembraneResult = checkEpisodeConstraints(state, {
-    node,
-    episodeType,
-  });
-
   if (result.decision === "block") {
     // Check if override is provided and allowed
     if (override && override.trim().length > 0) {
@@ -59,6 +133,7 @@ function checkMembraneForEpisode(
         console.warn(`Justification: ${override}`);
         return {
           proceed: true,
+          mutationType,
           warningsToLog: [],
           blockOverride: { modelId: result.modelId, justification: override },
         };
@@ -80,6 +155,9 @@ function checkMembraneForEpisode(
         'To override, add: --override "Your justification for proceeding"',
       );
     }
+    if (explainCommand) {
+      console.error(`To see every Model weighed: ${explainCommand}`);
+    }
     process.exit(1);
   }
 
@@ -91,78 +169,214 @@ function checkMembraneForEpisode(
       console.warn(`Warning [${warning.modelId}]: ${warning.statement}`);
     }
 
-    return { proceed: true, warningsToLog };
+    return { proceed: true, mutationType, warningsToLog };
   }
 
-  return { proceed: true, warningsToLog: [] };
+  return { proceed: true, mutationType, warningsToLog: [] };
 }
 
 /**
- * Logs membrane exceptions after a mutation succeeds.
+ * The logException operations recording a gated mutation's block override
+ * and acknowledged warnings.
  */
-async function logMembraneExceptions(
-  state: State,
-  regulator: Regulator,
-  store: JsonStore,
+function membraneExceptionOperations(
   mutationId: string,
   checkResult: MembraneCheckResult,
-): Promise<State> {
-  let currentState = state;
-
-  // Log block override if present
-  if (checkResult.blockOverride) {
-    const exceptionId = crypto.randomUUID();
-    const result = regulator.logException(currentState, {
-      exceptionId,
-      modelId: checkResult.blockOverride.modelId,
-      originalDecision: "block",
-      justification: checkResult.blockOverride.justification,
-      mutationType: "episode",
-      mutationId,
-      createdAt: new Date().toISOString(),
-    });
-    if (result.ok) {
-      currentState = result.value;
-    }
-  }
-
-  // Log warnings as exceptions
-  for (const warning of checkResult.warningsToLog) {
-    const exceptionId = crypto.randomUUID();
-    const result = regulator.logException(currentState, {
-      exceptionId,
+): RegulatorMutation[] {
+  const createdAt = new Date().toISOString();
+  const exceptions = [
+    ...(checkResult.blockOverride
+      ? [
+          {
+            modelId: checkResult.blockOverride.modelId,
+            originalDecision: "block" as const,
+            justification: checkResult.blockOverride.justification,
+          },
+        ]
+      : []),
+    ...checkResult.warningsToLog.map((warning) => ({
       modelId: warning.modelId,
-      originalDecision: "warn",
+      originalDecision: "warn" as const,
       justification: "Acknowledged warning and proceeded",
-      mutationType: "episode",
+    })),
+  ];
+  return exceptions.map((exception) => ({
+    kind: "logException",
+    params: {
+      exceptionId: crypto.randomUUID(),
+      ...exception,
+      mutationType: checkResult.mutationType,
       mutationId,
-      createdAt: new Date().toISOString(),
-    });
-    if (result.ok) {
-      currentState = result.value;
-    }
-  }
+      createdAt,
+    },
+  }));
+}
 
-  // Save if any exceptions were logged
-  if (checkResult.blockOverride || checkResult.warningsToLog.length > 0) {
-    await store.save(currentState);
-  }
+/**
+ * Applies a gated mutation together with its Membrane exceptions as one
+ * batch, so they are saved, journaled and undone as one change.
+ */
+function applyGated(
+  regulator: Regulator,
+  state: State,
+  operation: RegulatorMutation,
+  mutationId: string,
+  checkResult: MembraneCheckResult | null,
+): Result<State> {
+  return regulator.batch(state, [
+    operation,
+    ...(checkResult
+      ? membraneExceptionOperations(mutationId, checkResult)
+      : []),
+  ]);
+}
+
+/**
+ * Creates a save function that uses compare-and-swap against the revision
+ * this command loaded, so a concurrent edit (e.g., from the web app) is
+ * never silently overwritten.
+ *
+ * A conflict exits instead of retrying: membrane checks and output were
+ * based on the State this command loaded, so re-running it is the safe fix.
+ */
+function createSaver(
+  store: StateStore,
+  revision: number,
+): (state: State) => Promise<void> {
+  let expectedRevision = revision;
+  return async (state: State): Promise<void> => {
+    const saved = await store.save(state, { expectedRevision });
+    if (!saved.ok) {
+      const retry =
+        saved.error.kind === "recoveryPending"
+          ? "run 'becoming recover' to review the salvage"
+          : "please re-run the command";
+      console.error(
+        `${describeSaveRejection(saved.error)}. This change was not saved; ${retry}.`,
+      );
+      process.exit(1);
+    }
+    expectedRevision = saved.value;
+  };
+}
 
-  return currentState;
+/**
+ * Loads State named on the command line: a `.json` path is read as a state
+ * file, anything else as a snapshot id.
+ */
+async function loadStateRef(
+  store: StateStore,
+  ref: string,
+): Promise<Result<State>> {
+  return ref.endsWith(".json") ? readStateFile(ref) : store.loadSnapshot(ref);
 }
 
-function printStatus(state: State, node: NodeRef): void {
-  const data = getStatusData(state, node);
-  console.log(formatStatus(data));
+/**
+ * Reads the operations of a `batch` command from a JSON file.
+ */
+async function readBatchFile(
+  file: string,
+): Promise<Result<RegulatorMutation[]>> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { ok: false, error: `Batch file '${file}' not found` };
+    }
+    return { ok: false, error: `Batch file '${file}' is not readable JSON` };
+  }
+  return parseBatchOperations(raw);
 }
 
 /**
- * Result of interpreting an observation, includes both state and membrane context.
+ * Membrane check for one batch operation, or null when the Membrane does not
+ * gate its kind. `before` is the State the batch started from; `after` is
+ * where a closed Episode is looked up, as the batch may have opened it.
  */
-interface InterpretResult {
-  result: Result<State>;
-  episodeId?: string;
-  membraneCheck?: MembraneCheckResult;
+function checkBatchOperation(
+  before: State,
+  after: State,
+  node: NodeRef,
+  operation: RegulatorMutation,
+): {
+  result: MembraneResult;
+  mutationType: MutationType;
+  mutationId: string;
+} | null {
+  switch (operation.kind) {
+    case "openEpisode": {
+      const { params } = operation;
+      return {
+        result: checkEpisodeConstraints(before, {
+          node: params.node,
+          episodeType: params.type,
+        }),
+        mutationType: "episode",
+        mutationId: params.episodeId,
+      };
+    }
+    case "closeEpisode": {
+      const { params } = operation;
+      const episode = after.episodes.find((e) => e.id === params.episodeId);
+      if (!episode) return null;
+      return {
+        result: checkEpisodeCloseConstraints(before, {
+          node: episode.node,
+          episodeId: episode.id,
+          episodeType: episode.type,
+        }),
+        mutationType: "episode",
+        mutationId: episode.id,
+      };
+    }
+    case "createAction": {
+      const { params } = operation;
+      return {
+        result: checkActionConstraints(before, {
+          node: params.node,
+          ...(params.episodeId ? { episodeId: params.episodeId } : {}),
+        }),
+        mutationType: "action",
+        mutationId: params.actionId,
+      };
+    }
+    case "signal": {
+      const { params } = operation;
+      return {
+        result: checkSignalConstraints(before, {
+          node: params.node,
+          variableId: params.variableId,
+          status: params.status,
+        }),
+        mutationType: "signal",
+        mutationId: params.variableId,
+      };
+    }
+    case "createVariable": {
+      const { params } = operation;
+      return {
+        result: checkVariableConstraints(before, { node: params.node }),
+        mutationType: "variable",
+        mutationId: params.variableId,
+      };
+    }
+    case "createNote": {
+      const { params } = operation;
+      return {
+        result: checkNoteConstraints(before, { node }),
+        mutationType: "note",
+        mutationId: params.noteId,
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function printStatus(state: State, node: NodeRef, asOf?: string): void {
+  const data = getStatusData(state, node, asOf);
+  console.log(formatStatus(data, asOf ? { asOf } : undefined));
 }
 
 /**
@@ -173,91 +387,391 @@ interface InterpretResult {
  * "Sensorium never triggers Actions directly" — the CLI does.
  *
  * **Contract:**
- * - Returns: InterpretResult with mutation result and membrane context
+ * - Returns: the State after the mutation and its Membrane exceptions,
+ *   applied as one batch
  * - Parameters: observation (what was sensed), state (current), regulator
  * - Maps observation types to Regulator methods:
  *   - variableProxySignal → signal()
  *   - freeformNote → createNote()
  *   - episodeProposal → openEpisode()
+ * - Every mutation is gated through the Membrane first (observe has no override)
  */
 function interpretObservation(
   observation: Observation,
   state: State,
   regulator: Regulator,
-): InterpretResult {
+): Result<State> {
   switch (observation.type) {
-    case "variableProxySignal":
-      return {
-        result: regulator.signal(state, {
+    case "variableProxySignal": {
+      const membraneCheck = gateThroughMembrane(
+        checkSignalConstraints(state, {
           node: observation.node,
           variableId: observation.variableId,
           status: observation.status,
         }),
-      };
+        "signal",
+      );
+      return applyGated(
+        regulator,
+        state,
+        {
+          kind: "signal",
+          params: {
+            node: observation.node,
+            variableId: observation.variableId,
+            status: observation.status,
+          },
+        },
+        observation.variableId,
+        membraneCheck,
+      );
+    }
 
     case "freeformNote": {
+      const membraneCheck = gateThroughMembrane(
+        checkNoteConstraints(state, { node: observation.node }),
+        "note",
+      );
       const noteId = crypto.randomUUID();
       const createdAt = new Date().toISOString();
-      return {
-        result: regulator.createNote(state, {
-          noteId,
-          content: observation.content,
-          createdAt,
-          ...(observation.tags ? { tags: observation.tags } : {}),
-        }),
-      };
+      return applyGated(
+        regulator,
+        state,
+        {
+          kind: "createNote",
+          params: {
+            noteId,
+            content: observation.content,
+            createdAt,
+            ...(observation.tags ? { tags: observation.tags } : {}),
+          },
+        },
+        noteId,
+        membraneCheck,
+      );
     }
 
     case "episodeProposal": {
-      // Gate through Membrane before opening episode (observe flow has no override)
-      const membraneCheck = checkMembraneForEpisode(
-        state,
-        observation.node,
-        observation.episodeType,
+      const membraneCheck = gateThroughMembrane(
+        checkEpisodeConstraints(state, {
+          node: observation.node,
+          episodeType: observation.episodeType,
+        }),
+        "episode",
       );
 
       const episodeId = crypto.randomUUID();
       const openedAt = new Date().toISOString();
+      const params =
+        observation.episodeType === "Stabilize"
+          ? {
+              episodeId,
+              node: observation.node,
+              type: observation.episodeType,
+              variableId: observation.variableId as string,
+              objective: observation.objective,
+              openedAt,
+            }
+          : {
+              episodeId,
+              node: observation.node,
+              type: observation.episodeType,
+              objective: observation.objective,
+              openedAt,
+            };
 
-      if (observation.episodeType === "Stabilize") {
-        return {
-          result: regulator.openEpisode(state, {
-            episodeId,
-            node: observation.node,
-            type: observation.episodeType,
-            variableId: observation.variableId as string,
-            objective: observation.objective,
-            openedAt,
-          }),
-          episodeId,
-          membraneCheck,
-        };
-      }
-
-      return {
-        result: regulator.openEpisode(state, {
-          episodeId,
-          node: observation.node,
-          type: observation.episodeType,
-          objective: observation.objective,
-          openedAt,
-        }),
+      return applyGated(
+        regulator,
+        state,
+        { kind: "openEpisode", params },
         episodeId,
         membraneCheck,
-      };
+      );
     }
   }
 }
 
-async function main(): Promise<void> {
-  const store = new JsonStore();
-  const regulator = new Regulator();
+/**
+ * Reports lock files and, when asked, clears the ones left by crashed processes.
+ * Locks held by live processes are never removed.
+ */
+async function runDoctor(unlock: boolean): Promise<void> {
+  const locks = [
+    { name: "state", path: getStateLockPath() },
+    { name: "event log", path: getEventLogLockPath() },
+  ];
+
+  const entries: LockReportEntry[] = [];
+  for (const lock of locks) {
+    const status = unlock
+      ? await clearStaleFileLock(lock.path)
+      : await inspectFileLock(lock.path);
+    entries.push({
+      ...lock,
+      status,
+      cleared: unlock && status.state === "stale",
+    });
+  }
+
+  console.log(formatLockReport(entries));
+}
+
+/**
+ * Timebox (in days from openedAt) that runs out `days` whole days after `now`.
+ */
+function timeboxFromNow(openedAt: string, now: string, days: number): number {
+  const elapsed = Date.parse(now) - Date.parse(openedAt);
+  return Math.ceil(elapsed / MS_PER_DAY) + days;
+}
+
+function parseDays(answer: string): number | null {
+  const days = Number(answer);
+  return Number.isInteger(days) && days > 0 ? days : null;
+}
+
+type Ask = (prompt: string) => Promise<string | null>;
+
+/**
+ * Line-by-line prompts on stdin; `ask` resolves null once input ends.
+ * Reading lines through the iterator buffers piped input between prompts.
+ */
+function createPrompt(): { ask: Ask; close: () => void } {
+  const rl = readline.createInterface({ input: process.stdin });
+  const lines = rl[Symbol.asyncIterator]();
+  const ask: Ask = async (prompt) => {
+    process.stdout.write(prompt);
+    const next = await lines.next();
+    return next.done ? null : next.value.trim();
+  };
+  return { ask, close: () => rl.close() };
+}
+
+/**
+ * Asks what closing an episode does with its open actions.
+ * Returns undefined when it has none, null when no valid answer was given.
+ */
+async function askPendingActions(
+  ask: Ask,
+  state: State,
+  episodeId: string,
+): Promise<PendingActionDisposition | undefined | null> {
+  const open = getOpenEpisodeActions(state, episodeId);
+  if (open.length === 0) return undefined;
+
+  console.log(formatOpenActions(open));
+  const choice = await ask("[c]arry over, c[a]ncel or [d]etach them? ");
+  switch (choice?.toLowerCase()) {
+    case "c":
+    case "carry over": {
+      const episode = state.episodes.find((e) => e.id === episodeId);
+      const targets = episode
+        ? getActiveEpisodesByNode(state, episode.node).filter(
+            (e) => e.id !== episodeId,
+          )
+        : [];
+      if (targets.length === 0) {
+        console.error("No other active episode to carry them over to.");
+        return null;
+      }
+      for (const [index, target] of targets.entries()) {
+        console.log(`  ${index + 1}. ${target.objective} (${target.id})`);
+      }
+      const answer = await ask(
+        `Carry over to which episode (1-${targets.length})? `,
+      );
+      const target = targets[Number(answer) - 1];
+      if (!target) {
+        console.error(`Invalid episode '${answer ?? ""}'.`);
+        return null;
+      }
+      return { mode: "carryOver", episodeId: target.id };
+    }
+    case "a":
+    case "cancel": {
+      const reason = await ask("Reason (blank for the default): ");
+      if (reason === null) return null;
+      return { mode: "cancel", ...(reason ? { reason } : {}) };
+    }
+    case "d":
+    case "detach":
+      return { mode: "detach" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Walks overdue episodes one at a time and asks whether to close, extend or
+ * reframe each. Every choice is a Regulator mutation saved before moving on,
+ * so closing still requires a closure note and stopping early keeps earlier
+ * decisions. Closing is gated by the Membrane like `close`: a block asks for
+ * a justification when it can be overridden, and is skipped otherwise.
+ */
+async function runReview(
+  state: State,
+  node: NodeRef,
+  regulator: Regulator,
+  save: (state: State) => Promise<void>,
+): Promise<void> {
+  const now = new Date().toISOString();
+  const overdue = getOverdueEpisodes(state, node, now);
+  if (overdue.length === 0) {
+    console.log("No overdue episodes. Nothing to review.");
+    return;
+  }
+
+  const { ask, close } = createPrompt();
 
-  const state = await store.load();
+  let current = state;
+  try {
+    for (const [index, item] of overdue.entries()) {
+      const { episode } = item;
+      console.log(`\n${formatReviewItem(item, index + 1, overdue.length)}`);
 
+      const choice = await ask("[c]lose, [e]xtend, [r]eframe or [s]kip? ");
+      if (choice === null) break;
+
+      let result: Result<State> | null = null;
+      let done = "";
+      switch (choice.toLowerCase()) {
+        case "c":
+        case "close": {
+          const decision = checkEpisodeCloseConstraints(current, {
+            node: episode.node,
+            episodeId: episode.id,
+            episodeType: episode.type,
+          });
+          let override: string | undefined;
+          if (decision.decision === "block") {
+            console.error(
+              `Blocked by Normative Model [${decision.modelId}]: ${decision.reason}`,
+            );
+            if (!decision.exceptionAllowed) {
+              console.error(
+                "This constraint does not allow exceptions. Skipped.",
+              );
+              continue;
+            }
+            const justification = await ask(
+              "Justification to override (empty to skip): ",
+            );
+            if (justification === null) break;
+            if (justification.trim().length === 0) {
+              console.log("Skipped.");
+              continue;
+            }
+            override = justification;
+          }
+          const membraneCheck = gateThroughMembrane(
+            decision,
+            "episode",
+            override,
+          );
+
+          const note = await ask("Closure note: ");
+          if (note === null) break;
+          const pendingActions = await askPendingActions(
+            ask,
+            current,
+            episode.id,
+          );
+          if (pendingActions === null) {
+            console.log("Skipped.");
+            continue;
+          }
+          result = applyGated(
+            regulator,
+            current,
+            {
+              kind: "closeEpisode",
+              params: {
+                episodeId: episode.id,
+                closedAt: new Date().toISOString(),
+                closureNote: { id: crypto.randomUUID(), content: note },
+                ...(pendingActions ? { pendingActions } : {}),
+              },
+            },
+            episode.id,
+            membraneCheck,
+          );
+          done = "Episode closed.";
+          break;
+        }
+        case "e":
+        case "extend": {
+          const answer = await ask("Extend by how many days from today? ");
+          if (answer === null) break;
+          const days = parseDays(answer);
+          if (days === null) {
+            console.error(`Invalid number of days '${answer}'. Skipped.`);
+            continue;
+          }
+          result = regulator.updateEpisode(current, {
+            episodeId: episode.id,
+            timeboxDays: timeboxFromNow(episode.openedAt, now, days),
+          });
+          done = `Timebox extended by ${days} day(s).`;
+          break;
+        }
+        case "r":
+        case "reframe": {
+          const objective = await ask("New objective: ");
+          if (objective === null) break;
+          const answer = await ask("New timebox in days from today: ");
+          if (answer === null) break;
+          const days = parseDays(answer);
+          if (days === null) {
+            console.error(`Invalid number of days '${answer}'. Skipped.`);
+            continue;
+          }
+          result = regulator.updateEpisode(current, {
+            episodeId: episode.id,
+            objective,
+            timeboxDays: timeboxFromNow(episode.openedAt, now, days),
+          });
+          done = "Episode reframed.";
+          break;
+        }
+        default:
+          console.log("Skipped.");
+          continue;
+      }
+
+      // Input ended partway through a choice
+      if (result === null) break;
+
+      if (!result.ok) {
+        console.error(`${result.error}. Skipped.`);
+        continue;
+      }
+      current = result.value;
+      await save(current);
+      console.log(done);
+    }
+  } finally {
+    close();
+  }
+}
+
+async function main(): Promise<void> {
   // argv: node process args → remove node + script path
   const argv = process.argv.slice(2);
 
+  // Maintenance runs before State is loaded so it works even when loading can't
+  if (argv[0] === "doctor") {
+    const doctor = parseCli(argv);
+    if (doctor.ok && doctor.value.kind === "doctor") {
+      await runDoctor(doctor.value.unlock);
+    }
+    return;
+  }
+
+  const store = createStateStore({ replay: replayJournal });
+  const regulator = new Regulator({ journal: store });
+
+  const { state, revision } = await store.loadWithRevision();
+  const save = createSaver(store, revision);
+
   // Handle "observe" command through the new Observation flow
   if (argv[0] === "observe") {
     const observationResult = parseObservation(argv);
@@ -267,26 +781,14 @@ async function main(): Promise<void> {
     }
 
     const observation = observationResult.value;
-    const interpreted = interpretObservation(observation, state, regulator);
+    const result = interpretObservation(observation, state, regulator);
 
-    if (!interpreted.result.ok) {
-      console.error(interpreted.result.error);
+    if (!result.ok) {
+      console.error(result.error);
       process.exit(1);
     }
 
-    let finalState = interpreted.result.value;
-    await store.save(finalState);
-
-    // Log membrane exceptions if this was an episode proposal
-    if (interpreted.membraneCheck && interpreted.episodeId) {
-      finalState = await logMembraneExceptions(
-        finalState,
-        regulator,
-        store,
-        interpreted.episodeId,
-        interpreted.membraneCheck,
-      );
-    }
+    await save(result.value);
 
     // Confirmation message based on observation type
     switch (observation.type) {
@@ -317,57 +819,539 @@ async function main(): Promise<void> {
   const command = parsed.value;
 
   if (command.kind === "status") {
+    if (command.asOf) {
+      const past = await store.loadAsOf(command.asOf);
+      if (!past.ok) {
+        console.error(past.error);
+        process.exit(1);
+      }
+      printStatus(past.value, command.node, command.asOf);
+      return;
+    }
     printStatus(state, command.node);
     return;
   }
 
+  if (command.kind === "restore") {
+    if (command.mode === "list") {
+      console.log(formatSnapshotList(await store.listSnapshots()));
+      return;
+    }
+
+    const snapshot = await store.loadSnapshot(command.snapshotId);
+    if (!snapshot.ok) {
+      console.error(snapshot.error);
+      process.exit(1);
+    }
+
+    if (command.mode === "diff") {
+      console.log(
+        formatStateDiff(diffStates(state, snapshot.value), {
+          from: "current State",
+          to: `snapshot ${command.snapshotId}`,
+        }),
+      );
+      return;
+    }
+
+    // Recovery replaces State wholesale rather than mutating it, so it goes
+    // straight to Memory as a revision-checked (and journaled) save
+    await save(snapshot.value);
+    console.log(`Restored snapshot ${command.snapshotId}.`);
+    return;
+  }
+
+  if (command.kind === "recover") {
+    if (!command.acknowledge) {
+      console.log(formatRecoveryReport(await store.loadRecovery()));
+      return;
+    }
+
+    const acknowledged = await store.acknowledgeRecovery();
+    if (!acknowledged.ok) {
+      console.error(acknowledged.error);
+      process.exit(1);
+    }
+    console.log(
+      `Salvaged State saved at revision ${acknowledged.value}. Saving resumed.`,
+    );
+    return;
+  }
+
+  if (command.kind === "export") {
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const dir =
+      command.out ??
+      path.join(getConfig().exportDir, `${stamp}-${command.format}`);
+    const files = encodeExport(state, command.format);
+    await writeExport(dir, files);
+    console.log(`Exported ${files.length} file(s) to ${dir}`);
+    return;
+  }
+
+  if (command.kind === "import") {
+    const files = await readExport(command.from, command.format);
+    if (!files.ok) {
+      console.error(files.error);
+      process.exit(1);
+    }
+    const decoded = decodeExport(files.value, command.format);
+    if (!decoded.ok) {
+      console.error(decoded.error);
+      process.exit(1);
+    }
+    const imported = importState(state, decoded.value);
+    if (!imported.ok) {
+      console.error(imported.error);
+      process.exit(1);
+    }
+
+    // Like restore, an import adds entities wholesale rather than through
+    // Regulator mutations, so it goes straight to Memory as a checked save
+    if (!command.dryRun) {
+      await save(imported.value.state);
+    }
+    console.log(formatImportReport(imported.value, { dryRun: command.dryRun }));
+    return;
+  }
+
+  if (command.kind === "merge") {
+    const base = await loadStateRef(store, command.base);
+    if (!base.ok) {
+      console.error(base.error);
+      process.exit(1);
+    }
+    const theirs = await readStateFile(command.theirs);
+    if (!theirs.ok) {
+      console.error(theirs.error);
+      process.exit(1);
+    }
+
+    const merged = mergeStates(
+      base.value,
+      state,
+      theirs.value,
+      command.prefer ? { prefer: command.prefer } : undefined,
+    );
+    const violations = regulator.checkInvariants(merged.state);
+    console.log(
+      formatMergeReport(
+        merged.conflicts,
+        violations,
+        command.prefer ? { prefer: command.prefer } : undefined,
+      ),
+    );
+
+    if (violations.length > 0) {
+      console.error(
+        "Merged State breaks Regulator invariants; nothing was saved. Close the extra episodes on one side and merge again.",
+      );
+      process.exit(1);
+    }
+    if (merged.conflicts.length > 0 && !command.prefer) {
+      console.error(
+        "Nothing was saved. Re-run with --prefer ours or --prefer theirs to resolve the conflicts.",
+      );
+      process.exit(1);
+    }
+    if (command.dryRun) {
+      return;
+    }
+
+    // A merge replaces State wholesale, like restore, as one checked save
+    await save(merged.state);
+    console.log("Merged State saved.");
+    return;
+  }
+
+  if (command.kind === "due") {
+    const due = getDueMeasurements(
+      state,
+      command.node,
+      new Date().toISOString(),
+    );
+    console.log(formatDueMeasurements(command.node, due));
+    return;
+  }
+
+  if (command.kind === "review") {
+    await runReview(state, command.node, regulator, save);
+    return;
+  }
+
+  if (command.kind === "report") {
+    const reports = getEpisodeEffectivenessReport(state, command.node);
+    console.log(formatEpisodeReport(command.node, reports));
+    return;
+  }
+
+  if (command.kind === "history") {
+    const { variableId } = command;
+    let analytics = getStatusAnalytics(
+      state,
+      command.node,
+      new Date().toISOString(),
+    );
+    if (variableId) {
+      analytics = analytics.filter((item) => item.variable.id === variableId);
+      if (analytics.length === 0) {
+        console.error(`Variable '${variableId}' not found`);
+        process.exit(1);
+      }
+    }
+    console.log(
+      formatStatusHistory(
+        command.node,
+        analytics,
+        variableId ? getStatusHistory(state, variableId) : undefined,
+      ),
+    );
+    return;
+  }
+
+  if (command.kind === "batch") {
+    const operations = await readBatchFile(command.file);
+    if (!operations.ok) {
+      console.error(operations.error);
+      process.exit(1);
+    }
+    const result = regulator.batch(state, operations.value);
+    if (!result.ok) {
+      const failed = operations.value[result.index];
+      console.error(
+        `Batch not applied: operation ${result.index} (${failed?.kind}) failed: ${result.error}`,
+      );
+      process.exit(1);
+    }
+
+    // Gate every operation the Membrane covers; batches take no override.
+    // The batch applied first, so each operation's params are known valid.
+    const gated: { mutationId: string; check: MembraneCheckResult }[] = [];
+    for (const operation of operations.value) {
+      const membrane = checkBatchOperation(
+        state,
+        result.value,
+        command.node,
+        operation,
+      );
+      if (membrane) {
+        gated.push({
+          mutationId: membrane.mutationId,
+          check: gateThroughMembrane(membrane.result, membrane.mutationType),
+        });
+      }
+    }
+
+    if (!command.dryRun) {
+      // Re-apply with the exceptions so the batch stays one change
+      const withExceptions = regulator.batch(state, [
+        ...operations.value,
+        ...gated.flatMap(({ mutationId, check }) =>
+          membraneExceptionOperations(mutationId, check),
+        ),
+      ]);
+      if (!withExceptions.ok) {
+        console.error(`Batch not applied: ${withExceptions.error}`);
+        process.exit(1);
+      }
+      await save(withExceptions.value);
+    }
+    console.log(
+      `${command.dryRun ? "Batch would apply" : "Batch applied"}: ${operations.value.length} operation(s)`,
+    );
+    return;
+  }
+
+  if (command.kind === "undo" || command.kind === "redo") {
+    const plan = planRevert(await store.readJournal(), command.kind);
+    if (!plan.ok) {
+      console.error(plan.error);
+      process.exit(1);
+    }
+    const result = regulator.revert(state, plan.value);
+    if (!result.ok) {
+      console.error(result.error);
+      process.exit(1);
+    }
+    await save(result.value);
+    console.log(
+      `${command.kind === "undo" ? "Undid" : "Redid"} ${plan.value.mutationKind}`,
+    );
+    return;
+  }
+
+  if (command.kind === "archived") {
+    console.log(
+      formatArchivedList(
+        command.collection,
+        getArchivedEntities(state, command.collection),
+      ),
+    );
+    return;
+  }
+
+  if (
+    command.kind === "archive" ||
+    command.kind === "unarchive" ||
+    command.kind === "delete"
+  ) {
+    const { collection, id } = command;
+    const result =
+      command.kind === "archive"
+        ? regulator.archiveEntity(state, {
+            collection,
+            id,
+            archivedAt: new Date().toISOString(),
+          })
+        : command.kind === "unarchive"
+          ? regulator.unarchiveEntity(state, { collection, id })
+          : regulator.deleteEntity(state, { collection, id });
+    if (!result.ok) {
+      console.error(result.error);
+      process.exit(1);
+    }
+    await save(result.value);
+    const verb = {
+      archive: "Archived",
+      unarchive: "Unarchived",
+      delete: "Deleted",
+    };
+    console.log(`${verb[command.kind]} ${collection} ${id}`);
+    return;
+  }
+
+  if (command.kind === "diff") {
+    const from = await store.loadSnapshot(command.from);
+    if (!from.ok) {
+      console.error(from.error);
+      process.exit(1);
+    }
+
+    let to = state;
+    if (command.to) {
+      const snapshot = await store.loadSnapshot(command.to);
+      if (!snapshot.ok) {
+        console.error(snapshot.error);
+        process.exit(1);
+      }
+      to = snapshot.value;
+    }
+
+    console.log(
+      formatStateDiff(diffStates(from.value, to), {
+        from: `snapshot ${command.from}`,
+        to: command.to ? `snapshot ${command.to}` : "current State",
+      }),
+    );
+    return;
+  }
+
   if (command.kind === "signal") {
-    const result = regulator.signal(state, {
-      node: command.node,
-      variableId: command.variableId,
-      status: command.status,
-    });
+    const membraneCheck = gateThroughMembrane(
+      checkSignalConstraints(state, {
+        node: command.node,
+        variableId: command.variableId,
+        status: command.status,
+      }),
+      "signal",
+      command.override,
+    );
+
+    const result = applyGated(
+      regulator,
+      state,
+      {
+        kind: "signal",
+        params: {
+          node: command.node,
+          variableId: command.variableId,
+          status: command.status,
+        },
+      },
+      command.variableId,
+      membraneCheck,
+    );
 
     if (!result.ok) {
       console.error(result.error);
       process.exit(1);
     }
 
-    await store.save(result.value);
+    await save(result.value);
     console.log("Signal applied.");
     return;
   }
 
   if (command.kind === "act") {
+    const membraneCheck = gateThroughMembrane(
+      checkActionConstraints(state, {
+        node: command.node,
+        ...(command.episodeId ? { episodeId: command.episodeId } : {}),
+      }),
+      "action",
+      command.override,
+    );
+
     const actionId = crypto.randomUUID();
-    const result = regulator.act(state, {
+    const result = applyGated(
+      regulator,
+      state,
+      {
+        kind: "createAction",
+        params: {
+          actionId,
+          node: command.node,
+          ...(command.episodeId ? { episodeId: command.episodeId } : {}),
+          description: command.description,
+          ...(command.dueDate ? { dueDate: command.dueDate } : {}),
+        },
+      },
       actionId,
+      membraneCheck,
+    );
+
+    if (!result.ok) {
+      console.error(result.error);
+      process.exit(1);
+    }
+
+    await save(result.value);
+    console.log("Action created.");
+    return;
+  }
+
+  if (command.kind === "action") {
+    let result: Result<State>;
+    let message: string;
+    if (command.op === "complete") {
+      result = regulator.completeAction(state, { actionId: command.actionId });
+      message = "Action completed.";
+    } else if (command.op === "cancel") {
+      result = regulator.cancelAction(state, {
+        actionId: command.actionId,
+        reason: command.reason,
+      });
+      message = "Action cancelled.";
+    } else if (command.op === "block") {
+      result = regulator.blockAction(state, {
+        actionId: command.actionId,
+        blockedBy: command.blockedBy,
+        linkId: crypto.randomUUID(),
+      });
+      message = `Action blocked by ${command.blockedBy}.`;
+    } else if (command.op === "unblock") {
+      result = regulator.unblockAction(state, { actionId: command.actionId });
+      message = "Action unblocked.";
+    } else if (command.op === "reschedule") {
+      result = regulator.updateAction(state, {
+        actionId: command.actionId,
+        dueDate: command.dueDate,
+      });
+      message = command.dueDate
+        ? `Action due ${command.dueDate}.`
+        : "Action due date cleared.";
+    } else {
+      result = regulator.reorderActions(state, {
+        episodeId: command.episodeId,
+        actionIds: command.actionIds,
+      });
+      message = "Actions reordered.";
+    }
+
+    if (!result.ok) {
+      console.error(result.error);
+      process.exit(1);
+    }
+
+    await save(result.value);
+    console.log(message);
+    return;
+  }
+
+  if (command.kind === "check") {
+    const explanation = explainMembrane(state, {
+      check: "openEpisode",
       node: command.node,
-      ...(command.episodeId ? { episodeId: command.episodeId } : {}),
-      description: command.description,
+      episodeType: command.episodeType,
+    });
+    console.log(
+      formatMembraneExplanation(
+        `open ${command.episodeType} on ${formatNodeRef(command.node)}`,
+        explanation,
+      ),
+    );
+    // Like the open it stands in for, a block fails
+    if (explanation.result.decision === "block") process.exit(1);
+    return;
+  }
+
+  if (command.kind === "exceptions") {
+    const { modelId, mutationType, from, to } = command;
+    const entries = getExceptionAudit(state, {
+      ...(modelId ? { modelId } : {}),
+      ...(mutationType ? { mutationType } : {}),
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
     });
+    // Rates stay unfiltered except by Model: they judge the norm, not a slice
+    const rates = getExceptionRates(state, new Date().toISOString()).filter(
+      (rate) => !modelId || rate.model.id === modelId,
+    );
+    console.log(formatExceptionAudit(entries, rates));
+    return;
+  }
+
+  if (command.kind === "norms") {
+    if (command.mode === "list") {
+      console.log(
+        formatNormsDueForReview(
+          getNormsDueForReview(state, new Date().toISOString()),
+        ),
+      );
+      return;
+    }
 
+    const { modelId, decision, reason } = command;
+    const noteId = crypto.randomUUID();
+    const result = regulator.reviewModel(state, {
+      modelId,
+      decision,
+      ...(reason ? { reason } : {}),
+      noteId,
+      reviewedAt: new Date().toISOString(),
+    });
     if (!result.ok) {
       console.error(result.error);
       process.exit(1);
     }
 
-    await store.save(result.value);
-    console.log("Action created.");
+    await save(result.value);
+    // The audit Note says what was decided
+    const note = result.value.notes.find((n) => n.id === noteId);
+    console.log(note?.content ?? "Norm reviewed.");
     return;
   }
 
   if (command.kind === "open") {
     // Gate through Membrane before opening episode (with optional override)
-    const membraneCheck = checkMembraneForEpisode(
-      state,
-      command.node,
-      command.type,
+    const membraneCheck = gateThroughMembrane(
+      checkEpisodeConstraints(state, {
+        node: command.node,
+        episodeType: command.type,
+      }),
+      "episode",
       command.override,
+      `becoming check open ${command.type} --node ${formatNodeRef(command.node)}`,
     );
 
     const episodeId = crypto.randomUUID();
     const openedAt = new Date().toISOString();
+    const lineage = command.previousEpisodeId
+      ? {
+          previousEpisodeId: command.previousEpisodeId,
+          linkId: crypto.randomUUID(),
+        }
+      : {};
 
     const params =
       command.type === "Stabilize"
@@ -378,6 +1362,7 @@ async function main(): Promise<void> {
             variableId: command.variableId as string,
             objective: command.objective,
             openedAt,
+            ...lineage,
           }
         : {
             episodeId,
@@ -385,32 +1370,43 @@ async function main(): Promise<void> {
             type: command.type,
             objective: command.objective,
             openedAt,
+            ...lineage,
           };
 
-    const result = regulator.openEpisode(state, params);
+    const result = applyGated(
+      regulator,
+      state,
+      { kind: "openEpisode", params },
+      episodeId,
+      membraneCheck,
+    );
 
     if (!result.ok) {
       console.error(result.error);
       process.exit(1);
     }
 
-    let finalState = result.value;
-    await store.save(finalState);
-
-    // Log membrane exceptions after successful mutation
-    finalState = await logMembraneExceptions(
-      finalState,
-      regulator,
-      store,
-      episodeId,
-      membraneCheck,
-    );
+    await save(result.value);
 
     console.log(`Episode opened: ${episodeId}`);
     return;
   }
 
   if (command.kind === "close") {
+    const episode = state.episodes.find((e) => e.id === command.episodeId);
+    // An unknown episode is left for closeEpisode to report
+    const membraneCheck = episode
+      ? gateThroughMembrane(
+          checkEpisodeCloseConstraints(state, {
+            node: episode.node,
+            episodeId: episode.id,
+            episodeType: episode.type,
+          }),
+          "episode",
+          command.override,
+        )
+      : null;
+
     const closedAt = new Date().toISOString();
     const noteId = crypto.randomUUID();
 
@@ -425,38 +1421,87 @@ async function main(): Promise<void> {
         ]
       : undefined;
 
-    const result = regulator.closeEpisode(state, {
-      episodeId: command.episodeId,
-      closedAt,
-      closureNote: { id: noteId, content: command.noteContent },
-      ...(modelUpdates ? { modelUpdates } : {}),
-    });
+    let pendingActions = command.pendingActions;
+    if (
+      !pendingActions &&
+      getOpenEpisodeActions(state, command.episodeId).length > 0
+    ) {
+      const prompt = createPrompt();
+      try {
+        const answer = await askPendingActions(
+          prompt.ask,
+          state,
+          command.episodeId,
+        );
+        if (!answer) {
+          console.error(
+            "Episode not closed: choose --carry-over <episodeId>, --cancel-pending or --detach-pending",
+          );
+          process.exit(1);
+        }
+        pendingActions = answer;
+      } finally {
+        prompt.close();
+      }
+    }
+
+    const result = applyGated(
+      regulator,
+      state,
+      {
+        kind: "closeEpisode",
+        params: {
+          episodeId: command.episodeId,
+          closedAt,
+          closureNote: { id: noteId, content: command.noteContent },
+          ...(modelUpdates ? { modelUpdates } : {}),
+          ...(pendingActions ? { pendingActions } : {}),
+        },
+      },
+      command.episodeId,
+      membraneCheck,
+    );
 
     if (!result.ok) {
       console.error(result.error);
       process.exit(1);
     }
 
-    await store.save(result.value);
+    await save(result.value);
     console.log(`Episode closed: ${command.episodeId}`);
     return;
   }
 
   if (command.kind === "add-variable") {
+    const membraneCheck = gateThroughMembrane(
+      checkVariableConstraints(state, { node: command.node }),
+      "variable",
+      command.override,
+    );
+
     const variableId = crypto.randomUUID();
-    const result = regulator.createVariable(state, {
+    const result = applyGated(
+      regulator,
+      state,
+      {
+        kind: "createVariable",
+        params: {
+          variableId,
+          node: command.node,
+          name: command.name,
+          status: command.status,
+        },
+      },
       variableId,
-      node: command.node,
-      name: command.name,
-      status: command.status,
-    });
+      membraneCheck,
+    );
 
     if (!result.ok) {
       console.error(result.error);
       process.exit(1);
     }
 
-    await store.save(result.value);
+    await save(result.value);
     console.log(`Variable created: ${command.name}`);
     return;
   }
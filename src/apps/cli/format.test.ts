@@ -1,5 +1,22 @@
 import { describe, it, expect } from "vitest";
-import { formatStatus } from "./format.js";
+import {
+  formatDueMeasurements,
+  formatEpisodeReport,
+  formatExceptionAudit,
+  formatNormsDueForReview,
+  formatImportReport,
+  formatLockReport,
+  formatMergeReport,
+  formatOpenActions,
+  formatRecoveryReport,
+  formatReviewItem,
+  formatArchivedList,
+  formatMembraneExplanation,
+  formatSnapshotList,
+  formatStateDiff,
+  formatStatus,
+  formatStatusHistory,
+} from "./format.js";
 import type { StatusData } from "../../libs/regulator/index.js";
 import type {
   Variable,
@@ -7,6 +24,7 @@ import type {
   Action,
   NodeRef,
 } from "../../libs/memory/index.js";
+import { createEmptyState, diffStates } from "../../libs/memory/index.js";
 
 const testNode: NodeRef = { type: "Personal", id: "personal" };
 
@@ -29,6 +47,15 @@ describe("formatStatus", () => {
       expect(result).toContain("becoming status Org:myorg");
       expect(result).toContain("Silence is Success (baseline).");
     });
+
+    it("marks historical views in the header", () => {
+      const data: StatusData = { mode: "baseline", node: testNode };
+      const result = formatStatus(data, { asOf: "2026-01-06T00:00:00.000Z" });
+
+      expect(result).toBe(
+        "becoming status Personal:personal (as of 2026-01-06T00:00:00.000Z)\nSilence is Success (baseline).",
+      );
+    });
   });
 
   describe("active mode", () => {
@@ -62,6 +89,7 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [baseEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -75,6 +103,7 @@ describe("formatStatus", () => {
         variables: [baseVariable],
         episodes: [baseEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -89,6 +118,7 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [baseEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -103,6 +133,7 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [baseEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -126,6 +157,7 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [stabilizeEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -139,11 +171,27 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [baseEpisode],
         actions: [baseAction],
+        overdue: [],
       };
       const result = formatStatus(data);
 
       expect(result).toContain("Pending Actions:");
-      expect(result).toContain("- [ep1] Read the docs");
+      expect(result).toContain("- [ep1] Read the docs (a1)");
+    });
+
+    it("shows an action's due date", () => {
+      const data: StatusData = {
+        mode: "active",
+        node: testNode,
+        variables: [],
+        episodes: [baseEpisode],
+        actions: [{ ...baseAction, dueDate: "2026-01-05" }],
+        overdue: [],
+      };
+
+      expect(formatStatus(data)).toContain(
+        "- [ep1] Read the docs (a1, due 2026-01-05)",
+      );
     });
 
     it("displays (none) when no pending actions exist", () => {
@@ -153,6 +201,7 @@ describe("formatStatus", () => {
         variables: [],
         episodes: [baseEpisode],
         actions: [],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -189,6 +238,7 @@ describe("formatStatus", () => {
         variables: [baseVariable, variable2],
         episodes: [baseEpisode, episode2],
         actions: [baseAction, action2],
+        overdue: [],
       };
       const result = formatStatus(data);
 
@@ -204,5 +254,810 @@ describe("formatStatus", () => {
       expect(result).toContain("- [ep1] Read the docs");
       expect(result).toContain("- [ep2] Take a break");
     });
+
+    it("omits the Overdue section when nothing is past its timebox", () => {
+      const data: StatusData = {
+        mode: "active",
+        node: testNode,
+        variables: [],
+        episodes: [baseEpisode],
+        actions: [],
+        overdue: [],
+      };
+
+      expect(formatStatus(data)).not.toContain("Overdue:");
+    });
+
+    it("displays Overdue episodes with due date and days overdue", () => {
+      const timeboxed: Episode = { ...baseEpisode, timeboxDays: 7 };
+      const data: StatusData = {
+        mode: "active",
+        node: testNode,
+        variables: [],
+        episodes: [timeboxed],
+        actions: [],
+        overdue: [
+          {
+            episode: timeboxed,
+            dueAt: "2026-01-08T00:00:00.000Z",
+            daysOverdue: 3,
+          },
+        ],
+      };
+      const result = formatStatus(data);
+
+      expect(result).toContain("Overdue:");
+      expect(result).toContain(
+        "- ep1: Learn TypeScript patterns (due 2026-01-08, 3 days overdue)",
+      );
+      expect(result).toContain("becoming review");
+    });
+  });
+});
+
+describe("formatDueMeasurements", () => {
+  const sleep: Variable = {
+    id: "v1",
+    node: testNode,
+    name: "Sleep",
+    status: "Low",
+    measurementCadence: "daily",
+  };
+
+  it("is quiet when nothing is due", () => {
+    expect(formatDueMeasurements(testNode, [])).toBe(
+      "becoming due Personal:personal\nNothing to measure today.",
+    );
+  });
+
+  it("separates overdue from due today and names proxies to log", () => {
+    const result = formatDueMeasurements(testNode, [
+      {
+        variable: sleep,
+        cadence: "daily",
+        proxies: [
+          {
+            id: "p1",
+            variableId: "v1",
+            name: "Sleep hours",
+            valueType: "numeric",
+          },
+        ],
+        lastMeasuredAt: "2026-01-01T07:00:00.000Z",
+        dueOn: "2026-01-02",
+        status: "overdue",
+        daysOverdue: 2,
+      },
+      {
+        variable: { ...sleep, id: "v2", name: "Focus" },
+        cadence: "weekly",
+        proxies: [],
+        lastMeasuredAt: null,
+        dueOn: null,
+        status: "due",
+        daysOverdue: 0,
+      },
+    ]);
+
+    expect(result).toBe(
+      [
+        "becoming due Personal:personal",
+        "",
+        "Overdue:",
+        "  - v1: Sleep (daily) — 2 days overdue, last measured 2026-01-01 · log Sleep hours",
+        "",
+        "Due today:",
+        "  - v2: Focus (weekly) — never measured",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatStatusHistory", () => {
+  const sleep: Variable = {
+    id: "v1",
+    node: testNode,
+    name: "Sleep",
+    status: "InRange",
+  };
+  const noTime = { Low: 0, InRange: 0, High: 0, Unknown: 0 };
+
+  it("summarises time in status and excursions per Variable", () => {
+    const result = formatStatusHistory(testNode, [
+      {
+        variable: sleep,
+        trackedSince: "2025-01-01T00:00:00.000Z",
+        daysInStatus: { ...noTime, Low: 4, InRange: 6.5 },
+        excursions: [
+          {
+            status: "Low",
+            startedAt: "2025-01-03T00:00:00.000Z",
+            endedAt: "2025-01-07T00:00:00.000Z",
+            days: 4,
+          },
+        ],
+        meanDaysToInRange: 4,
+        excursionsPerQuarter: { "2025-Q1": 1 },
+      },
+      {
+        variable: { ...sleep, id: "v2", name: "Focus" },
+        trackedSince: null,
+        daysInStatus: noTime,
+        excursions: [],
+        meanDaysToInRange: null,
+        excursionsPerQuarter: {},
+      },
+    ]);
+
+    expect(result).toBe(
+      [
+        "becoming history Personal:personal",
+        "",
+        "Sleep (v1) — tracked since 2025-01-01",
+        "  Time in status: Low 4.0d, InRange 6.5d",
+        "  Back to InRange: 4.0d on average (1 excursion(s))",
+        "  Excursions per quarter: 2025-Q1 1",
+        "",
+        "Focus (v2) — no status changes recorded",
+      ].join("\n"),
+    );
+  });
+
+  it("lists one Variable's changes with source and reason", () => {
+    const result = formatStatusHistory(
+      testNode,
+      [
+        {
+          variable: sleep,
+          trackedSince: "2025-01-03T00:00:00.000Z",
+          daysInStatus: { ...noTime, Low: 2 },
+          excursions: [],
+          meanDaysToInRange: null,
+          excursionsPerQuarter: {},
+        },
+      ],
+      [
+        {
+          id: "c1",
+          variableId: "v1",
+          from: "InRange",
+          to: "Low",
+          at: "2025-01-03T00:00:00.000Z",
+          source: "manual",
+          reason: "Bad week",
+        },
+      ],
+    );
+
+    expect(result).toContain("Back to InRange: no completed excursions");
+    expect(result).toContain(
+      "Changes:\n  2025-01-03 InRange → Low (manual) — Bad week",
+    );
+  });
+});
+
+describe("formatEpisodeReport", () => {
+  const sleep: Variable = {
+    id: "v1",
+    node: testNode,
+    name: "Sleep",
+    status: "InRange",
+  };
+  const episode: Episode = {
+    id: "e1",
+    node: testNode,
+    type: "Stabilize",
+    variableId: "v1",
+    objective: "Sleep by 23:00",
+    status: "Closed",
+    openedAt: "2025-01-01T00:00:00.000Z",
+    closedAt: "2025-01-08T00:00:00.000Z",
+    timeboxDays: 5,
+  };
+
+  it("is quiet when no Stabilize episode has closed", () => {
+    expect(formatEpisodeReport(testNode, [])).toBe(
+      "becoming report episodes Personal:personal\nNo closed Stabilize episodes.",
+    );
+  });
+
+  it("shows the outcome, timebox, actions and proxy trends", () => {
+    const result = formatEpisodeReport(testNode, [
+      {
+        episode,
+        variable: sleep,
+        statusAtOpen: "Low",
+        statusAtClose: "InRange",
+        restored: true,
+        trends: [
+          {
+            proxy: {
+              id: "p1",
+              variableId: "v1",
+              name: "Sleep hours",
+              valueType: "numeric",
+              unit: "hours",
+            },
+            readings: [
+              {
+                id: "r1",
+                proxyId: "p1",
+                value: { type: "numeric", value: 6 },
+                recordedAt: "2025-01-02T00:00:00.000Z",
+              },
+              {
+                id: "r2",
+                proxyId: "p1",
+                value: { type: "numeric", value: 7.5 },
+                recordedAt: "2025-01-07T00:00:00.000Z",
+              },
+            ],
+            change: 1.5,
+          },
+          {
+            proxy: {
+              id: "p2",
+              variableId: "v1",
+              name: "Rested",
+              valueType: "boolean",
+            },
+            readings: [],
+            change: null,
+          },
+        ],
+        actionsDone: 2,
+        actionsPending: 1,
+        durationDays: 7,
+        timeboxDays: 5,
+        withinTimebox: false,
+      },
+    ]);
+
+    expect(result).toBe(
+      [
+        "becoming report episodes Personal:personal",
+        "Restored 1 of 1 closed Stabilize episode(s) to InRange.",
+        "",
+        "e1: Sleep by 23:00 [Sleep]",
+        "  Variable: Low → InRange (restored)",
+        "  Duration: 7.0d, timebox 5d (over)",
+        "  Actions: 2 done, 1 left pending",
+        "  Sleep hours: 6 → 7.5 (+1.5 hours, 2 readings)",
+        "  Rested: no readings",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatReviewItem", () => {
+  it("shows the episode with its timebox and how late it is", () => {
+    const result = formatReviewItem(
+      {
+        episode: {
+          id: "ep1",
+          node: { type: "Personal", id: "personal" },
+          type: "Stabilize",
+          variableId: "v1",
+          objective: "Sleep by 23:00",
+          status: "Active",
+          openedAt: "2026-01-01T00:00:00.000Z",
+          timeboxDays: 7,
+        },
+        dueAt: "2026-01-08T00:00:00.000Z",
+        daysOverdue: 1,
+      },
+      2,
+      3,
+    );
+
+    expect(result).toBe(
+      [
+        "[2/3] ep1: Stabilize [v1] — Sleep by 23:00",
+        "  Opened 2026-01-01, timebox 7 days, due 2026-01-08 (1 day overdue)",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatOpenActions", () => {
+  it("lists the actions a closing episode still has, flagging blocked ones", () => {
+    const result = formatOpenActions([
+      { id: "a1", description: "Buy blinds", status: "Pending" },
+      { id: "a2", description: "Ask landlord", status: "Blocked" },
+    ]);
+
+    expect(result).toBe(
+      [
+        "This episode has 2 pending action(s):",
+        "  - Buy blinds (a1)",
+        "  - Ask landlord [Blocked] (a2)",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatLockReport", () => {
+  const holder = { pid: 42, createdAt: "2025-01-01T00:00:00.000Z" };
+
+  it("lists every lock with its state", () => {
+    const result = formatLockReport([
+      {
+        name: "state",
+        path: "data/state.json.lock",
+        status: { state: "free" },
+        cleared: false,
+      },
+      {
+        name: "event log",
+        path: "data/events.jsonl.lock",
+        status: { state: "held", info: holder },
+        cleared: false,
+      },
+    ]);
+
+    expect(result).toContain("state: free [data/state.json.lock]");
+    expect(result).toContain(
+      "event log: held by pid 42 since 2025-01-01T00:00:00.000Z",
+    );
+    expect(result).not.toContain("--unlock");
+  });
+
+  it("suggests --unlock for stale locks that were not cleared", () => {
+    const result = formatLockReport([
+      {
+        name: "state",
+        path: "data/state.json.lock",
+        status: { state: "stale", info: holder, reason: "dead-process" },
+        cleared: false,
+      },
+    ]);
+
+    expect(result).toContain("state: stale (dead-process, pid 42");
+    expect(result).toContain("becoming doctor --unlock");
+  });
+
+  it("reports cleared locks", () => {
+    const result = formatLockReport([
+      {
+        name: "state",
+        path: "data/state.json.lock",
+        status: { state: "stale", info: null, reason: "expired" },
+        cleared: true,
+      },
+    ]);
+
+    expect(result).toContain("state: cleared stale lock (expired)");
+    expect(result).not.toContain("Run `becoming doctor --unlock`");
+  });
+});
+
+describe("formatImportReport", () => {
+  const added = {
+    variables: 0,
+    episodes: 0,
+    actions: 0,
+    notes: 2,
+    models: 0,
+    links: 0,
+    exceptions: 0,
+    proxies: 0,
+    proxyReadings: 5,
+    statusChanges: 0,
+  };
+
+  it("lists added counts and id collisions", () => {
+    const result = formatImportReport({
+      added,
+      unchanged: 1,
+      collisions: [{ collection: "notes", id: "n1" }],
+    });
+
+    expect(result).toContain("Imported 7 new entities.");
+    expect(result).toContain("  notes: 2");
+    expect(result).toContain("  proxyReadings: 5");
+    expect(result).not.toContain("variables");
+    expect(result).toContain("Already present (identical): 1");
+    expect(result).toContain("ID collisions (1)");
+    expect(result).toContain("  - notes n1");
+  });
+
+  it("marks a dry run as not saved", () => {
+    const result = formatImportReport(
+      { added, unchanged: 0, collisions: [] },
+      { dryRun: true },
+    );
+    expect(result).toContain("Dry run: would import 7 new entities");
+    expect(result).not.toContain("collisions");
+  });
+});
+
+describe("formatMergeReport", () => {
+  it("says so when the merge is clean", () => {
+    expect(formatMergeReport([], [])).toBe("Merged cleanly: no conflicts.");
+  });
+
+  it("lists each kind of conflict and invariant violation", () => {
+    const result = formatMergeReport(
+      [
+        {
+          kind: "field",
+          collection: "variables",
+          id: "v1",
+          label: "Sleep",
+          field: "status",
+          base: "InRange",
+          ours: "Low",
+          theirs: "High",
+        },
+        {
+          kind: "deleteModify",
+          collection: "notes",
+          id: "n1",
+          label: "Idea",
+          deletedBy: "theirs",
+        },
+        {
+          kind: "lifecycle",
+          collection: "episodes",
+          id: "e1",
+          label: "Rest",
+          closedBy: "ours",
+          reason: "Closed on ours but edited on theirs",
+        },
+        {
+          kind: "integrity",
+          collection: "actions",
+          id: "a1",
+          reason: "References a missing or quarantined entity",
+        },
+      ],
+      [
+        {
+          rule: "maxActiveExplorePerNode",
+          node: { type: "Personal", id: "personal" },
+          episodeIds: ["e2", "e3"],
+          message: "Node 'Personal:personal' has 2 active Explore episodes",
+        },
+      ],
+      { prefer: "ours" },
+    );
+
+    expect(result).toContain("Conflicts (4), resolved to ours:");
+    expect(result).toContain("  ~ variables v1 (Sleep) status:");
+    expect(result).toContain("base InRange | ours Low | theirs High");
+    expect(result).toContain("notes n1 (Idea): removed on theirs");
+    expect(result).toContain("  ! episodes e1 (Rest): Closed on ours");
+    expect(result).toContain("  x actions a1: References a missing");
+    expect(result).toContain("Invariant violations (1):");
+    expect(result).toContain("[maxActiveExplorePerNode]");
+  });
+});
+
+describe("formatRecoveryReport", () => {
+  it("says so when no recovery is pending", () => {
+    expect(formatRecoveryReport(null)).toContain("No recovery pending");
+  });
+
+  it("lists kept counts, quarantined entities and how to acknowledge", () => {
+    const result = formatRecoveryReport({
+      createdAt: "2025-01-06T09:30:00.000Z",
+      backupPath: "data/state.json.corrupt-2025",
+      reportPath: "data/state.json.recovery.json",
+      kept: {
+        variables: 2,
+        episodes: 1,
+        actions: 0,
+        notes: 3,
+        models: 0,
+        links: 0,
+        exceptions: 0,
+        proxies: 0,
+        proxyReadings: 0,
+        statusChanges: 0,
+      },
+      quarantined: [
+        {
+          collection: "episodes",
+          index: 1,
+          id: "e2",
+          reason: "Fails validation",
+          entity: {},
+        },
+        {
+          collection: "links",
+          index: -1,
+          id: null,
+          reason: "Collection is missing or not an array",
+          entity: null,
+        },
+      ],
+    });
+
+    expect(result).toContain("Original file: data/state.json.corrupt-2025");
+    expect(result).toContain("  variables: 2");
+    expect(result).toContain("Quarantined (2):");
+    expect(result).toContain("  - episodes[1] e2: Fails validation");
+    expect(result).toContain(
+      "  - links: Collection is missing or not an array",
+    );
+    expect(result).toContain("becoming recover --acknowledge");
+  });
+});
+
+describe("formatSnapshotList", () => {
+  it("explains when there are no snapshots", () => {
+    expect(formatSnapshotList([])).toContain("No snapshots yet");
+  });
+
+  it("lists snapshots with revision and time, plus next steps", () => {
+    const result = formatSnapshotList([
+      {
+        id: "2025-01-06T09-30-00-000Z-r42",
+        createdAt: "2025-01-06T09:30:00.000Z",
+        revision: 42,
+      },
+    ]);
+
+    expect(result).toContain(
+      "2025-01-06T09-30-00-000Z-r42  revision 42, taken 2025-01-06T09:30:00.000Z",
+    );
+    expect(result).toContain("becoming restore --diff <id>");
+    expect(result).toContain("becoming restore --id <id>");
+  });
+});
+
+describe("formatStateDiff", () => {
+  const sides = { from: "current State", to: "snapshot s1" };
+
+  it("reports no differences", () => {
+    const state = createEmptyState();
+    expect(formatStateDiff(diffStates(state, state), sides)).toBe(
+      "No differences between current State and snapshot s1.",
+    );
+  });
+
+  it("lists only collections that differ, with field-level changes", () => {
+    const agency: Variable = {
+      id: "v1",
+      node: testNode,
+      name: "Agency",
+      status: "InRange",
+    };
+    const current = { ...createEmptyState(), variables: [agency] };
+    const snapshot = {
+      ...current,
+      variables: [
+        { ...agency, status: "Low" as const },
+        { id: "v2", node: testNode, name: "Rest", status: "Unknown" as const },
+      ],
+    };
+
+    const result = formatStateDiff(diffStates(current, snapshot), sides);
+
+    expect(result).toBe(
+      [
+        "Changes from current State to snapshot s1:",
+        "",
+        "variables:",
+        "  + v2: Rest",
+        "  ~ v1: Agency",
+        "      status: InRange → Low",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatArchivedList", () => {
+  it("explains when nothing is archived", () => {
+    expect(formatArchivedList("models", [])).toBe("No archived models.");
+  });
+
+  it("lists each entity by what it was, with how to restore it", () => {
+    expect(
+      formatArchivedList("variables", [
+        {
+          id: "v1",
+          node: testNode,
+          name: "Sleep",
+          status: "InRange",
+          archivedAt: "2025-01-06T09:30:00.000Z",
+        },
+      ]),
+    ).toBe(
+      [
+        "Archived variables:",
+        "  - Sleep (v1), archived 2025-01-06T09:30:00.000Z",
+        "",
+        "Restore: becoming unarchive variables <id>",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("formatMembraneExplanation", () => {
+  it("says why each Model applies or is skipped, then the decision", () => {
+    const output = formatMembraneExplanation("open Explore on Org:acme", {
+      candidates: [
+        {
+          modelId: "m1",
+          statement: "No Explore during close",
+          scope: "org",
+          scopeMatched: true,
+          conditionMatched: true,
+          enforcement: "block",
+          expired: false,
+          exceptionAllowed: false,
+          exceptionPolicy: "default",
+          applies: true,
+        },
+        {
+          modelId: "m2",
+          statement: "Rest first",
+          scope: "personal",
+          scopeMatched: false,
+          conditionMatched: true,
+          enforcement: "warn",
+          expired: false,
+          exceptionAllowed: true,
+          exceptionPolicy: "default",
+          applies: false,
+        },
+        {
+          modelId: "m3",
+          statement: "Not at weekends",
+          scope: "domain",
+          scopeMatched: true,
+          conditionMatched: false,
+          enforcement: "warn",
+          expired: false,
+          exceptionAllowed: true,
+          exceptionPolicy: "model",
+          applies: false,
+        },
+        {
+          modelId: "m4",
+          statement: "No Explore this quarter",
+          scope: "org",
+          scopeMatched: true,
+          conditionMatched: true,
+          enforcement: "block",
+          expired: true,
+          exceptionAllowed: false,
+          exceptionPolicy: "default",
+          applies: false,
+        },
+      ],
+      result: {
+        decision: "block",
+        reason: "No Explore during close",
+        modelId: "m1",
+        exceptionAllowed: false,
+      },
+    });
+
+    expect(output).toBe(
+      [
+        "Membrane check: open Explore on Org:acme",
+        "",
+        "  [m1] No Explore during close",
+        "      applies: scope org, block, exceptions not allowed (default for block)",
+        "  [m2] Rest first",
+        "      skipped: scope personal does not match",
+        "  [m3] Not at weekends",
+        "      skipped: condition does not hold",
+        "  [m4] No Explore this quarter",
+        "      skipped: expired, enforced as none until renewed",
+        "",
+        "Decision: block by [m1], no override",
+      ].join("\n"),
+    );
+  });
+
+  it("allows when there are no Normative Models", () => {
+    expect(
+      formatMembraneExplanation("open Stabilize on Personal:personal", {
+        candidates: [],
+        result: { decision: "allow" },
+      }),
+    ).toBe(
+      "Membrane check: open Stabilize on Personal:personal\n\n  No Normative Models.\n\nDecision: allow",
+    );
+  });
+});
+
+describe("formatExceptionAudit", () => {
+  it("lists each exception with its justification, then flags frequent ones", () => {
+    const model = {
+      id: "m1",
+      type: "Normative" as const,
+      statement: "Keep actions few",
+      enforcement: "warn" as const,
+    };
+    const output = formatExceptionAudit(
+      [
+        {
+          exception: {
+            id: "x1",
+            modelId: "m1",
+            originalDecision: "warn",
+            justification: "Deadline week",
+            mutationType: "action",
+            mutationId: "a1",
+            createdAt: "2025-01-25T00:00:00.000Z",
+          },
+          model,
+          target: { collection: "actions", id: "a1", label: "Walk" },
+        },
+      ],
+      [
+        {
+          model,
+          warnAcknowledgments: 4,
+          blockOverrides: 0,
+          perWeek: 1,
+          flagged: true,
+          demoteTo: "none",
+        },
+      ],
+    );
+
+    expect(output).toBe(
+      [
+        "Exceptions (1):",
+        "  - 2025-01-25T00:00:00.000Z  warn acknowledgment of [m1] Keep actions few",
+        '      action -> actions a1 "Walk"',
+        "      Justification: Deadline week",
+        "",
+        "Exception rates, last 28 days:",
+        "  [m1] Keep actions few",
+        "      4 warn acknowledgment(s), 0 block override(s), 1.0/week",
+        "      Excepted weekly or more: consider revising it or demoting it to none (updateModel)",
+      ].join("\n"),
+    );
+    expect(formatExceptionAudit([], [])).toBe(
+      "Exceptions (0):\n  (none)\n\nException rates, last 28 days:\n  (none)",
+    );
+  });
+});
+
+describe("formatNormsDueForReview", () => {
+  it("lists due norms with why they are due and how to decide them", () => {
+    const output = formatNormsDueForReview([
+      {
+        model: {
+          id: "m1",
+          type: "Normative",
+          statement: "No new projects",
+          enforcement: "block",
+          expiresOn: "2025-03-01",
+        },
+        reason: "expired",
+        dueOn: "2025-03-01",
+      },
+      {
+        model: {
+          id: "m2",
+          type: "Normative",
+          statement: "Keep actions few",
+          enforcement: "warn",
+          reviewOn: "2025-04-01",
+        },
+        reason: "review",
+        dueOn: "2025-04-01",
+      },
+    ]);
+
+    expect(output).toBe(
+      [
+        "Norms due for review (2):",
+        "  - [m1] No new projects (block): expired 2025-03-01, enforced as none until renewed",
+        "  - [m2] Keep actions few (warn): review due 2025-04-01",
+        "",
+        "Decide one: becoming norms review <modelId> --renew [--expires-on YYYY-MM-DD] | --enforcement <level> | --retire",
+      ].join("\n"),
+    );
+    expect(formatNormsDueForReview([])).toBe(
+      "Norms due for review (0):\n  (none)",
+    );
   });
 });
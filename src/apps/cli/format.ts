@@ -1,8 +1,65 @@
 // Pure formatting functions for CLI output
 // All functions are pure: (Data) => String
 
-import { formatNodeRef } from "../../libs/memory/index.js";
-import type { StatusData } from "../../libs/regulator/index.js";
+import {
+  ACTION_STATUSES,
+  formatDiffValue,
+  formatNodeRef,
+  isEmptyDiff,
+  STATE_COLLECTIONS,
+} from "../../libs/memory/index.js";
+import type {
+  Action,
+  ArchivableCollection,
+  ImportReport,
+  MergeConflict,
+  MergeSide,
+  NodeRef,
+  ProxyValue,
+  RecoveryReport,
+  SnapshotInfo,
+  State,
+  StateDiff,
+  StatusChange,
+} from "../../libs/memory/index.js";
+import { EXCEPTION_RATE_WINDOW_DAYS } from "../../libs/regulator/index.js";
+import type {
+  DueMeasurement,
+  EpisodeEffectiveness,
+  ExceptionAuditEntry,
+  InvariantViolation,
+  ModelExceptionRate,
+  NormReview,
+  OverdueEpisode,
+  ProxyTrend,
+  StatusData,
+  VariableStatusAnalytics,
+} from "../../libs/regulator/index.js";
+import type {
+  MembraneExplanation,
+  MembraneResult,
+  ModelExplanation,
+} from "../../libs/membrane/index.js";
+import type { FileLockStatus } from "../../libs/shared/index.js";
+
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
+
+/**
+ * One lock inspected by `becoming doctor`.
+ */
+export interface LockReportEntry {
+  /** Human label for what the lock guards (e.g. "state") */
+  name: string;
+  path: string;
+  status: FileLockStatus;
+  /** True when the stale lock was removed */
+  cleared: boolean;
+}
+
+function formatDaysOverdue(days: number): string {
+  if (days === 0) return "overdue today";
+  return `${days} day${days === 1 ? "" : "s"} overdue`;
+}
 
 /**
  * Formats status data for CLI display.
@@ -13,10 +70,16 @@ import type { StatusData } from "../../libs/regulator/index.js";
  *
  * **Contract:**
  * - Baseline mode: Returns minimal 2-line output
- * - Active mode: Returns header + Variables + Episodes + Actions sections
+ * - Active mode: Returns header + Variables + Episodes + Actions sections,
+ *   plus an Overdue section when any episode is past its timebox
+ * - asOf: When given, the header marks the output as a historical view
  */
-export function formatStatus(data: StatusData): string {
-  const header = `becoming status ${formatNodeRef(data.node)}`;
+export function formatStatus(
+  data: StatusData,
+  options?: { asOf?: string },
+): string {
+  const asOf = options?.asOf ? ` (as of ${options.asOf})` : "";
+  const header = `becoming status ${formatNodeRef(data.node)}${asOf}`;
 
   if (data.mode === "baseline") {
     return `${header}\nSilence is Success (baseline).`;
@@ -43,15 +106,661 @@ export function formatStatus(data: StatusData): string {
   }
   lines.push("");
 
+  // Overdue section (only when a timebox has run out)
+  if (data.overdue.length > 0) {
+    lines.push("Overdue:");
+    for (const o of data.overdue) {
+      lines.push(
+        `  - ${o.episode.id}: ${o.episode.objective} (due ${o.dueAt.slice(0, 10)}, ${formatDaysOverdue(o.daysOverdue)})`,
+      );
+    }
+    lines.push("  Run `becoming review` to close, extend or reframe.");
+    lines.push("");
+  }
+
   // Actions section (episode-scoped pending actions only)
   lines.push("Pending Actions:");
   if (data.actions.length === 0) {
     lines.push("  (none)");
   } else {
     for (const a of data.actions) {
-      lines.push(`  - [${a.episodeId}] ${a.description}`);
+      const due = a.dueDate ? `, due ${a.dueDate}` : "";
+      lines.push(`  - [${a.episodeId}] ${a.description} (${a.id}${due})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function formatDueMeasurement(item: DueMeasurement): string {
+  const { variable } = item;
+  const when =
+    item.lastMeasuredAt === null
+      ? "never measured"
+      : `last measured ${item.lastMeasuredAt.slice(0, 10)}`;
+  const lateness =
+    item.status === "overdue"
+      ? `${item.daysOverdue} day${item.daysOverdue === 1 ? "" : "s"} overdue, `
+      : "";
+  const proxies =
+    item.proxies.length > 0
+      ? ` · log ${item.proxies.map((p) => p.name).join(", ")}`
+      : "";
+  return `  - ${variable.id}: ${variable.name} (${item.cadence}) — ${lateness}${when}${proxies}`;
+}
+
+/**
+ * Formats the measurement schedule for `becoming due`.
+ * Pure function: takes DueMeasurement[] (already sorted) and returns formatted string.
+ *
+ * **Contract:**
+ * - Overdue and due-today Variables in separate sections, each with its
+ *   cadence, last measurement and the proxies that can be logged
+ * - Nothing due: a single quiet line
+ */
+export function formatDueMeasurements(
+  node: NodeRef,
+  due: readonly DueMeasurement[],
+): string {
+  const header = `becoming due ${formatNodeRef(node)}`;
+  if (due.length === 0) {
+    return `${header}\nNothing to measure today.`;
+  }
+
+  const lines: string[] = [header];
+  const overdue = due.filter((item) => item.status === "overdue");
+  const dueToday = due.filter((item) => item.status === "due");
+  if (overdue.length > 0) {
+    lines.push("", "Overdue:", ...overdue.map(formatDueMeasurement));
+  }
+  if (dueToday.length > 0) {
+    lines.push("", "Due today:", ...dueToday.map(formatDueMeasurement));
+  }
+  return lines.join("\n");
+}
+
+function formatDays(days: number): string {
+  return `${days.toFixed(1)}d`;
+}
+
+function formatVariableAnalytics(item: VariableStatusAnalytics): string[] {
+  const { variable } = item;
+  if (item.trackedSince === null) {
+    return [`${variable.name} (${variable.id}) — no status changes recorded`];
+  }
+
+  const timeInStatus = Object.entries(item.daysInStatus)
+    .filter(([, days]) => days > 0)
+    .map(([status, days]) => `${status} ${formatDays(days)}`);
+  const ended = item.excursions.filter((e) => e.endedAt !== null).length;
+  const quarters = Object.entries(item.excursionsPerQuarter).map(
+    ([quarter, count]) => `${quarter} ${count}`,
+  );
+
+  return [
+    `${variable.name} (${variable.id}) — tracked since ${item.trackedSince.slice(0, 10)}`,
+    `  Time in status: ${timeInStatus.length > 0 ? timeInStatus.join(", ") : "(none)"}`,
+    item.meanDaysToInRange === null
+      ? "  Back to InRange: no completed excursions"
+      : `  Back to InRange: ${formatDays(item.meanDaysToInRange)} on average (${ended} excursion(s))`,
+    `  Excursions per quarter: ${quarters.length > 0 ? quarters.join(", ") : "(none)"}`,
+  ];
+}
+
+/**
+ * Formats status history analytics for `becoming history`.
+ * Pure function: takes analytics (and optionally one Variable's changes).
+ *
+ * **Contract:**
+ * - One block per Variable: time in each status, mean time back to InRange
+ *   and excursions per quarter; Variables without history get one line
+ * - With `changes`, also lists each change with its date, source and reason
+ */
+export function formatStatusHistory(
+  node: NodeRef,
+  analytics: readonly VariableStatusAnalytics[],
+  changes?: readonly StatusChange[],
+): string {
+  const header = `becoming history ${formatNodeRef(node)}`;
+  if (analytics.length === 0) {
+    return `${header}
+No variables.`;
+  }
+
+  const lines: string[] = [header];
+  for (const item of analytics) {
+    lines.push("", ...formatVariableAnalytics(item));
+  }
+  if (changes) {
+    lines.push("", "Changes:");
+    if (changes.length === 0) {
+      lines.push("  (none)");
+    }
+    for (const change of changes) {
+      const reason = change.reason ? ` — ${change.reason}` : "";
+      lines.push(
+        `  ${change.at.slice(0, 10)} ${change.from} → ${change.to} (${change.source})${reason}`,
+      );
     }
   }
+  return lines.join("\n");
+}
+
+function formatProxyValue(value: ProxyValue): string {
+  return String(value.value);
+}
+
+function formatProxyTrend(trend: ProxyTrend): string {
+  const { proxy, readings, change } = trend;
+  const first = readings[0];
+  const last = readings.at(-1);
+  if (!first || !last) {
+    return `  ${proxy.name}: no readings`;
+  }
 
+  const count = `${readings.length} reading${readings.length === 1 ? "" : "s"}`;
+  const values =
+    readings.length === 1
+      ? formatProxyValue(first.value)
+      : `${formatProxyValue(first.value)} → ${formatProxyValue(last.value)}`;
+  const delta =
+    change === null
+      ? ""
+      : `${change >= 0 ? "+" : ""}${Number(change.toFixed(2))}${proxy.unit ? ` ${proxy.unit}` : ""}, `;
+  return `  ${proxy.name}: ${values} (${delta}${count})`;
+}
+
+function formatEpisodeEffectiveness(report: EpisodeEffectiveness): string[] {
+  const { episode, variable } = report;
+  const variableName = variable?.name ?? `${episode.variableId} (removed)`;
+  const outcome =
+    report.statusAtOpen === null || report.statusAtClose === null
+      ? "unknown"
+      : `${report.statusAtOpen} → ${report.statusAtClose}${report.restored ? " (restored)" : ""}`;
+  const timebox =
+    report.timeboxDays === null
+      ? "no timebox"
+      : `timebox ${report.timeboxDays}d (${report.withinTimebox ? "within" : "over"})`;
+
+  return [
+    `${episode.id}: ${episode.objective} [${variableName}]`,
+    `  Variable: ${outcome}`,
+    `  Duration: ${formatDays(report.durationDays)}, ${timebox}`,
+    `  Actions: ${report.actionsDone} done, ${report.actionsPending} left pending`,
+    ...report.trends.map(formatProxyTrend),
+  ];
+}
+
+/**
+ * Formats the Episode effectiveness report for `becoming report episodes`.
+ * Pure function: takes EpisodeEffectiveness[] (already sorted).
+ *
+ * **Contract:**
+ * - Leads with how many Episodes restored their Variable to InRange
+ * - One block per Episode: Variable status at opening → closing, duration
+ *   against the timebox, Actions done vs pending and each Proxy's trend
+ */
+export function formatEpisodeReport(
+  node: NodeRef,
+  reports: readonly EpisodeEffectiveness[],
+): string {
+  const header = `becoming report episodes ${formatNodeRef(node)}`;
+  if (reports.length === 0) {
+    return `${header}\nNo closed Stabilize episodes.`;
+  }
+
+  const restored = reports.filter((r) => r.restored).length;
+  const lines: string[] = [
+    header,
+    `Restored ${restored} of ${reports.length} closed Stabilize episode(s) to InRange.`,
+  ];
+  for (const report of reports) {
+    lines.push("", ...formatEpisodeEffectiveness(report));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats one overdue episode as presented by `becoming review`.
+ * Pure function: position is 1-based within the review queue.
+ */
+export function formatReviewItem(
+  item: OverdueEpisode,
+  position: number,
+  total: number,
+): string {
+  const { episode } = item;
+  const variableInfo = episode.variableId ? ` [${episode.variableId}]` : "";
+  return [
+    `[${position}/${total}] ${episode.id}: ${episode.type}${variableInfo} — ${episode.objective}`,
+    `  Opened ${episode.openedAt.slice(0, 10)}, timebox ${episode.timeboxDays} days, due ${item.dueAt.slice(0, 10)} (${formatDaysOverdue(item.daysOverdue)})`,
+  ].join("\n");
+}
+
+/**
+ * Lists an Episode's open actions before asking what closing it does with them.
+ * Pure function: actions are expected in episode order.
+ */
+export function formatOpenActions(actions: readonly Action[]): string {
+  const lines = [`This episode has ${actions.length} pending action(s):`];
+  for (const action of actions) {
+    const blocked =
+      action.status === ACTION_BLOCKED_STATUS ? ` [${action.status}]` : "";
+    lines.push(`  - ${action.description}${blocked} (${action.id})`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats lock inspection results for `becoming doctor`.
+ * Pure function: takes report entries and returns formatted string.
+ *
+ * **Contract:**
+ * - One line per lock: free, held (with holder), or stale (with reason)
+ * - Stale locks that were not cleared get a hint to re-run with --unlock
+ */
+export function formatLockReport(entries: readonly LockReportEntry[]): string {
+  const lines: string[] = ["becoming doctor", "", "Locks:"];
+  let uncleared = false;
+
+  for (const entry of entries) {
+    const { status } = entry;
+    const holder =
+      status.state !== "free" && status.info
+        ? ` pid ${status.info.pid} since ${status.info.createdAt}`
+        : "";
+
+    let detail: string;
+    if (status.state === "free") {
+      detail = "free";
+    } else if (status.state === "held") {
+      detail = `held by${holder || " an unknown process"}`;
+    } else if (entry.cleared) {
+      detail = `cleared stale lock (${status.reason}${holder ? `,${holder}` : ""})`;
+    } else {
+      uncleared = true;
+      detail = `stale (${status.reason}${holder ? `,${holder}` : ""})`;
+    }
+    lines.push(`  - ${entry.name}: ${detail} [${entry.path}]`);
+  }
+
+  if (uncleared) {
+    lines.push("", "Run `becoming doctor --unlock` to clear stale locks.");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats the snapshot listing for `becoming restore`.
+ * Pure function: newest first, one line per snapshot.
+ */
+export function formatSnapshotList(snapshots: readonly SnapshotInfo[]): string {
+  if (snapshots.length === 0) {
+    return "No snapshots yet. One is taken after every save.";
+  }
+
+  const lines = ["Snapshots (newest first):"];
+  for (const snapshot of snapshots) {
+    lines.push(
+      `  - ${snapshot.id}  revision ${snapshot.revision}, taken ${snapshot.createdAt}`,
+    );
+  }
+  lines.push(
+    "",
+    "Preview: becoming restore --diff <id>",
+    "Restore: becoming restore --id <id>",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Formats the archived entities of one collection for `becoming archived`.
+ * Pure function: one line per entity, in the order given, with what it was
+ * (name, objective, description, content or statement) and when archived.
+ */
+export function formatArchivedList(
+  collection: ArchivableCollection,
+  entities: State[ArchivableCollection],
+): string {
+  if (entities.length === 0) {
+    return `No archived ${collection}.`;
+  }
+
+  const lines = [`Archived ${collection}:`];
+  for (const entity of entities) {
+    const label =
+      "name" in entity
+        ? entity.name
+        : "objective" in entity
+          ? entity.objective
+          : "description" in entity
+            ? entity.description
+            : "content" in entity
+              ? entity.content
+              : entity.statement;
+    lines.push(
+      `  - ${label} (${entity.id}), archived ${entity.archivedAt ?? "?"}`,
+    );
+  }
+  lines.push("", `Restore: becoming unarchive ${collection} <id>`);
+  return lines.join("\n");
+}
+
+function describeCandidate(candidate: ModelExplanation): string {
+  if (!candidate.scopeMatched) {
+    return `skipped: scope ${candidate.scope ?? "(unset)"} does not match`;
+  }
+  if (!candidate.conditionMatched) {
+    return "skipped: condition does not hold";
+  }
+  if (candidate.expired) {
+    return "skipped: expired, enforced as none until renewed";
+  }
+  if (!candidate.applies) {
+    return "skipped: enforcement none";
+  }
+  const policy =
+    candidate.exceptionPolicy === "model"
+      ? "set on the Model"
+      : `default for ${candidate.enforcement}`;
+  return `applies: scope ${candidate.scope ?? "(unset)"}, ${candidate.enforcement}, exceptions ${candidate.exceptionAllowed ? "allowed" : "not allowed"} (${policy})`;
+}
+
+function describeDecision(result: MembraneResult): string {
+  switch (result.decision) {
+    case "allow":
+      return "allow";
+    case "warn":
+      return `warn (${result.warnings.map((w) => `[${w.modelId}]`).join(", ")})`;
+    case "block":
+      return `block by [${result.modelId}], ${result.exceptionAllowed ? "override allowed with --override" : "no override"}`;
+  }
+}
+
+/**
+ * Formats a Membrane dry run for `becoming check`.
+ * Pure function: each Normative Model with why it applies or is skipped,
+ * then the decision.
+ */
+export function formatMembraneExplanation(
+  title: string,
+  explanation: MembraneExplanation,
+): string {
+  const lines = [`Membrane check: ${title}`, ""];
+  if (explanation.candidates.length === 0) {
+    lines.push("  No Normative Models.");
+  }
+  for (const candidate of explanation.candidates) {
+    lines.push(
+      `  [${candidate.modelId}] ${candidate.statement}`,
+      `      ${describeCandidate(candidate)}`,
+    );
+  }
+  lines.push("", `Decision: ${describeDecision(explanation.result)}`);
+  return lines.join("\n");
+}
+
+function formatExceptionEntry(entry: ExceptionAuditEntry): string[] {
+  const { exception, model, target } = entry;
+  const verb =
+    exception.originalDecision === "block"
+      ? "block override"
+      : "warn acknowledgment";
+  const label = target.label !== null ? ` "${target.label}"` : " (gone)";
+  return [
+    `  - ${exception.createdAt}  ${verb} of [${exception.modelId}] ${model?.statement ?? "(deleted Model)"}`,
+    `      ${exception.mutationType} -> ${target.collection} ${target.id}${label}`,
+    `      Justification: ${exception.justification}`,
+  ];
+}
+
+function formatExceptionRate(rate: ModelExceptionRate): string[] {
+  const lines = [
+    `  [${rate.model.id}] ${rate.model.statement}`,
+    `      ${rate.warnAcknowledgments} warn acknowledgment(s), ${rate.blockOverrides} block override(s), ${rate.perWeek.toFixed(1)}/week`,
+  ];
+  if (rate.flagged && rate.demoteTo) {
+    lines.push(
+      `      Excepted weekly or more: consider revising it or demoting it to ${rate.demoteTo} (updateModel)`,
+    );
+  }
+  return lines;
+}
+
+/**
+ * Formats the Membrane exception audit for `becoming exceptions`.
+ * Pure function: matching exceptions in the order given with their
+ * justification and target, then the Models excepted most recently.
+ */
+export function formatExceptionAudit(
+  entries: readonly ExceptionAuditEntry[],
+  rates: readonly ModelExceptionRate[],
+): string {
+  const lines = [`Exceptions (${entries.length}):`];
+  if (entries.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const entry of entries) {
+    lines.push(...formatExceptionEntry(entry));
+  }
+
+  lines.push("", `Exception rates, last ${EXCEPTION_RATE_WINDOW_DAYS} days:`);
+  if (rates.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const rate of rates) {
+    lines.push(...formatExceptionRate(rate));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats the norm review queue for `becoming norms`.
+ * Pure function: each due Normative Model, longest waiting first, with
+ * the command that decides it.
+ */
+export function formatNormsDueForReview(
+  reviews: readonly NormReview[],
+): string {
+  const lines = [`Norms due for review (${reviews.length}):`];
+  if (reviews.length === 0) {
+    lines.push("  (none)");
+    return lines.join("\n");
+  }
+  for (const { model, reason, dueOn } of reviews) {
+    const due =
+      reason === "expired"
+        ? `expired ${dueOn}, enforced as none until renewed`
+        : `review due ${dueOn}`;
+    lines.push(
+      `  - [${model.id}] ${model.statement} (${model.enforcement ?? "none"}): ${due}`,
+    );
+  }
+  lines.push(
+    "",
+    "Decide one: becoming norms review <modelId> --renew [--expires-on YYYY-MM-DD] | --enforcement <level> | --retire",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Formats the salvage report for `becoming recover`.
+ * Pure function: kept counts per collection, then each quarantined entity.
+ */
+export function formatRecoveryReport(report: RecoveryReport | null): string {
+  if (!report) {
+    return "No recovery pending. The state file loaded cleanly.";
+  }
+
+  const lines = [
+    `State file was invalid and salvaged at ${report.createdAt}.`,
+    `Original file: ${report.backupPath ?? "(could not be backed up)"}`,
+    "",
+    "Kept:",
+  ];
+  for (const collection of STATE_COLLECTIONS) {
+    lines.push(`  ${collection}: ${report.kept[collection]}`);
+  }
+
+  lines.push("", `Quarantined (${report.quarantined.length}):`);
+  if (report.quarantined.length === 0) {
+    lines.push("  (none)");
+  }
+  for (const entity of report.quarantined) {
+    const where =
+      entity.index >= 0
+        ? `${entity.collection}[${entity.index}]`
+        : entity.collection;
+    const id = entity.id ? ` ${entity.id}` : "";
+    lines.push(`  - ${where}${id}: ${entity.reason}`);
+  }
+
+  lines.push(
+    "",
+    `Quarantined entities are kept in ${report.reportPath}.`,
+    "Saving is paused. Accept the salvage: becoming recover --acknowledge",
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Formats the outcome of `becoming import`.
+ * Pure function: counts added per collection, then each id collision.
+ */
+export function formatImportReport(
+  report: Omit<ImportReport, "state">,
+  options?: { dryRun?: boolean },
+): string {
+  const total = STATE_COLLECTIONS.reduce(
+    (sum, collection) => sum + report.added[collection],
+    0,
+  );
+  const lines = [
+    options?.dryRun
+      ? `Dry run: would import ${total} new entities (nothing saved).`
+      : `Imported ${total} new entities.`,
+  ];
+  for (const collection of STATE_COLLECTIONS) {
+    if (report.added[collection] > 0) {
+      lines.push(`  ${collection}: ${report.added[collection]}`);
+    }
+  }
+  if (report.unchanged > 0) {
+    lines.push(`Already present (identical): ${report.unchanged}`);
+  }
+
+  if (report.collisions.length > 0) {
+    lines.push(
+      "",
+      `ID collisions (${report.collisions.length}), kept the current entity:`,
+    );
+    for (const collision of report.collisions) {
+      lines.push(`  - ${collision.collection} ${collision.id}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function formatMergeConflict(conflict: MergeConflict): string[] {
+  switch (conflict.kind) {
+    case "field":
+      return [
+        `  ~ ${conflict.collection} ${conflict.id} (${conflict.label}) ${conflict.field}:`,
+        `      base ${formatDiffValue(conflict.base)} | ours ${formatDiffValue(conflict.ours)} | theirs ${formatDiffValue(conflict.theirs)}`,
+      ];
+    case "deleteModify":
+      return [
+        `  - ${conflict.collection} ${conflict.id} (${conflict.label}): removed on ${conflict.deletedBy}, changed on the other side`,
+      ];
+    case "lifecycle":
+      return [
+        `  ! episodes ${conflict.id} (${conflict.label}): ${conflict.reason}`,
+      ];
+    case "integrity":
+      return [
+        `  x ${conflict.collection}${conflict.id ? ` ${conflict.id}` : ""}: ${conflict.reason} (dropped)`,
+      ];
+  }
+}
+
+/**
+ * Formats the outcome of `becoming merge`.
+ * Pure function: conflicts first, then Regulator invariant violations.
+ *
+ * **Contract:**
+ * - Field conflicts show base, ours and theirs; other conflicts one line each
+ * - Names the side conflicts were resolved to when `prefer` is given
+ * - A merge without conflicts or violations renders as a single line
+ */
+export function formatMergeReport(
+  conflicts: readonly MergeConflict[],
+  violations: readonly InvariantViolation[],
+  options?: { prefer?: MergeSide },
+): string {
+  if (conflicts.length === 0 && violations.length === 0) {
+    return "Merged cleanly: no conflicts.";
+  }
+
+  const lines: string[] = [];
+  if (conflicts.length > 0) {
+    lines.push(
+      options?.prefer
+        ? `Conflicts (${conflicts.length}), resolved to ${options.prefer}:`
+        : `Conflicts (${conflicts.length}):`,
+    );
+    for (const conflict of conflicts) {
+      lines.push(...formatMergeConflict(conflict));
+    }
+  }
+  if (violations.length > 0) {
+    if (lines.length > 0) lines.push("");
+    lines.push(`Invariant violations (${violations.length}):`);
+    for (const violation of violations) {
+      lines.push(`  ! [${violation.rule}] ${violation.message}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats a StateDiff for CLI display.
+ * Pure function: lists only collections that differ.
+ *
+ * **Contract:**
+ * - Header names both sides (e.g. "current State" and a snapshot id)
+ * - Added (+) and removed (-) entities show id and label; changed (~)
+ *   entities list each field as `field: before → after`
+ * - An empty diff renders as a single "no differences" line
+ */
+export function formatStateDiff(
+  diff: StateDiff,
+  sides: { from: string; to: string },
+): string {
+  if (isEmptyDiff(diff)) {
+    return `No differences between ${sides.from} and ${sides.to}.`;
+  }
+
+  const lines = [`Changes from ${sides.from} to ${sides.to}:`];
+  for (const collection of STATE_COLLECTIONS) {
+    const { added, removed, changed } = diff[collection];
+    if (added.length + removed.length + changed.length === 0) continue;
+
+    lines.push("", `${collection}:`);
+    for (const entity of added) {
+      lines.push(`  + ${entity.id}: ${entity.label}`);
+    }
+    for (const entity of removed) {
+      lines.push(`  - ${entity.id}: ${entity.label}`);
+    }
+    for (const entity of changed) {
+      lines.push(`  ~ ${entity.id}: ${entity.label}`);
+      for (const change of entity.fields) {
+        lines.push(
+          `      ${change.field}: ${formatDiffValue(change.before)} → ${formatDiffValue(change.after)}`,
+        );
+      }
+    }
+  }
   return lines.join("\n");
 }
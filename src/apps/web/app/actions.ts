@@ -2,13 +2,35 @@
 
 import crypto from "crypto";
 import { revalidatePath } from "next/cache";
-import { DEFAULT_PERSONAL_NODE } from "@libs/memory";
-import { Regulator } from "@libs/regulator";
+import { DEFAULT_PERSONAL_NODE, mutateWithRetry, sameData } from "@libs/memory";
+import {
+  checkActionConstraints,
+  checkEpisodeCloseConstraints,
+  checkEpisodeConstraints,
+  checkNoteConstraints,
+  checkSignalConstraints,
+  checkVariableConstraints,
+} from "@libs/membrane";
+import type { MembraneResult } from "@libs/membrane";
+import {
+  Regulator,
+  getEpisodeActions,
+  isArchived,
+  planRevert,
+} from "@libs/regulator";
 import type {
+  ModelReviewDecision,
+  PendingActionDisposition,
+  RegulatorMutation,
+  RevertDirection,
+} from "@libs/regulator";
+import type {
+  EnforcementLevel,
   EpisodeType,
   MeasurementCadence,
   ModelScope,
   ModelType,
+  MutationType,
   NodeType,
   NoteTag,
   Proxy,
@@ -16,10 +38,13 @@ import type {
   ProxyThresholds,
   ProxyValue,
   ProxyValueType,
+  State,
+  StateStore,
+  StatusChangeSource,
   VariableStatus,
 } from "@libs/memory";
 import type { Result } from "@libs/shared";
-import { createStore } from "@/lib/store";
+import { withStore } from "@/lib/store";
 
 function getErrorMessage(error: unknown): string {
   return error instanceof Error ? error.message : "Unknown error";
@@ -29,97 +54,371 @@ function okVoid(): Result<void> {
   return { ok: true, value: undefined };
 }
 
+/**
+ * Lineage params for opening a follow-up of `previousEpisodeId` (if any).
+ */
+function lineageParams(
+  previousEpisodeId?: string
+): { previousEpisodeId: string; linkId: string } | Record<string, never> {
+  return previousEpisodeId
+    ? { previousEpisodeId, linkId: crypto.randomUUID() }
+    : {};
+}
+
+/**
+ * Runs a Regulator mutation against fresh State and saves it with
+ * compare-and-swap, re-running the mutation if another writer saved first.
+ * Persistence errors are returned as a failed Result.
+ */
+async function mutate(
+  apply: (regulator: Regulator, state: State) => Result<State>
+): Promise<Result<State>> {
+  const { result } = await withStore((store) => mutateRecorded(store, apply));
+  return result;
+}
+
+/**
+ * Like mutate, but returns the index of the journal entry the change was
+ * saved as, so an undo prompt can take back exactly that change.
+ */
+async function mutateUndoable(
+  apply: (regulator: Regulator, state: State) => Result<State>
+): Promise<Result<number>> {
+  return withStore(async (store) => {
+    const { result, recorded } = await mutateRecorded(store, apply);
+    if (!result.ok) {
+      return { ok: false, error: result.error };
+    }
+
+    const entries = await store.readJournal();
+    const entryIndex = entries.findLastIndex(
+      (entry) => entry.type === "mutation" && sameData(entry.mutation, recorded)
+    );
+    return entryIndex === -1
+      ? { ok: false, error: "The change was saved but is not in the journal" }
+      : { ok: true, value: entryIndex };
+  });
+}
+
+/**
+ * Runs mutate's retry loop, keeping the mutation last recorded: the one
+ * the saved State came from.
+ */
+async function mutateRecorded(
+  store: StateStore,
+  apply: (regulator: Regulator, state: State) => Result<State>
+): Promise<{ result: Result<State>; recorded: RegulatorMutation | null }> {
+  let recorded: RegulatorMutation | null = null;
+  const regulator = new Regulator({
+    journal: {
+      record(base, mutation, result): void {
+        recorded = mutation;
+        store.record(base, mutation, result);
+      },
+    },
+  });
+
+  try {
+    const result = await mutateWithRetry(store, (state) =>
+      apply(regulator, state)
+    );
+    return { result, recorded };
+  } catch (error: unknown) {
+    return { result: { ok: false, error: getErrorMessage(error) }, recorded };
+  }
+}
+
+/**
+ * Applies a Regulator mutation only if the Membrane lets it through.
+ * A block fails it (the web offers no override); each warning that allows
+ * exceptions is logged as a MembraneException in one batch with the
+ * mutation, so they are journaled and undone as one change.
+ */
+function throughMembrane(
+  regulator: Regulator,
+  state: State,
+  decision: MembraneResult,
+  exception: { mutationType: MutationType; mutationId: string },
+  operation: RegulatorMutation
+): Result<State> {
+  if (decision.decision === "block") {
+    return {
+      ok: false,
+      error: `Blocked by Normative Model [${decision.modelId}]: ${decision.reason}`,
+    };
+  }
+
+  const warnings =
+    decision.decision === "warn"
+      ? decision.warnings.filter((warning) => warning.exceptionAllowed)
+      : [];
+  return regulator.batch(state, [
+    operation,
+    ...warnings.map(
+      (warning): RegulatorMutation => ({
+        kind: "logException",
+        params: {
+          exceptionId: crypto.randomUUID(),
+          modelId: warning.modelId,
+          originalDecision: "warn",
+          justification: "Acknowledged warning and proceeded",
+          ...exception,
+          createdAt: new Date().toISOString(),
+        },
+      })
+    ),
+  ]);
+}
+
 /**
  * Marks an action as Done.
+ * Returns the journal entry to offer undo of on success.
  */
-export async function completeAction(actionId: string): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
+export async function completeAction(
+  actionId: string
+): Promise<Result<number>> {
+  const result = await mutateUndoable((regulator, state) =>
+    regulator.completeAction(state, { actionId })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return result;
+}
+
+/**
+ * Undoes the most recent change, or redoes the most recently undone one,
+ * as a compensating change recorded in the journal.
+ * With `entryIndex`, refuses unless that journal entry is still the one
+ * to revert, so a prompt never takes back someone else's change.
+ */
+export async function revertLastChange(
+  direction: RevertDirection,
+  entryIndex?: number
+): Promise<Result<void>> {
+  const plan = planRevert(
+    await withStore((store) => store.readJournal()),
+    direction,
+    entryIndex
+  );
+  if (!plan.ok) {
+    return { ok: false, error: plan.error };
+  }
 
-  const state = await store.load();
-  const result = regulator.completeAction(state, { actionId });
+  const result = await mutate((regulator, state) =>
+    regulator.revert(state, plan.value)
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Cancels a Pending or Blocked action, recording why.
+ */
+export async function cancelAction(
+  actionId: string,
+  reason: string
+): Promise<Result<void>> {
+  const result = await mutate((regulator, state) =>
+    regulator.cancelAction(state, { actionId, reason })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Blocks an action on another object (linked with a blocks Link).
+ */
+export async function blockAction(
+  actionId: string,
+  blockedBy: string
+): Promise<Result<void>> {
+  const linkId = crypto.randomUUID();
+
+  const result = await mutate((regulator, state) =>
+    regulator.blockAction(state, { actionId, blockedBy, linkId })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Returns a Blocked action to Pending.
+ */
+export async function unblockAction(actionId: string): Promise<Result<void>> {
+  const result = await mutate((regulator, state) =>
+    regulator.unblockAction(state, { actionId })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Sets or clears (null) an action's due date.
+ */
+export async function setActionDueDate(
+  actionId: string,
+  dueDate: string | null
+): Promise<Result<void>> {
+  const result = await mutate((regulator, state) =>
+    regulator.updateAction(state, { actionId, dueDate })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Moves an action one place up or down among its episode's actions.
+ */
+export async function moveAction(
+  actionId: string,
+  direction: "up" | "down"
+): Promise<Result<void>> {
+  const result = await mutate((regulator, state) => {
+    const action = state.actions.find((a) => a.id === actionId);
+    if (!action?.episodeId) {
+      return { ok: false, error: "Only episode actions can be reordered" };
+    }
+
+    const actionIds = getEpisodeActions(state, action.episodeId).map(
+      (a) => a.id
+    );
+    const from = actionIds.indexOf(actionId);
+    const to = direction === "up" ? from - 1 : from + 1;
+    if (to < 0 || to >= actionIds.length) {
+      return { ok: true, value: state };
+    }
+    [actionIds[from], actionIds[to]] = [
+      actionIds[to] as string,
+      actionIds[from] as string,
+    ];
+
+    return regulator.reorderActions(state, {
+      episodeId: action.episodeId,
+      actionIds,
+    });
+  });
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
   }
+
   revalidatePath("/");
   return okVoid();
 }
 
 /**
- * Opens a Stabilize episode linked to a Variable.
+ * Opens a Stabilize episode linked to a Variable,
+ * optionally as a follow-up of a previous episode.
  * Returns the new episode ID on success.
  */
 export async function openStabilizeEpisode(
   variableId: string,
-  objective: string
+  objective: string,
+  previousEpisodeId?: string
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const episodeType: EpisodeType = "Stabilize";
   const episodeId = crypto.randomUUID();
 
-  const result = regulator.openEpisode(state, {
-    episodeId,
-    node: DEFAULT_PERSONAL_NODE,
-    type: episodeType,
-    variableId,
-    objective,
-    openedAt: new Date().toISOString(),
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkEpisodeConstraints(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        episodeType,
+      }),
+      { mutationType: "episode", mutationId: episodeId },
+      {
+        kind: "openEpisode",
+        params: {
+          episodeId,
+          node: DEFAULT_PERSONAL_NODE,
+          type: episodeType,
+          variableId,
+          objective,
+          openedAt: new Date().toISOString(),
+          ...lineageParams(previousEpisodeId),
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: episodeId };
 }
 
 /**
- * Opens an Explore episode (not linked to a specific variable).
+ * Opens an Explore episode (not linked to a specific variable),
+ * optionally as a follow-up of a previous episode.
  * Returns the new episode ID on success.
  */
 export async function openExploreEpisode(
-  objective: string
+  objective: string,
+  previousEpisodeId?: string
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const episodeType: EpisodeType = "Explore";
   const episodeId = crypto.randomUUID();
 
-  const result = regulator.openEpisode(state, {
-    episodeId,
-    node: DEFAULT_PERSONAL_NODE,
-    type: episodeType,
-    objective,
-    openedAt: new Date().toISOString(),
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkEpisodeConstraints(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        episodeType,
+      }),
+      { mutationType: "episode", mutationId: episodeId },
+      {
+        kind: "openEpisode",
+        params: {
+          episodeId,
+          node: DEFAULT_PERSONAL_NODE,
+          type: episodeType,
+          objective,
+          openedAt: new Date().toISOString(),
+          ...lineageParams(previousEpisodeId),
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: episodeId };
 }
@@ -132,12 +431,9 @@ export async function closeEpisode(
   episodeId: string,
   closureNoteContent: string,
   episodeType: EpisodeType,
-  modelStatement?: string
+  modelStatement?: string,
+  pendingActions?: PendingActionDisposition
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const closedAt = new Date().toISOString();
 
   const modelUpdates =
@@ -152,25 +448,38 @@ export async function closeEpisode(
         ]
       : undefined;
 
-  const result = regulator.closeEpisode(state, {
-    episodeId,
-    closedAt,
-    closureNote: {
-      id: crypto.randomUUID(),
-      content: closureNoteContent,
-    },
-    modelUpdates,
+  const result = await mutate((regulator, state) => {
+    const params = {
+      episodeId,
+      closedAt,
+      closureNote: {
+        id: crypto.randomUUID(),
+        content: closureNoteContent,
+      },
+      ...(modelUpdates ? { modelUpdates } : {}),
+      ...(pendingActions ? { pendingActions } : {}),
+    };
+
+    // An unknown episode is left for closeEpisode to report
+    const episode = state.episodes.find((e) => e.id === episodeId);
+    if (!episode) return regulator.closeEpisode(state, params);
+    return throughMembrane(
+      regulator,
+      state,
+      checkEpisodeCloseConstraints(state, {
+        node: episode.node,
+        episodeId,
+        episodeType: episode.type,
+      }),
+      { mutationType: "episode", mutationId: episodeId },
+      { kind: "closeEpisode", params }
+    );
   });
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return okVoid();
 }
@@ -184,26 +493,18 @@ export async function updateEpisode(
   objective?: string,
   timeboxDays?: number | null
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.updateEpisode(state, {
-    episodeId,
-    ...(objective !== undefined ? { objective } : {}),
-    ...(timeboxDays !== undefined ? { timeboxDays } : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.updateEpisode(state, {
+      episodeId,
+      ...(objective !== undefined ? { objective } : {}),
+      ...(timeboxDays !== undefined ? { timeboxDays } : {}),
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   revalidatePath(`/episodes/${episodeId}`);
   return okVoid();
@@ -215,63 +516,76 @@ export async function updateEpisode(
  */
 export async function addAction(
   description: string,
-  episodeId?: string
+  episodeId?: string,
+  dueDate?: string
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const actionId = crypto.randomUUID();
 
-  const result = regulator.act(state, {
-    actionId,
-    node: DEFAULT_PERSONAL_NODE,
-    ...(episodeId ? { episodeId } : {}),
-    description,
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkActionConstraints(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        ...(episodeId ? { episodeId } : {}),
+      }),
+      { mutationType: "action", mutationId: actionId },
+      {
+        kind: "createAction",
+        params: {
+          actionId,
+          node: DEFAULT_PERSONAL_NODE,
+          ...(episodeId ? { episodeId } : {}),
+          description,
+          ...(dueDate ? { dueDate } : {}),
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: actionId };
 }
 
 /**
  * Signals a new status for a variable.
+ * Returns the journal entry to offer undo of on success.
  */
 export async function signalVariable(
   variableId: string,
   status: VariableStatus
-): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.signal(state, {
-    node: DEFAULT_PERSONAL_NODE,
-    variableId,
-    status,
-  });
+): Promise<Result<number>> {
+  const result = await mutateUndoable((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkSignalConstraints(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId,
+        status,
+      }),
+      { mutationType: "signal", mutationId: variableId },
+      {
+        kind: "signal",
+        params: {
+          node: DEFAULT_PERSONAL_NODE,
+          variableId,
+          status,
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
-  return okVoid();
+  return result;
 }
 
 /**
@@ -292,10 +606,6 @@ export interface CreateVariableInput {
 export async function createVariable(
   input: CreateVariableInput
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const variableId = crypto.randomUUID();
 
   // Build node reference based on nodeType
@@ -304,27 +614,35 @@ export async function createVariable(
       ? DEFAULT_PERSONAL_NODE
       : { type: input.nodeType as NodeType, id: input.nodeType.toLowerCase() };
 
-  const result = regulator.createVariable(state, {
-    variableId,
-    node,
-    name: input.name,
-    status: "Unknown",
-    ...(input.description ? { description: input.description } : {}),
-    ...(input.preferredRange ? { preferredRange: input.preferredRange } : {}),
-    ...(input.measurementCadence
-      ? { measurementCadence: input.measurementCadence }
-      : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkVariableConstraints(state, { node }),
+      { mutationType: "variable", mutationId: variableId },
+      {
+        kind: "createVariable",
+        params: {
+          variableId,
+          node,
+          name: input.name,
+          status: "Unknown",
+          ...(input.description ? { description: input.description } : {}),
+          ...(input.preferredRange
+            ? { preferredRange: input.preferredRange }
+            : {}),
+          ...(input.measurementCadence
+            ? { measurementCadence: input.measurementCadence }
+            : {}),
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: variableId };
 }
@@ -337,28 +655,30 @@ export async function createNote(
   content: string,
   tags?: NoteTag[]
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const noteId = crypto.randomUUID();
 
-  const result = regulator.createNote(state, {
-    noteId,
-    content,
-    createdAt: new Date().toISOString(),
-    ...(tags && tags.length > 0 ? { tags } : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkNoteConstraints(state, { node: DEFAULT_PERSONAL_NODE }),
+      { mutationType: "note", mutationId: noteId },
+      {
+        kind: "createNote",
+        params: {
+          noteId,
+          content,
+          createdAt: new Date().toISOString(),
+          ...(tags && tags.length > 0 ? { tags } : {}),
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: noteId };
 }
@@ -370,25 +690,17 @@ export async function updateNote(
   noteId: string,
   content: string
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.updateNote(state, {
-    noteId,
-    content,
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.updateNote(state, {
+      noteId,
+      content,
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return okVoid();
 }
@@ -400,25 +712,17 @@ export async function addNoteTag(
   noteId: string,
   tag: NoteTag
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.addNoteTag(state, {
-    noteId,
-    tag,
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.addNoteTag(state, {
+      noteId,
+      tag,
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return okVoid();
 }
@@ -430,25 +734,17 @@ export async function removeNoteTag(
   noteId: string,
   tag: NoteTag
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.removeNoteTag(state, {
-    noteId,
-    tag,
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.removeNoteTag(state, {
+      noteId,
+      tag,
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return okVoid();
 }
@@ -466,8 +762,7 @@ export interface EpisodeOption {
  * Gets all active episodes for dropdown selection.
  */
 export async function getActiveEpisodes(): Promise<EpisodeOption[]> {
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   return state.episodes
     .filter((e) => e.status === "Active")
@@ -487,16 +782,17 @@ export interface VariableOption {
 }
 
 /**
- * Gets all variables for dropdown selection.
+ * Gets all unarchived variables for dropdown selection.
  */
 export async function getVariables(): Promise<VariableOption[]> {
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
-  return state.variables.map((v) => ({
-    id: v.id,
-    name: v.name,
-  }));
+  return state.variables
+    .filter((v) => !isArchived(v))
+    .map((v) => ({
+      id: v.id,
+      name: v.name,
+    }));
 }
 
 /**
@@ -509,33 +805,73 @@ export async function createModel(
   confidence?: number,
   scope?: ModelScope
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const modelId = crypto.randomUUID();
 
-  const result = regulator.createModel(state, {
-    modelId,
-    type,
-    statement,
-    ...(confidence !== undefined ? { confidence } : {}),
-    ...(scope !== undefined ? { scope } : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.createModel(state, {
+      modelId,
+      type,
+      statement,
+      ...(confidence !== undefined ? { confidence } : {}),
+      ...(scope !== undefined ? { scope } : {}),
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   return { ok: true, value: modelId };
 }
 
+/**
+ * Changes how strictly a Normative Model is enforced, e.g. demoting a norm
+ * that is excepted too often.
+ */
+export async function setModelEnforcement(
+  modelId: string,
+  enforcement: EnforcementLevel
+): Promise<Result<void>> {
+  const result = await mutate((regulator, state) =>
+    regulator.updateModel(state, { modelId, enforcement })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
+/**
+ * Decides a Normative Model due for review: renew it, change its
+ * enforcement, or retire it. The decision is recorded as an audit Note.
+ */
+export async function reviewNorm(
+  modelId: string,
+  decision: ModelReviewDecision,
+  reason?: string
+): Promise<Result<void>> {
+  const result = await mutate((regulator, state) =>
+    regulator.reviewModel(state, {
+      modelId,
+      decision,
+      ...(reason ? { reason } : {}),
+      noteId: crypto.randomUUID(),
+      reviewedAt: new Date().toISOString(),
+    })
+  );
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
+  }
+
+  revalidatePath("/");
+  return okVoid();
+}
+
 /**
  * Links a note to an object (e.g., a Variable).
  * Enables Zettelkasten-style connections between notes and regulated objects.
@@ -544,25 +880,17 @@ export async function linkNoteToObject(
   noteId: string,
   objectId: string
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.addNoteLinkedObject(state, {
-    noteId,
-    objectId,
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.addNoteLinkedObject(state, {
+      noteId,
+      objectId,
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   revalidatePath(`/notes/${noteId}`);
   return okVoid();
@@ -571,48 +899,39 @@ export async function linkNoteToObject(
 /**
  * Processes a note by removing inbox tag and adding processed tag.
  * This is the explicit "I've reviewed this" action.
+ * Both tag changes apply as one batch, so a note is never left half-processed.
  */
 export async function processNote(noteId: string): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  let state = await store.load();
-
-  // Find the note to check current tags
-  const note = state.notes.find((n) => n.id === noteId);
-  if (!note) {
-    return { ok: false, error: `Note with id '${noteId}' not found` };
-  }
-
-  // Remove inbox tag if present
-  if (note.tags.includes("inbox")) {
-    const removeResult = regulator.removeNoteTag(state, {
-      noteId,
-      tag: "inbox",
-    });
-    if (!removeResult.ok) {
-      return { ok: false, error: removeResult.error };
+  const result = await mutate((regulator, state) => {
+    // Find the note to check current tags
+    const note = state.notes.find((n) => n.id === noteId);
+    if (!note) {
+      return { ok: false, error: `Note with id '${noteId}' not found` };
     }
-    state = removeResult.value;
-  }
 
-  // Add processed tag if not already present
-  if (!note.tags.includes("processed")) {
-    const addResult = regulator.addNoteTag(state, {
-      noteId,
-      tag: "processed",
-    });
-    if (!addResult.ok) {
-      return { ok: false, error: addResult.error };
+    const operations: RegulatorMutation[] = [];
+    // Remove inbox tag if present
+    if (note.tags.includes("inbox")) {
+      operations.push({
+        kind: "removeNoteTag",
+        params: { noteId, tag: "inbox" },
+      });
+    }
+    // Add processed tag if not already present
+    if (!note.tags.includes("processed")) {
+      operations.push({
+        kind: "addNoteTag",
+        params: { noteId, tag: "processed" },
+      });
     }
-    state = addResult.value;
-  }
 
-  try {
-    await store.save(state);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
+    return regulator.batch(state, operations);
+  });
+
+  if (!result.ok) {
+    return { ok: false, error: result.error };
   }
+
   revalidatePath("/");
   revalidatePath(`/notes/${noteId}`);
   return okVoid();
@@ -642,32 +961,25 @@ export interface CreateProxyInput {
 export async function createProxy(
   input: CreateProxyInput
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const proxyId = crypto.randomUUID();
 
-  const result = regulator.createProxy(state, {
-    proxyId,
-    variableId: input.variableId,
-    name: input.name,
-    valueType: input.valueType,
-    ...(input.description ? { description: input.description } : {}),
-    ...(input.unit ? { unit: input.unit } : {}),
-    ...(input.categories ? { categories: input.categories } : {}),
-    ...(input.thresholds ? { thresholds: input.thresholds } : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.createProxy(state, {
+      proxyId,
+      variableId: input.variableId,
+      name: input.name,
+      valueType: input.valueType,
+      ...(input.description ? { description: input.description } : {}),
+      ...(input.unit ? { unit: input.unit } : {}),
+      ...(input.categories ? { categories: input.categories } : {}),
+      ...(input.thresholds ? { thresholds: input.thresholds } : {}),
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   revalidatePath(`/variables/${input.variableId}`);
   return { ok: true, value: proxyId };
@@ -677,26 +989,18 @@ export async function createProxy(
  * Deletes a proxy and its readings.
  */
 export async function deleteProxy(proxyId: string): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
   // Find the proxy to get variableId for revalidation
-  const proxy = state.proxies.find((p) => p.id === proxyId);
-  const variableId = proxy?.variableId;
+  let variableId: string | undefined;
 
-  const result = regulator.deleteProxy(state, { proxyId });
+  const result = await mutate((regulator, state) => {
+    variableId = state.proxies.find((p) => p.id === proxyId)?.variableId;
+    return regulator.deleteProxy(state, { proxyId });
+  });
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   if (variableId) {
     revalidatePath(`/variables/${variableId}`);
@@ -720,33 +1024,26 @@ export interface LogReadingInput {
 export async function logProxyReading(
   input: LogReadingInput
 ): Promise<Result<string>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
   const readingId = crypto.randomUUID();
 
-  // Find the proxy to get variableId for revalidation
-  const proxy = state.proxies.find((p) => p.id === input.proxyId);
-  const variableId = proxy?.variableId;
-
-  const result = regulator.logProxyReading(state, {
-    readingId,
-    proxyId: input.proxyId,
-    value: input.value,
-    recordedAt: new Date().toISOString(),
-    ...(input.source ? { source: input.source } : {}),
-  });
+  const result = await mutate((regulator, state) =>
+    regulator.logProxyReading(state, {
+      readingId,
+      proxyId: input.proxyId,
+      value: input.value,
+      recordedAt: new Date().toISOString(),
+      ...(input.source ? { source: input.source } : {}),
+    })
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
+  // Find the proxy to get variableId for revalidation
+  const proxy = result.value.proxies.find((p) => p.id === input.proxyId);
+  const variableId = proxy?.variableId;
+
   revalidatePath("/");
   if (variableId) {
     revalidatePath(`/variables/${variableId}`);
@@ -760,9 +1057,8 @@ export async function logProxyReading(
 export async function getProxiesForVariable(
   variableId: string
 ): Promise<Proxy[]> {
-  const store = createStore();
   const regulator = new Regulator();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   return regulator.getProxiesForVariable(state, variableId);
 }
@@ -774,42 +1070,49 @@ export async function getRecentReadings(
   proxyId: string,
   limit?: number
 ): Promise<ProxyReading[]> {
-  const store = createStore();
   const regulator = new Regulator();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   return regulator.getRecentReadings(state, proxyId, limit);
 }
 
 /**
  * Signals a variable status change with a reason (for audit trail).
+ * `source` records what prompted it in the status history (default: manual).
  */
 export async function signalVariableWithReason(
   variableId: string,
   status: VariableStatus,
-  reason: string
+  reason: string,
+  source?: StatusChangeSource
 ): Promise<Result<void>> {
-  const store = createStore();
-  const regulator = new Regulator();
-
-  const state = await store.load();
-
-  const result = regulator.signal(state, {
-    node: DEFAULT_PERSONAL_NODE,
-    variableId,
-    status,
-    reason,
-  });
+  const result = await mutate((regulator, state) =>
+    throughMembrane(
+      regulator,
+      state,
+      checkSignalConstraints(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId,
+        status,
+      }),
+      { mutationType: "signal", mutationId: variableId },
+      {
+        kind: "signal",
+        params: {
+          node: DEFAULT_PERSONAL_NODE,
+          variableId,
+          status,
+          reason,
+          source,
+        },
+      }
+    )
+  );
 
   if (!result.ok) {
     return { ok: false, error: result.error };
   }
 
-  try {
-    await store.save(result.value);
-  } catch (error: unknown) {
-    return { ok: false, error: getErrorMessage(error) };
-  }
   revalidatePath("/");
   revalidatePath(`/variables/${variableId}`);
   return okVoid();
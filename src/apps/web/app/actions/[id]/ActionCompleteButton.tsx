@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useRouter } from "next/navigation";
 import { completeAction } from "@/app/actions";
+import { UndoToast } from "@/components";
 
 interface ActionCompleteButtonProps {
   actionId: string;
@@ -16,10 +17,22 @@ export function ActionCompleteButton({
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Journal entry of the completion, while its undo toast shows
+  const [completed, setCompleted] = useState<number | null>(null);
+  const dismissToast = useCallback(() => setCompleted(null), []);
 
-  // Don't show button if already done
-  if (currentStatus === "Done") {
-    return null;
+  // Completing the action hides the button; the undo toast outlives it
+  const toast = completed !== null && (
+    <UndoToast
+      message="Action marked complete"
+      entryIndex={completed}
+      onDismiss={dismissToast}
+    />
+  );
+
+  // Only pending actions can be completed (blocked ones are unblocked first)
+  if (currentStatus !== "Pending") {
+    return toast || null;
   }
 
   async function handleComplete(): Promise<void> {
@@ -36,6 +49,7 @@ export function ActionCompleteButton({
 
     router.refresh();
     setIsSubmitting(false);
+    setCompleted(result.value);
   }
 
   return (
@@ -92,7 +106,7 @@ export function ActionCompleteButton({
           </p>
         )}
       </div>
+      {toast}
     </div>
   );
 }
-
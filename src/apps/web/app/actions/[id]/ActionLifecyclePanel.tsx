@@ -0,0 +1,234 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { Action } from "@libs/memory";
+import type { Result } from "@libs/shared";
+import {
+  blockAction,
+  cancelAction,
+  moveAction,
+  setActionDueDate,
+  unblockAction,
+} from "@/app/actions";
+
+export interface BlockerOption {
+  id: string;
+  label: string;
+}
+
+interface ActionLifecyclePanelProps {
+  action: Action;
+  /** Objects this action can be blocked on */
+  blockers: BlockerOption[];
+  /** Position among the episode's actions, when episode-scoped */
+  position: { index: number; count: number } | null;
+}
+
+const labelStyle: React.CSSProperties = {
+  display: "block",
+  fontSize: "0.75rem",
+  color: "#666",
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  marginBottom: "0.5rem",
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: "0.5rem",
+  border: "1px solid #ccc",
+  borderRadius: "4px",
+  fontFamily: "inherit",
+  fontSize: "0.875rem",
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: "0.5rem 1rem",
+  fontSize: "0.875rem",
+  border: "1px solid #ccc",
+  borderRadius: "4px",
+  background: "transparent",
+  cursor: "pointer",
+};
+
+/**
+ * Lifecycle controls for an open (Pending or Blocked) action:
+ * due date, position in its episode, block/unblock and cancel with reason.
+ */
+export function ActionLifecyclePanel({
+  action,
+  blockers,
+  position,
+}: ActionLifecyclePanelProps): React.ReactNode {
+  const router = useRouter();
+  const [dueDate, setDueDate] = useState(action.dueDate ?? "");
+  const [blockedBy, setBlockedBy] = useState(blockers[0]?.id ?? "");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (action.status !== "Pending" && action.status !== "Blocked") {
+    return null;
+  }
+
+  async function run(mutation: () => Promise<Result<void>>): Promise<void> {
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await mutation();
+
+    if (!result.ok) {
+      setError(result.error);
+      setIsSubmitting(false);
+      return;
+    }
+
+    router.refresh();
+    setIsSubmitting(false);
+  }
+
+  function handleCancel(): void {
+    if (!reason.trim()) {
+      setError("A reason is required to cancel an action");
+      return;
+    }
+    void run(() => cancelAction(action.id, reason));
+  }
+
+  return (
+    <section
+      style={{
+        marginTop: "1.5rem",
+        border: "1px solid #ccc",
+        borderRadius: "4px",
+        padding: "1.5rem",
+        display: "grid",
+        gap: "1.5rem",
+      }}
+    >
+      <div>
+        <label htmlFor="dueDate" style={labelStyle}>
+          Due date
+        </label>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <input
+            id="dueDate"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+            style={inputStyle}
+          />
+          <button
+            onClick={() => run(() => setActionDueDate(action.id, dueDate))}
+            disabled={isSubmitting || !dueDate}
+            style={buttonStyle}
+          >
+            Save
+          </button>
+          {action.dueDate && (
+            <button
+              onClick={() => run(() => setActionDueDate(action.id, null))}
+              disabled={isSubmitting}
+              style={buttonStyle}
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {position && position.count > 1 && (
+        <div>
+          <p style={labelStyle}>
+            Order ({position.index + 1} of {position.count})
+          </p>
+          <div style={{ display: "flex", gap: "0.5rem" }}>
+            <button
+              onClick={() => run(() => moveAction(action.id, "up"))}
+              disabled={isSubmitting || position.index === 0}
+              style={buttonStyle}
+            >
+              ↑ Move up
+            </button>
+            <button
+              onClick={() => run(() => moveAction(action.id, "down"))}
+              disabled={isSubmitting || position.index === position.count - 1}
+              style={buttonStyle}
+            >
+              ↓ Move down
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="blockedBy" style={labelStyle}>
+          Blocked by
+        </label>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          {blockers.length > 0 && (
+            <select
+              id="blockedBy"
+              value={blockedBy}
+              onChange={(e) => setBlockedBy(e.target.value)}
+              style={{ ...inputStyle, flex: 1, background: "transparent" }}
+            >
+              {blockers.map((blocker) => (
+                <option key={blocker.id} value={blocker.id}>
+                  {blocker.label}
+                </option>
+              ))}
+            </select>
+          )}
+          {blockers.length > 0 && (
+            <button
+              onClick={() => run(() => blockAction(action.id, blockedBy))}
+              disabled={isSubmitting || !blockedBy}
+              style={buttonStyle}
+            >
+              Block
+            </button>
+          )}
+          {action.status === "Blocked" && (
+            <button
+              onClick={() => run(() => unblockAction(action.id))}
+              disabled={isSubmitting}
+              style={buttonStyle}
+            >
+              Unblock
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="cancelReason" style={labelStyle}>
+          Cancel
+        </label>
+        <div style={{ display: "flex", gap: "0.5rem" }}>
+          <input
+            id="cancelReason"
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why is this no longer needed?"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button
+            onClick={handleCancel}
+            disabled={isSubmitting}
+            style={{ ...buttonStyle, color: "#dc2626" }}
+          >
+            Cancel action
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <p style={{ color: "#dc2626", fontSize: "0.75rem", margin: 0 }}>
+          {error}
+        </p>
+      )}
+    </section>
+  );
+}
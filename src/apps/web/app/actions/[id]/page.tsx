@@ -1,8 +1,11 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { createStore } from "@/lib/store";
+import { withStore } from "@/lib/store";
+import { getEpisodeActions } from "@libs/regulator";
 import { Field } from "@/components";
 import { ActionCompleteButton } from "./ActionCompleteButton";
+import { ActionLifecyclePanel } from "./ActionLifecyclePanel";
+import type { BlockerOption } from "./ActionLifecyclePanel";
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -12,8 +15,7 @@ export default async function ActionPage({
   params,
 }: PageProps): Promise<React.ReactNode> {
   const { id } = await params;
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   const action = state.actions.find((a) => a.id === id);
   if (!action) {
@@ -25,6 +27,38 @@ export default async function ActionPage({
     ? state.episodes.find((e) => e.id === action.episodeId)
     : undefined;
 
+  // What this action is waiting on (blocks Links pointing at it)
+  const blockedBy = state.links
+    .filter((l) => l.targetId === id && l.relation === "blocks")
+    .map(
+      (l) =>
+        state.actions.find((a) => a.id === l.sourceId)?.description ??
+        state.episodes.find((e) => e.id === l.sourceId)?.objective ??
+        l.sourceId
+    );
+
+  const blockers: BlockerOption[] = [
+    ...state.actions
+      .filter(
+        (a) =>
+          a.id !== id && (a.status === "Pending" || a.status === "Blocked")
+      )
+      .map((a) => ({ id: a.id, label: `Action: ${a.description}` })),
+    ...state.episodes
+      .filter((e) => e.status === "Active")
+      .map((e) => ({ id: e.id, label: `Episode: ${e.objective}` })),
+  ];
+
+  const episodeActions = action.episodeId
+    ? getEpisodeActions(state, action.episodeId)
+    : [];
+  const position = action.episodeId
+    ? {
+        index: episodeActions.findIndex((a) => a.id === id),
+        count: episodeActions.length,
+      }
+    : null;
+
   return (
     <main
       style={{
@@ -70,11 +104,23 @@ export default async function ActionPage({
       >
         <dl style={{ display: "grid", gap: "1rem" }}>
           <Field label="Status" value={action.status} />
+          {action.dueDate && <Field label="Due" value={action.dueDate} />}
+          {blockedBy.length > 0 && (
+            <Field label="Blocked by" value={blockedBy.join(", ")} />
+          )}
+          {action.cancelReason && (
+            <Field label="Cancel reason" value={action.cancelReason} />
+          )}
         </dl>
       </section>
 
       {/* Regulatory Action Section */}
       <ActionCompleteButton actionId={id} currentStatus={action.status} />
+      <ActionLifecyclePanel
+        action={action}
+        blockers={blockers}
+        position={position}
+      />
 
       {episode && (
         <section style={{ marginTop: "1.5rem" }}>
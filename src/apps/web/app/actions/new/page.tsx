@@ -15,6 +15,7 @@ export default function NewActionPage(): React.ReactNode {
 
   const [description, setDescription] = useState("");
   const [episodeId, setEpisodeId] = useState(preselectedEpisodeId);
+  const [dueDate, setDueDate] = useState("");
   const [episodes, setEpisodes] = useState<EpisodeOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -40,7 +41,8 @@ export default function NewActionPage(): React.ReactNode {
 
     const result = await addAction(
       description,
-      episodeId || undefined
+      episodeId || undefined,
+      dueDate || undefined
     );
 
     if (!result.ok) {
@@ -132,6 +134,35 @@ export default function NewActionPage(): React.ReactNode {
             />
           </div>
 
+          <div style={{ marginBottom: "1.5rem" }}>
+            <label
+              htmlFor="dueDate"
+              style={{
+                display: "block",
+                fontSize: "0.75rem",
+                color: "#666",
+                textTransform: "uppercase",
+                letterSpacing: "0.05em",
+                marginBottom: "0.5rem",
+              }}
+            >
+              Due date (optional)
+            </label>
+            <input
+              id="dueDate"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              style={{
+                padding: "0.75rem",
+                border: "1px solid #ccc",
+                borderRadius: "4px",
+                fontFamily: "inherit",
+                fontSize: "inherit",
+              }}
+            />
+          </div>
+
           <div>
             <label
               htmlFor="episode"
@@ -4,22 +4,39 @@ import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { closeEpisode } from "@/app/actions";
 import type { EpisodeType } from "@libs/memory";
+import type { PendingActionDisposition } from "@libs/regulator";
+
+type PendingActionMode = PendingActionDisposition["mode"];
+
+interface CarryOverTarget {
+  id: string;
+  objective: string;
+}
 
 interface CloseEpisodeFormProps {
   episodeId: string;
   episodeType: EpisodeType;
   currentStatus: string;
+  /** Pending or Blocked actions that closing must carry over, cancel or detach */
+  pendingActionCount: number;
+  /** Other active episodes of the node that can take them */
+  carryOverTargets: CarryOverTarget[];
 }
 
 export function CloseEpisodeForm({
   episodeId,
   episodeType,
   currentStatus,
+  pendingActionCount,
+  carryOverTargets,
 }: CloseEpisodeFormProps): React.ReactNode {
   const router = useRouter();
   const [isExpanded, setIsExpanded] = useState(false);
   const [closureNote, setClosureNote] = useState("");
   const [modelStatement, setModelStatement] = useState("");
+  const [pendingMode, setPendingMode] = useState<PendingActionMode | "">("");
+  const [carryOverTo, setCarryOverTo] = useState(carryOverTargets[0]?.id ?? "");
+  const [cancelReason, setCancelReason] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -29,9 +46,27 @@ export function CloseEpisodeForm({
   }
 
   const isExplore = episodeType === "Explore";
+  const hasPendingActions = pendingActionCount > 0;
   const canSubmit =
     closureNote.trim().length > 0 &&
-    (!isExplore || modelStatement.trim().length > 0);
+    (!isExplore || modelStatement.trim().length > 0) &&
+    (!hasPendingActions ||
+      pendingMode === "cancel" ||
+      pendingMode === "detach" ||
+      (pendingMode === "carryOver" && carryOverTo !== ""));
+
+  function getPendingActions(): PendingActionDisposition | undefined {
+    if (!hasPendingActions) return undefined;
+    if (pendingMode === "carryOver") {
+      return { mode: "carryOver", episodeId: carryOverTo };
+    }
+    if (pendingMode === "cancel") {
+      return cancelReason.trim()
+        ? { mode: "cancel", reason: cancelReason }
+        : { mode: "cancel" };
+    }
+    return { mode: "detach" };
+  }
 
   async function handleClose(): Promise<void> {
     if (!canSubmit) return;
@@ -43,7 +78,8 @@ export function CloseEpisodeForm({
       episodeId,
       closureNote,
       episodeType,
-      isExplore ? modelStatement : undefined
+      isExplore ? modelStatement : undefined,
+      getPendingActions()
     );
 
     if (!result.ok) {
@@ -208,6 +244,106 @@ export function CloseEpisodeForm({
           </div>
         )}
 
+        {/* Pending actions (required when the episode still has some) */}
+        {hasPendingActions && (
+          <fieldset
+            style={{
+              marginBottom: "1rem",
+              border: "none",
+              padding: 0,
+            }}
+          >
+            <legend
+              style={{
+                fontSize: "0.875rem",
+                fontWeight: 500,
+                marginBottom: "0.5rem",
+              }}
+            >
+              {pendingActionCount} Pending Action
+              {pendingActionCount === 1 ? "" : "s"}{" "}
+              <span style={{ color: "#dc2626" }}>*</span>
+            </legend>
+            <p
+              style={{
+                fontSize: "0.75rem",
+                color: "#666",
+                marginBottom: "0.5rem",
+              }}
+            >
+              Actions lose their authority when the episode closes. What
+              happens to them?
+            </p>
+            <label style={{ display: "block", marginBottom: "0.5rem" }}>
+              <input
+                type="radio"
+                name="pendingActions"
+                checked={pendingMode === "carryOver"}
+                disabled={carryOverTargets.length === 0}
+                onChange={() => setPendingMode("carryOver")}
+              />{" "}
+              Carry over to another active episode
+              {carryOverTargets.length === 0 && " (none open)"}
+            </label>
+            {pendingMode === "carryOver" && (
+              <select
+                value={carryOverTo}
+                onChange={(e) => setCarryOverTo(e.target.value)}
+                style={{
+                  width: "100%",
+                  padding: "0.5rem",
+                  marginBottom: "0.5rem",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  fontFamily: "inherit",
+                  background: "transparent",
+                }}
+              >
+                {carryOverTargets.map((target) => (
+                  <option key={target.id} value={target.id}>
+                    {target.objective}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label style={{ display: "block", marginBottom: "0.5rem" }}>
+              <input
+                type="radio"
+                name="pendingActions"
+                checked={pendingMode === "cancel"}
+                onChange={() => setPendingMode("cancel")}
+              />{" "}
+              Cancel them
+            </label>
+            {pendingMode === "cancel" && (
+              <input
+                type="text"
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+                placeholder="Reason (optional)"
+                style={{
+                  width: "100%",
+                  padding: "0.5rem",
+                  marginBottom: "0.5rem",
+                  border: "1px solid #ccc",
+                  borderRadius: "4px",
+                  fontFamily: "inherit",
+                  boxSizing: "border-box",
+                }}
+              />
+            )}
+            <label style={{ display: "block" }}>
+              <input
+                type="radio"
+                name="pendingActions"
+                checked={pendingMode === "detach"}
+                onChange={() => setPendingMode("detach")}
+              />{" "}
+              Detach them to triage (unlinked actions)
+            </label>
+          </fieldset>
+        )}
+
         {error && (
           <p
             style={{
@@ -243,6 +379,8 @@ export function CloseEpisodeForm({
               setIsExpanded(false);
               setClosureNote("");
               setModelStatement("");
+              setPendingMode("");
+              setCancelReason("");
               setError(null);
             }}
             disabled={isSubmitting}
@@ -0,0 +1,100 @@
+import type { ProxyValue } from "@libs/memory";
+import type { EpisodeEffectiveness, ProxyTrend } from "@libs/regulator";
+import { Field } from "@/components";
+
+interface EffectivenessPanelProps {
+  report: EpisodeEffectiveness;
+}
+
+/**
+ * Shows how a closed Stabilize episode left its Variable:
+ * status before and after, duration against the timebox,
+ * actions done vs left pending, and each proxy's trend.
+ */
+export function EffectivenessPanel({
+  report,
+}: EffectivenessPanelProps): React.ReactNode {
+  const outcome =
+    report.statusAtOpen === null || report.statusAtClose === null
+      ? "Unknown (variable removed)"
+      : `${report.statusAtOpen} → ${report.statusAtClose}`;
+  const timebox =
+    report.timeboxDays === null
+      ? "No timebox"
+      : `${report.timeboxDays} days (${report.withinTimebox ? "within" : "over"})`;
+
+  return (
+    <section
+      style={{
+        border: "1px solid #ccc",
+        borderRadius: "4px",
+        padding: "1.5rem",
+        marginBottom: "1.5rem",
+      }}
+    >
+      <h2
+        style={{
+          fontSize: "0.75rem",
+          color: "#666",
+          textTransform: "uppercase",
+          letterSpacing: "0.05em",
+          marginTop: 0,
+          marginBottom: "1rem",
+        }}
+      >
+        Effectiveness
+      </h2>
+      <p
+        style={{
+          margin: "0 0 1rem",
+          fontWeight: 600,
+          color: report.restored ? "#2e7d32" : "#b26a00",
+        }}
+      >
+        {report.restored
+          ? "Restored the variable to InRange"
+          : "Did not restore the variable to InRange"}
+      </p>
+      <dl style={{ display: "grid", gap: "1rem" }}>
+        <Field label="Variable" value={outcome} />
+        <Field
+          label="Duration"
+          value={`${report.durationDays.toFixed(1)} days`}
+        />
+        <Field label="Timebox" value={timebox} />
+        <Field
+          label="Actions"
+          value={`${report.actionsDone} done, ${report.actionsPending} left pending`}
+        />
+        {report.trends.map((trend) => (
+          <Field
+            key={trend.proxy.id}
+            label={trend.proxy.name}
+            value={describeTrend(trend)}
+          />
+        ))}
+      </dl>
+    </section>
+  );
+}
+
+function formatValue(value: ProxyValue): string {
+  return String(value.value);
+}
+
+function describeTrend(trend: ProxyTrend): string {
+  const first = trend.readings[0];
+  const last = trend.readings.at(-1);
+  if (!first || !last) {
+    return "No readings during the episode";
+  }
+  if (trend.readings.length === 1) {
+    return `${formatValue(first.value)} (1 reading)`;
+  }
+  const unit = trend.proxy.unit ? ` ${trend.proxy.unit}` : "";
+  const change =
+    trend.change === null
+      ? ""
+      : `, ${trend.change >= 0 ? "+" : ""}${Number(trend.change.toFixed(2))}${unit}`;
+  return `${formatValue(first.value)} → ${formatValue(last.value)} (${trend.readings.length} readings${change})`;
+}
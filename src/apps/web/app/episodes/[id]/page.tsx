@@ -1,9 +1,17 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import type { EpisodeType } from "@libs/memory";
-import { createStore } from "@/lib/store";
-import { Field, ActionCard } from "@/components";
+import {
+  getActiveEpisodesByNode,
+  getEpisodeActions,
+  getEpisodeEffectiveness,
+  getEpisodeLineage,
+  getOpenEpisodeActions,
+} from "@libs/regulator";
+import { withStore } from "@/lib/store";
+import { Field, ActionCard, LineageTree } from "@/components";
 import { CloseEpisodeForm } from "./CloseEpisodeForm";
+import { EffectivenessPanel } from "./EffectivenessPanel";
 import { EpisodeEditor } from "./EpisodeEditor";
 
 interface PageProps {
@@ -14,8 +22,7 @@ export default async function EpisodePage({
   params,
 }: PageProps): Promise<React.ReactNode> {
   const { id } = await params;
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   const episode = state.episodes.find((e) => e.id === id);
   if (!episode) {
@@ -28,7 +35,17 @@ export default async function EpisodePage({
     : undefined;
 
   // Get linked actions
-  const linkedActions = state.actions.filter((a) => a.episodeId === id);
+  const linkedActions = getEpisodeActions(state, id);
+
+  // Outcome report (closed Stabilize episodes only)
+  const effectiveness = getEpisodeEffectiveness(state, episode);
+
+  // Chain of follow-ups this episode belongs to (null when it is alone)
+  const lineage = getEpisodeLineage(state, id);
+  const chain =
+    lineage && (lineage.episode.id !== id || lineage.followUps.length > 0)
+      ? lineage
+      : null;
 
   return (
     <main
@@ -102,11 +119,17 @@ export default async function EpisodePage({
         </dl>
       </section>
 
+      {effectiveness && <EffectivenessPanel report={effectiveness} />}
+
       {/* Regulatory Action Section */}
       <CloseEpisodeForm
         episodeId={id}
         episodeType={episode.type as EpisodeType}
         currentStatus={episode.status}
+        pendingActionCount={getOpenEpisodeActions(state, id).length}
+        carryOverTargets={getActiveEpisodesByNode(state, episode.node)
+          .filter((e) => e.id !== id)
+          .map((e) => ({ id: e.id, objective: e.objective }))}
       />
 
       <section style={{ marginTop: "1.5rem" }}>
@@ -147,6 +170,42 @@ export default async function EpisodePage({
           </Link>
         )}
       </section>
+
+      <section style={{ marginTop: "1.5rem" }}>
+        <h2
+          style={{
+            fontSize: "0.75rem",
+            color: "#666",
+            textTransform: "uppercase",
+            letterSpacing: "0.05em",
+            marginBottom: "1rem",
+          }}
+        >
+          Lineage
+        </h2>
+        {chain ? (
+          <LineageTree lineage={chain} currentEpisodeId={id} />
+        ) : (
+          <p style={{ color: "#999", marginBottom: "1rem" }}>
+            No previous or follow-up episodes
+          </p>
+        )}
+        <Link
+          href={`/episodes/new?after=${id}`}
+          style={{
+            display: "inline-block",
+            marginTop: "0.5rem",
+            padding: "0.5rem 1rem",
+            fontSize: "0.875rem",
+            border: "1px dashed #ccc",
+            borderRadius: "4px",
+            color: "#666",
+            textDecoration: "none",
+          }}
+        >
+          + Open Follow-up
+        </Link>
+      </section>
     </main>
   );
 }
@@ -9,17 +9,29 @@ import {
 } from "@/app/actions";
 import type { EpisodeType } from "@libs/memory";
 
+export interface PreviousEpisodeOption {
+  id: string;
+  type: EpisodeType;
+  objective: string;
+}
+
 interface NewEpisodeFormProps {
   episodeTypes: readonly string[];
   variables: VariableOption[];
+  /** The episode this one follows up on, if any */
+  previousEpisode: PreviousEpisodeOption | null;
 }
 
 export function NewEpisodeForm({
   episodeTypes,
   variables,
+  previousEpisode,
 }: NewEpisodeFormProps): React.ReactNode {
   const router = useRouter();
-  const [episodeType, setEpisodeType] = useState<EpisodeType>("Explore");
+  // An Explore usually hands off to a Stabilize episode
+  const [episodeType, setEpisodeType] = useState<EpisodeType>(
+    previousEpisode?.type === "Explore" ? "Stabilize" : "Explore"
+  );
   const [objective, setObjective] = useState("");
   const [variableId, setVariableId] = useState("");
   const [isSaving, setIsSaving] = useState(false);
@@ -43,8 +55,12 @@ export function NewEpisodeForm({
 
     const result =
       episodeType === "Stabilize"
-        ? await openStabilizeEpisode(variableId, objective.trim())
-        : await openExploreEpisode(objective.trim());
+        ? await openStabilizeEpisode(
+            variableId,
+            objective.trim(),
+            previousEpisode?.id
+          )
+        : await openExploreEpisode(objective.trim(), previousEpisode?.id);
 
     if (!result.ok) {
       setError(result.error);
@@ -81,6 +97,25 @@ export function NewEpisodeForm({
           </p>
         )}
 
+        {previousEpisode && (
+          <p
+            style={{
+              fontSize: "0.875rem",
+              color: "#666",
+              marginTop: 0,
+              marginBottom: "1.5rem",
+            }}
+          >
+            Follows up on{" "}
+            <a
+              href={`/episodes/${previousEpisode.id}`}
+              style={{ color: "#000", textDecoration: "underline" }}
+            >
+              {previousEpisode.objective}
+            </a>
+          </p>
+        )}
+
         <div style={{ marginBottom: "1.5rem" }}>
           <label
             htmlFor="episodeType"
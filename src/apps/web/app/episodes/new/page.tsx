@@ -1,9 +1,21 @@
 import { EPISODE_TYPES } from "@libs/memory";
 import { getVariables } from "@/app/actions";
+import { withStore } from "@/lib/store";
 import { NewEpisodeForm } from "./NewEpisodeForm";
 
-export default async function NewEpisodePage(): Promise<React.ReactNode> {
+interface PageProps {
+  /** `after`: the episode the new one follows up on */
+  searchParams: Promise<{ after?: string }>;
+}
+
+export default async function NewEpisodePage({
+  searchParams,
+}: PageProps): Promise<React.ReactNode> {
+  const { after } = await searchParams;
   const variables = await getVariables();
+  const state = after ? await withStore((store) => store.load()) : null;
+  const previousEpisode =
+    state?.episodes.find((e) => e.id === after) ?? null;
 
   return (
     <main
@@ -25,10 +37,24 @@ export default async function NewEpisodePage(): Promise<React.ReactNode> {
         >
           New Episode
         </p>
-        <h1 style={{ fontSize: "1.5rem" }}>Create Episode</h1>
+        <h1 style={{ fontSize: "1.5rem" }}>
+          {previousEpisode ? "Create Follow-up Episode" : "Create Episode"}
+        </h1>
       </header>
 
-      <NewEpisodeForm episodeTypes={EPISODE_TYPES} variables={variables} />
+      <NewEpisodeForm
+        episodeTypes={EPISODE_TYPES}
+        variables={variables}
+        previousEpisode={
+          previousEpisode
+            ? {
+                id: previousEpisode.id,
+                type: previousEpisode.type,
+                objective: previousEpisode.objective,
+              }
+            : null
+        }
+      />
     </main>
   );
 }
@@ -2,7 +2,7 @@ import Link from "next/link";
 import { DEFAULT_PERSONAL_NODE } from "@libs/memory";
 import { getStatusData, getPendingOrphanedActions } from "@libs/regulator";
 import type { Action, Episode } from "@libs/memory";
-import { createStore } from "@/lib/store";
+import { withStore } from "@/lib/store";
 import { ActionCard } from "@/components";
 
 interface EpisodeWithActions {
@@ -11,8 +11,7 @@ interface EpisodeWithActions {
 }
 
 export default async function ActionsLensPage(): Promise<React.ReactNode> {
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
   const status = getStatusData(state, DEFAULT_PERSONAL_NODE);
 
   // Get active episodes and pending actions
@@ -86,7 +85,7 @@ export default async function ActionsLensPage(): Promise<React.ReactNode> {
               letterSpacing: "0.05em",
             }}
           >
-            Unlinked
+            Triage (unlinked)
           </h2>
           {orphanActions.map((action) => (
             <ActionCard key={action.id} action={action} />
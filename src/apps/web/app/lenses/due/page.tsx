@@ -0,0 +1,75 @@
+import Link from "next/link";
+import { DEFAULT_PERSONAL_NODE, formatNodeRef } from "@libs/memory";
+import { getDueMeasurements } from "@libs/regulator";
+import type { DueMeasurement } from "@libs/regulator";
+import { withStore } from "@/lib/store";
+import styles from "./page.module.css";
+
+// What is due depends on today's date, so never serve a prerendered page
+export const dynamic = "force-dynamic";
+
+export default async function DueLensPage(): Promise<React.ReactNode> {
+  const state = await withStore((store) => store.load());
+  const due = getDueMeasurements(
+    state,
+    DEFAULT_PERSONAL_NODE,
+    new Date().toISOString()
+  );
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Due</h1>
+        <p className={styles.subtitle}>
+          {formatNodeRef(DEFAULT_PERSONAL_NODE)} · what needs measuring today
+        </p>
+      </header>
+
+      {due.length > 0 ? (
+        <ul className={styles.list}>
+          {due.map((item) => (
+            <li key={item.variable.id}>
+              <DueCard item={item} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.emptyState}>Nothing to measure today</p>
+      )}
+    </main>
+  );
+}
+
+interface DueCardProps {
+  item: DueMeasurement;
+}
+
+function DueCard({ item }: DueCardProps): React.ReactNode {
+  const { variable, cadence, proxies, lastMeasuredAt, daysOverdue } = item;
+  const when =
+    lastMeasuredAt === null
+      ? "Never measured"
+      : `Last measured ${lastMeasuredAt.slice(0, 10)}`;
+
+  return (
+    <Link
+      href={`/variables/${variable.id}`}
+      className={styles.card}
+      data-status={item.status}
+    >
+      <div className={styles.cardMain}>
+        <span className={styles.name}>{variable.name}</span>
+        <span className={styles.detail}>
+          {cadence} · {when}
+          {proxies.length > 0 &&
+            ` · log ${proxies.map((p) => p.name).join(", ")}`}
+        </span>
+      </div>
+      <span className={styles.badge}>
+        {item.status === "overdue"
+          ? `${daysOverdue} ${daysOverdue === 1 ? "day" : "days"} overdue`
+          : "Due"}
+      </span>
+    </Link>
+  );
+}
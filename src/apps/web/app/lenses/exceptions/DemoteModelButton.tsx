@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import type { EnforcementLevel } from "@libs/memory";
+import { setModelEnforcement } from "@/app/actions";
+import styles from "./DemoteModelButton.module.css";
+
+interface DemoteModelButtonProps {
+  modelId: string;
+  demoteTo: EnforcementLevel;
+}
+
+/**
+ * Demotes a frequently excepted Normative Model one enforcement level.
+ */
+export function DemoteModelButton({
+  modelId,
+  demoteTo,
+}: DemoteModelButtonProps): React.ReactNode {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleClick(): Promise<void> {
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await setModelEnforcement(modelId, demoteTo);
+
+    setIsSubmitting(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <span className={styles.wrapper}>
+      <button
+        type="button"
+        className={styles.button}
+        onClick={() => void handleClick()}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? "Saving..." : `Demote to ${demoteTo}`}
+      </button>
+      {error && <span className={styles.error}>{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,221 @@
+import Link from "next/link";
+import { MUTATION_TYPES } from "@libs/memory";
+import type { MutationType } from "@libs/memory";
+import {
+  EXCEPTION_RATE_WINDOW_DAYS,
+  getExceptionAudit,
+  getExceptionRates,
+  isArchived,
+} from "@libs/regulator";
+import type {
+  ExceptionAuditEntry,
+  ExceptionFilter,
+  ModelExceptionRate,
+} from "@libs/regulator";
+import { withStore } from "@/lib/store";
+import { DemoteModelButton } from "./DemoteModelButton";
+import styles from "./page.module.css";
+
+// Exception rates are measured up to now, so never serve a prerendered page
+export const dynamic = "force-dynamic";
+
+interface PageProps {
+  searchParams: Promise<{
+    model?: string;
+    type?: string;
+    from?: string;
+    to?: string;
+  }>;
+}
+
+function isMutationType(value: string): value is MutationType {
+  return (MUTATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Reads the filter form's search params. Dates cover whole days; anything
+ * unparseable is ignored rather than failing the page.
+ */
+function parseFilter(
+  params: Awaited<PageProps["searchParams"]>
+): ExceptionFilter {
+  const filter: ExceptionFilter = {};
+  if (params.model) filter.modelId = params.model;
+  if (params.type && isMutationType(params.type)) {
+    filter.mutationType = params.type;
+  }
+  const from = params.from ? Date.parse(`${params.from}T00:00:00.000Z`) : NaN;
+  if (!Number.isNaN(from)) filter.from = new Date(from).toISOString();
+  const to = params.to ? Date.parse(`${params.to}T23:59:59.999Z`) : NaN;
+  if (!Number.isNaN(to)) filter.to = new Date(to).toISOString();
+  return filter;
+}
+
+export default async function ExceptionsLensPage({
+  searchParams,
+}: PageProps): Promise<React.ReactNode> {
+  const params = await searchParams;
+  const filter = parseFilter(params);
+  const state = await withStore((store) => store.load());
+
+  const entries = getExceptionAudit(state, filter);
+  const flagged = getExceptionRates(state, new Date().toISOString()).filter(
+    (rate) => rate.flagged
+  );
+  const normativeModels = state.models.filter(
+    (model) => model.type === "Normative" && !isArchived(model)
+  );
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Exceptions</h1>
+        <p className={styles.subtitle}>
+          Every warning acknowledged and block overridden, with why
+        </p>
+      </header>
+
+      {flagged.length > 0 && (
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>
+            Excepted weekly or more (last {EXCEPTION_RATE_WINDOW_DAYS} days)
+          </h2>
+          <ul className={styles.list}>
+            {flagged.map((rate) => (
+              <li key={rate.model.id}>
+                <FlaggedModelCard rate={rate} />
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <form method="get" className={styles.filters}>
+        <label className={styles.label}>
+          Model
+          <select
+            name="model"
+            defaultValue={params.model ?? ""}
+            className={styles.input}
+          >
+            <option value="">Any</option>
+            {normativeModels.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.statement}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.label}>
+          Mutation
+          <select
+            name="type"
+            defaultValue={params.type ?? ""}
+            className={styles.input}
+          >
+            <option value="">Any</option>
+            {MUTATION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.label}>
+          From
+          <input
+            type="date"
+            name="from"
+            defaultValue={params.from ?? ""}
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.label}>
+          To
+          <input
+            type="date"
+            name="to"
+            defaultValue={params.to ?? ""}
+            className={styles.input}
+          />
+        </label>
+        <button type="submit" className={styles.button}>
+          Filter
+        </button>
+      </form>
+
+      {entries.length > 0 ? (
+        <ul className={styles.list}>
+          {entries.map((entry) => (
+            <li key={entry.exception.id}>
+              <ExceptionCard entry={entry} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.emptyState}>No exceptions match</p>
+      )}
+    </main>
+  );
+}
+
+interface FlaggedModelCardProps {
+  rate: ModelExceptionRate;
+}
+
+function FlaggedModelCard({ rate }: FlaggedModelCardProps): React.ReactNode {
+  return (
+    <div className={styles.card} data-flagged="true">
+      <div className={styles.cardMain}>
+        <span className={styles.name}>{rate.model.statement}</span>
+        <span className={styles.detail}>
+          {rate.model.enforcement} · {rate.warnAcknowledgments} warn
+          acknowledgments · {rate.blockOverrides} block overrides ·{" "}
+          {rate.perWeek.toFixed(1)}/week
+        </span>
+        <span className={styles.detail}>
+          Revise the norm, or demote it if it no longer fits
+        </span>
+      </div>
+      {rate.demoteTo && (
+        <DemoteModelButton modelId={rate.model.id} demoteTo={rate.demoteTo} />
+      )}
+    </div>
+  );
+}
+
+interface ExceptionCardProps {
+  entry: ExceptionAuditEntry;
+}
+
+function ExceptionCard({ entry }: ExceptionCardProps): React.ReactNode {
+  const { exception, model, target } = entry;
+  // Episodes, Actions, Variables and Notes each have a detail page
+  const href =
+    target.label !== null ? `/${target.collection}/${target.id}` : null;
+
+  return (
+    <div className={styles.card} data-decision={exception.originalDecision}>
+      <div className={styles.cardMain}>
+        <span className={styles.name}>{exception.justification}</span>
+        <span className={styles.detail}>
+          {exception.originalDecision === "block"
+            ? "Block overridden"
+            : "Warning acknowledged"}{" "}
+          · {model?.statement ?? `Deleted Model ${exception.modelId}`}
+        </span>
+        <span className={styles.detail}>
+          {exception.mutationType} ·{" "}
+          {href ? (
+            <Link href={href} className={styles.link}>
+              {target.label}
+            </Link>
+          ) : (
+            `${target.id} (gone)`
+          )}
+        </span>
+      </div>
+      <span className={styles.badge}>{exception.createdAt.slice(0, 10)}</span>
+    </div>
+  );
+}
@@ -12,9 +12,21 @@ export default function LensesLayout({
         <Link href="/lenses/status" className={styles.navLink}>
           Status
         </Link>
+        <Link href="/lenses/due" className={styles.navLink}>
+          Due
+        </Link>
         <Link href="/lenses/actions" className={styles.navLink}>
           Actions
         </Link>
+        <Link href="/lenses/exceptions" className={styles.navLink}>
+          Exceptions
+        </Link>
+        <Link href="/lenses/norms" className={styles.navLink}>
+          Norms
+        </Link>
+        <Link href="/lenses/lineage" className={styles.navLink}>
+          Lineage
+        </Link>
         <Link href="/lenses/world-model" className={styles.navLink}>
           World Model
         </Link>
@@ -0,0 +1,34 @@
+import { DEFAULT_PERSONAL_NODE, formatNodeRef } from "@libs/memory";
+import { getEpisodeLineages } from "@libs/regulator";
+import { withStore } from "@/lib/store";
+import { LineageTree } from "@/components";
+import styles from "./page.module.css";
+
+export default async function LineageLensPage(): Promise<React.ReactNode> {
+  const state = await withStore((store) => store.load());
+  const lineages = getEpisodeLineages(state, DEFAULT_PERSONAL_NODE);
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Lineage</h1>
+        <p className={styles.subtitle}>
+          {formatNodeRef(DEFAULT_PERSONAL_NODE)} · episodes and the follow-ups
+          they led to
+        </p>
+      </header>
+
+      {lineages.length > 0 ? (
+        <div className={styles.list}>
+          {lineages.map((lineage) => (
+            <LineageTree key={lineage.episode.id} lineage={lineage} />
+          ))}
+        </div>
+      ) : (
+        <p className={styles.emptyState}>
+          No follow-up episodes yet. Open one from a closed episode.
+        </p>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { ENFORCEMENT_LEVELS } from "@libs/memory";
+import type { EnforcementLevel } from "@libs/memory";
+import type { ModelReviewDecision } from "@libs/regulator";
+import { reviewNorm } from "@/app/actions";
+import styles from "./ReviewNormForm.module.css";
+
+type Outcome = ModelReviewDecision["outcome"];
+
+interface ReviewNormFormProps {
+  modelId: string;
+  enforcement: EnforcementLevel;
+}
+
+/**
+ * Decides one norm due for review. Empty dates keep the Model's own.
+ */
+export function ReviewNormForm({
+  modelId,
+  enforcement,
+}: ReviewNormFormProps): React.ReactNode {
+  const router = useRouter();
+  const [outcome, setOutcome] = useState<Outcome>("renew");
+  const [level, setLevel] = useState<EnforcementLevel>(enforcement);
+  const [reviewOn, setReviewOn] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  function buildDecision(): ModelReviewDecision {
+    if (outcome === "retire") return { outcome };
+    const dates = {
+      ...(reviewOn ? { reviewOn } : {}),
+      ...(expiresOn ? { expiresOn } : {}),
+    };
+    return outcome === "changeEnforcement"
+      ? { outcome, enforcement: level, ...dates }
+      : { outcome, ...dates };
+  }
+
+  async function handleSubmit(e: React.FormEvent): Promise<void> {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    const result = await reviewNorm(
+      modelId,
+      buildDecision(),
+      reason.trim() || undefined
+    );
+
+    setIsSubmitting(false);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    router.refresh();
+  }
+
+  return (
+    <form className={styles.form} onSubmit={(e) => void handleSubmit(e)}>
+      <div className={styles.row}>
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as Outcome)}
+          className={styles.input}
+          aria-label="Decision"
+        >
+          <option value="renew">Renew</option>
+          <option value="changeEnforcement">Change enforcement</option>
+          <option value="retire">Retire</option>
+        </select>
+        {outcome === "changeEnforcement" && (
+          <select
+            value={level}
+            onChange={(e) => setLevel(e.target.value as EnforcementLevel)}
+            className={styles.input}
+            aria-label="Enforcement"
+          >
+            {ENFORCEMENT_LEVELS.map((value) => (
+              <option key={value} value={value}>
+                {value}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      {outcome !== "retire" && (
+        <div className={styles.row}>
+          <label className={styles.label}>
+            Review on
+            <input
+              type="date"
+              value={reviewOn}
+              onChange={(e) => setReviewOn(e.target.value)}
+              className={styles.input}
+            />
+          </label>
+          <label className={styles.label}>
+            Expires on
+            <input
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              className={styles.input}
+            />
+          </label>
+        </div>
+      )}
+      <input
+        type="text"
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        placeholder="Why (optional)"
+        className={styles.input}
+      />
+      <button type="submit" className={styles.button} disabled={isSubmitting}>
+        {isSubmitting ? "Saving..." : "Record decision"}
+      </button>
+      {error && <span className={styles.error}>{error}</span>}
+    </form>
+  );
+}
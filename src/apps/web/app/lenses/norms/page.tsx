@@ -0,0 +1,61 @@
+import { getNormsDueForReview } from "@libs/regulator";
+import type { NormReview } from "@libs/regulator";
+import { withStore } from "@/lib/store";
+import { ReviewNormForm } from "./ReviewNormForm";
+import styles from "./page.module.css";
+
+// Review and expiry dates are judged against today, so never prerender
+export const dynamic = "force-dynamic";
+
+export default async function NormsLensPage(): Promise<React.ReactNode> {
+  const state = await withStore((store) => store.load());
+  const reviews = getNormsDueForReview(state, new Date().toISOString());
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.header}>
+        <h1 className={styles.title}>Norms</h1>
+        <p className={styles.subtitle}>
+          Normative Models due for review: renew, re-enforce or retire each
+        </p>
+      </header>
+
+      {reviews.length > 0 ? (
+        <ul className={styles.list}>
+          {reviews.map((review) => (
+            <li key={review.model.id}>
+              <NormCard review={review} />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className={styles.emptyState}>No norms due for review</p>
+      )}
+    </main>
+  );
+}
+
+interface NormCardProps {
+  review: NormReview;
+}
+
+function NormCard({ review }: NormCardProps): React.ReactNode {
+  const { model, reason, dueOn } = review;
+  return (
+    <div className={styles.card} data-reason={reason}>
+      <div className={styles.cardMain}>
+        <span className={styles.name}>{model.statement}</span>
+        <span className={styles.detail}>
+          {model.enforcement} ·{" "}
+          {reason === "expired"
+            ? `Expired ${dueOn}, enforced as none until renewed`
+            : `Review due ${dueOn}`}
+        </span>
+      </div>
+      <ReviewNormForm
+        modelId={model.id}
+        enforcement={model.enforcement ?? "none"}
+      />
+    </div>
+  );
+}
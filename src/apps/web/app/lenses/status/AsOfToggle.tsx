@@ -0,0 +1,42 @@
+import Link from "next/link";
+import styles from "./AsOfToggle.module.css";
+
+interface AsOfToggleProps {
+  /** Timestamp currently being viewed; undefined means the present */
+  asOf: string | undefined;
+}
+
+/**
+ * Switches the Status lens between the present and a past date.
+ * Plain GET form: the chosen date becomes the `asOf` search param, which
+ * the lens views as of the end of that day.
+ */
+export function AsOfToggle({ asOf }: AsOfToggleProps): React.ReactNode {
+  const parsed = asOf ? Date.parse(asOf) : NaN;
+  const dateValue = Number.isNaN(parsed)
+    ? ""
+    : new Date(parsed).toISOString().slice(0, 10);
+
+  return (
+    <form method="get" className={styles.toggle}>
+      <label className={styles.label}>
+        As of
+        <input
+          type="date"
+          name="asOf"
+          defaultValue={dateValue}
+          className={styles.input}
+          required
+        />
+      </label>
+      <button type="submit" className={styles.button}>
+        View
+      </button>
+      {asOf && (
+        <Link href="/lenses/status" className={styles.nowLink}>
+          Back to now
+        </Link>
+      )}
+    </form>
+  );
+}
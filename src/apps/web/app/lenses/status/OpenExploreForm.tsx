@@ -2,10 +2,19 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import type { MembraneExplanation } from "@libs/membrane";
 import { openExploreEpisode } from "@/app/actions";
+import { MembraneCheck } from "@/components";
 import styles from "./OpenExploreForm.module.css";
 
-export function OpenExploreForm(): React.ReactNode {
+interface OpenExploreFormProps {
+  /** How the Normative Models would decide opening an Explore episode */
+  explanation: MembraneExplanation;
+}
+
+export function OpenExploreForm({
+  explanation,
+}: OpenExploreFormProps): React.ReactNode {
   const router = useRouter();
   const [isExpanded, setIsExpanded] = useState(false);
   const [objective, setObjective] = useState("");
@@ -63,6 +72,8 @@ export function OpenExploreForm(): React.ReactNode {
         Model update to close.
       </p>
 
+      <MembraneCheck explanation={explanation} />
+
       {error && (
         <p role="alert" className={styles.error}>
           {error}
@@ -0,0 +1,68 @@
+import { formatDiffValue, isEmptyDiff, STATE_COLLECTIONS } from "@libs/memory";
+import type { StateDiff } from "@libs/memory";
+import styles from "./WhatChanged.module.css";
+
+interface WhatChangedProps {
+  diff: StateDiff;
+  /** Timestamp the diff starts from */
+  since: string;
+}
+
+/**
+ * Lists what changed between a past State and now, collection by collection.
+ * Changed entities show each differing field as before → after.
+ */
+export function WhatChanged({
+  diff,
+  since,
+}: WhatChangedProps): React.ReactNode {
+  return (
+    <section className={styles.panel}>
+      <h2 className={styles.title}>What changed since {since.slice(0, 10)}</h2>
+
+      {isEmptyDiff(diff) ? (
+        <p className={styles.empty}>Nothing has changed since then.</p>
+      ) : (
+        STATE_COLLECTIONS.filter(
+          (collection) =>
+            diff[collection].added.length +
+              diff[collection].removed.length +
+              diff[collection].changed.length >
+            0
+        ).map((collection) => {
+          const { added, removed, changed } = diff[collection];
+          return (
+            <div key={collection} className={styles.collection}>
+              <h3 className={styles.collectionName}>{collection}</h3>
+              <ul className={styles.list}>
+                {added.map((entity) => (
+                  <li key={entity.id} data-change="added">
+                    + {entity.label}
+                  </li>
+                ))}
+                {removed.map((entity) => (
+                  <li key={entity.id} data-change="removed">
+                    − {entity.label}
+                  </li>
+                ))}
+                {changed.map((entity) => (
+                  <li key={entity.id} data-change="changed">
+                    ~ {entity.label}
+                    <ul className={styles.fields}>
+                      {entity.fields.map((change) => (
+                        <li key={change.field}>
+                          {change.field}: {formatDiffValue(change.before)} →{" "}
+                          {formatDiffValue(change.after)}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          );
+        })
+      )}
+    </section>
+  );
+}
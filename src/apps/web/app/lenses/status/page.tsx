@@ -1,32 +1,74 @@
 import Link from "next/link";
-import { DEFAULT_PERSONAL_NODE, formatNodeRef } from "@libs/memory";
-import { getStatusData } from "@libs/regulator";
-import type { Variable, Episode } from "@libs/memory";
-import { createStore } from "@/lib/store";
+import { DEFAULT_PERSONAL_NODE, diffStates, formatNodeRef } from "@libs/memory";
+import { explainMembrane } from "@libs/membrane";
+import { getStatusData, getVariablesByNode, isArchived } from "@libs/regulator";
+import type { Variable, Episode, State, StateDiff } from "@libs/memory";
+import type { OverdueEpisode } from "@libs/regulator";
+import { parseAsOf } from "@libs/sensorium";
+import type { Result } from "@libs/shared";
+import { withStore } from "@/lib/store";
+import { AsOfToggle } from "./AsOfToggle";
 import { OpenExploreForm } from "./OpenExploreForm";
 import { QuickCapture } from "./QuickCapture";
+import { WhatChanged } from "./WhatChanged";
 import styles from "./page.module.css";
 
-export default async function StatusLensPage(): Promise<React.ReactNode> {
-  const store = createStore();
-  const state = await store.load();
-  const status = getStatusData(state, DEFAULT_PERSONAL_NODE);
+interface PageProps {
+  searchParams: Promise<{ asOf?: string }>;
+}
 
-  // Get variables for this node
-  const nodeVariables = state.variables.filter(
-    (v) =>
-      v.node.type === DEFAULT_PERSONAL_NODE.type &&
-      v.node.id === DEFAULT_PERSONAL_NODE.id
-  );
+export default async function StatusLensPage({
+  searchParams,
+}: PageProps): Promise<React.ReactNode> {
+  const { asOf: requested } = await searchParams;
+  // A picked date means the end of that day, as with `status --as-of`
+  const asOfBound = requested ? parseAsOf(requested) : null;
+  const asOf = asOfBound?.ok ? asOfBound.value : undefined;
+  // Historical view replays the journal; the present reads the state file
+  const { past, present } = await withStore(async (store) => {
+    let past: Result<State> | null = null;
+    if (asOfBound) {
+      past = asOfBound.ok ? await store.loadAsOf(asOfBound.value) : asOfBound;
+    }
+    return { past, present: await store.load() };
+  });
+  let state: State;
+  let changes: StateDiff | null = null;
+  if (past) {
+    if (!past.ok) {
+      return (
+        <main className={styles.page}>
+          <header className={styles.header}>
+            <h1 className={styles.title}>Status</h1>
+            <AsOfToggle asOf={asOf} />
+          </header>
+          <p className={styles.emptyState}>{past.error}</p>
+        </main>
+      );
+    }
+    state = past.value;
+    changes = diffStates(past.value, present);
+  } else {
+    state = present;
+  }
+  const isHistorical = asOf !== undefined;
+  // Timeboxes are judged at the viewed moment, not today
+  const status = getStatusData(state, DEFAULT_PERSONAL_NODE, asOf);
+
+  // Get variables for this node (archived ones stay out of view)
+  const nodeVariables = getVariablesByNode(state, DEFAULT_PERSONAL_NODE);
 
   // Get active episodes
   const activeEpisodes = status.mode === "active" ? status.episodes : [];
+  const overdue = status.mode === "active" ? status.overdue : [];
 
   // Find active Explore episode (there should be at most one active)
   const activeExplore = activeEpisodes.find((e) => e.type === "Explore");
 
   // Count inbox notes for visibility
-  const inboxCount = state.notes.filter((n) => n.tags.includes("inbox")).length;
+  const inboxCount = state.notes.filter(
+    (n) => n.tags.includes("inbox") && !isArchived(n)
+  ).length;
 
   // Get active Stabilize episodes indexed by variableId
   const stabilizeByVariable = new Map<string, Episode>();
@@ -48,12 +90,23 @@ export default async function StatusLensPage(): Promise<React.ReactNode> {
             </Link>
           )}
         </p>
+        <AsOfToggle asOf={asOf} />
       </header>
 
+      {overdue.length > 0 && <OverdueSection overdue={overdue} />}
+
       {activeExplore ? (
         <ExploreCard episode={activeExplore} />
       ) : (
-        <OpenExploreForm />
+        !isHistorical && (
+          <OpenExploreForm
+            explanation={explainMembrane(state, {
+              check: "openEpisode",
+              node: DEFAULT_PERSONAL_NODE,
+              episodeType: "Explore"
+            })}
+          />
+        )
       )}
 
       <section className={styles.variablesSection}>
@@ -76,19 +129,58 @@ export default async function StatusLensPage(): Promise<React.ReactNode> {
           <p className={styles.emptyState}>No variables defined</p>
         )}
 
-        <Link href="/variables/new" className={styles.addButton}>
-          + Add Variable
-        </Link>
+        {!isHistorical && (
+          <Link href="/variables/new" className={styles.addButton}>
+            + Add Variable
+          </Link>
+        )}
       </section>
 
-      {/* Bottom padding to account for fixed QuickCapture */}
-      <div className={styles.bottomSpacer} aria-hidden="true" />
+      {asOf && changes && <WhatChanged diff={changes} since={asOf} />}
+
+      {/* Past State is read-only: no capture in historical view */}
+      {!isHistorical && (
+        <>
+          {/* Bottom padding to account for fixed QuickCapture */}
+          <div className={styles.bottomSpacer} aria-hidden="true" />
 
-      <QuickCapture />
+          <QuickCapture />
+        </>
+      )}
     </main>
   );
 }
 
+interface OverdueSectionProps {
+  overdue: OverdueEpisode[];
+}
+
+function OverdueSection({ overdue }: OverdueSectionProps): React.ReactNode {
+  return (
+    <section className={styles.overdueSection}>
+      <h2 className={styles.sectionTitle}>Overdue</h2>
+      <ul className={styles.overdueList}>
+        {overdue.map(({ episode, dueAt, daysOverdue }) => (
+          <li key={episode.id}>
+            <Link
+              href={`/episodes/${episode.id}`}
+              className={styles.overdueCard}
+            >
+              <span>{episode.objective}</span>
+              <span className={styles.overdueDue}>
+                Due {dueAt.slice(0, 10)} ·{" "}
+                {daysOverdue === 0
+                  ? "today"
+                  : `${daysOverdue} ${daysOverdue === 1 ? "day" : "days"} over`}
+              </span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
+
 interface ExploreCardProps {
   episode: Episode;
 }
@@ -1,14 +1,15 @@
 import Link from "next/link";
+import { isArchived } from "@libs/regulator";
 import type { Model, Note } from "@libs/memory";
-import { createStore } from "@/lib/store";
+import { withStore } from "@/lib/store";
 
 export default async function WorldModelLensPage(): Promise<React.ReactNode> {
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
+  const models = state.models.filter((model) => !isArchived(model));
 
   // Get inbox notes, sorted newest first
   const inboxNotes = state.notes
-    .filter((note) => note.tags.includes("inbox"))
+    .filter((note) => note.tags.includes("inbox") && !isArchived(note))
     .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
   return (
@@ -62,13 +63,13 @@ export default async function WorldModelLensPage(): Promise<React.ReactNode> {
           Models
         </h2>
 
-        {state.models.length === 0 && (
+        {models.length === 0 && (
           <p style={{ color: "#999", textAlign: "center" }}>
             No models yet. Close an Explore episode to create one.
           </p>
         )}
 
-        {state.models.map((model) => (
+        {models.map((model) => (
           <ModelCard key={model.id} model={model} />
         ))}
       </section>
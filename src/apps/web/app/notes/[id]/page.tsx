@@ -1,7 +1,7 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { NOTE_TAGS, MODEL_TYPES } from "@libs/memory";
-import { createStore } from "@/lib/store";
+import { withStore } from "@/lib/store";
 import { NoteEditor } from "./NoteEditor";
 import { NoteProcessingActions } from "./NoteProcessingActions";
 
@@ -13,8 +13,7 @@ export default async function NotePage({
   params,
 }: PageProps): Promise<React.ReactNode> {
   const { id } = await params;
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   const note = state.notes.find((n) => n.id === id);
   if (!note) {
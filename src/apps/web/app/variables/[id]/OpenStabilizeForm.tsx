@@ -2,16 +2,21 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
+import type { MembraneExplanation } from "@libs/membrane";
 import { openStabilizeEpisode } from "@/app/actions";
+import { MembraneCheck } from "@/components";
 
 interface OpenStabilizeFormProps {
   variableId: string;
   variableName: string;
+  /** How the Normative Models would decide opening a Stabilize episode */
+  explanation: MembraneExplanation;
 }
 
 export function OpenStabilizeForm({
   variableId,
   variableName,
+  explanation,
 }: OpenStabilizeFormProps): React.ReactNode {
   const router = useRouter();
   const [isExpanded, setIsExpanded] = useState(false);
@@ -90,6 +95,8 @@ export function OpenStabilizeForm({
         Open Stabilize Episode for {variableName}
       </div>
 
+      <MembraneCheck explanation={explanation} />
+
       {error && (
         <p
           style={{
@@ -664,7 +664,8 @@ function SuggestionBanner({
     const result = await signalVariableWithReason(
       variableId,
       suggestion.suggestedStatus,
-      suggestion.reason
+      suggestion.reason,
+      "inference"
     );
     if (result.ok) {
       onAccept();
@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { useRouter } from "next/navigation";
 import { signalVariable } from "@/app/actions";
+import { UndoToast } from "@/components";
 import type { VariableStatus } from "@libs/memory";
 
 const STATUSES: VariableStatus[] = ["Low", "InRange", "High", "Unknown"];
@@ -19,6 +20,11 @@ export function StatusSelector({
   const router = useRouter();
   const [isUpdating, setIsUpdating] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [signalled, setSignalled] = useState<{
+    status: VariableStatus;
+    entryIndex: number;
+  } | null>(null);
+  const dismissToast = useCallback(() => setSignalled(null), []);
 
   async function handleStatusChange(newStatus: VariableStatus): Promise<void> {
     if (newStatus === currentStatus) return;
@@ -36,6 +42,7 @@ export function StatusSelector({
 
     router.refresh();
     setIsUpdating(false);
+    setSignalled({ status: newStatus, entryIndex: result.value });
   }
 
   return (
@@ -105,7 +112,13 @@ export function StatusSelector({
           {error}
         </p>
       )}
+      {signalled && (
+        <UndoToast
+          message={`Status signalled: ${signalled.status}`}
+          entryIndex={signalled.entryIndex}
+          onDismiss={dismissToast}
+        />
+      )}
     </div>
   );
 }
-
@@ -1,8 +1,9 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import type { VariableStatus, Proxy, ProxyReading } from "@libs/memory";
-import { formatNodeRef } from "@libs/memory";
-import { createStore } from "@/lib/store";
+import { DEFAULT_PERSONAL_NODE, formatNodeRef } from "@libs/memory";
+import { explainMembrane } from "@libs/membrane";
+import { withStore } from "@/lib/store";
 import { Field, EpisodeCard } from "@/components";
 import { OpenStabilizeForm } from "./OpenStabilizeForm";
 import { StatusSelector } from "./StatusSelector";
@@ -16,8 +17,7 @@ export default async function VariablePage({
   params,
 }: PageProps): Promise<React.ReactNode> {
   const { id } = await params;
-  const store = createStore();
-  const state = await store.load();
+  const state = await withStore((store) => store.load());
 
   const variable = state.variables.find((v) => v.id === id);
   if (!variable) {
@@ -150,6 +150,11 @@ export default async function VariablePage({
             <OpenStabilizeForm
               variableId={id}
               variableName={variable.name}
+              explanation={explainMembrane(state, {
+                check: "openEpisode",
+                node: DEFAULT_PERSONAL_NODE,
+                episodeType: "Stabilize"
+              })}
             />
           </div>
         )}
@@ -10,7 +10,7 @@ interface ActionCardProps {
 
 /**
  * Clickable card linking to an action's detail page.
- * Shows description and optionally status.
+ * Shows description, due date if set, and optionally status.
  */
 export function ActionCard({
   action,
@@ -23,6 +23,9 @@ export function ActionCard({
   return (
     <Link href={`/actions/${action.id}`} className={cardClass}>
       <span className={styles.description}>{action.description}</span>
+      {action.dueDate && (
+        <span className={styles.due}>Due {action.dueDate}</span>
+      )}
       {showStatus && <span className={styles.status}>{action.status}</span>}
     </Link>
   );
@@ -0,0 +1,65 @@
+import Link from "next/link";
+import type { EpisodeLineage } from "@libs/regulator";
+import styles from "./LineageTree.module.css";
+
+interface LineageTreeProps {
+  lineage: EpisodeLineage;
+  /** Episode to highlight (e.g. the one whose page shows the tree) */
+  currentEpisodeId?: string;
+}
+
+/**
+ * A chain of episodes as a nested list: each episode with its closure
+ * note and model updates, followed by the episodes it led to.
+ */
+export function LineageTree({
+  lineage,
+  currentEpisodeId,
+}: LineageTreeProps): React.ReactNode {
+  return (
+    <ul className={styles.tree}>
+      <LineageItem lineage={lineage} currentEpisodeId={currentEpisodeId} />
+    </ul>
+  );
+}
+
+function LineageItem({
+  lineage,
+  currentEpisodeId,
+}: LineageTreeProps): React.ReactNode {
+  const { episode, closureNote, modelUpdates, followUps } = lineage;
+
+  return (
+    <li className={styles.item}>
+      <Link
+        href={`/episodes/${episode.id}`}
+        className={styles.episode}
+        data-current={episode.id === currentEpisodeId}
+      >
+        <span className={styles.objective}>{episode.objective}</span>
+        <span className={styles.meta}>
+          {episode.type} · {episode.status}
+        </span>
+      </Link>
+      {closureNote && (
+        <p className={styles.conclusion}>{closureNote.content}</p>
+      )}
+      {modelUpdates.map((model) => (
+        <p key={model.id} className={styles.model}>
+          {model.type}: {model.statement}
+        </p>
+      ))}
+      {followUps.length > 0 && (
+        <ul className={styles.followUps}>
+          {followUps.map((followUp) => (
+            <LineageItem
+              key={followUp.episode.id}
+              lineage={followUp}
+              currentEpisodeId={currentEpisodeId}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
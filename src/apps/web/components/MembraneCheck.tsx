@@ -0,0 +1,66 @@
+import type { MembraneExplanation, ModelExplanation } from "@libs/membrane";
+import styles from "./MembraneCheck.module.css";
+
+interface MembraneCheckProps {
+  /** Dry run of the check the form's mutation will go through */
+  explanation: MembraneExplanation;
+}
+
+function describeCandidate(candidate: ModelExplanation): string {
+  if (!candidate.scopeMatched) {
+    return `Skipped: scope ${candidate.scope ?? "(unset)"} does not match`;
+  }
+  if (!candidate.conditionMatched) {
+    return "Skipped: its condition does not hold";
+  }
+  if (candidate.expired) {
+    return "Skipped: expired, enforced as none until renewed";
+  }
+  if (!candidate.applies) {
+    return "Skipped: enforcement none";
+  }
+  const exceptions = candidate.exceptionAllowed ? "allowed" : "not allowed";
+  const policy =
+    candidate.exceptionPolicy === "model"
+      ? "set on the Model"
+      : `default for ${candidate.enforcement}`;
+  return `Applies (${candidate.enforcement}); exceptions ${exceptions}, ${policy}`;
+}
+
+const DECISION_LABELS = {
+  allow: "Allowed",
+  warn: "Allowed with a warning",
+  block: "Blocked",
+} as const;
+
+/**
+ * Explains, before submitting, how the Normative Models would decide.
+ * Quiet when there are no Normative Models.
+ */
+export function MembraneCheck({
+  explanation,
+}: MembraneCheckProps): React.ReactNode {
+  if (explanation.candidates.length === 0) return null;
+
+  const { decision } = explanation.result;
+  return (
+    <div className={`${styles.check} ${styles[decision]}`}>
+      <p className={styles.decision}>
+        Normative Models: {DECISION_LABELS[decision]}
+      </p>
+      <ul className={styles.candidates}>
+        {explanation.candidates.map((candidate) => (
+          <li
+            key={candidate.modelId}
+            className={candidate.applies ? undefined : styles.skipped}
+          >
+            <span className={styles.statement}>{candidate.statement}</span>
+            <span className={styles.reason}>
+              {describeCandidate(candidate)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
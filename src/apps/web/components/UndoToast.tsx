@@ -0,0 +1,77 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { revertLastChange } from "@/app/actions";
+import styles from "./UndoToast.module.css";
+
+/** How long the toast offers to undo before it goes away */
+const UNDO_WINDOW_MS = 8000;
+
+interface UndoToastProps {
+  /** What just happened, e.g. "Action completed" */
+  message: string;
+  /** Journal entry of that change; undo is refused once it is not the latest */
+  entryIndex: number;
+  onDismiss: () => void;
+}
+
+/**
+ * Briefly offers to undo the change just made, and only that change.
+ * Undo is a compensating change, so it is refused (and the error shown)
+ * if another change has been made since, something it touches was edited,
+ * or it would break an invariant.
+ */
+export function UndoToast({
+  message,
+  entryIndex,
+  onDismiss,
+}: UndoToastProps): React.ReactNode {
+  const router = useRouter();
+  const [isUndoing, setIsUndoing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isUndoing || error) return;
+    const timer = setTimeout(onDismiss, UNDO_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [isUndoing, error, onDismiss]);
+
+  async function handleUndo(): Promise<void> {
+    setIsUndoing(true);
+    const result = await revertLastChange("undo", entryIndex);
+    setIsUndoing(false);
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    router.refresh();
+    onDismiss();
+  }
+
+  return (
+    <div className={styles.toast} role="status">
+      <span className={styles.message}>{error ?? message}</span>
+      {!error && (
+        <button
+          type="button"
+          onClick={handleUndo}
+          disabled={isUndoing}
+          className={styles.undo}
+        >
+          {isUndoing ? "Undoing…" : "Undo"}
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={onDismiss}
+        className={styles.dismiss}
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
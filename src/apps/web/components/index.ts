@@ -2,3 +2,6 @@ export { Field } from "./Field.js";
 export { EpisodeCard } from "./EpisodeCard.js";
 export { ActionCard } from "./ActionCard.js";
 
+export { LineageTree } from "./LineageTree.js";
+export { UndoToast } from "./UndoToast.js";
+export { MembraneCheck } from "./MembraneCheck.js";
@@ -1,5 +1,7 @@
 import path from "path";
-import { JsonStore } from "@libs/memory";
+import { createStateStore } from "@libs/memory";
+import type { StateStore } from "@libs/memory";
+import { replayJournal } from "@libs/regulator";
 
 /**
  * Get the project root path.
@@ -14,9 +16,27 @@ function getProjectRoot(): string {
 }
 
 /**
- * Create a JsonStore pointing to the project data directory.
+ * Create the configured StateStore pointing to the project data directory.
+ * Wired with the Regulator's replay so lenses can load past State.
  */
-export function createStore(): JsonStore {
-  return new JsonStore({ basePath: getProjectRoot() });
+function createStore(): StateStore {
+  return createStateStore({
+    basePath: getProjectRoot(),
+    replay: replayJournal,
+  });
 }
 
+/**
+ * Run `run` against a fresh StateStore and close it afterwards, so a
+ * request never leaves a database connection open behind it.
+ */
+export async function withStore<T>(
+  run: (store: StateStore) => Promise<T>
+): Promise<T> {
+  const store = createStore();
+  try {
+    return await run(store);
+  } finally {
+    store.close();
+  }
+}
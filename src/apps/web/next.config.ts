@@ -2,7 +2,7 @@ import type { NextConfig } from "next";
 import path from "path";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["fs-extra"],
+  serverExternalPackages: ["fs-extra", "better-sqlite3"],
   webpack: (config) => {
     // Resolve @libs/* alias to actual paths
     config.resolve.alias = {
@@ -18,8 +18,10 @@ const nextConfig: NextConfig = {
   turbopack: {
     root: path.resolve(__dirname, "../../.."),
     resolveAlias: {
+      "@libs/membrane": "../../libs/membrane/index.ts",
       "@libs/memory": "../../libs/memory/index.ts",
       "@libs/regulator": "../../libs/regulator/index.ts",
+      "@libs/sensorium": "../../libs/sensorium/index.ts",
       "@libs/shared": "../../libs/shared/index.ts",
     },
     resolveExtensions: [".ts", ".tsx", ".js", ".jsx", ".json"],
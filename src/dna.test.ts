@@ -28,7 +28,9 @@ import {
   SIGNAL_EVENT_TYPES,
   MUTATION_TYPES,
   OVERRIDE_DECISIONS,
+  WEEKDAYS,
   PROXY_VALUE_TYPES,
+  STATUS_CHANGE_SOURCES,
   MAX_ACTIVE_EXPLORE_PER_NODE,
   MAX_ACTIVE_STABILIZE_PER_VARIABLE,
   SCHEMA_VERSION,
@@ -68,7 +70,12 @@ describe("DNA Integrity (Tripwire)", () => {
     });
 
     it("has expected action statuses", () => {
-      expect(ACTION_STATUSES).toEqual(["Pending", "Done"]);
+      expect(ACTION_STATUSES).toEqual([
+        "Pending",
+        "Done",
+        "Cancelled",
+        "Blocked",
+      ]);
     });
 
     it("has expected model types", () => {
@@ -116,16 +123,42 @@ describe("DNA Integrity (Tripwire)", () => {
     });
 
     it("has expected mutation types", () => {
-      expect(MUTATION_TYPES).toEqual(["episode", "action", "signal"]);
+      expect(MUTATION_TYPES).toEqual([
+        "episode",
+        "action",
+        "signal",
+        "variable",
+        "note",
+      ]);
     });
 
     it("has expected override decisions", () => {
       expect(OVERRIDE_DECISIONS).toEqual(["warn", "block"]);
     });
 
+    it("has expected weekdays in getUTCDay order", () => {
+      expect(WEEKDAYS).toEqual([
+        "Sun",
+        "Mon",
+        "Tue",
+        "Wed",
+        "Thu",
+        "Fri",
+        "Sat",
+      ]);
+    });
+
     it("has expected proxy value types", () => {
       expect(PROXY_VALUE_TYPES).toEqual(["numeric", "boolean", "categorical"]);
     });
+
+    it("has expected status change sources", () => {
+      expect(STATUS_CHANGE_SOURCES).toEqual([
+        "manual",
+        "inference",
+        "episodeClosure",
+      ]);
+    });
   });
 
   describe("Regulatory Limits", () => {
@@ -140,7 +173,7 @@ describe("DNA Integrity (Tripwire)", () => {
 
   describe("Schema Version", () => {
     it("has expected schema version", () => {
-      expect(SCHEMA_VERSION).toBe(11);
+      expect(SCHEMA_VERSION).toBe(17);
     });
   });
 });
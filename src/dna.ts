@@ -43,7 +43,12 @@ export const EPISODE_TYPES = ["Stabilize", "Explore"] as const;
 export const EPISODE_STATUSES = ["Active", "Closed"] as const;
 
 /** The valid action statuses (execution states) */
-export const ACTION_STATUSES = ["Pending", "Done"] as const;
+export const ACTION_STATUSES = [
+  "Pending",
+  "Done",
+  "Cancelled", // Abandoned, with a reason
+  "Blocked", // Waiting on another object, linked by a `blocks` Link
+] as const;
 
 /** The valid model types (belief categories) */
 export const MODEL_TYPES = ["Descriptive", "Procedural", "Normative"] as const;
@@ -89,6 +94,13 @@ export const SIGNAL_EVENT_TYPES = [
 /** The valid proxy value types (what kind of data a proxy measures) */
 export const PROXY_VALUE_TYPES = ["numeric", "boolean", "categorical"] as const;
 
+/** The valid sources of a Variable status change (who or what moved it) */
+export const STATUS_CHANGE_SOURCES = [
+  "manual", // A person signalled the new status
+  "inference", // A status suggested from proxy readings was accepted
+  "episodeClosure", // Closing an Episode updated the Variable
+] as const;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // REGULATORY LIMITS — Constraints that preserve viability
 // ═══════════════════════════════════════════════════════════════════════════
@@ -104,14 +116,31 @@ export const MAX_ACTIVE_STABILIZE_PER_VARIABLE = 1;
 // ═══════════════════════════════════════════════════════════════════════════
 
 /** Current schema version — increment when State shape changes */
-export const SCHEMA_VERSION = 11 as const;
+export const SCHEMA_VERSION = 17 as const;
 
 // ═══════════════════════════════════════════════════════════════════════════
 // MEMBRANE — Exception tracking for constraint bypasses
 // ═══════════════════════════════════════════════════════════════════════════
 
 /** The valid mutation types that can trigger Membrane exceptions */
-export const MUTATION_TYPES = ["episode", "action", "signal"] as const;
+export const MUTATION_TYPES = [
+  "episode",
+  "action",
+  "signal",
+  "variable",
+  "note",
+] as const;
 
 /** The valid original decisions that can be overridden */
 export const OVERRIDE_DECISIONS = ["warn", "block"] as const;
+
+/** Days of the week for Normative Model time windows, in Date#getUTCDay order */
+export const WEEKDAYS = [
+  "Sun",
+  "Mon",
+  "Tue",
+  "Wed",
+  "Thu",
+  "Fri",
+  "Sat",
+] as const;
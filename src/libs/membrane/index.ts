@@ -22,4 +22,12 @@
  * @module Membrane
  */
 export * from "./types.js";
-export { checkEpisodeConstraints } from "./logic.js";
+export {
+  checkEpisodeConstraints,
+  checkEpisodeCloseConstraints,
+  checkActionConstraints,
+  checkSignalConstraints,
+  checkVariableConstraints,
+  checkNoteConstraints,
+  explainMembrane,
+} from "./logic.js";
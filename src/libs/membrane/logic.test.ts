@@ -1,8 +1,17 @@
 import { describe, it, expect } from "vitest";
-import { checkEpisodeConstraints } from "./logic.js";
+import {
+  checkActionConstraints,
+  checkEpisodeCloseConstraints,
+  checkEpisodeConstraints,
+  checkNoteConstraints,
+  checkSignalConstraints,
+  checkVariableConstraints,
+  explainMembrane,
+} from "./logic.js";
 import {
   DEFAULT_PERSONAL_NODE,
   DEFAULT_ORG_NODE,
+  MUTATION_TYPES,
   SCHEMA_VERSION,
 } from "../memory/index.js";
 import type { State, Model } from "../memory/index.js";
@@ -22,6 +31,7 @@ function emptyState(): State {
     exceptions: [],
     proxies: [],
     proxyReadings: [],
+    statusChanges: [],
   };
 }
 
@@ -281,6 +291,23 @@ describe("Membrane Logic (Pure Functions)", () => {
         expect(result.decision).toBe("allow");
       });
 
+      it("ignores archived Normative models", () => {
+        const state = emptyState();
+        state.models = [
+          {
+            ...normativeModel("m1", "No Explore", "personal", "block"),
+            archivedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ];
+
+        const result = checkEpisodeConstraints(state, {
+          node: DEFAULT_PERSONAL_NODE,
+          episodeType: "Explore",
+        });
+
+        expect(result.decision).toBe("allow");
+      });
+
       it("ignores Normative models without scope", () => {
         const state = emptyState();
         state.models = [
@@ -406,4 +433,392 @@ describe("Membrane Logic (Pure Functions)", () => {
       });
     });
   });
+
+  describe("checks for other mutations", () => {
+    const orgNode = DEFAULT_ORG_NODE;
+    const checks = {
+      closeEpisode: (state: State, node = DEFAULT_PERSONAL_NODE) =>
+        checkEpisodeCloseConstraints(state, {
+          node,
+          episodeId: "e1",
+          episodeType: "Stabilize",
+        }),
+      createAction: (state: State, node = DEFAULT_PERSONAL_NODE) =>
+        checkActionConstraints(state, { node, episodeId: "e1" }),
+      signal: (state: State, node = DEFAULT_PERSONAL_NODE) =>
+        checkSignalConstraints(state, {
+          node,
+          variableId: "v1",
+          status: "Low",
+        }),
+      createVariable: (state: State, node = DEFAULT_PERSONAL_NODE) =>
+        checkVariableConstraints(state, { node }),
+      createNote: (state: State, node = DEFAULT_PERSONAL_NODE) =>
+        checkNoteConstraints(state, { node }),
+    };
+
+    for (const [name, check] of Object.entries(checks)) {
+      it(`${name}: applies in-scope Normative Models whose condition matches`, () => {
+        const condition = { mutationTypes: [...MUTATION_TYPES] };
+        const state = emptyState();
+        state.models = [
+          {
+            ...normativeModel("m1", "Think twice", "personal", "warn"),
+            condition,
+          },
+          {
+            ...normativeModel("m2", "Not on org time", "org", "block"),
+            condition,
+          },
+        ];
+
+        expect(check(state)).toEqual({
+          decision: "warn",
+          warnings: [
+            { modelId: "m1", statement: "Think twice", exceptionAllowed: true },
+          ],
+        });
+        expect(check(state, orgNode)).toEqual({
+          decision: "block",
+          reason: "Not on org time",
+          modelId: "m2",
+          exceptionAllowed: false,
+        });
+        expect(check(emptyState())).toEqual({ decision: "allow" });
+      });
+
+      it(`${name}: ignores Normative Models without a condition`, () => {
+        // Such Models predate conditions and only ever gated episode opening
+        const state = emptyState();
+        state.models = [
+          normativeModel("m1", "Think twice", "personal", "warn"),
+          normativeModel("m2", "Never", "personal", "block"),
+        ];
+
+        expect(check(state)).toEqual({ decision: "allow" });
+      });
+    }
+  });
+
+  describe("conditions", () => {
+    // 2025-01-04 is a Saturday
+    const SATURDAY_NOON = "2025-01-04T12:00:00.000Z";
+    const MONDAY_NOON = "2025-01-06T12:00:00.000Z";
+
+    function conditionalState(condition: Model["condition"]): State {
+      const state = emptyState();
+      state.models = [
+        {
+          ...normativeModel("m1", "Not now", "personal", "block"),
+          ...(condition !== undefined ? { condition } : {}),
+        },
+      ];
+      return state;
+    }
+
+    function openEpisode(
+      state: State,
+      episodeType: "Stabilize" | "Explore",
+      now = MONDAY_NOON,
+    ): string {
+      return checkEpisodeConstraints(
+        state,
+        { node: DEFAULT_PERSONAL_NODE, episodeType },
+        now,
+      ).decision;
+    }
+
+    it("blocks Explore episodes only while a Variable is Low", () => {
+      const state = conditionalState({
+        mutationTypes: ["episode"],
+        episodeTypes: ["Explore"],
+        variable: { variableId: "v1", statuses: ["Low"] },
+      });
+      state.variables = [
+        {
+          id: "v1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Agency",
+          status: "Low",
+        },
+      ];
+
+      expect(openEpisode(state, "Explore")).toBe("block");
+      expect(openEpisode(state, "Stabilize")).toBe("allow");
+      expect(
+        checkNoteConstraints(
+          state,
+          { node: DEFAULT_PERSONAL_NODE },
+          MONDAY_NOON,
+        ).decision,
+      ).toBe("allow");
+
+      state.variables = [{ ...state.variables[0]!, status: "InRange" }];
+      expect(openEpisode(state, "Explore")).toBe("allow");
+    });
+
+    it("matches Actions by the type of their Episode", () => {
+      const state = conditionalState({ episodeTypes: ["Explore"] });
+      state.episodes = [
+        {
+          id: "e1",
+          node: DEFAULT_PERSONAL_NODE,
+          type: "Explore",
+          objective: "Try a new tool",
+          status: "Active",
+          openedAt: MONDAY_NOON,
+        },
+      ];
+      const createAction = (episodeId?: string): string =>
+        checkActionConstraints(
+          state,
+          {
+            node: DEFAULT_PERSONAL_NODE,
+            ...(episodeId !== undefined ? { episodeId } : {}),
+          },
+          MONDAY_NOON,
+        ).decision;
+
+      expect(createAction("e1")).toBe("block");
+      expect(createAction()).toBe("allow");
+    });
+
+    it("applies only inside its time-of-week windows (UTC)", () => {
+      const state = conditionalState({
+        timeWindows: [{ days: ["Sat", "Sun"] }, { days: ["Mon"], toHour: 9 }],
+      });
+
+      expect(openEpisode(state, "Explore", SATURDAY_NOON)).toBe("block");
+      expect(openEpisode(state, "Explore", MONDAY_NOON)).toBe("allow");
+      expect(openEpisode(state, "Explore", "2025-01-06T08:59:00.000Z")).toBe(
+        "block",
+      );
+    });
+
+    it("applies only above a count of pending actions", () => {
+      const state = conditionalState({ pendingActionsAbove: 1 });
+      state.episodes = [
+        {
+          id: "e1",
+          node: DEFAULT_PERSONAL_NODE,
+          type: "Stabilize",
+          variableId: "v1",
+          objective: "Sleep more",
+          status: "Active",
+          openedAt: MONDAY_NOON,
+        },
+      ];
+      state.actions = [
+        {
+          id: "a1",
+          description: "Dim lights",
+          status: "Pending",
+          episodeId: "e1",
+        },
+        { id: "a2", description: "No coffee", status: "Done", episodeId: "e1" },
+        { id: "a3", description: "Read", status: "Pending" },
+      ];
+
+      expect(openEpisode(state, "Explore")).toBe("allow");
+
+      state.actions = [
+        ...state.actions,
+        { id: "a4", description: "Walk", status: "Pending", episodeId: "e1" },
+      ];
+      expect(openEpisode(state, "Explore")).toBe("block");
+    });
+
+    it("restricts a rule to the mutation types it names", () => {
+      const state = conditionalState({ mutationTypes: ["signal"] });
+
+      expect(openEpisode(state, "Explore")).toBe("allow");
+      expect(
+        checkSignalConstraints(
+          state,
+          { node: DEFAULT_PERSONAL_NODE, variableId: "v1", status: "Low" },
+          MONDAY_NOON,
+        ).decision,
+      ).toBe("block");
+      expect(openEpisode(conditionalState(undefined), "Explore")).toBe("block");
+    });
+
+    it("judges a signal by the status it moves its Variable to", () => {
+      const state = conditionalState({
+        mutationTypes: ["signal"],
+        variable: { variableId: "v1", statuses: ["Low"] },
+      });
+      state.variables = [
+        {
+          id: "v1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Agency",
+          status: "InRange",
+        },
+        {
+          id: "v2",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Rest",
+          status: "InRange",
+        },
+      ];
+      const signal = (variableId: string, status: "Low" | "High") =>
+        checkSignalConstraints(
+          state,
+          { node: DEFAULT_PERSONAL_NODE, variableId, status },
+          MONDAY_NOON,
+        ).decision;
+
+      expect(signal("v1", "Low")).toBe("block");
+      expect(signal("v1", "High")).toBe("allow");
+      expect(signal("v2", "Low")).toBe("allow");
+    });
+  });
+
+  describe("explainMembrane", () => {
+    const NOW = "2025-01-06T12:00:00.000Z";
+
+    function explainedState(): State {
+      const state = emptyState();
+      state.models = [
+        normativeModel("m1", "Rest first", "personal", "warn"),
+        normativeModel("m2", "Not on org time", "org", "block"),
+        {
+          ...normativeModel("m3", "No weekend Explore", "domain", "block"),
+          exceptionsAllowed: true,
+          condition: { timeWindows: [{ days: ["Sat", "Sun"] }] },
+        },
+        normativeModel("m4", "Just a note", "personal", "none"),
+        {
+          id: "m5",
+          type: "Descriptive",
+          statement: "Sleep helps",
+          scope: "personal",
+        },
+      ];
+      return state;
+    }
+
+    it("weighs every Normative Model and says why it applies or not", () => {
+      const explanation = explainMembrane(
+        explainedState(),
+        {
+          check: "openEpisode",
+          node: DEFAULT_PERSONAL_NODE,
+          episodeType: "Explore",
+        },
+        NOW,
+      );
+
+      expect(explanation.candidates).toEqual([
+        {
+          modelId: "m1",
+          statement: "Rest first",
+          scope: "personal",
+          scopeMatched: true,
+          conditionMatched: true,
+          enforcement: "warn",
+          expired: false,
+          exceptionAllowed: true,
+          exceptionPolicy: "default",
+          applies: true,
+        },
+        expect.objectContaining({
+          modelId: "m2",
+          scopeMatched: false,
+          exceptionAllowed: false,
+          exceptionPolicy: "default",
+          applies: false,
+        }),
+        expect.objectContaining({
+          modelId: "m3",
+          scopeMatched: true,
+          conditionMatched: false,
+          exceptionAllowed: true,
+          exceptionPolicy: "model",
+          applies: false,
+        }),
+        expect.objectContaining({
+          modelId: "m4",
+          enforcement: "none",
+          applies: false,
+        }),
+      ]);
+      expect(explanation.result).toEqual({
+        decision: "warn",
+        warnings: [
+          { modelId: "m1", statement: "Rest first", exceptionAllowed: true },
+        ],
+      });
+    });
+
+    it("returns the decision the matching check would", () => {
+      const state = explainedState();
+      const saturday = "2025-01-04T12:00:00.000Z";
+
+      expect(
+        explainMembrane(
+          state,
+          {
+            check: "signal",
+            node: DEFAULT_ORG_NODE,
+            variableId: "v1",
+            status: "Low",
+          },
+          saturday,
+        ).result,
+      ).toEqual(
+        checkSignalConstraints(
+          state,
+          { node: DEFAULT_ORG_NODE, variableId: "v1", status: "Low" },
+          saturday,
+        ),
+      );
+      expect(
+        explainMembrane(
+          state,
+          { check: "createNote", node: DEFAULT_PERSONAL_NODE },
+          saturday,
+        ).result,
+      ).toMatchObject({ decision: "block", modelId: "m3" });
+    });
+  });
+
+  describe("expiry", () => {
+    it("enforces an expired Model as none from its expiresOn date", () => {
+      const state = emptyState();
+      state.models = [
+        {
+          ...normativeModel(
+            "m1",
+            "No Explore this quarter",
+            "personal",
+            "block",
+          ),
+          reviewOn: "2025-01-01",
+          expiresOn: "2025-01-06",
+        },
+      ];
+      const context = {
+        check: "openEpisode" as const,
+        node: DEFAULT_PERSONAL_NODE,
+        episodeType: "Explore" as const,
+      };
+
+      expect(
+        explainMembrane(state, context, "2025-01-05T23:59:59.999Z").result,
+      ).toMatchObject({ decision: "block", modelId: "m1" });
+
+      const expired = explainMembrane(
+        state,
+        context,
+        "2025-01-06T00:00:00.000Z",
+      );
+      expect(expired.candidates[0]).toMatchObject({
+        enforcement: "block",
+        expired: true,
+        applies: false,
+      });
+      expect(expired.result).toEqual({ decision: "allow" });
+    });
+  });
 });
@@ -1,11 +1,30 @@
 // Pure logic functions for the Membrane organ
 // All functions are pure: (State, Context) => MembraneResult
 
-import type { Model, ModelScope, NodeRef, State } from "../memory/index.js";
+import { EPISODE_STATUSES, nodeRefEquals, WEEKDAYS } from "../memory/index.js";
 import type {
+  EpisodeType,
+  Model,
+  ModelCondition,
+  ModelScope,
+  MutationType,
+  NodeRef,
+  State,
+  TimeWindow,
+  VariableStatus,
+} from "../memory/index.js";
+import type {
+  ActionCheckContext,
   EpisodeCheckContext,
+  EpisodeCloseCheckContext,
+  MembraneContext,
+  MembraneExplanation,
   MembraneResult,
   MembraneWarning,
+  ModelExplanation,
+  NoteCheckContext,
+  SignalCheckContext,
+  VariableCheckContext,
 } from "./types.js";
 
 /**
@@ -28,18 +47,101 @@ function scopeMatchesNode(scope: ModelScope, node: NodeRef): boolean {
 }
 
 /**
- * Gets all Normative Models that apply to a given Node.
- * Filters by: type === "Normative" AND scope matches node
+ * What a check knows about the mutation it gates.
+ * Model conditions are matched against it.
  */
-function getNormativeModelsForNode(state: State, node: NodeRef): Model[] {
-  return state.models.filter(
-    (model) =>
-      model.type === "Normative" &&
-      model.scope !== undefined &&
-      scopeMatchesNode(model.scope, node),
+interface MutationSubject {
+  /** The check gating the mutation */
+  check: MembraneContext["check"];
+  mutationType: MutationType;
+  /** The Episode type, for Episodes and the Actions inside them */
+  episodeType?: EpisodeType;
+  /** The Variable a signal moves and the status it moves it to */
+  signal?: { variableId: string; status: VariableStatus };
+  /** When the mutation happens (ISO timestamp) */
+  now: string;
+}
+
+/** Whether a UTC timestamp falls inside a recurring window of the week */
+function inTimeWindow(window: TimeWindow, now: string): boolean {
+  const at = new Date(now);
+  const day = WEEKDAYS[at.getUTCDay()];
+  const hour = at.getUTCHours();
+  return (
+    day !== undefined &&
+    window.days.includes(day) &&
+    hour >= (window.fromHour ?? 0) &&
+    hour < (window.toHour ?? 24)
   );
 }
 
+/** Counts Pending actions in the node's Active episodes */
+function countPendingActions(state: State, node: NodeRef): number {
+  const activeEpisodeIds = new Set(
+    state.episodes
+      .filter(
+        (e) => e.status === EPISODE_STATUSES[0] && nodeRefEquals(e.node, node),
+      )
+      .map((e) => e.id),
+  );
+  return state.actions.filter(
+    (a) =>
+      a.status === "Pending" &&
+      a.episodeId !== undefined &&
+      activeEpisodeIds.has(a.episodeId),
+  ).length;
+}
+
+/**
+ * Determines if a Model's condition holds for a mutation.
+ * A Model without a condition gates opening Episodes only, as every
+ * Normative Model did before conditions existed; otherwise every field
+ * present must match.
+ */
+function conditionMatches(
+  condition: ModelCondition | undefined,
+  state: State,
+  node: NodeRef,
+  subject: MutationSubject,
+): boolean {
+  if (condition === undefined) return subject.check === "openEpisode";
+
+  if (
+    condition.mutationTypes !== undefined &&
+    !condition.mutationTypes.includes(subject.mutationType)
+  )
+    return false;
+  if (
+    condition.episodeTypes !== undefined &&
+    (subject.episodeType === undefined ||
+      !condition.episodeTypes.includes(subject.episodeType))
+  )
+    return false;
+  if (condition.variable !== undefined) {
+    const { variableId, statuses } = condition.variable;
+    const variable = state.variables.find((v) => v.id === variableId);
+    if (variable === undefined) return false;
+    // A signal is judged by the status it moves its Variable to
+    const status =
+      subject.signal?.variableId === variableId
+        ? subject.signal.status
+        : variable.status;
+    if (!statuses.includes(status)) return false;
+  }
+  if (
+    condition.timeWindows !== undefined &&
+    !condition.timeWindows.some((w) => inTimeWindow(w, subject.now))
+  )
+    return false;
+  if (
+    condition.pendingActionsAbove !== undefined &&
+    countPendingActions(state, node) <= condition.pendingActionsAbove
+  )
+    return false;
+
+  return true;
+}
+
 /**
  * Determines if exceptions are allowed for a model.
  *
@@ -57,11 +159,53 @@ function isExceptionAllowed(model: Model): boolean {
   return model.enforcement === "warn";
 }
 
+/** Whether a Model's expiresOn date (UTC) has been reached at `now` */
+function isExpired(model: Model, now: string): boolean {
+  return (
+    model.expiresOn !== undefined &&
+    new Date(now).toISOString().slice(0, 10) >= model.expiresOn
+  );
+}
+
 /**
- * Checks if opening an episode is allowed by Normative Models.
- *
- * **Intent:** Gate episode mutations through Normative Model constraints.
- * This is the "Enforce Constraints" step in the doctrine's canonical flow.
+ * Weighs one Normative Model against a mutation on a node.
+ * The Model applies when scope and condition match, it has not expired and
+ * enforcement is not "none".
+ */
+function explainModel(
+  state: State,
+  model: Model,
+  node: NodeRef,
+  subject: MutationSubject,
+): ModelExplanation {
+  const scopeMatched =
+    model.scope !== undefined && scopeMatchesNode(model.scope, node);
+  const conditionMatched = conditionMatches(
+    model.condition,
+    state,
+    node,
+    subject,
+  );
+  const enforcement = model.enforcement ?? "none";
+  const expired = isExpired(model, subject.now);
+  return {
+    modelId: model.id,
+    statement: model.statement,
+    ...(model.scope !== undefined ? { scope: model.scope } : {}),
+    scopeMatched,
+    conditionMatched,
+    enforcement,
+    expired,
+    exceptionAllowed: isExceptionAllowed(model),
+    exceptionPolicy:
+      model.exceptionsAllowed !== undefined ? "model" : "default",
+    applies:
+      scopeMatched && conditionMatched && !expired && enforcement !== "none",
+  };
+}
+
+/**
+ * Decides a check from the Normative Models weighed against a mutation.
  *
  * **Contract:**
  * - Returns: MembraneResult (allow | warn | block)
@@ -73,6 +217,9 @@ function isExceptionAllowed(model: Model): boolean {
  * - scope: "personal" → applies to Personal nodes
  * - scope: "org" → applies to Org nodes
  * - scope: "domain" → applies to all nodes
+ * - condition (optional) → mutation type, episode type, a Variable's current
+ *   status, UTC time-of-week windows and pending action count must all match
+ * - expiresOn (optional) → from that UTC date the Model counts as "none"
  *
  * **Enforcement handling:**
  * - enforcement: "none" → ignored (model is informational only)
@@ -83,27 +230,24 @@ function isExceptionAllowed(model: Model): boolean {
  * - exceptionAllowed on warn: indicates if exception can be logged when proceeding
  * - exceptionAllowed on block: indicates if user can override with --override flag
  */
-export function checkEpisodeConstraints(
-  state: State,
-  context: EpisodeCheckContext,
+function evaluateNormativeModels(
+  candidates: readonly ModelExplanation[],
 ): MembraneResult {
-  const applicableModels = getNormativeModelsForNode(state, context.node);
-
   const warnings: MembraneWarning[] = [];
 
-  for (const model of applicableModels) {
-    const enforcement = model.enforcement ?? "none";
+  for (const candidate of candidates) {
+    if (!candidate.applies) continue;
 
-    switch (enforcement) {
+    switch (candidate.enforcement) {
       case "none":
         // Informational only, no enforcement
         continue;
 
       case "warn":
         warnings.push({
-          modelId: model.id,
-          statement: model.statement,
-          exceptionAllowed: isExceptionAllowed(model),
+          modelId: candidate.modelId,
+          statement: candidate.statement,
+          exceptionAllowed: candidate.exceptionAllowed,
         });
         continue;
 
@@ -111,9 +255,9 @@ export function checkEpisodeConstraints(
         // Early exit: first blocking model wins
         return {
           decision: "block",
-          reason: model.statement,
-          modelId: model.id,
-          exceptionAllowed: isExceptionAllowed(model),
+          reason: candidate.statement,
+          modelId: candidate.modelId,
+          exceptionAllowed: candidate.exceptionAllowed,
         };
     }
   }
@@ -125,3 +269,175 @@ export function checkEpisodeConstraints(
 
   return { decision: "allow" };
 }
+
+/** Reads what Model conditions match against from a check's context */
+function subjectFor(
+  state: State,
+  context: MembraneContext,
+  now: string,
+): MutationSubject {
+  switch (context.check) {
+    case "openEpisode":
+    case "closeEpisode":
+      return {
+        check: context.check,
+        mutationType: "episode",
+        episodeType: context.episodeType,
+        now,
+      };
+    case "createAction": {
+      const episodeType = state.episodes.find(
+        (e) => e.id === context.episodeId,
+      )?.type;
+      return {
+        check: context.check,
+        mutationType: "action",
+        ...(episodeType !== undefined ? { episodeType } : {}),
+        now,
+      };
+    }
+    case "signal":
+      return {
+        check: context.check,
+        mutationType: "signal",
+        signal: { variableId: context.variableId, status: context.status },
+        now,
+      };
+    case "createVariable":
+      return { check: context.check, mutationType: "variable", now };
+    case "createNote":
+      return { check: context.check, mutationType: "note", now };
+  }
+}
+
+/**
+ * Explains how the Membrane would decide a mutation, without applying it.
+ *
+ * **Intent:** Let users see why a mutation would be allowed, warned or
+ * blocked before they attempt it (`becoming check`, the open-episode forms).
+ *
+ * **Contract:**
+ * - Returns: every unarchived Normative Model with its scope match,
+ *   condition match, enforcement and exception policy, plus the decision
+ * - `result` is exactly what the matching check function returns
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function explainMembrane(
+  state: State,
+  context: MembraneContext,
+  now: string = new Date().toISOString(),
+): MembraneExplanation {
+  const subject = subjectFor(state, context, now);
+  // Archived Models are retired from view, so they no longer gate either
+  const candidates = state.models
+    .filter(
+      (model) => model.type === "Normative" && model.archivedAt === undefined,
+    )
+    .map((model) => explainModel(state, model, context.node, subject));
+  return { candidates, result: evaluateNormativeModels(candidates) };
+}
+
+/**
+ * Checks if opening an episode is allowed by Normative Models.
+ *
+ * **Intent:** Gate episode mutations through Normative Model constraints.
+ * This is the "Enforce Constraints" step in the doctrine's canonical flow.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects; explainMembrane shows the reasoning
+ */
+export function checkEpisodeConstraints(
+  state: State,
+  context: EpisodeCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "openEpisode", ...context }, now)
+    .result;
+}
+
+/**
+ * Checks if closing an episode is allowed by Normative Models.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function checkEpisodeCloseConstraints(
+  state: State,
+  context: EpisodeCloseCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "closeEpisode", ...context }, now)
+    .result;
+}
+
+/**
+ * Checks if creating an action is allowed by Normative Models.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function checkActionConstraints(
+  state: State,
+  context: ActionCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "createAction", ...context }, now)
+    .result;
+}
+
+/**
+ * Checks if signaling a Variable status is allowed by Normative Models.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function checkSignalConstraints(
+  state: State,
+  context: SignalCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "signal", ...context }, now).result;
+}
+
+/**
+ * Checks if creating a variable is allowed by Normative Models.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function checkVariableConstraints(
+  state: State,
+  context: VariableCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "createVariable", ...context }, now)
+    .result;
+}
+
+/**
+ * Checks if creating a note is allowed by Normative Models.
+ *
+ * **Contract:**
+ * - Returns: MembraneResult (allow | warn | block), see evaluateNormativeModels
+ * - Time windows are judged against `now` (default: the current time)
+ * - Pure function: no side effects
+ */
+export function checkNoteConstraints(
+  state: State,
+  context: NoteCheckContext,
+  now: string = new Date().toISOString(),
+): MembraneResult {
+  return explainMembrane(state, { check: "createNote", ...context }, now)
+    .result;
+}
@@ -2,7 +2,13 @@
 // The Membrane organ enforces Normative Model constraints before mutations
 // This is the validation gate described in the doctrine's canonical flow
 
-import type { EpisodeType, NodeRef } from "../memory/index.js";
+import type {
+  EnforcementLevel,
+  EpisodeType,
+  ModelScope,
+  NodeRef,
+  VariableStatus,
+} from "../memory/index.js";
 
 // Re-export shared Result type for consumers
 export type { Result } from "../shared/index.js";
@@ -44,6 +50,10 @@ export type MembraneResult =
 // CHECK CONTEXTS — Input for different mutation types
 // ═══════════════════════════════════════════════════════════════════════════
 
+// The pattern is: provide enough context for Membrane to match applicable models.
+// Each context names the node the mutation acts on; Normative Models are
+// matched against it by scope.
+
 /**
  * Context for checking episode opening constraints.
  * Membrane uses this to find applicable Normative Models.
@@ -53,5 +63,94 @@ export interface EpisodeCheckContext {
   episodeType: EpisodeType;
 }
 
-// Future: ActionCheckContext, SignalCheckContext, etc.
-// The pattern is: provide enough context for Membrane to match applicable models
+/**
+ * Context for checking episode closing constraints.
+ */
+export interface EpisodeCloseCheckContext {
+  node: NodeRef;
+  episodeId: string;
+  episodeType: EpisodeType;
+}
+
+/**
+ * Context for checking action creation constraints.
+ */
+export interface ActionCheckContext {
+  node: NodeRef;
+  /** The episode the action belongs to (omit for orphan actions) */
+  episodeId?: string;
+}
+
+/**
+ * Context for checking signal constraints (a Variable status change).
+ * A `variable` condition on the signalled Variable is judged against `status`.
+ */
+export interface SignalCheckContext {
+  node: NodeRef;
+  variableId: string;
+  status: VariableStatus;
+}
+
+/**
+ * Context for checking variable creation constraints.
+ */
+export interface VariableCheckContext {
+  node: NodeRef;
+}
+
+/**
+ * Context for checking note creation constraints.
+ * Notes belong to no node themselves; `node` is the one they are captured on.
+ */
+export interface NoteCheckContext {
+  node: NodeRef;
+}
+
+/**
+ * Any gated mutation, tagged with the check that gates it.
+ * Lets a caller explain a decision without picking the check function.
+ */
+export type MembraneContext =
+  | ({ check: "openEpisode" } & EpisodeCheckContext)
+  | ({ check: "closeEpisode" } & EpisodeCloseCheckContext)
+  | ({ check: "createAction" } & ActionCheckContext)
+  | ({ check: "signal" } & SignalCheckContext)
+  | ({ check: "createVariable" } & VariableCheckContext)
+  | ({ check: "createNote" } & NoteCheckContext);
+
+// ═══════════════════════════════════════════════════════════════════════════
+// EXPLANATIONS — Why a check decided what it did
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * How one Normative Model was weighed by a check.
+ * A Model applies when its scope and condition match and it enforces something.
+ */
+export interface ModelExplanation {
+  modelId: string;
+  statement: string;
+  /** Unset scope never matches */
+  scope?: ModelScope;
+  scopeMatched: boolean;
+  /** True when the condition holds; a Model without one matches only openEpisode */
+  conditionMatched: boolean;
+  /** The Model's enforcement, "none" when unset */
+  enforcement: EnforcementLevel;
+  /** True from the Model's expiresOn date: enforced as "none" until renewed */
+  expired: boolean;
+  /** Whether an exception can be logged (warn) or the block overridden */
+  exceptionAllowed: boolean;
+  /** "model" when set by exceptionsAllowed, else the default for the enforcement */
+  exceptionPolicy: "model" | "default";
+  applies: boolean;
+}
+
+/**
+ * A dry run of a Membrane check: every Normative Model considered, and the
+ * decision the check itself returns.
+ */
+export interface MembraneExplanation {
+  /** Every Normative Model in State order, applying or not */
+  candidates: ModelExplanation[];
+  result: MembraneResult;
+}
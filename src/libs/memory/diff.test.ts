@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "./types.js";
+import type { State } from "./types.js";
+import { diffStates, formatDiffValue, isEmptyDiff } from "./diff.js";
+
+const before: State = {
+  ...createEmptyState(),
+  variables: [
+    {
+      id: "v1",
+      node: DEFAULT_PERSONAL_NODE,
+      name: "Agency",
+      status: "InRange",
+    },
+    { id: "v2", node: DEFAULT_PERSONAL_NODE, name: "Rest", status: "Low" },
+  ],
+  notes: [
+    {
+      id: "n1",
+      content: "hello",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      tags: [],
+    },
+  ],
+};
+
+describe("diffStates", () => {
+  it("reports added, removed and changed entities by id", () => {
+    const after: State = {
+      ...before,
+      variables: [
+        {
+          id: "v1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Agency",
+          status: "Low",
+        },
+        {
+          id: "v3",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Focus",
+          status: "Unknown",
+        },
+      ],
+    };
+
+    const diff = diffStates(before, after);
+
+    expect(diff.variables).toEqual({
+      added: [{ id: "v3", label: "Focus" }],
+      removed: [{ id: "v2", label: "Rest" }],
+      changed: [
+        {
+          id: "v1",
+          label: "Agency",
+          fields: [{ field: "status", before: "InRange", after: "Low" }],
+        },
+      ],
+    });
+    expect(diff.notes).toEqual({ added: [], removed: [], changed: [] });
+    expect(isEmptyDiff(diff)).toBe(false);
+  });
+
+  it("is empty for structurally equal States", () => {
+    const copy = JSON.parse(JSON.stringify(before)) as State;
+    expect(isEmptyDiff(diffStates(before, copy))).toBe(true);
+  });
+
+  it("reports fields that appear or disappear", () => {
+    const active: State = {
+      ...createEmptyState(),
+      episodes: [
+        {
+          id: "e1",
+          node: DEFAULT_PERSONAL_NODE,
+          type: "Explore",
+          objective: "Learn",
+          status: "Active",
+          openedAt: "2025-01-01T00:00:00.000Z",
+        },
+      ],
+    };
+    const closed: State = {
+      ...active,
+      episodes: active.episodes.map((e) => ({
+        ...e,
+        status: "Closed" as const,
+        closedAt: "2025-01-02T00:00:00.000Z",
+      })),
+    };
+
+    const [change] = diffStates(active, closed).episodes.changed;
+    expect(change?.label).toBe("Learn");
+    expect(change?.fields).toEqual([
+      { field: "status", before: "Active", after: "Closed" },
+      {
+        field: "closedAt",
+        before: undefined,
+        after: "2025-01-02T00:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("labels entities by their most descriptive text, truncated", () => {
+    const long = "x".repeat(100);
+    const diff = diffStates(createEmptyState(), {
+      ...createEmptyState(),
+      notes: [{ id: "n1", content: long, createdAt: "2025-01-01", tags: [] }],
+      links: [
+        {
+          id: "l1",
+          sourceId: "n1",
+          targetId: "n1",
+          relation: "supports",
+        },
+      ],
+    });
+
+    expect(diff.notes.added[0]?.label).toHaveLength(60);
+    expect(diff.links.added[0]?.label).toBe("l1");
+  });
+});
+
+describe("formatDiffValue", () => {
+  it("shows strings as-is, missing values as (none) and the rest as JSON", () => {
+    expect(formatDiffValue("Low")).toBe("Low");
+    expect(formatDiffValue(undefined)).toBe("(none)");
+    expect(formatDiffValue({ type: "Personal", id: "p" })).toBe(
+      '{"type":"Personal","id":"p"}',
+    );
+  });
+});
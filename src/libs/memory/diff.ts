@@ -0,0 +1,187 @@
+// Memory organ — State comparison
+// Pure entity- and field-level diff between two States, keyed by entity id
+
+import type { State } from "./types.js";
+
+/** Every entity collection in State */
+export type StateCollection = Exclude<keyof State, "schemaVersion">;
+
+/** Collections in display order */
+export const STATE_COLLECTIONS: readonly StateCollection[] = [
+  "variables",
+  "episodes",
+  "actions",
+  "notes",
+  "models",
+  "links",
+  "exceptions",
+  "proxies",
+  "proxyReadings",
+  "statusChanges",
+];
+
+/** How many characters of free text an entity label keeps */
+const LABEL_LENGTH = 60;
+
+/** Fields that best describe an entity to a human, in order of preference */
+const LABEL_FIELDS = [
+  "name",
+  "objective",
+  "description",
+  "statement",
+  "content",
+  "justification",
+] as const;
+
+/**
+ * An entity that exists on only one side of a diff.
+ */
+export interface EntityRef {
+  id: string;
+  /** Human-readable name (name, objective, description, …) or the id */
+  label: string;
+}
+
+/**
+ * One field whose value differs between the two sides.
+ * `before` or `after` is undefined when the field is absent on that side.
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * An entity present on both sides with different content.
+ */
+export interface EntityChange extends EntityRef {
+  fields: FieldChange[];
+}
+
+/**
+ * What differs in one collection between two States.
+ */
+export interface CollectionDiff {
+  /** In `to` but not in `from` */
+  added: EntityRef[];
+  /** In `from` but not in `to` */
+  removed: EntityRef[];
+  /** In both, with field-level changes */
+  changed: EntityChange[];
+}
+
+export type StateDiff = Record<StateCollection, CollectionDiff>;
+
+type Entity = { id: string } & object;
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Describes an entity by its most descriptive text (name, objective, …),
+ * shortened for display, or by its id when it has none.
+ */
+export function entityLabel(entity: Entity): string {
+  const fields = entity as Record<string, unknown>;
+  for (const field of LABEL_FIELDS) {
+    const value = fields[field];
+    if (typeof value === "string" && value.trim().length > 0) {
+      const text = value.trim().replace(/\s+/g, " ");
+      return text.length > LABEL_LENGTH
+        ? `${text.slice(0, LABEL_LENGTH - 1)}…`
+        : text;
+    }
+  }
+  return entity.id;
+}
+
+function toRef(entity: Entity): EntityRef {
+  return { id: entity.id, label: entityLabel(entity) };
+}
+
+/**
+ * Lists top-level fields that differ; nested values (e.g. a NodeRef or a
+ * proxy reading value) are compared as a whole.
+ */
+function diffFields(before: Entity, after: Entity): FieldChange[] {
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const fields = new Set([...Object.keys(b), ...Object.keys(a)]);
+
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (!sameValue(a[field], b[field])) {
+      changes.push({ field, before: a[field], after: b[field] });
+    }
+  }
+  return changes;
+}
+
+function diffCollection(
+  from: readonly Entity[],
+  to: readonly Entity[],
+): CollectionDiff {
+  const before = new Map(from.map((entity) => [entity.id, entity]));
+  const after = new Map(to.map((entity) => [entity.id, entity]));
+
+  const added: EntityRef[] = [];
+  const changed: EntityChange[] = [];
+  for (const [id, entity] of after) {
+    const previous = before.get(id);
+    if (!previous) {
+      added.push(toRef(entity));
+      continue;
+    }
+    const fields = diffFields(previous, entity);
+    if (fields.length > 0) {
+      changed.push({ ...toRef(entity), fields });
+    }
+  }
+  const removed = from.filter((entity) => !after.has(entity.id)).map(toRef);
+
+  return { added, removed, changed };
+}
+
+/**
+ * Compares two States entity by entity.
+ *
+ * **Intent:** Answer "what changed?" between two snapshots, two points in
+ * time, or a snapshot and the current State — without eyeballing JSON.
+ *
+ * **Contract:**
+ * - Returns: StateDiff with one CollectionDiff per collection, e.g. a
+ *   Variable's `status` InRange → Low or an Episode's `status` → Closed
+ * - Entities are matched by id; top-level fields are compared structurally
+ * - Pure function: does not mutate either State
+ */
+export function diffStates(from: State, to: State): StateDiff {
+  const diff = {} as StateDiff;
+  for (const collection of STATE_COLLECTIONS) {
+    diff[collection] = diffCollection(from[collection], to[collection]);
+  }
+  return diff;
+}
+
+/**
+ * Whether a diff contains no differences at all.
+ */
+export function isEmptyDiff(diff: StateDiff): boolean {
+  return STATE_COLLECTIONS.every(
+    (collection) =>
+      diff[collection].added.length === 0 &&
+      diff[collection].removed.length === 0 &&
+      diff[collection].changed.length === 0,
+  );
+}
+
+/**
+ * Renders a field value for display in a diff.
+ * Strings are shown as-is, absent values as "(none)", everything else as JSON.
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined) return "(none)";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
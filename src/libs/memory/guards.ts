@@ -34,3 +34,5 @@ export {
   isMeasurementCadence,
   isProxyValueType,
 } from "./internal/validation.js";
+
+export { isCalendarDate } from "./internal/validators.js";
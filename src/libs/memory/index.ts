@@ -18,3 +18,9 @@ export * from "./types.js";
 export * from "./store.js";
 export * from "./templates.js";
 export * from "./guards.js";
+export * from "./state-store.js";
+export * from "./sqlite-store.js";
+export * from "./diff.js";
+export * from "./portable.js";
+export * from "./merge.js";
+export { sameData } from "./internal/equality.js";
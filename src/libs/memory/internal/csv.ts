@@ -0,0 +1,359 @@
+// Memory organ — Internal CSV encoding
+// One CSV per State collection, with fixed columns so exports open cleanly in a spreadsheet
+
+import { err, ok } from "../../shared/index.js";
+import type { Result } from "../../shared/index.js";
+import type { StateCollection } from "../diff.js";
+
+type Entity = Record<string, unknown>;
+
+/**
+ * How one column is written from, and read back into, an entity.
+ * `read` leaves the field unset for an empty cell so optional fields stay absent.
+ */
+interface Column {
+  header: string;
+  write: (entity: Entity) => string;
+  read: (cell: string, entity: Entity) => void;
+}
+
+function text(field: string): Column {
+  return {
+    header: field,
+    write: (entity) =>
+      entity[field] === undefined ? "" : String(entity[field]),
+    read: (cell, entity) => {
+      if (cell !== "") entity[field] = cell;
+    },
+  };
+}
+
+/** A required string that may legitimately be empty (e.g. a Note's content) */
+function requiredText(field: string): Column {
+  return {
+    header: field,
+    write: (entity) => String(entity[field] ?? ""),
+    read: (cell, entity) => {
+      entity[field] = cell;
+    },
+  };
+}
+
+function number(field: string): Column {
+  return {
+    header: field,
+    write: (entity) =>
+      entity[field] === undefined ? "" : String(entity[field]),
+    read: (cell, entity) => {
+      if (cell !== "") entity[field] = Number(cell);
+    },
+  };
+}
+
+function boolean(field: string): Column {
+  return {
+    header: field,
+    write: (entity) =>
+      entity[field] === undefined ? "" : String(entity[field]),
+    read: (cell, entity) => {
+      if (cell !== "") entity[field] = cell === "true";
+    },
+  };
+}
+
+/** Lists and other structured values, as JSON text */
+function json(field: string): Column {
+  return {
+    header: field,
+    write: (entity) =>
+      entity[field] === undefined ? "" : JSON.stringify(entity[field]),
+    read: (cell, entity) => {
+      if (cell === "") return;
+      try {
+        entity[field] = JSON.parse(cell);
+      } catch {
+        entity[field] = cell;
+      }
+    },
+  };
+}
+
+/** NodeRef as `Type:id`, the form the CLI accepts */
+function node(): Column {
+  return {
+    header: "node",
+    write: (entity) => {
+      const ref = entity.node as { type: string; id: string } | undefined;
+      return ref ? `${ref.type}:${ref.id}` : "";
+    },
+    read: (cell, entity) => {
+      const separator = cell.indexOf(":");
+      entity.node =
+        separator === -1
+          ? cell
+          : { type: cell.slice(0, separator), id: cell.slice(separator + 1) };
+    },
+  };
+}
+
+/** Proxy thresholds flattened into `lowBelow` / `highAbove` columns */
+function threshold(field: "lowBelow" | "highAbove"): Column {
+  return {
+    header: field,
+    write: (entity) => {
+      const value = (entity.thresholds as Entity | undefined)?.[field];
+      return value === undefined ? "" : String(value);
+    },
+    read: (cell, entity) => {
+      if (cell === "") return;
+      entity.thresholds = {
+        ...(entity.thresholds as Entity | undefined),
+        [field]: Number(cell),
+      };
+    },
+  };
+}
+
+/** ProxyReading values flattened into `valueType` / `value` columns */
+const readingValue: Column[] = [
+  {
+    header: "valueType",
+    write: (entity) => String((entity.value as Entity | undefined)?.type ?? ""),
+    read: (cell, entity) => {
+      entity.value = { type: cell };
+    },
+  },
+  {
+    header: "value",
+    write: (entity) => {
+      const value = (entity.value as Entity | undefined)?.value;
+      return value === undefined ? "" : String(value);
+    },
+    read: (cell, entity) => {
+      const value = (entity.value ??= {}) as Entity;
+      value.value =
+        value.type === "numeric"
+          ? Number(cell)
+          : value.type === "boolean"
+            ? cell === "true"
+            : cell;
+    },
+  },
+];
+
+/** Columns per collection, in the order they are written */
+const COLUMNS: Record<StateCollection, Column[]> = {
+  variables: [
+    text("id"),
+    node(),
+    text("name"),
+    text("status"),
+    text("description"),
+    text("preferredRange"),
+    text("measurementCadence"),
+    text("archivedAt"),
+  ],
+  episodes: [
+    text("id"),
+    node(),
+    text("type"),
+    text("variableId"),
+    text("objective"),
+    text("status"),
+    text("openedAt"),
+    text("closedAt"),
+    text("closureNoteId"),
+    number("timeboxDays"),
+    text("archivedAt"),
+  ],
+  actions: [
+    text("id"),
+    text("description"),
+    text("status"),
+    text("episodeId"),
+    text("dueDate"),
+    number("order"),
+    text("cancelReason"),
+    text("archivedAt"),
+  ],
+  notes: [
+    text("id"),
+    text("createdAt"),
+    json("tags"),
+    json("linkedObjects"),
+    text("archivedAt"),
+    requiredText("content"),
+  ],
+  models: [
+    text("id"),
+    text("type"),
+    text("statement"),
+    number("confidence"),
+    text("scope"),
+    text("enforcement"),
+    boolean("exceptionsAllowed"),
+    json("condition"),
+    text("reviewOn"),
+    text("expiresOn"),
+    text("archivedAt"),
+  ],
+  links: [
+    text("id"),
+    text("sourceId"),
+    text("targetId"),
+    text("relation"),
+    number("weight"),
+  ],
+  exceptions: [
+    text("id"),
+    text("modelId"),
+    text("originalDecision"),
+    requiredText("justification"),
+    text("mutationType"),
+    text("mutationId"),
+    text("createdAt"),
+  ],
+  proxies: [
+    text("id"),
+    text("variableId"),
+    text("name"),
+    text("description"),
+    text("valueType"),
+    text("unit"),
+    json("categories"),
+    threshold("lowBelow"),
+    threshold("highAbove"),
+  ],
+  proxyReadings: [
+    text("id"),
+    text("proxyId"),
+    text("recordedAt"),
+    ...readingValue,
+    text("source"),
+  ],
+  statusChanges: [
+    text("id"),
+    text("variableId"),
+    text("from"),
+    text("to"),
+    text("at"),
+    text("source"),
+    text("reason"),
+    text("episodeId"),
+  ],
+};
+
+function quoteCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Formats rows as RFC 4180 CSV (CRLF line endings, quoted where needed).
+ */
+export function formatCsv(rows: readonly (readonly string[])[]): string {
+  return rows.map((row) => row.map(quoteCell).join(",") + "\r\n").join("");
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of cells.
+ * Accepts LF or CRLF line endings; a trailing newline does not add a row.
+ */
+export function parseCsv(content: string): Result<string[][]> {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    return err("Unterminated quoted cell");
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return ok(rows);
+}
+
+/**
+ * Writes one collection as CSV: a header row, then one row per entity.
+ */
+export function collectionToCsv(
+  collection: StateCollection,
+  entities: readonly object[],
+): string {
+  const columns = COLUMNS[collection];
+  return formatCsv([
+    columns.map((column) => column.header),
+    ...entities.map((entity) =>
+      columns.map((column) => column.write(entity as Entity)),
+    ),
+  ]);
+}
+
+/**
+ * Reads one collection back from CSV.
+ *
+ * **Contract:**
+ * - Columns are matched by header, so reordered columns are fine and
+ *   unknown columns are ignored
+ * - Returns: Entities exactly as decoded; callers validate them
+ * - Error handling: Returns error for malformed CSV or a missing `id` column
+ */
+export function csvToCollection(
+  collection: StateCollection,
+  content: string,
+): Result<unknown[]> {
+  const parsed = parseCsv(content);
+  if (!parsed.ok) {
+    return err(`${collection}.csv: ${parsed.error}`);
+  }
+
+  const [header, ...rows] = parsed.value;
+  if (!header?.includes("id")) {
+    return err(`${collection}.csv: missing header row with an 'id' column`);
+  }
+
+  const columns = COLUMNS[collection].flatMap((column) => {
+    const index = header.indexOf(column.header);
+    return index === -1 ? [] : [{ column, index }];
+  });
+
+  return ok(
+    rows
+      .filter((row) => row.some((cell) => cell !== ""))
+      .map((row) => {
+        const entity: Entity = {};
+        for (const { column, index } of columns) {
+          column.read(row[index] ?? "", entity);
+        }
+        return entity;
+      }),
+  );
+}
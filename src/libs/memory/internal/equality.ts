@@ -0,0 +1,22 @@
+// Memory organ — Internal structural equality
+// Compares entities regardless of the order their fields were written in
+
+/** JSON with object keys sorted, so field order does not affect equality */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, item: unknown) =>
+    typeof item === "object" && item !== null && !Array.isArray(item)
+      ? Object.fromEntries(
+          Object.entries(item).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : item,
+  );
+}
+
+/**
+ * Whether two values hold the same data.
+ * Entities read from CSV or Markdown list fields in a different order than
+ * ones saved by the engine; that alone must not count as a change.
+ */
+export function sameData(a: unknown, b: unknown): boolean {
+  return canonicalJson(a) === canonicalJson(b);
+}
@@ -1,7 +1,8 @@
 import fs from "fs-extra";
 import * as path from "node:path";
 import * as crypto from "node:crypto";
-import { open as openFile } from "node:fs/promises";
+import { acquireFileLock } from "../../shared/index.js";
+import type { Logger } from "../../shared/index.js";
 
 export function getTempPath(filePath: string, stateFileName: string): string {
   const dir = path.dirname(filePath);
@@ -9,44 +10,36 @@ export function getTempPath(filePath: string, stateFileName: string): string {
   return path.join(dir, `${stateFileName}.tmp-${id}`);
 }
 
+/**
+ * Acquires the state file lock, clearing it first if a crashed process left it behind.
+ */
 export async function acquireLock(
   lockPath: string,
+  logger: Logger,
 ): Promise<() => Promise<void>> {
-  const handle = await openFile(lockPath, "wx");
-  try {
-    await handle.writeFile(
-      JSON.stringify({
-        pid: process.pid,
-        createdAt: new Date().toISOString(),
-      }),
-    );
-  } finally {
-    await handle.close();
-  }
-
-  return async (): Promise<void> => {
-    try {
-      await fs.remove(lockPath);
-    } catch {
-      // best-effort cleanup
-    }
-  };
+  return acquireFileLock(lockPath, { logger });
 }
 
+/**
+ * Moves an invalid state file aside for inspection.
+ * Returns the backup path, or null when there was nothing to move or it failed.
+ */
 export async function backupInvalidStateFile(
   filePath: string,
   stateFileName: string,
-): Promise<void> {
+): Promise<string | null> {
   try {
     const dir = path.dirname(filePath);
     const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
     const backupPath = path.join(dir, `${stateFileName}.corrupt-${timestamp}`);
     const exists = await fs.pathExists(filePath);
     if (!exists) {
-      return;
+      return null;
     }
     await fs.move(filePath, backupPath, { overwrite: false });
+    return backupPath;
   } catch {
     // best-effort; do not block recovery
+    return null;
   }
 }
@@ -0,0 +1,283 @@
+// Memory organ — Internal journal operations
+// Handles append-only mutation journal I/O and pending-mutation tracing
+
+import fs from "fs-extra";
+import { open } from "node:fs/promises";
+import type { FileHandle } from "node:fs/promises";
+import * as path from "node:path";
+import { err } from "../../shared/index.js";
+import type { Result } from "../../shared/index.js";
+import type { JournalEntry, JournalMutation, State } from "../types.js";
+import type { JournalReplayer } from "../state-store.js";
+import { migrateToLatest } from "./migrations.js";
+
+/**
+ * A mutation recorded in memory but not yet persisted.
+ * Keeps the State it was applied to and the State it produced so the
+ * exact chain leading to a saved State can be recovered.
+ */
+export interface PendingMutation {
+  base: State;
+  mutation: JournalMutation;
+  result: State;
+}
+
+/**
+ * Gets the path to the journal file that sits next to the state file.
+ */
+export function getJournalPath(
+  filePath: string,
+  stateFileName: string,
+): string {
+  return path.join(path.dirname(filePath), `${stateFileName}.journal.jsonl`);
+}
+
+/**
+ * Walks backwards from `target` through pending mutations until `base` is reached.
+ *
+ * Returns the mutations (oldest first) that turn `base` into `target`,
+ * or null when `target` was not produced from `base` by recorded mutations.
+ * Discarded branches (results that were never saved) are skipped.
+ */
+export function traceMutations(
+  pending: readonly PendingMutation[],
+  base: State,
+  target: State,
+): JournalMutation[] | null {
+  const chain: JournalMutation[] = [];
+  let cursor = target;
+  while (cursor !== base) {
+    const step = pending.findLast((p) => p.result === cursor);
+    if (!step) {
+      return null;
+    }
+    chain.unshift(step.mutation);
+    cursor = step.base;
+  }
+  return chain;
+}
+
+/**
+ * Decides which entries explain how `state` was reached.
+ *
+ * Uses the pending chain from the last persisted State when it is known
+ * and the journal already exists; otherwise emits a snapshot so replay
+ * never starts from a State the journal doesn't contain. Every entry is
+ * stamped with `revision`, the revision this save writes.
+ */
+export function planJournalEntries(
+  base: State | null,
+  pending: readonly PendingMutation[],
+  state: State,
+  hasJournal: boolean,
+  recordedAt: string,
+  revision: number,
+): JournalEntry[] {
+  const chain = base ? traceMutations(pending, base, state) : null;
+  if (!base || !chain) {
+    return [{ type: "snapshot", recordedAt, revision, state }];
+  }
+
+  const entries: JournalEntry[] = chain.map((mutation) => ({
+    type: "mutation",
+    recordedAt,
+    revision,
+    mutation,
+  }));
+  if (!hasJournal) {
+    entries.unshift({ type: "snapshot", recordedAt, revision, state: base });
+  }
+  return entries;
+}
+
+/**
+ * Whether the journal ends where the last persisted State left it.
+ *
+ * **Intent:** Mutations may only be chained onto the journal when its last
+ * entry belongs to the revision they were applied on. Otherwise entries are
+ * missing (a crash between writing State and appending, a save that wrote
+ * none) or belong to another writer, and the save must re-snapshot.
+ *
+ * **Contract:**
+ * - Parameters: tailRevision - revision of the last entry (null when it is
+ *   unreadable or predates revisions); hasJournal - whether any exists
+ * - Returns: true when there is no journal yet (the save prefixes a snapshot
+ *   of its base) or the last entry is at `persistedRevision`
+ */
+export function isJournalCurrent(
+  hasJournal: boolean,
+  tailRevision: number | null,
+  persistedRevision: number,
+): boolean {
+  return !hasJournal || tailRevision === persistedRevision;
+}
+
+/**
+ * Appends entries to the journal file, one JSON object per line.
+ * Does NOT take the lock — caller is responsible for exclusive access.
+ */
+export async function appendJournalEntries(
+  journalPath: string,
+  entries: readonly JournalEntry[],
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  const lines = entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+  await fs.appendFile(journalPath, lines, "utf-8");
+}
+
+/** How much of the journal file is read at a time when looking for its end */
+const TAIL_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Parses one decoded journal line into an entry, or null when it is not one.
+ * Snapshots are migrated to the current schema so old history stays replayable.
+ */
+function parseJournalEntry(value: unknown): JournalEntry | null {
+  if (typeof value !== "object" || value === null) return null;
+  const obj = value as Record<string, unknown>;
+  if (typeof obj.recordedAt !== "string") return null;
+  const revision =
+    typeof obj.revision === "number" ? { revision: obj.revision } : {};
+
+  if (obj.type === "snapshot") {
+    const migrated = migrateToLatest(obj.state);
+    if (migrated.status === "invalid") return null;
+    return {
+      type: "snapshot",
+      recordedAt: obj.recordedAt,
+      ...revision,
+      state: migrated.state,
+    };
+  }
+
+  if (obj.type === "mutation") {
+    if (typeof obj.mutation !== "object" || obj.mutation === null) return null;
+    const mutation = obj.mutation as Record<string, unknown>;
+    if (typeof mutation.kind !== "string") return null;
+    return {
+      type: "mutation",
+      recordedAt: obj.recordedAt,
+      ...revision,
+      mutation: { kind: mutation.kind, params: mutation.params },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reads one stored journal line (or row).
+ * Anything that does not parse is kept as an `unreadable` entry at
+ * `position`, so replay sees the gap instead of silently closing it.
+ */
+export function readJournalLine(text: string, position: number): JournalEntry {
+  try {
+    return (
+      parseJournalEntry(JSON.parse(text)) ?? { type: "unreadable", position }
+    );
+  } catch {
+    return { type: "unreadable", position };
+  }
+}
+
+/**
+ * The revision stamped on an entry; null when it is unreadable or was
+ * written before entries carried one.
+ */
+export function getEntryRevision(
+  entry: JournalEntry | undefined,
+): number | null {
+  return entry && entry.type !== "unreadable" ? (entry.revision ?? null) : null;
+}
+
+/**
+ * Reads all entries from the journal file in the order they were written.
+ * Returns empty array if the file doesn't exist; lines that do not parse
+ * are returned as `unreadable` entries at their line number.
+ */
+export async function readJournalEntries(
+  journalPath: string,
+): Promise<JournalEntry[]> {
+  const exists = await fs.pathExists(journalPath);
+  if (!exists) {
+    return [];
+  }
+
+  const content = await fs.readFile(journalPath, "utf-8");
+  const entries: JournalEntry[] = [];
+  content.split("\n").forEach((line, index) => {
+    if (line.trim().length > 0) {
+      entries.push(readJournalLine(line, index + 1));
+    }
+  });
+  return entries;
+}
+
+/**
+ * Reads the revision of the journal file's last entry without reading the
+ * whole file (see getEntryRevision; also null when the file is missing).
+ * Does NOT take the lock — caller is responsible for exclusive access.
+ */
+export async function readJournalTailRevision(
+  journalPath: string,
+): Promise<number | null> {
+  let handle: FileHandle | undefined;
+  try {
+    handle = await open(journalPath, "r");
+    const { size } = await handle.stat();
+    let tail = Buffer.alloc(0);
+    for (let end = size; end > 0; ) {
+      const start = Math.max(0, end - TAIL_CHUNK_BYTES);
+      const chunk = Buffer.alloc(end - start);
+      await handle.read(chunk, 0, chunk.length, start);
+      tail = Buffer.concat([chunk, tail]);
+      end = start;
+      // Decoding may garble a character cut at the chunk's start, but that
+      // lies before the newline that ends the search
+      const text = tail.toString("utf-8").trimEnd();
+      const newline = text.lastIndexOf("\n");
+      if (newline !== -1 || end === 0) {
+        return getEntryRevision(readJournalLine(text.slice(newline + 1), 0));
+      }
+    }
+    return null;
+  } catch {
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Rebuilds State from every journal entry recorded at or before `asOf`.
+ * Shared by all StateStore backends; only reading the journal differs.
+ */
+export async function replayAsOf(
+  asOf: string,
+  readEntries: () => Promise<JournalEntry[]>,
+  replay: JournalReplayer | undefined,
+): Promise<Result<State>> {
+  const cutoff = Date.parse(asOf);
+  if (Number.isNaN(cutoff)) {
+    return err(`Invalid timestamp '${asOf}'`);
+  }
+  if (!replay) {
+    return err("Time-travel requires a journal replayer");
+  }
+
+  // Entries are in write order; unreadable ones stay in place so replay
+  // can refuse to step over them
+  const entries = await readEntries();
+  const after = entries.findIndex(
+    (entry) =>
+      entry.type !== "unreadable" && Date.parse(entry.recordedAt) > cutoff,
+  );
+  const history = after === -1 ? entries : entries.slice(0, after);
+  if (history.length === 0) {
+    return err(`No history recorded at or before ${asOf}`);
+  }
+
+  return replay(history);
+}
@@ -0,0 +1,105 @@
+// Memory organ — Internal Markdown encoding for Notes
+// One file per Note with YAML front-matter, readable in any plain-text vault
+
+import { err, ok } from "../../shared/index.js";
+import type { Result } from "../../shared/index.js";
+import type { Episode, Note } from "../types.js";
+
+const FENCE = "---";
+
+/** Front-matter keys that map back onto Note fields on import */
+const NOTE_KEYS = [
+  "id",
+  "createdAt",
+  "tags",
+  "linkedObjects",
+  "archivedAt",
+] as const;
+
+/**
+ * File name for a Note: creation date first so a vault sorts chronologically.
+ */
+export function noteFileName(note: Note): string {
+  return `${note.createdAt.slice(0, 10)}-${note.id}.md`;
+}
+
+/**
+ * Renders a Note as Markdown with front-matter.
+ * A closure note also records the Episode it closed, for context when read
+ * outside the engine; that part is informational and ignored on import.
+ */
+export function noteToMarkdown(note: Note, closed?: Episode): string {
+  const meta: Record<string, unknown> = {
+    id: note.id,
+    createdAt: note.createdAt,
+    tags: note.tags,
+    linkedObjects: note.linkedObjects,
+    archivedAt: note.archivedAt,
+  };
+  if (closed) {
+    meta.episodeId = closed.id;
+    meta.episodeType = closed.type;
+    meta.episodeObjective = closed.objective;
+    meta.closedAt = closed.closedAt;
+  }
+
+  // JSON scalars and arrays are valid YAML, so values need no YAML library
+  const lines = Object.entries(meta)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+
+  return `${FENCE}\n${lines.join("\n")}\n${FENCE}\n\n${note.content}\n`;
+}
+
+/** Reads a front-matter value: JSON, a `[a, b]` flow list, or a bare string */
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    if (raw.startsWith("[") && raw.endsWith("]")) {
+      return raw
+        .slice(1, -1)
+        .split(",")
+        .map((item) => item.trim().replace(/^['"]|['"]$/g, ""))
+        .filter((item) => item.length > 0);
+    }
+    return raw.replace(/^'|'$/g, "");
+  }
+}
+
+/**
+ * Reads a Note back from Markdown written by noteToMarkdown (or edited by hand).
+ *
+ * **Contract:**
+ * - Front-matter supplies id, createdAt, tags, linkedObjects and archivedAt;
+ *   other keys are ignored
+ * - The body after the front-matter (minus one blank line and the final
+ *   newline) becomes the content
+ * - Returns: The Note as decoded; callers validate it
+ * - Error handling: Returns error when the front-matter fence is missing
+ */
+export function markdownToNote(content: string): Result<unknown> {
+  const lines = content.replace(/\r\n/g, "\n").split("\n");
+  const end = lines.indexOf(FENCE, 1);
+  if (lines[0] !== FENCE || end === -1) {
+    return err("missing front-matter");
+  }
+
+  const note: Record<string, unknown> = {};
+  for (const line of lines.slice(1, end)) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim();
+    if ((NOTE_KEYS as readonly string[]).includes(key)) {
+      note[key] = parseValue(line.slice(separator + 1).trim());
+    }
+  }
+  note.tags ??= [];
+
+  let body = lines.slice(end + 1);
+  if (body[0] === "") body = body.slice(1);
+  if (body.at(-1) === "") body = body.slice(0, -1);
+  note.content = body.join("\n");
+
+  return ok(note);
+}
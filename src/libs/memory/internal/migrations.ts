@@ -1,5 +1,9 @@
-import type { State } from "../types.js";
-import { EPISODE_STATUSES, SCHEMA_VERSION } from "../types.js";
+import type { Action, State, StatusChange, VariableStatus } from "../types.js";
+import {
+  EPISODE_STATUSES,
+  SCHEMA_VERSION,
+  VARIABLE_STATUSES,
+} from "../types.js";
 import type {
   LegacyStateV0,
   LegacyStateV1,
@@ -12,6 +16,12 @@ import type {
   StateV8,
   StateV9,
   StateV10,
+  StateV11,
+  StateV12,
+  StateV13,
+  StateV14,
+  StateV15,
+  StateV16,
 } from "./validation.js";
 import {
   nodeRefFromLegacy,
@@ -26,6 +36,12 @@ import {
   isValidLegacyStateV8,
   isValidLegacyStateV9,
   isValidLegacyStateV10,
+  isValidLegacyStateV11,
+  isValidLegacyStateV12,
+  isValidLegacyStateV13,
+  isValidLegacyStateV14,
+  isValidLegacyStateV15,
+  isValidLegacyStateV16,
   isValidState,
 } from "./validation.js";
 
@@ -159,15 +175,123 @@ export function migrateV9ToV10(v9: StateV9): StateV10 {
 /**
  * Migrates v10 state to v11 by adding empty proxies and proxyReadings arrays.
  */
-export function migrateV10ToV11(v10: StateV10): State {
+export function migrateV10ToV11(v10: StateV10): StateV11 {
   return {
     ...v10,
-    schemaVersion: SCHEMA_VERSION,
+    schemaVersion: 11 as const,
     proxies: [],
     proxyReadings: [],
   };
 }
 
+/** Content of the audit Note a signal writes: "Status changed: Low → InRange[. reason]" */
+const AUDIT_CONTENT_PATTERN =
+  /^Status changed: (\w+) → (\w+)(?:\. ([\s\S]+))?$/;
+
+function isVariableStatus(value: string | undefined): value is VariableStatus {
+  return (VARIABLE_STATUSES as readonly string[]).includes(value ?? "");
+}
+
+/**
+ * Migrates v11 state to v12 by adding the statusChanges history.
+ * The history is backfilled from signal audit Notes (tag "audit", linked to
+ * the Variable); the change keeps the Note's id. Audit Notes that cannot be
+ * read as a status change are left alone.
+ */
+export function migrateV11ToV12(v11: StateV11): StateV12 {
+  const variableIds = new Set(v11.variables.map((v) => v.id));
+  const statusChanges: StatusChange[] = [];
+
+  for (const note of v11.notes) {
+    const variableId = note.linkedObjects?.find((id) => variableIds.has(id));
+    const match = AUDIT_CONTENT_PATTERN.exec(note.content);
+    if (!note.tags.includes("audit") || !variableId || !match) continue;
+    const [, from, to, reason] = match;
+    if (!isVariableStatus(from) || !isVariableStatus(to)) continue;
+    statusChanges.push({
+      id: note.id,
+      variableId,
+      from,
+      to,
+      at: note.createdAt,
+      source: "manual",
+      ...(reason ? { reason } : {}),
+    });
+  }
+
+  return {
+    ...v11,
+    schemaVersion: 12 as const,
+    statusChanges: statusChanges.sort((a, b) => a.at.localeCompare(b.at)),
+  };
+}
+
+/**
+ * Migrates v12 state to v13, where Actions gain due dates, cancellation,
+ * a Blocked status and an explicit order within their Episode.
+ * Actions scoped to an Episode are numbered in the order they were stored,
+ * which is the order they were shown in; Episode-less Actions stay unordered.
+ */
+export function migrateV12ToV13(v12: StateV12): StateV13 {
+  const nextOrder = new Map<string, number>();
+  const actions: Action[] = v12.actions.map((action) => {
+    if (action.episodeId === undefined) return action;
+    const order = nextOrder.get(action.episodeId) ?? 0;
+    nextOrder.set(action.episodeId, order + 1);
+    return { ...action, order };
+  });
+
+  return {
+    ...v12,
+    schemaVersion: 13 as const,
+    actions,
+  };
+}
+
+/**
+ * Migrates v13 state to v14, where Variables, Episodes, Actions, Notes and
+ * Models may carry archivedAt. Nothing is archived by the migration.
+ */
+export function migrateV13ToV14(v13: StateV13): StateV14 {
+  return {
+    ...v13,
+    schemaVersion: 14 as const,
+  };
+}
+
+/**
+ * Migrates v14 state to v15, where Membrane exceptions may record variable
+ * and note mutations. Existing exceptions are unchanged.
+ */
+export function migrateV14ToV15(v14: StateV14): StateV15 {
+  return {
+    ...v14,
+    schemaVersion: 15 as const,
+  };
+}
+
+/**
+ * Migrates v15 state to v16, where Models may carry a structured condition.
+ * Existing Models get none, so they keep gating only episode opening.
+ */
+export function migrateV15ToV16(v15: StateV15): StateV16 {
+  return {
+    ...v15,
+    schemaVersion: 16 as const,
+  };
+}
+
+/**
+ * Migrates v16 state to v17, where Models may carry a review date and an
+ * expiry. Existing Models get neither, so they stay in force.
+ */
+export function migrateV16ToV17(v16: StateV16): State {
+  return {
+    ...v16,
+    schemaVersion: SCHEMA_VERSION,
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // MIGRATION PIPELINE — Single entry point for all migrations
 // ═══════════════════════════════════════════════════════════════════════════
@@ -204,76 +328,226 @@ export function migrateToLatest(data: unknown): MigrationResult {
     return { status: "current", state: data };
   }
 
-  // V10 → V11
+  // V16 → V17
+  if (isValidLegacyStateV16(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(data),
+      fromVersion: 16,
+    };
+  }
+
+  // V15 → V16 → V17
+  if (isValidLegacyStateV15(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(migrateV15ToV16(data)),
+      fromVersion: 15,
+    };
+  }
+
+  // V14 → V15 → V16 → V17
+  if (isValidLegacyStateV14(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(migrateV15ToV16(migrateV14ToV15(data))),
+      fromVersion: 14,
+    };
+  }
+
+  // V13 → V14 → V15 → V16 → V17
+  if (isValidLegacyStateV13(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(
+        migrateV15ToV16(migrateV14ToV15(migrateV13ToV14(data))),
+      ),
+      fromVersion: 13,
+    };
+  }
+
+  // V12 → V13 → V14 → V15 → V16 → V17
+  if (isValidLegacyStateV12(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(migrateV13ToV14(migrateV12ToV13(data))),
+        ),
+      ),
+      fromVersion: 12,
+    };
+  }
+
+  // V11 → V12 → V13 → V14 → V15 → V16 → V17
+  if (isValidLegacyStateV11(data)) {
+    return {
+      status: "migrated",
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(migrateV12ToV13(migrateV11ToV12(data))),
+          ),
+        ),
+      ),
+      fromVersion: 11,
+    };
+  }
+
+  // V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV10(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(data),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(migrateV11ToV12(migrateV10ToV11(data))),
+            ),
+          ),
+        ),
+      ),
       fromVersion: 10,
     };
   }
 
-  // V9 → V10 → V11
+  // V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV9(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(migrateV9ToV10(data)),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(migrateV10ToV11(migrateV9ToV10(data))),
+              ),
+            ),
+          ),
+        ),
+      ),
       fromVersion: 9,
     };
   }
 
-  // V8 → V9 → V10 → V11
+  // V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV8(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(migrateV9ToV10(migrateV8ToV9(data))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(migrateV9ToV10(migrateV8ToV9(data))),
+                ),
+              ),
+            ),
+          ),
+        ),
+      ),
       fromVersion: 8,
     };
   }
 
-  // V7 → V8 → V9 → V10 → V11
+  // V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV7(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(migrateV8ToV9(migrateV7ToV8(data))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(migrateV8ToV9(migrateV7ToV8(data))),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
       ),
       fromVersion: 7,
     };
   }
 
-  // V6 → V7 → V8 → V9 → V10 → V11
+  // V6 → V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV6(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(migrateV8ToV9(migrateV7ToV8(migrateV6ToV7(data)))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(migrateV7ToV8(migrateV6ToV7(data))),
+                    ),
+                  ),
+                ),
+              ),
+            ),
+          ),
+        ),
       ),
       fromVersion: 6,
     };
   }
 
-  // V5 → V6 → V7 → V8 → V9 → V10 → V11
+  // V5 → V6 → V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV5(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(migrateV7ToV8(migrateV6ToV7(migrateV5ToV6(data)))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(migrateV6ToV7(migrateV5ToV6(data))),
+                      ),
+                    ),
+                  ),
+                ),
+              ),
+            ),
+          ),
         ),
       ),
       fromVersion: 5,
     };
   }
 
-  // V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11
+  // V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV4(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(
-            migrateV7ToV8(migrateV6ToV7(migrateV5ToV6(migrateV4ToV5(data)))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(
+                          migrateV6ToV7(migrateV5ToV6(migrateV4ToV5(data))),
+                        ),
+                      ),
+                    ),
+                  ),
+                ),
+              ),
+            ),
           ),
         ),
       ),
@@ -281,15 +555,29 @@ export function migrateToLatest(data: unknown): MigrationResult {
     };
   }
 
-  // V3 → V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11
+  // V3 → V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV3(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(
-            migrateV7ToV8(
-              migrateV6ToV7(migrateV5ToV6(migrateV4ToV5(migrateV3ToV4(data)))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(
+                          migrateV6ToV7(
+                            migrateV5ToV6(migrateV4ToV5(migrateV3ToV4(data))),
+                          ),
+                        ),
+                      ),
+                    ),
+                  ),
+                ),
+              ),
             ),
           ),
         ),
@@ -298,17 +586,29 @@ export function migrateToLatest(data: unknown): MigrationResult {
     };
   }
 
-  // V2 → V3 → V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11
+  // V2 → V3 → V4 → V5 → V6 → V7 → V8 → V9 → V10 → V11 → V12 → V13 → V14 → V15 → V16 → V17
   if (isValidLegacyStateV2(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(
-            migrateV7ToV8(
-              migrateV6ToV7(
-                migrateV5ToV6(
-                  migrateV4ToV5(migrateV3ToV4(migrateV2ToV3(data))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(
+                          migrateV6ToV7(
+                            migrateV5ToV6(
+                              migrateV4ToV5(migrateV3ToV4(migrateV2ToV3(data))),
+                            ),
+                          ),
+                        ),
+                      ),
+                    ),
+                  ),
                 ),
               ),
             ),
@@ -319,16 +619,30 @@ export function migrateToLatest(data: unknown): MigrationResult {
     };
   }
 
-  // V1 (legacy with schemaVersion: 1) → V4 → ... → V11
+  // V1 (legacy with schemaVersion: 1) → V4 → ... → V14 → V15 → V16 → V17
   if (isValidLegacyStateV1(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(
-            migrateV7ToV8(
-              migrateV6ToV7(
-                migrateV5ToV6(migrateV4ToV5(migrateLegacyToV4(data))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(
+                          migrateV6ToV7(
+                            migrateV5ToV6(
+                              migrateV4ToV5(migrateLegacyToV4(data)),
+                            ),
+                          ),
+                        ),
+                      ),
+                    ),
+                  ),
+                ),
               ),
             ),
           ),
@@ -338,16 +652,30 @@ export function migrateToLatest(data: unknown): MigrationResult {
     };
   }
 
-  // V0 (legacy without schemaVersion) → V4 → ... → V11
+  // V0 (legacy without schemaVersion) → V4 → ... → V14 → V15 → V16 → V17
   if (isValidLegacyStateV0(data)) {
     return {
       status: "migrated",
-      state: migrateV10ToV11(
-        migrateV9ToV10(
-          migrateV8ToV9(
-            migrateV7ToV8(
-              migrateV6ToV7(
-                migrateV5ToV6(migrateV4ToV5(migrateLegacyToV4(data))),
+      state: migrateV16ToV17(
+        migrateV15ToV16(
+          migrateV14ToV15(
+            migrateV13ToV14(
+              migrateV12ToV13(
+                migrateV11ToV12(
+                  migrateV10ToV11(
+                    migrateV9ToV10(
+                      migrateV8ToV9(
+                        migrateV7ToV8(
+                          migrateV6ToV7(
+                            migrateV5ToV6(
+                              migrateV4ToV5(migrateLegacyToV4(data)),
+                            ),
+                          ),
+                        ),
+                      ),
+                    ),
+                  ),
+                ),
               ),
             ),
           ),
@@ -0,0 +1,76 @@
+// Memory organ — Internal recovery report I/O
+// A pending salvage is a report file next to the state file; saves wait for it
+
+import fs from "fs-extra";
+import * as path from "node:path";
+import type { State } from "../types.js";
+import type { RecoveryReport } from "../state-store.js";
+import { migrateToLatest } from "./migrations.js";
+
+/**
+ * Gets the path of the pending recovery report for a state file.
+ */
+export function getRecoveryPath(
+  filePath: string,
+  stateFileName: string,
+): string {
+  return path.join(path.dirname(filePath), `${stateFileName}.recovery.json`);
+}
+
+/**
+ * Writes the recovery report together with the salvaged State it describes.
+ */
+export async function writeRecovery(
+  report: RecoveryReport,
+  state: State,
+): Promise<void> {
+  await fs.writeJson(report.reportPath, { ...report, state }, { spaces: 2 });
+}
+
+/**
+ * Reads a pending recovery, or null when none is pending.
+ * A report that can't be read or whose State no longer validates is
+ * treated as missing.
+ */
+export async function readRecovery(
+  recoveryPath: string,
+): Promise<{ report: RecoveryReport; state: State } | null> {
+  const exists = await fs.pathExists(recoveryPath);
+  if (!exists) {
+    return null;
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = (await fs.readJson(recoveryPath)) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+
+  const { state, ...report } = raw;
+  const migrated = migrateToLatest(state);
+  if (migrated.status === "invalid") {
+    return null;
+  }
+  return {
+    report: {
+      ...(report as unknown as RecoveryReport),
+      reportPath: recoveryPath,
+    },
+    state: migrated.state,
+  };
+}
+
+/**
+ * Moves an acknowledged report aside so it stays available for audit.
+ * Returns the archived path.
+ */
+export async function archiveRecovery(recoveryPath: string): Promise<string> {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const archivedPath = recoveryPath.replace(
+    /\.recovery\.json$/,
+    `.recovery-${timestamp}.json`,
+  );
+  await fs.move(recoveryPath, archivedPath, { overwrite: false });
+  return archivedPath;
+}
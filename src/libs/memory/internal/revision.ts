@@ -0,0 +1,74 @@
+// Memory organ — Internal revision tracking
+// Persisted State carries a revision counter used for compare-and-swap saves
+// Kept free of store imports: both backends and state-store.ts use its rejection types
+
+import { err, ok } from "../../shared/index.js";
+import type { Result } from "../../shared/index.js";
+
+/**
+ * Returned by a compare-and-swap save when another writer saved first.
+ */
+export interface RevisionConflict {
+  kind: "revisionConflict";
+  /** Revision the caller loaded and expected to replace */
+  expectedRevision: number;
+  /** Revision actually persisted at the time of the save */
+  actualRevision: number;
+}
+
+/**
+ * Returned by save while a salvaged State awaits acknowledgement.
+ * Nothing is written until acknowledgeRecovery is called.
+ */
+export interface RecoveryPending {
+  kind: "recoveryPending";
+  /** Report describing what was kept and what was quarantined */
+  reportPath: string;
+}
+
+/** Why a save wrote nothing */
+export type SaveRejection = RevisionConflict | RecoveryPending;
+
+/**
+ * Separates the persisted revision from the State document.
+ * Files written before revisions existed count as revision 0.
+ */
+export function splitRevision(data: unknown): {
+  data: unknown;
+  revision: number;
+} {
+  if (typeof data !== "object" || data === null || !("revision" in data)) {
+    return { data, revision: 0 };
+  }
+  const { revision, ...rest } = data as Record<string, unknown>;
+  return {
+    data: rest,
+    revision:
+      typeof revision === "number" && Number.isInteger(revision) ? revision : 0,
+  };
+}
+
+/**
+ * Compare-and-swap check: passes when no revision is expected or it matches.
+ */
+export function checkRevision(
+  expectedRevision: number | undefined,
+  actualRevision: number,
+): Result<void, RevisionConflict> {
+  if (expectedRevision === undefined || expectedRevision === actualRevision) {
+    return ok(undefined);
+  }
+  return err({ kind: "revisionConflict", expectedRevision, actualRevision });
+}
+
+/**
+ * Explains a rejected save in one sentence, for CLI and web error messages.
+ */
+export function describeSaveRejection(rejection: SaveRejection): string {
+  switch (rejection.kind) {
+    case "revisionConflict":
+      return `State was changed by another writer (revision ${rejection.expectedRevision} → ${rejection.actualRevision})`;
+    case "recoveryPending":
+      return `State was salvaged from an invalid file and saving is paused until the repair is acknowledged (see ${rejection.reportPath})`;
+  }
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { salvageState } from "./salvage.js";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "../types.js";
+import { isValidState } from "./validation.js";
+
+const variable = {
+  id: "v1",
+  node: DEFAULT_PERSONAL_NODE,
+  name: "Agency",
+  status: "InRange",
+};
+
+const episode = {
+  id: "e1",
+  node: DEFAULT_PERSONAL_NODE,
+  type: "Stabilize",
+  variableId: "v1",
+  objective: "Rest",
+  status: "Active",
+  openedAt: "2025-01-01T00:00:00.000Z",
+};
+
+describe("salvageState", () => {
+  it("keeps a valid State whole", () => {
+    const data = {
+      ...createEmptyState(),
+      variables: [variable],
+      episodes: [episode],
+      actions: [{ id: "a1", description: "Sleep", status: "Pending" }],
+    };
+
+    const result = salvageState(data);
+
+    expect(result.state).toEqual(data);
+    expect(result.quarantined).toEqual([]);
+    expect(result.kept.variables).toBe(1);
+    expect(result.kept.actions).toBe(1);
+  });
+
+  it("quarantines invalid entities and keeps the rest", () => {
+    const broken = { id: "v2", node: DEFAULT_PERSONAL_NODE, status: "Sky" };
+    const result = salvageState({
+      ...createEmptyState(),
+      variables: [variable, broken, { ...variable, name: "Copy" }],
+    });
+
+    expect(result.state.variables).toEqual([variable]);
+    expect(result.quarantined).toEqual([
+      {
+        collection: "variables",
+        index: 1,
+        id: "v2",
+        reason: "Fails validation",
+        entity: broken,
+      },
+      {
+        collection: "variables",
+        index: 2,
+        id: "v1",
+        reason: "Duplicate id",
+        entity: { ...variable, name: "Copy" },
+      },
+    ]);
+    expect(isValidState(result.state)).toBe(true);
+  });
+
+  it("quarantines entities that reference quarantined ones", () => {
+    const result = salvageState({
+      ...createEmptyState(),
+      variables: [{ ...variable, id: "v2", status: "Sky" }],
+      episodes: [{ ...episode, status: "Sideways" }],
+      actions: [
+        { id: "a1", description: "Sleep", status: "Pending", episodeId: "e1" },
+      ],
+      proxies: [
+        { id: "p1", variableId: "v2", name: "Steps", valueType: "numeric" },
+      ],
+    });
+
+    expect(result.state.episodes).toEqual([]);
+    expect(result.state.actions).toEqual([]);
+    expect(result.state.proxies).toEqual([]);
+    expect(
+      result.quarantined.map((q) => [q.collection, q.id, q.reason]),
+    ).toEqual([
+      ["variables", "v2", "Fails validation"],
+      ["episodes", "e1", "Fails validation"],
+      ["actions", "a1", "References a missing or quarantined entity"],
+      ["proxies", "p1", "References a missing or quarantined entity"],
+    ]);
+  });
+
+  it("drops links that point at quarantined links", () => {
+    const result = salvageState({
+      ...createEmptyState(),
+      variables: [variable],
+      links: [
+        { id: "l1", sourceId: "v1", targetId: "v1", relation: "nonsense" },
+        { id: "l2", sourceId: "v1", targetId: "l1", relation: "supports" },
+        { id: "l3", sourceId: "l2", targetId: "v1", relation: "supports" },
+      ],
+    });
+
+    expect(result.state.links).toEqual([]);
+    expect(result.quarantined.map((q) => [q.id, q.index])).toEqual([
+      ["l1", 0],
+      ["l2", 1],
+      ["l3", 2],
+    ]);
+    expect(isValidState(result.state)).toBe(true);
+  });
+
+  it("records missing collections and non-object documents", () => {
+    const partial = salvageState({ variables: [variable], notes: "nope" });
+    expect(partial.state.variables).toEqual([variable]);
+    expect(partial.quarantined).toContainEqual({
+      collection: "notes",
+      index: -1,
+      id: null,
+      reason: "Collection is missing or not an array",
+      entity: "nope",
+    });
+
+    const garbage = salvageState("nope");
+    expect(garbage.state).toEqual(createEmptyState());
+    expect(garbage.quarantined).toEqual([
+      {
+        collection: "state",
+        index: -1,
+        id: null,
+        reason: "State is not an object",
+        entity: "nope",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,256 @@
+// Memory organ — Internal salvage of invalid State
+// Keeps every entity that validates on its own and quarantines the rest
+
+import { createEmptyState } from "../types.js";
+import type { State } from "../types.js";
+import { STATE_COLLECTIONS } from "../diff.js";
+import type { StateCollection } from "../diff.js";
+import type { QuarantinedEntity } from "../state-store.js";
+import { CURRENT_STATE_SCHEMA } from "./validation.js";
+import {
+  collectIds,
+  validateAction,
+  validateEpisode,
+  validateException,
+  validateLink,
+  validateModel,
+  validateNote,
+  validateProxy,
+  validateProxyReading,
+  validateStatusChange,
+  validateVariable,
+} from "./validators.js";
+
+/**
+ * Outcome of salvaging a State document.
+ */
+export interface SalvageResult {
+  /** Valid current-schema State built from the entities that survived */
+  state: State;
+  /** Entities that survived, per collection */
+  kept: Record<StateCollection, number>;
+  quarantined: QuarantinedEntity[];
+}
+
+type Validator = (entity: unknown, knownIds: Set<string>) => boolean;
+
+function entityId(entity: unknown): string | null {
+  if (typeof entity !== "object" || entity === null) return null;
+  const id = (entity as Record<string, unknown>).id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Salvages an invalid State document entity by entity.
+ *
+ * **Intent:** When a state file fails validation, keep everything that can be
+ * kept instead of replacing all of it with a seed.
+ *
+ * **Contract:**
+ * - Each entity is checked with the current schema's validators from
+ *   validators.ts; duplicates (by id) after the first are quarantined
+ * - Collections are processed in dependency order (Episodes before Actions,
+ *   Variables before Proxies, …), so a reference to a quarantined entity
+ *   quarantines the referrer too
+ * - A collection that is missing or not an array is recorded once, with
+ *   index -1, and treated as empty
+ * - Returns: SalvageResult whose state passes isValidState
+ * - Pure function
+ */
+export function salvageState(data: unknown): SalvageResult {
+  const schema = CURRENT_STATE_SCHEMA;
+  const source =
+    typeof data === "object" && data !== null && !Array.isArray(data)
+      ? (data as Record<string, unknown>)
+      : {};
+  const state = createEmptyState();
+  const quarantined: QuarantinedEntity[] = [];
+
+  if (source !== data) {
+    quarantined.push({
+      collection: "state",
+      index: -1,
+      id: null,
+      reason: "State is not an object",
+      entity: data,
+    });
+  }
+
+  const salvage = (
+    collection: StateCollection,
+    validate: Validator,
+    knownIds: () => Set<string>,
+    allIds: () => Set<string>,
+  ): unknown[] => {
+    const items = source[collection];
+    if (!Array.isArray(items)) {
+      if (source === data) {
+        quarantined.push({
+          collection,
+          index: -1,
+          id: null,
+          reason: "Collection is missing or not an array",
+          entity: items,
+        });
+      }
+      return [];
+    }
+
+    const kept: unknown[] = [];
+    const seen = new Set<string>();
+    items.forEach((entity: unknown, index) => {
+      const id = entityId(entity);
+      let reason: string | null = null;
+      if (id !== null && seen.has(id)) {
+        reason = "Duplicate id";
+      } else if (!validate(entity, knownIds())) {
+        reason = validate(entity, allIds())
+          ? "References a missing or quarantined entity"
+          : "Fails validation";
+      }
+
+      if (reason) {
+        quarantined.push({ collection, index, id, reason, entity });
+        return;
+      }
+      if (id !== null) seen.add(id);
+      kept.push(entity);
+    });
+    return kept;
+  };
+
+  const none = (): Set<string> => new Set();
+  const candidates = (...collections: StateCollection[]): Set<string> =>
+    new Set(
+      collections.flatMap((c) => {
+        const items = source[c];
+        return Array.isArray(items) ? [...collectIds(items)] : [];
+      }),
+    );
+
+  state.variables = salvage(
+    "variables",
+    (v) => validateVariable(v, schema.variable),
+    none,
+    none,
+  ) as State["variables"];
+  state.episodes = salvage(
+    "episodes",
+    (e) => validateEpisode(e, schema.episode),
+    none,
+    none,
+  ) as State["episodes"];
+
+  // Actions may be unscoped; a scoped one needs its Episode
+  const referencesEpisode = (a: unknown, episodeIds: Set<string>): boolean => {
+    const episodeId = (a as Record<string, unknown>).episodeId;
+    return episodeId === undefined || episodeIds.has(episodeId as string);
+  };
+  state.actions = salvage(
+    "actions",
+    (a, ids) => validateAction(a, schema.action) && referencesEpisode(a, ids),
+    () => collectIds(state.episodes),
+    () => candidates("episodes"),
+  ) as State["actions"];
+
+  state.notes = salvage(
+    "notes",
+    (n) => validateNote(n, schema.note),
+    none,
+    none,
+  ) as State["notes"];
+  state.models = salvage(
+    "models",
+    (m) => validateModel(m, schema.model),
+    none,
+    none,
+  ) as State["models"];
+  state.exceptions = salvage(
+    "exceptions",
+    (ex, ids) => validateException(ex, ids, schema.exception),
+    () => collectIds(state.models),
+    () => candidates("models"),
+  ) as State["exceptions"];
+
+  // Links may point at any object, including other links
+  const linkTargets = (): Set<string> =>
+    new Set([
+      ...collectIds(state.variables),
+      ...collectIds(state.episodes),
+      ...collectIds(state.actions),
+      ...collectIds(state.notes),
+      ...collectIds(state.models),
+      ...collectIds(state.exceptions),
+      ...candidates("links"),
+    ]);
+  state.links = salvage("links", validateLink, linkTargets, () =>
+    candidates(...STATE_COLLECTIONS),
+  ) as State["links"];
+  dropLinksToQuarantinedLinks(state, source.links, quarantined);
+
+  state.proxies = salvage(
+    "proxies",
+    validateProxy,
+    () => collectIds(state.variables),
+    () => candidates("variables"),
+  ) as State["proxies"];
+  state.proxyReadings = salvage(
+    "proxyReadings",
+    validateProxyReading,
+    () => collectIds(state.proxies),
+    () => candidates("proxies"),
+  ) as State["proxyReadings"];
+  state.statusChanges = salvage(
+    "statusChanges",
+    validateStatusChange,
+    () => collectIds(state.variables),
+    () => candidates("variables"),
+  ) as State["statusChanges"];
+
+  const kept = {} as Record<StateCollection, number>;
+  for (const collection of STATE_COLLECTIONS) {
+    kept[collection] = state[collection].length;
+  }
+
+  return { state, kept, quarantined };
+}
+
+/**
+ * Links were checked against every link id in the file; drop (repeatedly)
+ * those whose source or target link was itself quarantined.
+ */
+function dropLinksToQuarantinedLinks(
+  state: State,
+  sourceLinks: unknown,
+  quarantined: QuarantinedEntity[],
+): void {
+  const original: unknown[] = Array.isArray(sourceLinks) ? sourceLinks : [];
+  const linkIdsInFile = new Set(
+    quarantined
+      .filter((q) => q.collection === "links" && q.id !== null)
+      .map((q) => q.id as string),
+  );
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const keptLinkIds = collectIds(state.links);
+    state.links = state.links.filter((link) => {
+      const dangling = [link.sourceId, link.targetId].some(
+        (id) => linkIdsInFile.has(id) && !keptLinkIds.has(id),
+      );
+      if (dangling) {
+        quarantined.push({
+          collection: "links",
+          index: original.indexOf(link),
+          id: link.id,
+          reason: "References a missing or quarantined entity",
+          entity: link,
+        });
+        linkIdsInFile.add(link.id);
+        changed = true;
+      }
+      return !dangling;
+    });
+  }
+}
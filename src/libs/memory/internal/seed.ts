@@ -0,0 +1,61 @@
+// Memory organ — Internal seed state
+// The baseline State every backend starts from when nothing is persisted
+
+import * as crypto from "node:crypto";
+import {
+  DEFAULT_ORG_NODE,
+  DEFAULT_PERSONAL_NODE,
+  SCHEMA_VERSION,
+} from "../types.js";
+import type { NodeRef, State, Variable, VariableStatus } from "../types.js";
+
+// Seed state constants (re-exported from store.ts for test use)
+export const SEED_PERSONAL_NODE: NodeRef = {
+  ...DEFAULT_PERSONAL_NODE,
+};
+export const SEED_ORG_NODE: NodeRef = { ...DEFAULT_ORG_NODE };
+export const SEED_AGENCY_NAME = "Agency";
+export const SEED_EXECUTION_CAPACITY_NAME = "Execution Capacity";
+export const SEED_STATUS: VariableStatus = "InRange";
+
+/**
+ * Generates the initial system state when no persisted state exists.
+ *
+ * **Intent:** Provides a baseline viable state with core variables
+ * for both Personal and Org nodes, ensuring the system can start
+ * from a known-good configuration.
+ *
+ * **Contract:**
+ * - Returns: A valid State object with seed variables
+ * - Variables: Agency (Personal) and Execution Capacity (Org), both InRange
+ * - All other collections (episodes, actions, notes) are empty arrays
+ */
+export function createSeedState(): State {
+  const agencyVariable: Variable = {
+    id: crypto.randomUUID(),
+    node: SEED_PERSONAL_NODE,
+    name: SEED_AGENCY_NAME,
+    status: SEED_STATUS,
+  };
+
+  const executionCapacityVariable: Variable = {
+    id: crypto.randomUUID(),
+    node: SEED_ORG_NODE,
+    name: SEED_EXECUTION_CAPACITY_NAME,
+    status: SEED_STATUS,
+  };
+
+  return {
+    schemaVersion: SCHEMA_VERSION,
+    variables: [agencyVariable, executionCapacityVariable],
+    episodes: [],
+    actions: [],
+    notes: [],
+    models: [],
+    links: [],
+    exceptions: [],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+}
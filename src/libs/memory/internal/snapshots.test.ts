@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  getSnapshotPrefix,
+  isSnapshotDue,
+  listSnapshots,
+  readSnapshot,
+  selectSnapshotsToKeep,
+  takeSnapshot,
+} from "./snapshots.js";
+import type { SnapshotLocation } from "./snapshots.js";
+import { createEmptyState } from "../types.js";
+import type { SnapshotInfo } from "../state-store.js";
+
+const NONE = { keepLast: 0, keepDaily: 0, keepWeekly: 0, every: 1 };
+
+function info(createdAt: string, revision: number): SnapshotInfo {
+  return {
+    id: `${createdAt.replace(/[:.]/g, "-")}-r${revision}`,
+    createdAt,
+    revision,
+  };
+}
+
+describe("snapshots", () => {
+  describe("selectSnapshotsToKeep", () => {
+    // Newest first: two saves on Wed 8 Jan, one on Tue 7 Jan, one the week before
+    const snapshots = [
+      info("2025-01-08T12:00:00.000Z", 4),
+      info("2025-01-08T09:00:00.000Z", 3),
+      info("2025-01-07T09:00:00.000Z", 2),
+      info("2025-01-01T09:00:00.000Z", 1),
+    ];
+    const ids = (...revisions: number[]): Set<string> =>
+      new Set(revisions.map((r) => snapshots[4 - r]?.id ?? ""));
+
+    it("keeps the most recent saves", () => {
+      expect(
+        selectSnapshotsToKeep(snapshots, { ...NONE, keepLast: 2 }),
+      ).toEqual(ids(4, 3));
+    });
+
+    it("keeps the newest snapshot of each recent day", () => {
+      expect(
+        selectSnapshotsToKeep(snapshots, { ...NONE, keepDaily: 2 }),
+      ).toEqual(ids(4, 2));
+    });
+
+    it("keeps the newest snapshot of each recent ISO week", () => {
+      expect(
+        selectSnapshotsToKeep(snapshots, { ...NONE, keepWeekly: 5 }),
+      ).toEqual(ids(4, 1));
+    });
+
+    it("keeps the union of all rules", () => {
+      expect(
+        selectSnapshotsToKeep(snapshots, {
+          keepLast: 1,
+          keepDaily: 0,
+          keepWeekly: 2,
+          every: 1,
+        }),
+      ).toEqual(ids(4, 1));
+    });
+  });
+
+  describe("isSnapshotDue", () => {
+    // Wed 8 Jan, revision 10
+    const newest = info("2025-01-08T09:00:00.000Z", 10);
+    const retention = { ...NONE, keepLast: 10, every: 5 };
+
+    it("waits `every` revisions between snapshots", () => {
+      const at = "2025-01-08T12:00:00.000Z";
+      expect(isSnapshotDue(undefined, 1, at, retention)).toBe(true);
+      expect(isSnapshotDue(newest, 14, at, retention)).toBe(false);
+      expect(isSnapshotDue(newest, 15, at, retention)).toBe(true);
+      // A lower revision belongs to another history
+      expect(isSnapshotDue(newest, 3, at, retention)).toBe(true);
+    });
+
+    it("takes the first save of a new day or week the rules keep", () => {
+      const thursday = "2025-01-09T09:00:00.000Z";
+      const monday = "2025-01-13T09:00:00.000Z";
+      expect(isSnapshotDue(newest, 11, thursday, retention)).toBe(false);
+      expect(
+        isSnapshotDue(newest, 11, thursday, { ...retention, keepDaily: 7 }),
+      ).toBe(true);
+      expect(
+        isSnapshotDue(newest, 11, thursday, { ...retention, keepWeekly: 4 }),
+      ).toBe(false);
+      expect(
+        isSnapshotDue(newest, 11, monday, { ...retention, keepWeekly: 4 }),
+      ).toBe(true);
+    });
+  });
+
+  describe("on disk", () => {
+    let location: SnapshotLocation;
+
+    beforeEach(async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "becoming-snap-"));
+      location = { dir, prefix: getSnapshotPrefix("state-dev.json") };
+    });
+
+    afterEach(async () => {
+      await fs.remove(location.dir);
+    });
+
+    it("writes, lists and reads snapshots back", async () => {
+      const state = createEmptyState();
+      await takeSnapshot(
+        location,
+        state,
+        7,
+        { ...NONE, keepLast: 3 },
+        "2025-01-06T09:30:00.000Z",
+      );
+
+      const listed = await listSnapshots(location);
+      expect(listed).toEqual([info("2025-01-06T09:30:00.000Z", 7)]);
+      expect(await readSnapshot(location, listed[0]?.id ?? "")).toEqual({
+        ok: true,
+        value: state,
+      });
+    });
+
+    it("prunes snapshots retention no longer keeps", async () => {
+      for (const [minute, revision] of [
+        [1, 1],
+        [2, 2],
+        [3, 3],
+      ] as const) {
+        await takeSnapshot(
+          location,
+          createEmptyState(),
+          revision,
+          { ...NONE, keepLast: 2 },
+          `2025-01-06T09:0${minute}:00.000Z`,
+        );
+      }
+
+      const listed = await listSnapshots(location);
+      expect(listed.map((s) => s.revision)).toEqual([3, 2]);
+    });
+
+    it("writes nothing when retention is all zeros", async () => {
+      await takeSnapshot(
+        location,
+        createEmptyState(),
+        1,
+        NONE,
+        "2025-01-06T09:30:00.000Z",
+      );
+      expect(await listSnapshots(location)).toEqual([]);
+    });
+
+    it("ignores other environments and unrelated files", async () => {
+      await fs.writeJson(
+        path.join(location.dir, "state.2025-01-06T09-30-00-000Z-r1.json"),
+        createEmptyState(),
+      );
+      await fs.writeFile(path.join(location.dir, "state-dev.notes.txt"), "");
+
+      expect(await listSnapshots(location)).toEqual([]);
+    });
+
+    it("rejects malformed ids, missing files and invalid State", async () => {
+      expect((await readSnapshot(location, "../state")).ok).toBe(false);
+
+      const id = "2025-01-06T09-30-00-000Z-r1";
+      const missing = await readSnapshot(location, id);
+      expect(missing).toEqual({
+        ok: false,
+        error: `Snapshot '${id}' not found`,
+      });
+
+      await fs.writeJson(path.join(location.dir, `state-dev.${id}.json`), {
+        variables: "nope",
+      });
+      const invalid = await readSnapshot(location, id);
+      expect(invalid.ok).toBe(false);
+      if (!invalid.ok) {
+        expect(invalid.error).toContain("does not contain a valid State");
+      }
+    });
+  });
+});
@@ -0,0 +1,241 @@
+// Memory organ — Internal snapshot operations
+// Rolling copies of State written after saves, pruned by retention rules
+
+import fs from "fs-extra";
+import * as path from "node:path";
+import { err, ok } from "../../shared/index.js";
+import type { Result, SnapshotRetention } from "../../shared/index.js";
+import type { State } from "../types.js";
+import type { SnapshotInfo } from "../state-store.js";
+import { migrateToLatest } from "./migrations.js";
+import { splitRevision } from "./revision.js";
+
+/** `2025-01-06T09-30-00-000Z-r42`: filesystem-safe timestamp plus revision */
+const SNAPSHOT_ID =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-r(\d+)$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Where one store keeps its snapshots.
+ * `prefix` separates environments sharing a directory (e.g. `state` vs `state-dev`).
+ */
+export interface SnapshotLocation {
+  dir: string;
+  prefix: string;
+}
+
+/**
+ * Derives the snapshot prefix from a state or database file name.
+ */
+export function getSnapshotPrefix(fileName: string): string {
+  return path.parse(fileName).name;
+}
+
+function formatSnapshotId(createdAt: string, revision: number): string {
+  return `${createdAt.replace(/[:.]/g, "-")}-r${revision}`;
+}
+
+function parseSnapshotId(id: string): SnapshotInfo | null {
+  const match = SNAPSHOT_ID.exec(id);
+  if (!match) return null;
+  const [, date, hh, mm, ss, ms, revision] = match;
+  return {
+    id,
+    createdAt: `${date}T${hh}:${mm}:${ss}.${ms}Z`,
+    revision: Number(revision),
+  };
+}
+
+function snapshotPath(location: SnapshotLocation, id: string): string {
+  return path.join(location.dir, `${location.prefix}.${id}.json`);
+}
+
+/** Monday (UTC) of the ISO week containing `createdAt` */
+function weekKey(createdAt: string): string {
+  const time = Date.parse(createdAt);
+  const daysSinceMonday = (new Date(time).getUTCDay() + 6) % 7;
+  return new Date(time - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Decides which snapshots survive pruning.
+ *
+ * **Intent:** Keep recent history dense and older history sparse, so a bad
+ * write can be undone minutes later and a slow drift weeks later.
+ *
+ * **Contract:**
+ * - Parameters: snapshots - newest first (as returned by listSnapshots)
+ * - Returns: IDs to keep — the `keepLast` newest, plus the newest of each of
+ *   the `keepDaily` most recent days and `keepWeekly` most recent weeks
+ * - Pure function
+ */
+export function selectSnapshotsToKeep(
+  snapshots: readonly SnapshotInfo[],
+  retention: SnapshotRetention,
+): Set<string> {
+  const keep = new Set<string>();
+  for (const snapshot of snapshots.slice(0, retention.keepLast)) {
+    keep.add(snapshot.id);
+  }
+
+  const keepNewestPerBucket = (
+    limit: number,
+    bucket: (createdAt: string) => string,
+  ): void => {
+    const seen = new Set<string>();
+    for (const snapshot of snapshots) {
+      const key = bucket(snapshot.createdAt);
+      if (seen.has(key)) continue;
+      if (seen.size >= limit) break;
+      seen.add(key);
+      keep.add(snapshot.id);
+    }
+  };
+  keepNewestPerBucket(retention.keepDaily, (createdAt) =>
+    createdAt.slice(0, 10),
+  );
+  keepNewestPerBucket(retention.keepWeekly, weekKey);
+
+  return keep;
+}
+
+/**
+ * Decides whether a save at `revision` should be snapshotted.
+ *
+ * **Intent:** Spare every save a full copy of State while still giving each
+ * retention rule something to keep: dense enough for keepLast, and one per
+ * day and week for keepDaily and keepWeekly.
+ *
+ * **Contract:**
+ * - Parameters: newest - the newest existing snapshot, if any
+ * - Returns: true when there is no snapshot yet, `every` revisions have
+ *   passed since the newest (or the revision is lower, i.e. another
+ *   history), or the save is the first of a day or ISO week the newest
+ *   snapshot is not in and that rule keeps any
+ * - Pure function
+ */
+export function isSnapshotDue(
+  newest: SnapshotInfo | undefined,
+  revision: number,
+  createdAt: string,
+  retention: SnapshotRetention,
+): boolean {
+  if (!newest) return true;
+  if (
+    revision < newest.revision ||
+    revision - newest.revision >= retention.every
+  ) {
+    return true;
+  }
+  return (
+    (retention.keepDaily > 0 &&
+      createdAt.slice(0, 10) !== newest.createdAt.slice(0, 10)) ||
+    (retention.keepWeekly > 0 &&
+      weekKey(createdAt) !== weekKey(newest.createdAt))
+  );
+}
+
+/**
+ * Lists snapshots for this location, newest first.
+ * Returns an empty array if the directory doesn't exist; unrecognised files are ignored.
+ */
+export async function listSnapshots(
+  location: SnapshotLocation,
+): Promise<SnapshotInfo[]> {
+  const exists = await fs.pathExists(location.dir);
+  if (!exists) {
+    return [];
+  }
+
+  const head = `${location.prefix}.`;
+  const snapshots: SnapshotInfo[] = [];
+  for (const file of await fs.readdir(location.dir)) {
+    if (!file.startsWith(head) || !file.endsWith(".json")) continue;
+    const info = parseSnapshotId(file.slice(head.length, -".json".length));
+    if (info) {
+      snapshots.push(info);
+    }
+  }
+
+  return snapshots.sort(
+    (a, b) => b.createdAt.localeCompare(a.createdAt) || b.revision - a.revision,
+  );
+}
+
+/**
+ * Writes a snapshot of `state` when one is due (see isSnapshotDue) and
+ * prunes the ones retention no longer keeps.
+ * Does nothing when every retention count is zero.
+ * Does NOT take the lock — caller is responsible for exclusive access.
+ */
+export async function takeSnapshot(
+  location: SnapshotLocation,
+  state: State,
+  revision: number,
+  retention: SnapshotRetention,
+  createdAt: string,
+): Promise<void> {
+  if (
+    retention.keepLast === 0 &&
+    retention.keepDaily === 0 &&
+    retention.keepWeekly === 0
+  ) {
+    return;
+  }
+  const [newest] = await listSnapshots(location);
+  if (!isSnapshotDue(newest, revision, createdAt, retention)) {
+    return;
+  }
+
+  await fs.ensureDir(location.dir);
+  const id = formatSnapshotId(createdAt, revision);
+  await fs.writeJson(
+    snapshotPath(location, id),
+    { ...state, revision },
+    { spaces: 2 },
+  );
+
+  const snapshots = await listSnapshots(location);
+  const keep = selectSnapshotsToKeep(snapshots, retention);
+  for (const snapshot of snapshots) {
+    if (!keep.has(snapshot.id)) {
+      await fs.remove(snapshotPath(location, snapshot.id));
+    }
+  }
+}
+
+/**
+ * Reads a snapshot back as current-schema State.
+ *
+ * **Contract:**
+ * - Returns: Result<State>, migrated with migrateToLatest (which validates
+ *   against the current schema via validateStateAgainstSchema)
+ * - Error handling: Returns error for malformed IDs, missing files,
+ *   unreadable JSON or State that fails validation
+ */
+export async function readSnapshot(
+  location: SnapshotLocation,
+  id: string,
+): Promise<Result<State>> {
+  if (!parseSnapshotId(id)) {
+    return err(`Invalid snapshot id '${id}'`);
+  }
+
+  const filePath = snapshotPath(location, id);
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return err(`Snapshot '${id}' not found`);
+    }
+    return err(`Snapshot '${id}' is not readable JSON`);
+  }
+
+  const migrated = migrateToLatest(splitRevision(raw).data);
+  if (migrated.status === "invalid") {
+    return err(`Snapshot '${id}' does not contain a valid State`);
+  }
+  return ok(migrated.state);
+}
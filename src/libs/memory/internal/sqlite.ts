@@ -0,0 +1,206 @@
+// Memory organ — Internal SQLite mapping
+// One table per State collection; each row holds one entity as JSON
+
+import type Database from "better-sqlite3";
+import type { JournalEntry, State } from "../types.js";
+import { getEntryRevision, readJournalLine } from "./journal.js";
+
+/** Every State collection (everything except schemaVersion) */
+export type Collection = Exclude<keyof State, "schemaVersion">;
+
+/**
+ * Table backing each State collection.
+ * Typed as a Record so adding a collection to State without a table fails to compile.
+ */
+export const COLLECTION_TABLES: Record<Collection, string> = {
+  variables: "variables",
+  episodes: "episodes",
+  actions: "actions",
+  notes: "notes",
+  models: "models",
+  links: "links",
+  exceptions: "exceptions",
+  proxies: "proxies",
+  proxyReadings: "proxy_readings",
+  statusChanges: "status_changes",
+};
+
+const COLLECTIONS = Object.keys(COLLECTION_TABLES) as Collection[];
+
+/**
+ * Creates the tables if they don't exist yet.
+ * `position` preserves array order; `data` is the entity as JSON so schema
+ * migrations keep working on the same shape JsonStore persists.
+ */
+export function ensureSchema(db: Database.Database): void {
+  const statements = [
+    "CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL)",
+    "CREATE TABLE IF NOT EXISTS journal (seq INTEGER PRIMARY KEY AUTOINCREMENT, entry TEXT NOT NULL)",
+    ...COLLECTIONS.map(
+      (c) =>
+        `CREATE TABLE IF NOT EXISTS ${COLLECTION_TABLES[c]} (id TEXT PRIMARY KEY, position INTEGER NOT NULL, data TEXT NOT NULL)`,
+    ),
+  ];
+  for (const sql of statements) {
+    db.exec(sql);
+  }
+}
+
+/**
+ * Reads persisted rows back into a raw (unvalidated) State object.
+ * A row whose data is not JSON is kept as its text, so salvage quarantines
+ * that entity alone. Returns null when nothing has been saved yet.
+ */
+export function readRawState(db: Database.Database): unknown {
+  const version = db
+    .prepare<
+      [],
+      { value: string }
+    >("SELECT value FROM meta WHERE key = 'schemaVersion'")
+    .get();
+  if (!version) {
+    return null;
+  }
+
+  const raw: Record<string, unknown> = {
+    schemaVersion: Number(version.value),
+  };
+  for (const collection of COLLECTIONS) {
+    raw[collection] = db
+      .prepare<[], { data: string }>(
+        `SELECT data FROM ${COLLECTION_TABLES[collection]} ORDER BY position, rowid`,
+      )
+      .all()
+      .map((row) => parseRow(row.data));
+  }
+  return raw;
+}
+
+function parseRow(data: string): unknown {
+  try {
+    return JSON.parse(data) as unknown;
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Reads the persisted revision (0 when nothing has been saved).
+ */
+export function readRevision(db: Database.Database): number {
+  const row = db
+    .prepare<
+      [],
+      { value: string }
+    >("SELECT value FROM meta WHERE key = 'revision'")
+    .get();
+  return row ? Number(row.value) : 0;
+}
+
+/**
+ * Writes `state` on top of `previous` (the State the database last held).
+ *
+ * Collections whose array is unchanged are skipped, and within a changed
+ * collection only rows whose entity or position changed are rewritten —
+ * appending one proxy reading writes one row. Without `previous`, every
+ * table is rewritten. Stamps the State with `revision`.
+ * Does NOT open a transaction — caller is responsible for atomicity.
+ */
+export function writeState(
+  db: Database.Database,
+  previous: State | null,
+  state: State,
+  revision: number,
+): void {
+  const setMeta = db.prepare(
+    "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+  );
+  setMeta.run("schemaVersion", String(state.schemaVersion));
+  setMeta.run("revision", String(revision));
+
+  for (const collection of COLLECTIONS) {
+    const before = previous ? previous[collection] : null;
+    const after = state[collection];
+    if (before === after) continue;
+    writeCollection(db, COLLECTION_TABLES[collection], before, after);
+  }
+}
+
+function writeCollection(
+  db: Database.Database,
+  table: string,
+  before: readonly { id: string }[] | null,
+  after: readonly { id: string }[],
+): void {
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (id, position, data) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET position = excluded.position, data = excluded.data`,
+  );
+
+  if (!before) {
+    db.prepare(`DELETE FROM ${table}`).run();
+  } else {
+    const remaining = new Set(after.map((entity) => entity.id));
+    const remove = db.prepare(`DELETE FROM ${table} WHERE id = ?`);
+    for (const entity of before) {
+      if (!remaining.has(entity.id)) {
+        remove.run(entity.id);
+      }
+    }
+  }
+
+  after.forEach((entity, position) => {
+    if (before?.[position] !== entity) {
+      upsert.run(entity.id, position, JSON.stringify(entity));
+    }
+  });
+}
+
+/**
+ * Whether any journal entry has been written.
+ */
+export function hasJournalEntries(db: Database.Database): boolean {
+  return db.prepare("SELECT 1 FROM journal LIMIT 1").get() !== undefined;
+}
+
+/**
+ * Appends journal entries in order.
+ * Does NOT open a transaction — caller is responsible for atomicity.
+ */
+export function appendJournalRows(
+  db: Database.Database,
+  entries: readonly JournalEntry[],
+): void {
+  const insert = db.prepare("INSERT INTO journal (entry) VALUES (?)");
+  for (const entry of entries) {
+    insert.run(JSON.stringify(entry));
+  }
+}
+
+/**
+ * Reads all journal entries in the order they were written.
+ * Rows that do not parse are returned as `unreadable` entries at their
+ * position.
+ */
+export function readJournalRows(db: Database.Database): JournalEntry[] {
+  const rows = db
+    .prepare<[], { entry: string }>("SELECT entry FROM journal ORDER BY seq")
+    .all();
+
+  return rows.map((row, index) => readJournalLine(row.entry, index + 1));
+}
+
+/**
+ * Reads the revision of the last journal entry (see getEntryRevision;
+ * also null when the journal is empty).
+ */
+export function readLastJournalRowRevision(
+  db: Database.Database,
+): number | null {
+  const row = db
+    .prepare<
+      [],
+      { entry: string }
+    >("SELECT entry FROM journal ORDER BY seq DESC LIMIT 1")
+    .get();
+  return row ? getEntryRevision(readJournalLine(row.entry, 0)) : null;
+}
@@ -16,6 +16,12 @@ import {
   isValidLegacyStateV6,
   isValidLegacyStateV8,
   isValidLegacyStateV9,
+  isValidLegacyStateV11,
+  isValidLegacyStateV12,
+  isValidLegacyStateV13,
+  isValidLegacyStateV14,
+  isValidLegacyStateV15,
+  isValidLegacyStateV16,
   nodeRefFromLegacy,
 } from "./validation.js";
 import {
@@ -26,6 +32,12 @@ import {
   migrateV8ToV9,
   migrateV9ToV10,
   migrateV10ToV11,
+  migrateV11ToV12,
+  migrateV12ToV13,
+  migrateV13ToV14,
+  migrateV14ToV15,
+  migrateV15ToV16,
+  migrateV16ToV17,
 } from "./migrations.js";
 import { validateProxy, validateProxyReading } from "./validators.js";
 import {
@@ -41,6 +53,7 @@ import {
   LINK_RELATIONS,
   DEFAULT_PERSONAL_NODE,
   DEFAULT_ORG_NODE,
+  createEmptyState,
 } from "../types.js";
 
 // ============================================================================
@@ -89,6 +102,7 @@ function createValidStateV7(): unknown {
     exceptions: [],
     proxies: [],
     proxyReadings: [],
+    statusChanges: [],
   };
 }
 
@@ -104,6 +118,7 @@ function createMinimalValidStateV7(): unknown {
     exceptions: [],
     proxies: [],
     proxyReadings: [],
+    statusChanges: [],
   };
 }
 
@@ -353,6 +368,7 @@ describe("isValidState", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -376,6 +392,7 @@ describe("isValidState", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -399,6 +416,7 @@ describe("isValidState", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -647,6 +665,7 @@ describe("isValidState", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -670,6 +689,7 @@ describe("isValidState", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -933,6 +953,64 @@ describe("isValidState", () => {
       expect(isValidState(state)).toBe(false);
     });
 
+    it("checks due dates, order and cancel reasons", () => {
+      const withActions = (actions: unknown[]): unknown => ({
+        ...createEmptyState(),
+        actions,
+      });
+
+      expect(
+        isValidState(
+          withActions([
+            {
+              id: "a1",
+              description: "Abandoned",
+              status: "Cancelled",
+              cancelReason: "No longer needed",
+            },
+            {
+              id: "a2",
+              description: "Waiting",
+              status: "Blocked",
+              dueDate: "2025-02-28",
+              order: 2,
+            },
+          ]),
+        ),
+      ).toBe(true);
+      expect(
+        isValidState(
+          withActions([
+            {
+              id: "a1",
+              description: "x",
+              status: "Pending",
+              dueDate: "2025-02-30",
+            },
+          ]),
+        ),
+      ).toBe(false);
+      expect(
+        isValidState(
+          withActions([
+            { id: "a1", description: "x", status: "Pending", order: 1.5 },
+          ]),
+        ),
+      ).toBe(false);
+      expect(
+        isValidState(
+          withActions([
+            {
+              id: "a1",
+              description: "x",
+              status: "Pending",
+              cancelReason: "?",
+            },
+          ]),
+        ),
+      ).toBe(false);
+    });
+
     it("rejects action with invalid status", () => {
       const state = {
         schemaVersion: SCHEMA_VERSION,
@@ -1457,6 +1535,7 @@ describe("isValidState - Model Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -1479,6 +1558,7 @@ describe("isValidState - Model Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -1504,6 +1584,7 @@ describe("isValidState - Model Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -1538,6 +1619,7 @@ describe("isValidState - Model Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -1567,6 +1649,7 @@ describe("isValidState - Model Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2022,23 +2105,38 @@ describe("migrateV6ToV7", () => {
       notes: [{ id: "n1", content: "Note" }],
     };
 
-    const v11State = migrateV10ToV11(
-      migrateV9ToV10(
-        migrateV8ToV9(
-          migrateV7ToV8(migrateV6ToV7(migrateV5ToV6(migrateV4ToV5(v4State)))),
+    const v17State = migrateV16ToV17(
+      migrateV15ToV16(
+        migrateV14ToV15(
+          migrateV13ToV14(
+            migrateV12ToV13(
+              migrateV11ToV12(
+                migrateV10ToV11(
+                  migrateV9ToV10(
+                    migrateV8ToV9(
+                      migrateV7ToV8(
+                        migrateV6ToV7(migrateV5ToV6(migrateV4ToV5(v4State))),
+                      ),
+                    ),
+                  ),
+                ),
+              ),
+            ),
+          ),
         ),
       ),
     );
 
-    expect(v11State.schemaVersion).toBe(SCHEMA_VERSION);
-    expect(v11State.models).toEqual([]);
-    expect(v11State.links).toEqual([]);
-    expect(v11State.exceptions).toEqual([]);
-    expect(v11State.proxies).toEqual([]);
-    expect(v11State.proxyReadings).toEqual([]);
-    expect(v11State.notes[0]?.createdAt).toBe("1970-01-01T00:00:00.000Z");
-    expect(v11State.notes[0]?.tags).toEqual([]);
-    expect(isValidState(v11State)).toBe(true);
+    expect(v17State.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(v17State.models).toEqual([]);
+    expect(v17State.links).toEqual([]);
+    expect(v17State.exceptions).toEqual([]);
+    expect(v17State.proxies).toEqual([]);
+    expect(v17State.proxyReadings).toEqual([]);
+    expect(v17State.statusChanges).toEqual([]);
+    expect(v17State.notes[0]?.createdAt).toBe("1970-01-01T00:00:00.000Z");
+    expect(v17State.notes[0]?.tags).toEqual([]);
+    expect(isValidState(v17State)).toBe(true);
   });
 });
 
@@ -2233,7 +2331,7 @@ describe("migrateV9ToV10", () => {
 // ============================================================================
 
 describe("migrateV10ToV11", () => {
-  it("sets schemaVersion to 11 (current) and adds empty proxy arrays", () => {
+  it("sets schemaVersion to 11 and adds empty proxy arrays", () => {
     const v10State = {
       schemaVersion: 10 as const,
       variables: [
@@ -2261,7 +2359,7 @@ describe("migrateV10ToV11", () => {
 
     const v11State = migrateV10ToV11(v10State);
 
-    expect(v11State.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(v11State.schemaVersion).toBe(11);
     expect(v11State.proxies).toEqual([]);
     expect(v11State.proxyReadings).toEqual([]);
     // Preserves existing data
@@ -2271,7 +2369,7 @@ describe("migrateV10ToV11", () => {
     expect(v11State.exceptions).toEqual(v10State.exceptions);
   });
 
-  it("produces valid current state", () => {
+  it("produces valid v11 state", () => {
     const v10State = {
       schemaVersion: 10 as const,
       variables: [
@@ -2299,7 +2397,237 @@ describe("migrateV10ToV11", () => {
 
     const v11State = migrateV10ToV11(v10State);
 
-    expect(isValidState(v11State)).toBe(true);
+    expect(isValidLegacyStateV11(v11State)).toBe(true);
+  });
+});
+
+// ============================================================================
+// migrateV11ToV12 Tests
+// ============================================================================
+
+describe("migrateV11ToV12", () => {
+  function createV11State(notes: unknown[]) {
+    return {
+      schemaVersion: 11 as const,
+      variables: [
+        {
+          id: "v1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Agency",
+          status: VARIABLE_STATUSES[0],
+        },
+      ],
+      episodes: [],
+      actions: [],
+      notes: notes as {
+        id: string;
+        content: string;
+        createdAt: string;
+        tags: [];
+      }[],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [],
+      proxyReadings: [],
+    };
+  }
+
+  it("sets schemaVersion to 12 and adds an empty history", () => {
+    const v12State = migrateV11ToV12(createV11State([]));
+
+    expect(v12State.schemaVersion).toBe(12);
+    expect(v12State.statusChanges).toEqual([]);
+    expect(isValidLegacyStateV12(v12State)).toBe(true);
+  });
+
+  it("backfills status changes from audit notes, oldest first", () => {
+    const v11State = createV11State([
+      {
+        id: "n2",
+        content: "Status changed: InRange → Low. Bad week",
+        createdAt: "2025-02-01T00:00:00.000Z",
+        tags: ["audit"],
+        linkedObjects: ["v1"],
+      },
+      {
+        id: "n1",
+        content: "Status changed: Unknown → InRange",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        tags: ["audit"],
+        linkedObjects: ["v1"],
+      },
+    ]);
+
+    const v12State = migrateV11ToV12(v11State);
+
+    expect(v12State.statusChanges).toEqual([
+      {
+        id: "n1",
+        variableId: "v1",
+        from: "Unknown",
+        to: "InRange",
+        at: "2025-01-01T00:00:00.000Z",
+        source: "manual",
+      },
+      {
+        id: "n2",
+        variableId: "v1",
+        from: "InRange",
+        to: "Low",
+        at: "2025-02-01T00:00:00.000Z",
+        source: "manual",
+        reason: "Bad week",
+      },
+    ]);
+    expect(isValidLegacyStateV12(v12State)).toBe(true);
+  });
+
+  it("ignores notes that are not status audits of a known Variable", () => {
+    const v11State = createV11State([
+      {
+        id: "n1",
+        content: "Status changed: InRange → Low",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        tags: [],
+        linkedObjects: ["v1"],
+      },
+      {
+        id: "n2",
+        content: "Status changed: InRange → Low",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        tags: ["audit"],
+        linkedObjects: ["missing"],
+      },
+      {
+        id: "n3",
+        content: "Measured sleep: 7h",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        tags: ["audit"],
+        linkedObjects: ["v1"],
+      },
+    ]);
+
+    expect(migrateV11ToV12(v11State).statusChanges).toEqual([]);
+  });
+});
+
+// ============================================================================
+// migrateV12ToV13 Tests
+// ============================================================================
+
+describe("migrateV12ToV13", () => {
+  const v12State = {
+    schemaVersion: 12 as const,
+    variables: [],
+    episodes: [
+      {
+        id: "e1",
+        node: DEFAULT_PERSONAL_NODE,
+        type: EPISODE_TYPES[1],
+        objective: "Test",
+        status: EPISODE_STATUSES[0],
+        openedAt: "2025-01-01T00:00:00.000Z",
+      },
+    ],
+    actions: [
+      {
+        id: "a1",
+        description: "First",
+        status: ACTION_STATUSES[1],
+        episodeId: "e1",
+      },
+      { id: "a2", description: "Loose", status: ACTION_STATUSES[0] },
+      {
+        id: "a3",
+        description: "Second",
+        status: ACTION_STATUSES[0],
+        episodeId: "e1",
+      },
+    ],
+    notes: [],
+    models: [],
+    links: [],
+    exceptions: [],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+
+  it("numbers each Episode's Actions in stored order", () => {
+    const v13State = migrateV12ToV13(v12State);
+
+    expect(v13State.schemaVersion).toBe(13);
+    expect(v13State.actions.map((a) => [a.id, a.order])).toEqual([
+      ["a1", 0],
+      ["a2", undefined],
+      ["a3", 1],
+    ]);
+    expect(isValidLegacyStateV13(v13State)).toBe(true);
+  });
+
+  it("rejects v13 Action fields in v12 state", () => {
+    expect(isValidLegacyStateV12(v12State)).toBe(true);
+    expect(
+      isValidLegacyStateV12({
+        ...v12State,
+        actions: [{ id: "a1", description: "Wait", status: "Blocked" }],
+      }),
+    ).toBe(false);
+    expect(
+      isValidLegacyStateV12({
+        ...v12State,
+        actions: [
+          {
+            id: "a1",
+            description: "Soon",
+            status: "Pending",
+            dueDate: "2025-01-01",
+          },
+        ],
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("migrateV13ToV14", () => {
+  const v13State = {
+    schemaVersion: 13 as const,
+    variables: [
+      {
+        id: "v1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Agency",
+        status: VARIABLE_STATUSES[1],
+      },
+    ],
+    episodes: [],
+    actions: [],
+    notes: [],
+    models: [],
+    links: [],
+    exceptions: [],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+
+  it("only moves the schema version; nothing is archived", () => {
+    const v14State = migrateV13ToV14(v13State);
+
+    expect(v14State).toEqual({ ...v13State, schemaVersion: 14 });
+    expect(isValidLegacyStateV14(v14State)).toBe(true);
+  });
+
+  it("accepts archivedAt as a timestamp only", () => {
+    const archived = (archivedAt: unknown): unknown => ({
+      ...v13State,
+      schemaVersion: SCHEMA_VERSION,
+      variables: [{ ...v13State.variables[0], archivedAt }],
+    });
+
+    expect(isValidState(archived("2025-01-01T00:00:00.000Z"))).toBe(true);
+    expect(isValidState(archived(true))).toBe(false);
   });
 });
 
@@ -2347,6 +2675,7 @@ describe("isValidState - Link Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2383,6 +2712,7 @@ describe("isValidState - Link Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2414,6 +2744,7 @@ describe("isValidState - Link Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2452,6 +2783,7 @@ describe("isValidState - Link Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2480,6 +2812,7 @@ describe("isValidState - Link Validation", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
       expect(isValidState(state)).toBe(true);
     });
@@ -2989,6 +3322,7 @@ describe("State Schema Snapshot", () => {
       exceptions: [],
       proxies: [],
       proxyReadings: [],
+      statusChanges: [],
     };
 
     expect(isValidState(validState)).toBe(true);
@@ -3003,6 +3337,7 @@ describe("State Schema Snapshot", () => {
         "proxies",
         "proxyReadings",
         "schemaVersion",
+        "statusChanges",
         "variables",
       ]
     `);
@@ -3364,3 +3699,155 @@ describe("validateProxyReading", () => {
     expect(validateProxyReading(reading, proxyIds)).toBe(true);
   });
 });
+
+describe("migrateV14ToV15", () => {
+  const v14State = {
+    schemaVersion: 14 as const,
+    variables: [],
+    episodes: [],
+    actions: [],
+    notes: [],
+    models: [
+      {
+        id: "m1",
+        type: MODEL_TYPES[2],
+        statement: "Log every variable",
+        enforcement: "warn" as const,
+      },
+    ],
+    links: [],
+    exceptions: [
+      {
+        id: "x1",
+        modelId: "m1",
+        originalDecision: "warn" as const,
+        justification: "Needed it",
+        mutationType: "episode" as const,
+        mutationId: "e1",
+        createdAt: "2025-01-01T00:00:00.000Z",
+      },
+    ],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+
+  it("only moves the schema version; exceptions are kept", () => {
+    const v15State = migrateV14ToV15(v14State);
+
+    expect(v15State).toEqual({ ...v14State, schemaVersion: 15 });
+    expect(isValidLegacyStateV15(v15State)).toBe(true);
+  });
+
+  it("accepts variable and note mutation types from v15 on", () => {
+    const withNoteException = (schemaVersion: number): unknown => ({
+      ...v14State,
+      schemaVersion,
+      exceptions: [{ ...v14State.exceptions[0], mutationType: "note" }],
+    });
+
+    expect(isValidLegacyStateV14(withNoteException(14))).toBe(false);
+    expect(isValidLegacyStateV15(withNoteException(15))).toBe(true);
+  });
+});
+
+describe("migrateV15ToV16", () => {
+  const v15State = {
+    schemaVersion: 15 as const,
+    variables: [],
+    episodes: [],
+    actions: [],
+    notes: [],
+    models: [
+      {
+        id: "m1",
+        type: MODEL_TYPES[2],
+        statement: "No Explore episodes while Agency is Low",
+        scope: "personal" as const,
+        enforcement: "block" as const,
+      },
+    ],
+    links: [],
+    exceptions: [],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+
+  it("only moves the schema version; models keep no condition", () => {
+    const v16State = migrateV15ToV16(v15State);
+
+    expect(v16State).toEqual({ ...v15State, schemaVersion: 16 });
+    expect(isValidLegacyStateV16(v16State)).toBe(true);
+  });
+
+  it("accepts well-formed model conditions and rejects malformed ones", () => {
+    const withCondition = (condition: unknown): unknown => ({
+      ...v15State,
+      schemaVersion: SCHEMA_VERSION,
+      models: [{ ...v15State.models[0], condition }],
+    });
+    const condition = {
+      mutationTypes: ["episode"],
+      episodeTypes: ["Explore"],
+      variable: { variableId: "v1", statuses: ["Low"] },
+      timeWindows: [{ days: ["Sat", "Sun"], fromHour: 9, toHour: 17 }],
+      pendingActionsAbove: 5,
+    };
+
+    expect(isValidState(withCondition(condition))).toBe(true);
+    expect(
+      isValidState(
+        withCondition({
+          timeWindows: [{ days: ["Sat"], fromHour: 17, toHour: 9 }],
+        }),
+      ),
+    ).toBe(false);
+    expect(isValidState(withCondition({ episodeTypes: ["Sprint"] }))).toBe(
+      false,
+    );
+  });
+});
+
+describe("migrateV16ToV17", () => {
+  const v16State = {
+    schemaVersion: 16 as const,
+    variables: [],
+    episodes: [],
+    actions: [],
+    notes: [],
+    models: [
+      {
+        id: "m1",
+        type: MODEL_TYPES[2],
+        statement: "No Explore episodes during the quarter close",
+        scope: "org" as const,
+        enforcement: "block" as const,
+      },
+    ],
+    links: [],
+    exceptions: [],
+    proxies: [],
+    proxyReadings: [],
+    statusChanges: [],
+  };
+
+  it("only moves the schema version; models stay in force", () => {
+    const v17State = migrateV16ToV17(v16State);
+
+    expect(v17State).toEqual({ ...v16State, schemaVersion: SCHEMA_VERSION });
+    expect(isValidState(v17State)).toBe(true);
+  });
+
+  it("accepts review and expiry dates from v17 on", () => {
+    const withDates = (schemaVersion: number, expiresOn: string): unknown => ({
+      ...v16State,
+      schemaVersion,
+      models: [{ ...v16State.models[0], reviewOn: "2025-03-01", expiresOn }],
+    });
+
+    expect(isValidState(withDates(SCHEMA_VERSION, "2025-06-30"))).toBe(true);
+    expect(isValidState(withDates(SCHEMA_VERSION, "June"))).toBe(false);
+    expect(isValidLegacyStateV16(withDates(16, "June"))).toBe(true);
+  });
+});
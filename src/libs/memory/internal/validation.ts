@@ -89,7 +89,10 @@ export type LegacyStateV1 = LegacyStateV0 & {
   schemaVersion: 1;
 };
 
-export type StateV2 = Omit<State, "schemaVersion" | "models" | "links"> & {
+export type StateV2 = Omit<
+  State,
+  "schemaVersion" | "models" | "links" | "statusChanges"
+> & {
   schemaVersion: 2;
 };
 
@@ -132,6 +135,7 @@ export type StateV4 = Omit<
   | "exceptions"
   | "proxies"
   | "proxyReadings"
+  | "statusChanges"
 > & {
   schemaVersion: 4;
   notes: Array<{
@@ -153,6 +157,7 @@ export type StateV5 = Omit<
   | "exceptions"
   | "proxies"
   | "proxyReadings"
+  | "statusChanges"
 > & {
   schemaVersion: 5;
   notes: NoteV5[];
@@ -160,14 +165,19 @@ export type StateV5 = Omit<
 
 export type StateV6 = Omit<
   State,
-  "schemaVersion" | "links" | "exceptions" | "proxies" | "proxyReadings"
+  | "schemaVersion"
+  | "links"
+  | "exceptions"
+  | "proxies"
+  | "proxyReadings"
+  | "statusChanges"
 > & {
   schemaVersion: 6;
 };
 
 export type StateV7 = Omit<
   State,
-  "schemaVersion" | "exceptions" | "proxies" | "proxyReadings"
+  "schemaVersion" | "exceptions" | "proxies" | "proxyReadings" | "statusChanges"
 > & {
   schemaVersion: 7;
 };
@@ -186,7 +196,7 @@ export type EpisodeV8 = {
 
 export type StateV8 = Omit<
   State,
-  "schemaVersion" | "episodes" | "proxies" | "proxyReadings"
+  "schemaVersion" | "episodes" | "proxies" | "proxyReadings" | "statusChanges"
 > & {
   schemaVersion: 8;
   episodes: EpisodeV8[];
@@ -201,7 +211,7 @@ export type VariableV9 = {
 
 export type StateV9 = Omit<
   State,
-  "schemaVersion" | "variables" | "proxies" | "proxyReadings"
+  "schemaVersion" | "variables" | "proxies" | "proxyReadings" | "statusChanges"
 > & {
   schemaVersion: 9;
   variables: VariableV9[];
@@ -209,11 +219,35 @@ export type StateV9 = Omit<
 
 export type StateV10 = Omit<
   State,
-  "schemaVersion" | "proxies" | "proxyReadings"
+  "schemaVersion" | "proxies" | "proxyReadings" | "statusChanges"
 > & {
   schemaVersion: 10;
 };
 
+export type StateV11 = Omit<State, "schemaVersion" | "statusChanges"> & {
+  schemaVersion: 11;
+};
+
+export type StateV12 = Omit<State, "schemaVersion"> & {
+  schemaVersion: 12;
+};
+
+export type StateV13 = Omit<State, "schemaVersion"> & {
+  schemaVersion: 13;
+};
+
+export type StateV14 = Omit<State, "schemaVersion"> & {
+  schemaVersion: 14;
+};
+
+export type StateV15 = Omit<State, "schemaVersion"> & {
+  schemaVersion: 15;
+};
+
+export type StateV16 = Omit<State, "schemaVersion"> & {
+  schemaVersion: 16;
+};
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPE GUARDS — Exported for runtime validation
 // ═══════════════════════════════════════════════════════════════════════════
@@ -439,7 +473,7 @@ const SCHEMA_V10: StateSchema = {
 };
 
 const SCHEMA_V11: StateSchema = {
-  schemaVersion: SCHEMA_VERSION,
+  schemaVersion: 11,
   variable: { nodeFormat: "ref", allowEnrichments: true },
   episode: {
     nodeFormat: "ref",
@@ -456,6 +490,155 @@ const SCHEMA_V11: StateSchema = {
   hasProxyReadings: true,
 };
 
+const SCHEMA_V12: StateSchema = {
+  schemaVersion: 12,
+  variable: { nodeFormat: "ref", allowEnrichments: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+  },
+  action: { episodeIdRequired: false },
+  note: { requireMetadata: true, allowLinkedObjects: true },
+  model: { allowExceptionsAllowed: true },
+  hasLinks: true,
+  hasExceptions: true,
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+const SCHEMA_V13: StateSchema = {
+  schemaVersion: 13,
+  variable: { nodeFormat: "ref", allowEnrichments: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+  },
+  action: { episodeIdRequired: false, allowLifecycle: true },
+  note: { requireMetadata: true, allowLinkedObjects: true },
+  model: { allowExceptionsAllowed: true },
+  hasLinks: true,
+  hasExceptions: true,
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+const SCHEMA_V14: StateSchema = {
+  schemaVersion: 14,
+  variable: { nodeFormat: "ref", allowEnrichments: true, allowArchive: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+    allowArchive: true,
+  },
+  action: {
+    episodeIdRequired: false,
+    allowLifecycle: true,
+    allowArchive: true,
+  },
+  note: { requireMetadata: true, allowLinkedObjects: true, allowArchive: true },
+  model: { allowExceptionsAllowed: true, allowArchive: true },
+  hasLinks: true,
+  hasExceptions: true,
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+const SCHEMA_V15: StateSchema = {
+  schemaVersion: 15,
+  variable: { nodeFormat: "ref", allowEnrichments: true, allowArchive: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+    allowArchive: true,
+  },
+  action: {
+    episodeIdRequired: false,
+    allowLifecycle: true,
+    allowArchive: true,
+  },
+  note: { requireMetadata: true, allowLinkedObjects: true, allowArchive: true },
+  model: { allowExceptionsAllowed: true, allowArchive: true },
+  hasLinks: true,
+  hasExceptions: true,
+  exception: { allowEntityMutationTypes: true },
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+const SCHEMA_V16: StateSchema = {
+  schemaVersion: 16,
+  variable: { nodeFormat: "ref", allowEnrichments: true, allowArchive: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+    allowArchive: true,
+  },
+  action: {
+    episodeIdRequired: false,
+    allowLifecycle: true,
+    allowArchive: true,
+  },
+  note: { requireMetadata: true, allowLinkedObjects: true, allowArchive: true },
+  model: {
+    allowExceptionsAllowed: true,
+    allowArchive: true,
+    allowCondition: true,
+  },
+  hasLinks: true,
+  hasExceptions: true,
+  exception: { allowEntityMutationTypes: true },
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+const SCHEMA_V17: StateSchema = {
+  schemaVersion: SCHEMA_VERSION,
+  variable: { nodeFormat: "ref", allowEnrichments: true, allowArchive: true },
+  episode: {
+    nodeFormat: "ref",
+    timestamps: "required",
+    allowClosureNoteId: true,
+    allowTimeboxDays: true,
+    allowArchive: true,
+  },
+  action: {
+    episodeIdRequired: false,
+    allowLifecycle: true,
+    allowArchive: true,
+  },
+  note: { requireMetadata: true, allowLinkedObjects: true, allowArchive: true },
+  model: {
+    allowExceptionsAllowed: true,
+    allowArchive: true,
+    allowCondition: true,
+    allowReview: true,
+  },
+  hasLinks: true,
+  hasExceptions: true,
+  exception: { allowEntityMutationTypes: true },
+  hasProxies: true,
+  hasProxyReadings: true,
+  hasStatusChanges: true,
+};
+
+/** Schema of the current State version (used to salvage invalid files entity by entity) */
+export const CURRENT_STATE_SCHEMA: StateSchema = SCHEMA_V17;
+
 // ═══════════════════════════════════════════════════════════════════════════
 // STATE VALIDATORS — One per version, using schemas
 // ═══════════════════════════════════════════════════════════════════════════
@@ -549,11 +732,53 @@ export function isValidLegacyStateV10(data: unknown): data is StateV10 {
 }
 
 /**
- * Validates current state (schemaVersion: 11).
+ * Validates V11 state (schemaVersion: 11).
+ */
+export function isValidLegacyStateV11(data: unknown): data is StateV11 {
+  return validateStateAgainstSchema(data, SCHEMA_V11);
+}
+
+/**
+ * Validates V12 state (schemaVersion: 12).
+ */
+export function isValidLegacyStateV12(data: unknown): data is StateV12 {
+  return validateStateAgainstSchema(data, SCHEMA_V12);
+}
+
+/**
+ * Validates V13 state (schemaVersion: 13).
+ */
+export function isValidLegacyStateV13(data: unknown): data is StateV13 {
+  return validateStateAgainstSchema(data, SCHEMA_V13);
+}
+
+/**
+ * Validates V14 state (schemaVersion: 14).
+ */
+export function isValidLegacyStateV14(data: unknown): data is StateV14 {
+  return validateStateAgainstSchema(data, SCHEMA_V14);
+}
+
+/**
+ * Validates V15 state (schemaVersion: 15).
+ */
+export function isValidLegacyStateV15(data: unknown): data is StateV15 {
+  return validateStateAgainstSchema(data, SCHEMA_V15);
+}
+
+/**
+ * Validates V16 state (schemaVersion: 16).
+ */
+export function isValidLegacyStateV16(data: unknown): data is StateV16 {
+  return validateStateAgainstSchema(data, SCHEMA_V16);
+}
+
+/**
+ * Validates current state (schemaVersion: 17).
  */
 export function isValidState(data: unknown): data is State {
   if (typeof data !== "object" || data === null) return false;
   const obj = data as Record<string, unknown>;
   if (!isSchemaVersion(obj.schemaVersion)) return false;
-  return validateStateAgainstSchema(data, SCHEMA_V11);
+  return validateStateAgainstSchema(data, SCHEMA_V17);
 }
@@ -22,7 +22,9 @@ import {
   NOTE_TAGS,
   OVERRIDE_DECISIONS,
   PROXY_VALUE_TYPES,
+  STATUS_CHANGE_SOURCES,
   VARIABLE_STATUSES,
+  WEEKDAYS,
 } from "../types.js";
 import type { NodeRef, NodeType } from "../types.js";
 
@@ -48,6 +50,11 @@ export function isNodeRef(value: unknown): value is NodeRef {
   return typeof obj.id === "string" && obj.id.length > 0;
 }
 
+/** Whether an entity's optional archivedAt (v14+) is a timestamp string */
+function hasValidArchivedAt(obj: Record<string, unknown>): boolean {
+  return obj.archivedAt === undefined || typeof obj.archivedAt === "string";
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ENTITY VALIDATORS — Each validates a single entity
 // ═══════════════════════════════════════════════════════════════════════════
@@ -58,6 +65,8 @@ export interface VariableValidationOptions {
   nodeFormat: "legacy" | "ref";
   /** Whether to allow optional enrichment fields (description, preferredRange, measurementCadence) */
   allowEnrichments?: boolean;
+  /** Whether archivedAt is allowed (v14+) */
+  allowArchive?: boolean;
 }
 
 /** Validates a single variable */
@@ -99,6 +108,8 @@ export function validateVariable(
       return false;
   }
 
+  if (options.allowArchive && !hasValidArchivedAt(obj)) return false;
+
   return true;
 }
 
@@ -112,6 +123,8 @@ export interface EpisodeValidationOptions {
   allowClosureNoteId?: boolean;
   /** Whether timeboxDays is allowed */
   allowTimeboxDays?: boolean;
+  /** Whether archivedAt is allowed (v14+) */
+  allowArchive?: boolean;
 }
 
 /** Validates a single episode */
@@ -162,6 +175,8 @@ export function validateEpisode(
       return false;
   }
 
+  if (options.allowArchive && !hasValidArchivedAt(obj)) return false;
+
   return true;
 }
 
@@ -169,6 +184,26 @@ export function validateEpisode(
 export interface ActionValidationOptions {
   /** Whether episodeId is required or optional */
   episodeIdRequired: boolean;
+  /** Whether Cancelled/Blocked, dueDate, order and cancelReason are allowed (v13+) */
+  allowLifecycle?: boolean;
+  /** Whether archivedAt is allowed (v14+) */
+  allowArchive?: boolean;
+}
+
+/** Statuses every schema version accepts; later ones need allowLifecycle */
+const BASIC_ACTION_STATUSES: readonly string[] = ACTION_STATUSES.slice(0, 2);
+
+const CALENDAR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Whether a value is a real calendar date written YYYY-MM-DD */
+export function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== "string" || !CALENDAR_DATE_PATTERN.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
 }
 
 /** Validates a single action */
@@ -191,6 +226,28 @@ export function validateAction(
       return false;
   }
 
+  if (options.allowArchive && !hasValidArchivedAt(obj)) return false;
+
+  if (!options.allowLifecycle) {
+    return (
+      BASIC_ACTION_STATUSES.includes(obj.status) &&
+      obj.dueDate === undefined &&
+      obj.order === undefined &&
+      obj.cancelReason === undefined
+    );
+  }
+
+  if (obj.dueDate !== undefined && !isCalendarDate(obj.dueDate)) return false;
+  if (
+    obj.order !== undefined &&
+    (typeof obj.order !== "number" || !Number.isInteger(obj.order))
+  )
+    return false;
+  if (obj.cancelReason !== undefined) {
+    if (typeof obj.cancelReason !== "string") return false;
+    if (obj.status !== "Cancelled") return false;
+  }
+
   return true;
 }
 
@@ -200,6 +257,8 @@ export interface NoteValidationOptions {
   requireMetadata: boolean;
   /** Whether linkedObjects is allowed */
   allowLinkedObjects?: boolean;
+  /** Whether archivedAt is allowed (v14+) */
+  allowArchive?: boolean;
 }
 
 /** Validates a single note */
@@ -228,6 +287,8 @@ export function validateNote(
     }
   }
 
+  if (options.allowArchive && !hasValidArchivedAt(obj)) return false;
+
   return true;
 }
 
@@ -235,6 +296,82 @@ export function validateNote(
 export interface ModelValidationOptions {
   /** Whether exceptionsAllowed field is allowed */
   allowExceptionsAllowed?: boolean;
+  /** Whether archivedAt is allowed (v14+) */
+  allowArchive?: boolean;
+  /** Whether a structured condition is allowed (v16+) */
+  allowCondition?: boolean;
+  /** Whether reviewOn and expiresOn are allowed (v17+) */
+  allowReview?: boolean;
+}
+
+function isMemberList<T extends readonly string[]>(
+  allowed: T,
+  value: unknown,
+): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && isMember(allowed, item))
+  );
+}
+
+function isIntegerBetween(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+function validateTimeWindow(w: unknown): boolean {
+  if (typeof w !== "object" || w === null) return false;
+  const obj = w as Record<string, unknown>;
+
+  if (!isMemberList(WEEKDAYS, obj.days)) return false;
+  if (obj.fromHour !== undefined && !isIntegerBetween(obj.fromHour, 0, 23))
+    return false;
+  if (obj.toHour !== undefined && !isIntegerBetween(obj.toHour, 1, 24))
+    return false;
+  return (
+    (obj.fromHour === undefined ? 0 : (obj.fromHour as number)) <
+    (obj.toHour === undefined ? 24 : (obj.toHour as number))
+  );
+}
+
+/** Validates a Normative Model's structured condition (v16+) */
+function validateModelCondition(c: unknown): boolean {
+  if (typeof c !== "object" || c === null) return false;
+  const obj = c as Record<string, unknown>;
+
+  if (
+    obj.mutationTypes !== undefined &&
+    !isMemberList(MUTATION_TYPES, obj.mutationTypes)
+  )
+    return false;
+  if (
+    obj.episodeTypes !== undefined &&
+    !isMemberList(EPISODE_TYPES, obj.episodeTypes)
+  )
+    return false;
+  if (obj.variable !== undefined) {
+    if (typeof obj.variable !== "object" || obj.variable === null) return false;
+    const variable = obj.variable as Record<string, unknown>;
+    if (typeof variable.variableId !== "string") return false;
+    if (!isMemberList(VARIABLE_STATUSES, variable.statuses)) return false;
+  }
+  if (
+    obj.timeWindows !== undefined &&
+    (!Array.isArray(obj.timeWindows) ||
+      !obj.timeWindows.every(validateTimeWindow))
+  )
+    return false;
+  if (
+    obj.pendingActionsAbove !== undefined &&
+    !isIntegerBetween(obj.pendingActionsAbove, 0, Number.MAX_SAFE_INTEGER)
+  )
+    return false;
+
+  return true;
 }
 
 /** Validates a single model */
@@ -278,6 +415,20 @@ export function validateModel(
       return false;
   }
 
+  if (options.allowArchive && !hasValidArchivedAt(obj)) return false;
+  if (
+    options.allowCondition &&
+    obj.condition !== undefined &&
+    !validateModelCondition(obj.condition)
+  )
+    return false;
+  if (options.allowReview) {
+    if (obj.reviewOn !== undefined && !isCalendarDate(obj.reviewOn))
+      return false;
+    if (obj.expiresOn !== undefined && !isCalendarDate(obj.expiresOn))
+      return false;
+  }
+
   return true;
 }
 
@@ -308,8 +459,21 @@ export function validateLink(l: unknown, allObjectIds: Set<string>): boolean {
   return true;
 }
 
+/** Options for membrane exception validation */
+export interface ExceptionValidationOptions {
+  /** Whether the variable and note mutation types are allowed (v15+) */
+  allowEntityMutationTypes?: boolean;
+}
+
+/** Mutation types every schema version accepts; later ones need allowEntityMutationTypes */
+const BASIC_MUTATION_TYPES: readonly string[] = MUTATION_TYPES.slice(0, 3);
+
 /** Validates a single membrane exception (requires model IDs set for referential integrity) */
-export function validateException(ex: unknown, modelIds: Set<string>): boolean {
+export function validateException(
+  ex: unknown,
+  modelIds: Set<string>,
+  options: ExceptionValidationOptions = {},
+): boolean {
   if (typeof ex !== "object" || ex === null) return false;
   const obj = ex as Record<string, unknown>;
 
@@ -323,7 +487,9 @@ export function validateException(ex: unknown, modelIds: Set<string>): boolean {
   if (typeof obj.justification !== "string") return false;
   if (
     typeof obj.mutationType !== "string" ||
-    !isMember(MUTATION_TYPES, obj.mutationType)
+    !isMember(MUTATION_TYPES, obj.mutationType) ||
+    (!options.allowEntityMutationTypes &&
+      !BASIC_MUTATION_TYPES.includes(obj.mutationType))
   )
     return false;
   if (typeof obj.mutationId !== "string") return false;
@@ -416,6 +582,38 @@ export function validateProxyReading(
   return true;
 }
 
+/** Validates a single status change (requires variable IDs set for referential integrity) */
+export function validateStatusChange(
+  c: unknown,
+  variableIds: Set<string>,
+): boolean {
+  if (typeof c !== "object" || c === null) return false;
+  const obj = c as Record<string, unknown>;
+
+  if (typeof obj.id !== "string") return false;
+  if (typeof obj.variableId !== "string") return false;
+  if (typeof obj.from !== "string" || !isMember(VARIABLE_STATUSES, obj.from))
+    return false;
+  if (typeof obj.to !== "string" || !isMember(VARIABLE_STATUSES, obj.to))
+    return false;
+  if (typeof obj.at !== "string") return false;
+  if (
+    typeof obj.source !== "string" ||
+    !isMember(STATUS_CHANGE_SOURCES, obj.source)
+  )
+    return false;
+
+  // Optional fields
+  if (obj.reason !== undefined && typeof obj.reason !== "string") return false;
+  if (obj.episodeId !== undefined && typeof obj.episodeId !== "string")
+    return false;
+
+  // Referential integrity
+  if (!variableIds.has(obj.variableId)) return false;
+
+  return true;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // COLLECTION VALIDATORS — Validate arrays with unique IDs
 // ═══════════════════════════════════════════════════════════════════════════
@@ -493,10 +691,14 @@ export interface StateSchema {
   hasLinks?: boolean;
   /** Whether exceptions array should exist */
   hasExceptions?: boolean;
+  /** Exception validation options (used when hasExceptions) */
+  exception?: ExceptionValidationOptions;
   /** Whether proxies array should exist */
   hasProxies?: boolean;
   /** Whether proxyReadings array should exist */
   hasProxyReadings?: boolean;
+  /** Whether statusChanges array should exist */
+  hasStatusChanges?: boolean;
 }
 
 /** Validates a state object against a schema */
@@ -528,6 +730,8 @@ export function validateStateAgainstSchema(
   if (schema.hasProxies && !Array.isArray(obj.proxies)) return false;
   if (schema.hasProxyReadings && !Array.isArray(obj.proxyReadings))
     return false;
+  if (schema.hasStatusChanges && !Array.isArray(obj.statusChanges))
+    return false;
 
   // Unique IDs
   if (!hasUniqueIds(obj.variables)) return false;
@@ -543,6 +747,8 @@ export function validateStateAgainstSchema(
     return false;
   if (schema.hasProxyReadings && !hasUniqueIds(obj.proxyReadings as unknown[]))
     return false;
+  if (schema.hasStatusChanges && !hasUniqueIds(obj.statusChanges as unknown[]))
+    return false;
 
   // Action → Episode referential integrity
   if (
@@ -616,7 +822,7 @@ export function validateStateAgainstSchema(
     if (schema.hasExceptions) {
       const modelIds = collectIds(obj.models as unknown[]);
       for (const ex of obj.exceptions as unknown[]) {
-        if (!validateException(ex, modelIds)) return false;
+        if (!validateException(ex, modelIds, schema.exception)) return false;
       }
     }
   }
@@ -639,5 +845,13 @@ export function validateStateAgainstSchema(
     }
   }
 
+  // Validate status changes if present
+  if (schema.hasStatusChanges) {
+    const variableIds = collectIds(obj.variables);
+    for (const c of obj.statusChanges as unknown[]) {
+      if (!validateStatusChange(c, variableIds)) return false;
+    }
+  }
+
   return true;
 }
@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import { mergeStates } from "./merge.js";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "./types.js";
+import type { Episode, State, Variable } from "./types.js";
+
+const sleep: Variable = {
+  id: "v1",
+  node: DEFAULT_PERSONAL_NODE,
+  name: "Sleep",
+  status: "InRange",
+};
+
+const rest: Episode = {
+  id: "e1",
+  node: DEFAULT_PERSONAL_NODE,
+  type: "Stabilize",
+  variableId: "v1",
+  objective: "Rest",
+  status: "Active",
+  openedAt: "2025-01-01T00:00:00.000Z",
+};
+
+function createBase(): State {
+  return {
+    ...createEmptyState(),
+    variables: [sleep],
+    episodes: [rest],
+    notes: [
+      {
+        id: "n1",
+        content: "Idea",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        tags: ["inbox"],
+      },
+    ],
+  };
+}
+
+describe("mergeStates", () => {
+  it("unions entities added on either side", () => {
+    const base = createBase();
+    const ours = {
+      ...base,
+      actions: [{ id: "a1", description: "Nap", status: "Pending" as const }],
+    };
+    const theirs = {
+      ...base,
+      variables: [...base.variables, { ...sleep, id: "v2", name: "Focus" }],
+    };
+
+    const result = mergeStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.state.actions.map((a) => a.id)).toEqual(["a1"]);
+    expect(result.state.variables.map((v) => v.id)).toEqual(["v1", "v2"]);
+  });
+
+  it("takes a field changed on one side only", () => {
+    const base = createBase();
+    const ours = { ...base, variables: [{ ...sleep, status: "Low" as const }] };
+    const theirs = {
+      ...base,
+      variables: [{ ...sleep, description: "Hours and quality" }],
+    };
+
+    const result = mergeStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.state.variables).toEqual([
+      { ...sleep, status: "Low", description: "Hours and quality" },
+    ]);
+  });
+
+  it("reports a field changed differently on both sides", () => {
+    const base = createBase();
+    const ours = { ...base, variables: [{ ...sleep, status: "Low" as const }] };
+    const theirs = {
+      ...base,
+      variables: [{ ...sleep, status: "High" as const }],
+    };
+
+    const result = mergeStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        kind: "field",
+        collection: "variables",
+        id: "v1",
+        label: "Sleep",
+        field: "status",
+        base: "InRange",
+        ours: "Low",
+        theirs: "High",
+      },
+    ]);
+    expect(result.state.variables[0]?.status).toBe("Low");
+    expect(
+      mergeStates(base, ours, theirs, { prefer: "theirs" }).state.variables[0]
+        ?.status,
+    ).toBe("High");
+  });
+
+  it("applies a removal unless the other side changed the entity", () => {
+    const base = createBase();
+    const removed = { ...base, notes: [] };
+    const edited = {
+      ...base,
+      notes: [{ ...base.notes[0]!, content: "Better idea" }],
+    };
+
+    expect(mergeStates(base, removed, base).state.notes).toEqual([]);
+
+    const result = mergeStates(base, edited, removed);
+    expect(result.conflicts).toEqual([
+      {
+        kind: "deleteModify",
+        collection: "notes",
+        id: "n1",
+        label: "Better idea",
+        deletedBy: "theirs",
+      },
+    ]);
+    expect(result.state.notes).toEqual(edited.notes);
+    expect(
+      mergeStates(base, edited, removed, { prefer: "theirs" }).state.notes,
+    ).toEqual([]);
+  });
+
+  it("reports an Episode closed on one side and still worked on the other", () => {
+    const base = createBase();
+    const closed: Episode = {
+      ...rest,
+      status: "Closed",
+      closedAt: "2025-01-05T00:00:00.000Z",
+    };
+    const ours = { ...base, episodes: [closed] };
+    const theirs = {
+      ...base,
+      actions: [
+        {
+          id: "a1",
+          description: "Blackout blinds",
+          status: "Pending" as const,
+          episodeId: "e1",
+        },
+      ],
+    };
+
+    const result = mergeStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        kind: "lifecycle",
+        collection: "episodes",
+        id: "e1",
+        label: "Rest",
+        closedBy: "ours",
+        reason: "Closed on ours but theirs added action(s) a1",
+      },
+    ]);
+    expect(result.state.episodes).toEqual([closed]);
+    expect(mergeStates(base, ours, base).conflicts).toEqual([]);
+  });
+
+  it("drops entities whose references did not survive the merge", () => {
+    const base = createBase();
+    const ours = { ...base, episodes: [] };
+    const theirs = {
+      ...base,
+      actions: [
+        {
+          id: "a1",
+          description: "Nap",
+          status: "Pending" as const,
+          episodeId: "e1",
+        },
+      ],
+    };
+
+    const result = mergeStates(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        kind: "integrity",
+        collection: "actions",
+        id: "a1",
+        reason: "Fails validation",
+      },
+    ]);
+    expect(result.state.actions).toEqual([]);
+    expect(result.state.episodes).toEqual([]);
+  });
+
+  it("does not mutate its inputs", () => {
+    const base = createBase();
+    const ours = { ...base, variables: [{ ...sleep, status: "Low" as const }] };
+    const snapshot = JSON.stringify([base, ours]);
+
+    mergeStates(base, ours, base);
+
+    expect(JSON.stringify([base, ours])).toBe(snapshot);
+  });
+});
@@ -0,0 +1,285 @@
+// Memory organ — Three-way State merge
+// Unions entities by id from two divergent States and reports what conflicts
+
+import { EPISODE_STATUSES } from "./types.js";
+import type { State } from "./types.js";
+import { entityLabel, STATE_COLLECTIONS } from "./diff.js";
+import type { StateCollection } from "./diff.js";
+import { sameData } from "./internal/equality.js";
+import { salvageState } from "./internal/salvage.js";
+import { CURRENT_STATE_SCHEMA } from "./internal/validation.js";
+import { validateStateAgainstSchema } from "./internal/validators.js";
+
+/** One of the two divergent States being merged */
+export type MergeSide = "ours" | "theirs";
+
+/**
+ * Something the merge could not decide on its own.
+ * The merged State holds the preferred side's version (see MergeOptions).
+ */
+export type MergeConflict =
+  | {
+      /** Both sides set a field to different values (or both added the id) */
+      kind: "field";
+      collection: StateCollection;
+      id: string;
+      label: string;
+      field: string;
+      /** undefined when absent on that side (or the entity is new) */
+      base: unknown;
+      ours: unknown;
+      theirs: unknown;
+    }
+  | {
+      /** One side removed an entity the other side changed */
+      kind: "deleteModify";
+      collection: StateCollection;
+      id: string;
+      label: string;
+      deletedBy: MergeSide;
+    }
+  | {
+      /** One side closed an Episode the other side kept working on */
+      kind: "lifecycle";
+      collection: "episodes";
+      id: string;
+      label: string;
+      closedBy: MergeSide;
+      reason: string;
+    }
+  | {
+      /** The merged entity broke schema or references and was dropped */
+      kind: "integrity";
+      collection: StateCollection | "state";
+      id: string | null;
+      reason: string;
+    };
+
+export interface MergeOptions {
+  /** Whose version wins a conflict (default: ours) */
+  prefer?: MergeSide;
+}
+
+/**
+ * Outcome of a three-way merge.
+ */
+export interface StateMerge {
+  /** Valid merged State; conflicts are resolved in favour of the preferred side */
+  state: State;
+  conflicts: MergeConflict[];
+}
+
+type Entity = { id: string } & object;
+type Fields = Record<string, unknown>;
+
+const CLOSED_STATUS = EPISODE_STATUSES[1];
+
+/**
+ * Merges one entity field by field against its base.
+ * A field changed on one side only takes that change; a field changed on both
+ * sides to different values is a conflict resolved by `prefer`.
+ */
+function mergeEntity(
+  collection: StateCollection,
+  base: Entity | undefined,
+  ours: Entity,
+  theirs: Entity,
+  prefer: MergeSide,
+  conflicts: MergeConflict[],
+): Entity {
+  const b = (base ?? {}) as Fields;
+  const o = ours as Fields;
+  const t = theirs as Fields;
+  const merged: Fields = {};
+
+  const fields = new Set([...Object.keys(o), ...Object.keys(t)]);
+  for (const field of fields) {
+    let value: unknown;
+    if (sameData(o[field], t[field])) {
+      value = o[field];
+    } else if (sameData(o[field], b[field])) {
+      value = t[field];
+    } else if (sameData(t[field], b[field])) {
+      value = o[field];
+    } else {
+      conflicts.push({
+        kind: "field",
+        collection,
+        id: ours.id,
+        label: entityLabel(ours),
+        field,
+        base: b[field],
+        ours: o[field],
+        theirs: t[field],
+      });
+      value = prefer === "ours" ? o[field] : t[field];
+    }
+    if (value !== undefined) {
+      merged[field] = value;
+    }
+  }
+  return merged as Entity;
+}
+
+function mergeCollection(
+  collection: StateCollection,
+  base: readonly Entity[],
+  ours: readonly Entity[],
+  theirs: readonly Entity[],
+  prefer: MergeSide,
+  conflicts: MergeConflict[],
+): Entity[] {
+  const baseById = new Map(base.map((entity) => [entity.id, entity]));
+  const oursById = new Map(ours.map((entity) => [entity.id, entity]));
+  const theirsById = new Map(theirs.map((entity) => [entity.id, entity]));
+
+  // Keep our order, then append what only they have
+  const ids = [
+    ...ours.map((entity) => entity.id),
+    ...theirs.map((entity) => entity.id).filter((id) => !oursById.has(id)),
+  ];
+
+  const merged: Entity[] = [];
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (o && t) {
+      merged.push(mergeEntity(collection, b, o, t, prefer, conflicts));
+      continue;
+    }
+
+    const kept = (o ?? t) as Entity;
+    if (!b) {
+      // Added on one side only
+      merged.push(kept);
+      continue;
+    }
+    if (sameData(kept, b)) {
+      // Removed on the other side and untouched here
+      continue;
+    }
+
+    const deletedBy: MergeSide = o ? "theirs" : "ours";
+    conflicts.push({
+      kind: "deleteModify",
+      collection,
+      id,
+      label: entityLabel(kept),
+      deletedBy,
+    });
+    if (deletedBy !== prefer) {
+      merged.push(kept);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Flags Episodes closed on one side while the other side still edited them
+ * or added Actions to them.
+ */
+function findLifecycleConflicts(
+  base: State,
+  ours: State,
+  theirs: State,
+): MergeConflict[] {
+  const conflicts: MergeConflict[] = [];
+  const sides: Record<MergeSide, State> = { ours, theirs };
+  const baseActionIds = new Set(base.actions.map((a) => a.id));
+
+  for (const episode of base.episodes) {
+    if (episode.status === CLOSED_STATUS) continue;
+
+    for (const closedBy of ["ours", "theirs"] as const) {
+      const other: MergeSide = closedBy === "ours" ? "theirs" : "ours";
+      const closed = sides[closedBy].episodes.find((e) => e.id === episode.id);
+      const open = sides[other].episodes.find((e) => e.id === episode.id);
+      if (closed?.status !== CLOSED_STATUS || !open) continue;
+      if (open.status === CLOSED_STATUS) continue;
+
+      const addedActions = sides[other].actions.filter(
+        (a) => a.episodeId === episode.id && !baseActionIds.has(a.id),
+      );
+
+      let reason: string | null = null;
+      if (!sameData(open, episode)) {
+        reason = `Closed on ${closedBy} but edited on ${other}`;
+      } else if (addedActions.length > 0) {
+        reason = `Closed on ${closedBy} but ${other} added action(s) ${addedActions.map((a) => a.id).join(", ")}`;
+      }
+      if (reason) {
+        conflicts.push({
+          kind: "lifecycle",
+          collection: "episodes",
+          id: episode.id,
+          label: entityLabel(episode),
+          closedBy,
+          reason,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Three-way merges two States that diverged from a common base.
+ *
+ * **Intent:** Combine the `state.json` files of people who worked apart
+ * (e.g. on separate laptops) without silently losing either side's work.
+ *
+ * **Contract:**
+ * - Entities are unioned by id per collection; each one is merged field by
+ *   field against `base` (a field changed on one side takes that change)
+ * - Conflicts: the same field changed differently on both sides (e.g. a
+ *   Variable's status Low vs High), a removal on one side of an entity the
+ *   other side changed, and an Episode closed on one side while the other
+ *   edited it or added Actions to it
+ * - Conflicting values resolve to `prefer` (default ours); a removal vs
+ *   change keeps the entity unless the preferred side removed it
+ * - The merged State is checked with validateStateAgainstSchema; entities
+ *   that break it (e.g. an Action whose Episode the other side removed) are
+ *   dropped and reported as integrity conflicts, so `state` is always valid
+ * - Does not check Regulator invariants such as MAX_ACTIVE_EXPLORE_PER_NODE;
+ *   callers re-check those on `state`
+ * - Pure function: does not mutate any input
+ */
+export function mergeStates(
+  base: State,
+  ours: State,
+  theirs: State,
+  options?: MergeOptions,
+): StateMerge {
+  const prefer = options?.prefer ?? "ours";
+  const conflicts: MergeConflict[] = [];
+
+  const merged = { schemaVersion: ours.schemaVersion } as State;
+  for (const collection of STATE_COLLECTIONS) {
+    (merged[collection] as Entity[]) = mergeCollection(
+      collection,
+      base[collection],
+      ours[collection],
+      theirs[collection],
+      prefer,
+      conflicts,
+    );
+  }
+  conflicts.push(...findLifecycleConflicts(base, ours, theirs));
+
+  if (validateStateAgainstSchema(merged, CURRENT_STATE_SCHEMA)) {
+    return { state: merged, conflicts };
+  }
+
+  const salvaged = salvageState(merged);
+  for (const entity of salvaged.quarantined) {
+    conflicts.push({
+      kind: "integrity",
+      collection: entity.collection,
+      id: entity.id,
+      reason: entity.reason,
+    });
+  }
+  return { state: salvaged.state, conflicts };
+}
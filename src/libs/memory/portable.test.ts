@@ -0,0 +1,379 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  decodeExport,
+  encodeExport,
+  importState,
+  readExport,
+  writeExport,
+} from "./portable.js";
+import type { ExportFormat } from "./portable.js";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "./types.js";
+import type { State } from "./types.js";
+import { parseCsv } from "./internal/csv.js";
+
+function createFullState(): State {
+  return {
+    ...createEmptyState(),
+    variables: [
+      {
+        id: "v1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Sleep",
+        status: "Low",
+        description: 'Rest, recovery, "sleep debt"',
+        measurementCadence: "daily",
+      },
+    ],
+    episodes: [
+      {
+        id: "e1",
+        node: DEFAULT_PERSONAL_NODE,
+        type: "Stabilize",
+        variableId: "v1",
+        objective: "Sleep by 23:00",
+        status: "Closed",
+        openedAt: "2025-01-01T08:00:00.000Z",
+        closedAt: "2025-01-08T08:00:00.000Z",
+        closureNoteId: "n2",
+        timeboxDays: 7,
+      },
+    ],
+    actions: [
+      { id: "a1", description: "No screens, after 22:00", status: "Done" },
+      {
+        id: "a2",
+        description: "Buy blinds",
+        status: "Pending",
+        episodeId: "e1",
+        dueDate: "2025-01-05",
+        order: 0,
+      },
+    ],
+    notes: [
+      {
+        id: "n1",
+        content: "First line\nSecond line, with a comma",
+        createdAt: "2025-01-02T10:00:00.000Z",
+        tags: ["inbox"],
+      },
+      {
+        id: "n2",
+        content: "Worked. Keep the routine.",
+        createdAt: "2025-01-08T08:00:00.000Z",
+        tags: ["closure_note"],
+        linkedObjects: ["e1"],
+      },
+    ],
+    models: [
+      {
+        id: "m1",
+        type: "Normative",
+        statement: "Protect sleep",
+        confidence: 0.8,
+        enforcement: "warn",
+        exceptionsAllowed: true,
+        condition: {
+          mutationTypes: ["episode"],
+          timeWindows: [{ days: ["Fri", "Sat"], fromHour: 22 }],
+        },
+        reviewOn: "2025-03-01",
+        expiresOn: "2025-06-30",
+      },
+    ],
+    links: [{ id: "l1", sourceId: "n2", targetId: "m1", relation: "supports" }],
+    exceptions: [
+      {
+        id: "x1",
+        modelId: "m1",
+        originalDecision: "warn",
+        justification: "Late flight",
+        mutationType: "episode",
+        mutationId: "e1",
+        createdAt: "2025-01-03T00:00:00.000Z",
+      },
+    ],
+    proxies: [
+      {
+        id: "p1",
+        variableId: "v1",
+        name: "Sleep hours",
+        valueType: "numeric",
+        unit: "hours",
+        thresholds: { lowBelow: 6.5, highAbove: 9 },
+      },
+      {
+        id: "p2",
+        variableId: "v1",
+        name: "Rested",
+        valueType: "categorical",
+        categories: ["yes", "no"],
+      },
+    ],
+    proxyReadings: [
+      {
+        id: "r1",
+        proxyId: "p1",
+        value: { type: "numeric", value: 7.25 },
+        recordedAt: "2025-01-02T07:00:00.000Z",
+        source: "manual",
+      },
+      {
+        id: "r2",
+        proxyId: "p2",
+        value: { type: "categorical", value: "yes" },
+        recordedAt: "2025-01-02T07:00:00.000Z",
+      },
+    ],
+    statusChanges: [
+      {
+        id: "s1",
+        variableId: "v1",
+        from: "InRange",
+        to: "Low",
+        at: "2025-01-01T07:00:00.000Z",
+        source: "manual",
+        reason: "Short nights, again",
+      },
+      {
+        id: "s2",
+        variableId: "v1",
+        from: "Low",
+        to: "InRange",
+        at: "2025-01-08T08:00:00.000Z",
+        source: "episodeClosure",
+        episodeId: "e1",
+      },
+    ],
+  };
+}
+
+function roundTrip(state: State, format: ExportFormat): State {
+  const decoded = decodeExport(encodeExport(state, format), format);
+  if (!decoded.ok) throw new Error(decoded.error);
+  const imported = importState(createEmptyState(), decoded.value);
+  if (!imported.ok) throw new Error(imported.error);
+  return imported.value.state;
+}
+
+describe("encodeExport / decodeExport", () => {
+  it("round-trips State through a JSON bundle", () => {
+    const state = createFullState();
+    expect(roundTrip(state, "json")).toEqual(state);
+  });
+
+  it("round-trips every collection through CSV", () => {
+    const state = createFullState();
+    expect(roundTrip(state, "csv")).toEqual(state);
+  });
+
+  it("writes one CSV per collection with a header row", () => {
+    const files = encodeExport(createFullState(), "csv");
+    const readings = files.find((f) => f.path === "proxyReadings.csv");
+
+    expect(files.map((f) => f.path)).toContain("links.csv");
+    expect(readings?.content.split("\r\n")[0]).toBe(
+      "id,proxyId,recordedAt,valueType,value,source",
+    );
+    expect(readings?.content).toContain(
+      "r1,p1,2025-01-02T07:00:00.000Z,numeric,7.25,manual",
+    );
+  });
+
+  it("renders Notes as Markdown with front-matter", () => {
+    const files = encodeExport(createFullState(), "md");
+
+    expect(files.map((f) => f.path)).toEqual([
+      "notes/2025-01-02-n1.md",
+      "notes/2025-01-08-n2.md",
+    ]);
+    expect(files[0]?.content).toBe(
+      [
+        "---",
+        'id: "n1"',
+        'createdAt: "2025-01-02T10:00:00.000Z"',
+        'tags: ["inbox"]',
+        "---",
+        "",
+        "First line",
+        "Second line, with a comma",
+        "",
+      ].join("\n"),
+    );
+    expect(files[1]?.content).toContain('episodeObjective: "Sleep by 23:00"');
+  });
+
+  it("reads Notes back from Markdown, ignoring closure context", () => {
+    const state = createFullState();
+    expect(roundTrip(state, "md").notes).toEqual(state.notes);
+  });
+
+  it("accepts hand-written front-matter", () => {
+    const decoded = decodeExport(
+      [
+        {
+          path: "vault/idea.md",
+          content:
+            "---\nid: n9\ncreatedAt: 2025-02-01T00:00:00.000Z\ntags: [inbox]\ntitle: Idea\n---\n\nBody\n",
+        },
+      ],
+      "md",
+    );
+
+    expect(decoded.ok && decoded.value.notes).toEqual([
+      {
+        id: "n9",
+        createdAt: "2025-02-01T00:00:00.000Z",
+        tags: ["inbox"],
+        content: "Body",
+      },
+    ]);
+  });
+
+  it("reports the file that cannot be decoded", () => {
+    const csv = decodeExport(
+      [{ path: "notes.csv", content: 'id,content\nn1,"open' }],
+      "csv",
+    );
+    const md = decodeExport([{ path: "a.md", content: "no fence" }], "md");
+
+    expect(csv).toEqual({
+      ok: false,
+      error: "notes.csv: Unterminated quoted cell",
+    });
+    expect(md).toEqual({ ok: false, error: "a.md: missing front-matter" });
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes and embedded newlines", () => {
+    expect(parseCsv('a,"b,""c""","d\r\ne"\r\n,\n')).toEqual({
+      ok: true,
+      value: [
+        ["a", 'b,"c"', "d\r\ne"],
+        ["", ""],
+      ],
+    });
+  });
+});
+
+describe("importState", () => {
+  it("adds new entities and reports id collisions without overwriting", () => {
+    const current = createFullState();
+    const incoming = decodeExport(encodeExport(current, "json"), "json");
+    if (!incoming.ok) throw new Error(incoming.error);
+    incoming.value.notes = [
+      { ...current.notes[0], content: "Edited elsewhere" },
+      { ...current.notes[0], id: "n3" },
+    ];
+
+    const result = importState(current, incoming.value);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.collisions).toEqual([
+      { collection: "notes", id: "n1" },
+    ]);
+    expect(result.value.added.notes).toBe(1);
+    expect(result.value.unchanged).toBe(13);
+    expect(result.value.state.notes.map((n) => n.id)).toEqual([
+      "n1",
+      "n2",
+      "n3",
+    ]);
+    expect(result.value.state.notes[0]?.content).toBe(
+      current.notes[0]?.content,
+    );
+  });
+
+  it("treats entities that differ only in field order as unchanged", () => {
+    const current = createFullState();
+    const incoming = decodeExport(encodeExport(current, "md"), "md");
+    if (!incoming.ok) throw new Error(incoming.error);
+
+    const result = importState(current, incoming.value);
+
+    expect(result.ok && result.value.collisions).toEqual([]);
+    expect(result.ok && result.value.unchanged).toBe(2);
+  });
+
+  it("lets imported entities reference current ones", () => {
+    const current = createFullState();
+    const incoming = decodeExport(
+      [
+        {
+          path: "proxyReadings.csv",
+          content:
+            "id,proxyId,recordedAt,valueType,value\r\nr3,p1,2025-01-03T07:00:00.000Z,numeric,6\r\n",
+        },
+      ],
+      "csv",
+    );
+    if (!incoming.ok) throw new Error(incoming.error);
+
+    const result = importState(current, incoming.value);
+
+    expect(result.ok && result.value.state.proxyReadings.at(-1)).toEqual({
+      id: "r3",
+      proxyId: "p1",
+      recordedAt: "2025-01-03T07:00:00.000Z",
+      value: { type: "numeric", value: 6 },
+    });
+  });
+
+  it("rejects an import that fails schema validation", () => {
+    const incoming = decodeExport(
+      [
+        {
+          path: "actions.csv",
+          content: "id,description,status,episodeId\nx,Do,Pending,missing\n",
+        },
+      ],
+      "csv",
+    );
+    if (!incoming.ok) throw new Error(incoming.error);
+
+    const result = importState(createEmptyState(), incoming.value);
+
+    expect(result).toEqual({
+      ok: false,
+      error: "Imported State fails validation: actions x: Fails validation",
+    });
+  });
+});
+
+describe("writeExport / readExport", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "becoming-export-"));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it.each(["json", "csv", "md"] as const)(
+    "reads back what it wrote (%s)",
+    async (format) => {
+      const state = createFullState();
+      const files = encodeExport(state, format);
+      await writeExport(dir, files);
+
+      const read = await readExport(dir, format);
+      expect(read.ok).toBe(true);
+      if (!read.ok) return;
+      expect(read.value).toHaveLength(files.length);
+      expect(decodeExport(read.value, format)).toEqual(
+        decodeExport(files, format),
+      );
+    },
+  );
+
+  it("errors when the source does not exist", async () => {
+    const result = await readExport(path.join(dir, "nope"), "csv");
+    expect(result.ok).toBe(false);
+  });
+});
@@ -0,0 +1,371 @@
+// Memory organ — Portable export and import
+// State as a JSON bundle, one CSV per collection, or Markdown notes, and back
+
+import fs from "fs-extra";
+import * as path from "node:path";
+import { err, ok } from "../shared/index.js";
+import type { Result } from "../shared/index.js";
+import type { Episode, State } from "./types.js";
+import { STATE_COLLECTIONS } from "./diff.js";
+import type { StateCollection } from "./diff.js";
+import { collectionToCsv, csvToCollection } from "./internal/csv.js";
+import {
+  markdownToNote,
+  noteFileName,
+  noteToMarkdown,
+} from "./internal/markdown.js";
+import { sameData } from "./internal/equality.js";
+import { migrateToLatest } from "./internal/migrations.js";
+import { splitRevision } from "./internal/revision.js";
+import { salvageState } from "./internal/salvage.js";
+import { CURRENT_STATE_SCHEMA } from "./internal/validation.js";
+import { validateStateAgainstSchema } from "./internal/validators.js";
+
+/** Formats State can be exported to and imported from */
+export const EXPORT_FORMATS = ["json", "csv", "md"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** File name of the JSON bundle */
+export const BUNDLE_FILE = "state.json";
+
+/** Directory (within an export) holding one Markdown file per Note */
+export const NOTES_DIR = "notes";
+
+/** How many validation problems an import error lists before summarising */
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * One file of an export, with a path relative to the export directory.
+ */
+export interface ExportFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Entities decoded from an export, not yet validated.
+ * Collections a format does not carry (e.g. Variables in Markdown) are empty.
+ */
+export type ImportedCollections = Record<StateCollection, unknown[]>;
+
+/**
+ * An imported entity whose id already exists in the current State with
+ * different content. The current entity is kept.
+ */
+export interface ImportCollision {
+  collection: StateCollection;
+  id: string;
+}
+
+/**
+ * Outcome of merging an import into the current State.
+ */
+export interface ImportReport {
+  /** Current State plus every imported entity that was new */
+  state: State;
+  /** New entities, per collection */
+  added: Record<StateCollection, number>;
+  /** Imported entities identical to one already present */
+  unchanged: number;
+  collisions: ImportCollision[];
+}
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Renders State as export files.
+ *
+ * **Contract:**
+ * - json: a single `state.json` bundle holding the complete State
+ * - csv: one `<collection>.csv` per collection, header row included even
+ *   when the collection is empty (e.g. `proxyReadings.csv`)
+ * - md: one `notes/<date>-<id>.md` per Note with front-matter; closure
+ *   notes also name the Episode they closed
+ * - Pure function
+ */
+export function encodeExport(state: State, format: ExportFormat): ExportFile[] {
+  switch (format) {
+    case "json":
+      return [
+        { path: BUNDLE_FILE, content: `${JSON.stringify(state, null, 2)}\n` },
+      ];
+    case "csv":
+      return STATE_COLLECTIONS.map((collection) => ({
+        path: `${collection}.csv`,
+        content: collectionToCsv(collection, state[collection]),
+      }));
+    case "md": {
+      const closedBy = new Map<string, Episode>();
+      for (const episode of state.episodes) {
+        if (episode.closureNoteId) {
+          closedBy.set(episode.closureNoteId, episode);
+        }
+      }
+      return state.notes.map((note) => ({
+        path: `${NOTES_DIR}/${noteFileName(note)}`,
+        content: noteToMarkdown(note, closedBy.get(note.id)),
+      }));
+    }
+  }
+}
+
+function emptyCollections(): ImportedCollections {
+  const collections = {} as ImportedCollections;
+  for (const collection of STATE_COLLECTIONS) {
+    collections[collection] = [];
+  }
+  return collections;
+}
+
+/**
+ * Decodes export files back into entities.
+ *
+ * **Contract:**
+ * - json: expects the bundle (or any state file or snapshot); older schema
+ *   versions are migrated first
+ * - csv: reads `<collection>.csv` files; a missing file means an empty collection
+ * - md: reads every `.md` file as a Note
+ * - Returns: Entities as decoded; importState validates them
+ * - Error handling: Returns error naming the file that could not be decoded
+ */
+export function decodeExport(
+  files: readonly ExportFile[],
+  format: ExportFormat,
+): Result<ImportedCollections> {
+  const collections = emptyCollections();
+
+  switch (format) {
+    case "json": {
+      const bundle = files.find(
+        (file) => path.basename(file.path) === BUNDLE_FILE,
+      );
+      if (!bundle) {
+        return err(`Export has no ${BUNDLE_FILE}`);
+      }
+      let raw: unknown;
+      try {
+        raw = JSON.parse(bundle.content);
+      } catch {
+        return err(`${bundle.path} is not readable JSON`);
+      }
+      const data = splitRevision(raw).data;
+      const migrated = migrateToLatest(data);
+      const source =
+        migrated.status === "invalid"
+          ? (data as Partial<ImportedCollections> | null)
+          : migrated.state;
+      for (const collection of STATE_COLLECTIONS) {
+        const items = source?.[collection];
+        if (Array.isArray(items)) {
+          collections[collection] = items;
+        }
+      }
+      return ok(collections);
+    }
+
+    case "csv":
+      for (const collection of STATE_COLLECTIONS) {
+        const file = files.find(
+          (f) => path.basename(f.path) === `${collection}.csv`,
+        );
+        if (!file) continue;
+        const decoded = csvToCollection(collection, file.content);
+        if (!decoded.ok) return decoded;
+        collections[collection] = decoded.value;
+      }
+      return ok(collections);
+
+    case "md":
+      for (const file of files) {
+        if (!file.path.endsWith(".md")) continue;
+        const note = markdownToNote(file.content);
+        if (!note.ok) {
+          return err(`${file.path}: ${note.error}`);
+        }
+        collections.notes.push(note.value);
+      }
+      return ok(collections);
+  }
+}
+
+function entityId(entity: unknown): string | null {
+  if (typeof entity !== "object" || entity === null) return null;
+  const id = (entity as Record<string, unknown>).id;
+  return typeof id === "string" ? id : null;
+}
+
+/**
+ * Merges imported entities into the current State.
+ *
+ * **Intent:** Bring entities from another vault, a spreadsheet or a backup
+ * into State without overwriting anything already there.
+ *
+ * **Contract:**
+ * - Entities are matched by id within their collection: new ids are added,
+ *   identical entities are skipped, and differing ones are reported as
+ *   collisions and skipped (the current entity wins)
+ * - The merged State must pass validateStateAgainstSchema with the current
+ *   schema; imported entities may reference current ones and vice versa
+ * - Returns: ImportReport, or an error listing the first problems found
+ * - Pure function: does not mutate either input
+ */
+export function importState(
+  current: State,
+  incoming: ImportedCollections,
+): Result<ImportReport> {
+  const state: State = { ...current };
+  const added = {} as Record<StateCollection, number>;
+  const collisions: ImportCollision[] = [];
+  let unchanged = 0;
+
+  for (const collection of STATE_COLLECTIONS) {
+    const existing = new Map<string, unknown>(
+      current[collection].map((entity) => [entity.id, entity]),
+    );
+    const additions: unknown[] = [];
+    for (const entity of incoming[collection]) {
+      const id = entityId(entity);
+      const present = id === null ? undefined : existing.get(id);
+      if (present === undefined) {
+        additions.push(entity);
+      } else if (sameData(present, entity)) {
+        unchanged++;
+      } else {
+        collisions.push({ collection, id: id as string });
+      }
+    }
+    added[collection] = additions.length;
+    (state[collection] as unknown[]) = [...current[collection], ...additions];
+  }
+
+  if (!validateStateAgainstSchema(state, CURRENT_STATE_SCHEMA)) {
+    const problems = salvageState(state).quarantined.map((q) =>
+      q.index >= 0
+        ? `${q.collection} ${q.id ?? `#${q.index}`}: ${q.reason}`
+        : `${q.collection}: ${q.reason}`,
+    );
+    const listed = problems.slice(0, MAX_REPORTED_PROBLEMS);
+    if (problems.length > listed.length) {
+      listed.push(`…and ${problems.length - listed.length} more`);
+    }
+    return err(
+      `Imported State fails validation${listed.length > 0 ? `: ${listed.join("; ")}` : ""}`,
+    );
+  }
+
+  return ok({ state, added, unchanged, collisions });
+}
+
+/**
+ * Reads a complete State from a state file, snapshot or JSON bundle.
+ *
+ * **Contract:**
+ * - Older schema versions are migrated; a persisted revision is ignored
+ * - Error handling: Returns error for missing files, unreadable JSON or
+ *   content that is not a valid State
+ */
+export async function readStateFile(filePath: string): Promise<Result<State>> {
+  let raw: unknown;
+  try {
+    raw = await fs.readJson(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return err(`State file '${filePath}' not found`);
+    }
+    return err(`State file '${filePath}' is not readable JSON`);
+  }
+
+  const migrated = migrateToLatest(splitRevision(raw).data);
+  if (migrated.status === "invalid") {
+    return err(`State file '${filePath}' does not contain a valid State`);
+  }
+  return ok(migrated.state);
+}
+
+/**
+ * Writes export files beneath `dir`, creating directories as needed.
+ * Existing files with the same names are overwritten.
+ */
+export async function writeExport(
+  dir: string,
+  files: readonly ExportFile[],
+): Promise<void> {
+  for (const file of files) {
+    const filePath = path.join(dir, file.path);
+    await fs.ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, file.content, "utf8");
+  }
+}
+
+async function readFilesIn(
+  dir: string,
+  extension: string,
+  recursive: boolean,
+): Promise<ExportFile[]> {
+  const files: ExportFile[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory() && recursive) {
+      files.push(...(await readFilesIn(entryPath, extension, recursive)));
+    } else if (entry.isFile() && entry.name.endsWith(extension)) {
+      files.push({
+        path: entryPath,
+        content: await fs.readFile(entryPath, "utf8"),
+      });
+    }
+  }
+  return files;
+}
+
+/**
+ * Reads an export from disk for decodeExport.
+ *
+ * **Contract:**
+ * - json: `source` is the bundle file, or a directory containing `state.json`
+ * - csv: `source` is the directory holding the `.csv` files
+ * - md: `source` is a directory searched recursively for `.md` files
+ *   (e.g. an export directory or a plain-text vault)
+ * - Error handling: Returns error when `source` does not exist
+ */
+export async function readExport(
+  source: string,
+  format: ExportFormat,
+): Promise<Result<ExportFile[]>> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.stat(source);
+  } catch {
+    return err(`Import source '${source}' not found`);
+  }
+
+  if (format === "json") {
+    const bundlePath = stat.isDirectory()
+      ? path.join(source, BUNDLE_FILE)
+      : source;
+    if (!(await fs.pathExists(bundlePath))) {
+      return err(`No ${BUNDLE_FILE} in '${source}'`);
+    }
+    return ok([
+      {
+        path: path.join(path.dirname(bundlePath), BUNDLE_FILE),
+        content: await fs.readFile(bundlePath, "utf8"),
+      },
+    ]);
+  }
+
+  if (!stat.isDirectory()) {
+    return err(`Import source '${source}' must be a directory for ${format}`);
+  }
+  return ok(
+    await readFilesIn(
+      source,
+      format === "csv" ? ".csv" : ".md",
+      format === "md",
+    ),
+  );
+}
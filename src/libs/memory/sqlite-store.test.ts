@@ -0,0 +1,531 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "better-sqlite3";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  createEmptyState,
+  createStateStore,
+  DEFAULT_PERSONAL_NODE,
+  JsonStore,
+  mutateWithRetry,
+  SEED_AGENCY_NAME,
+  SqliteStore,
+} from "./index.js";
+import type { ProxyReading, State, StateStore } from "./index.js";
+import type { Result } from "../shared/index.js";
+
+function reading(id: string): ProxyReading {
+  return {
+    id,
+    proxyId: "p1",
+    value: { type: "numeric", value: 1 },
+    recordedAt: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+const baseState: State = {
+  ...createEmptyState(),
+  variables: [
+    {
+      id: "v1",
+      node: DEFAULT_PERSONAL_NODE,
+      name: "Agency",
+      status: "InRange",
+    },
+    {
+      id: "v2",
+      node: DEFAULT_PERSONAL_NODE,
+      name: "Rest",
+      status: "Low",
+    },
+  ],
+  proxies: [
+    { id: "p1", variableId: "v1", name: "Sleep hours", valueType: "numeric" },
+  ],
+  proxyReadings: [reading("r1"), reading("r2")],
+};
+
+describe("SqliteStore", () => {
+  let basePath: string;
+  let store: SqliteStore;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), "becoming-sqlite-"));
+    store = new SqliteStore({ basePath });
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.remove(basePath);
+  });
+
+  async function reload(): Promise<State> {
+    store.close();
+    store = new SqliteStore({ basePath });
+    return store.load();
+  }
+
+  describe("load", () => {
+    it("returns seed when nothing has been saved", async () => {
+      const state = await store.load();
+
+      expect(state.variables.map((v) => v.name)).toContain(SEED_AGENCY_NAME);
+      expect(state.episodes).toEqual([]);
+    });
+
+    it("backs up an unreadable database and salvages nothing instead of seeding", async () => {
+      const dataDir = path.join(basePath, "data");
+      await fs.ensureDir(dataDir);
+      await fs.writeFile(
+        path.join(dataDir, "state.sqlite"),
+        "not a database".repeat(100),
+      );
+
+      const state = await store.load();
+
+      expect(state.variables).toEqual([]);
+      const files = await fs.readdir(dataDir);
+      expect(files.some((f) => f.startsWith("state.sqlite.corrupt-"))).toBe(
+        true,
+      );
+      expect(await store.loadRecovery()).toEqual(
+        expect.objectContaining({
+          quarantined: [expect.objectContaining({ collection: "state" })],
+        }),
+      );
+    });
+  });
+
+  describe("recovery", () => {
+    async function corruptRow(table: string, id: string, data: string) {
+      store.close();
+      const db = new Database(path.join(basePath, "data", "state.sqlite"));
+      db.prepare(`UPDATE ${table} SET data = ? WHERE id = ?`).run(data, id);
+      db.close();
+    }
+
+    it("keeps valid rows and quarantines invalid ones", async () => {
+      await store.save(baseState);
+      await corruptRow("variables", "v2", "not json");
+
+      const state = await reload();
+
+      expect(state.variables.map((v) => v.id)).toEqual(["v1"]);
+      expect(state.proxyReadings).toEqual(baseState.proxyReadings);
+      const report = await store.loadRecovery();
+      expect(report?.kept.variables).toBe(1);
+      expect(report?.quarantined).toEqual([
+        expect.objectContaining({
+          collection: "variables",
+          reason: "Fails validation",
+          entity: "not json",
+        }),
+      ]);
+      expect(report?.backupPath).toContain("state.sqlite.corrupt-");
+    });
+
+    it("refuses saves and updates until the recovery is acknowledged", async () => {
+      await store.save(baseState);
+      await corruptRow("variables", "v2", JSON.stringify({ id: "v2" }));
+      const salvaged = await reload();
+
+      expect(await store.save(salvaged)).toEqual({
+        ok: false,
+        error: expect.objectContaining({ kind: "recoveryPending" }),
+      });
+      const updated = await store.update((state) => ({
+        ok: true,
+        value: state,
+      }));
+      expect(updated.ok).toBe(false);
+
+      expect(await store.acknowledgeRecovery()).toEqual({ ok: true, value: 1 });
+      expect(await store.loadRecovery()).toBeNull();
+      expect(await reload()).toEqual(salvaged);
+      const entries = await store.readJournal();
+      expect(entries).toEqual([
+        expect.objectContaining({ type: "snapshot", state: salvaged }),
+      ]);
+      expect((await store.save(salvaged)).ok).toBe(true);
+    });
+
+    it("salvages invalid rows found by update instead of mutating them", async () => {
+      await store.save(baseState);
+      await corruptRow("proxies", "p1", "not json");
+      store = new SqliteStore({ basePath });
+
+      let called = false;
+      const result = await store.update((state) => {
+        called = true;
+        return { ok: true, value: state };
+      });
+
+      expect(called).toBe(false);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("salvaged");
+      }
+      const report = await store.loadRecovery();
+      // Readings of the quarantined proxy go with it
+      expect(report?.quarantined.map((q) => q.collection)).toEqual([
+        "proxies",
+        "proxyReadings",
+        "proxyReadings",
+      ]);
+    });
+
+    it("has nothing to acknowledge when no recovery is pending", async () => {
+      expect(await store.acknowledgeRecovery()).toEqual({
+        ok: false,
+        error: "No recovery is pending",
+      });
+    });
+  });
+
+  describe("save", () => {
+    it("round-trips every collection in order", async () => {
+      await store.save(baseState);
+
+      expect(await reload()).toEqual(baseState);
+    });
+
+    it("persists appends, edits, reorders and deletions incrementally", async () => {
+      await store.save(baseState);
+      const loaded = await reload();
+
+      const [v1, v2] = loaded.variables;
+      if (!v1 || !v2) throw new Error("expected variables");
+      const next: State = {
+        ...loaded,
+        variables: [{ ...v2, status: "InRange" }, v1],
+        proxyReadings: [...loaded.proxyReadings.slice(1), reading("r3")],
+      };
+      await store.save(next);
+
+      expect(await reload()).toEqual(next);
+    });
+
+    it("journals a snapshot and then the recorded mutations", async () => {
+      await store.save(baseState);
+      const loaded = await reload();
+
+      const mutation = { kind: "completeAction", params: { actionId: "a" } };
+      const next: State = { ...loaded, notes: [] };
+      store.record(loaded, mutation, next);
+      await store.save(next);
+
+      const entries = await store.readJournal();
+      expect(entries.map((e) => e.type)).toEqual(["snapshot", "mutation"]);
+      expect(entries[1]).toEqual(expect.objectContaining({ mutation }));
+    });
+
+    it("reports unreadable journal rows and snapshots past them", async () => {
+      await store.save(baseState);
+      store.close();
+      const db = new Database(path.join(basePath, "data", "state.sqlite"));
+      db.prepare("UPDATE journal SET entry = 'not json'").run();
+      db.close();
+      const loaded = await reload();
+
+      const mutation = { kind: "completeAction", params: { actionId: "a" } };
+      const next: State = { ...loaded, notes: [] };
+      store.record(loaded, mutation, next);
+      await store.save(next);
+
+      const entries = await store.readJournal();
+      expect(entries).toEqual([
+        { type: "unreadable", position: 1 },
+        expect.objectContaining({ type: "snapshot", state: next, revision: 2 }),
+      ]);
+    });
+  });
+
+  describe("update", () => {
+    it("applies the mutation to persisted state and saves it", async () => {
+      await store.save(baseState);
+
+      const result = await store.update((state) => ({
+        ok: true,
+        value: { ...state, proxyReadings: [] },
+      }));
+
+      expect(result.ok).toBe(true);
+      expect((await reload()).proxyReadings).toEqual([]);
+    });
+
+    it("writes nothing when the mutation fails", async () => {
+      await store.save(baseState);
+
+      const result = await store.update(() => ({ ok: false, error: "nope" }));
+
+      expect(result).toEqual({ ok: false, error: "nope" });
+      expect(await reload()).toEqual(baseState);
+      expect(await store.readJournal()).toHaveLength(1);
+    });
+  });
+
+  describe("revisions", () => {
+    it("increments on every save and detects concurrent writers", async () => {
+      const other = new SqliteStore({ basePath });
+      try {
+        expect(await store.save(baseState)).toEqual({ ok: true, value: 1 });
+
+        const mine = await store.loadWithRevision();
+        const theirs = await other.loadWithRevision();
+        expect(mine.revision).toBe(1);
+
+        expect(
+          await other.save(theirs.state, { expectedRevision: theirs.revision }),
+        ).toEqual({ ok: true, value: 2 });
+        expect(
+          await store.save(mine.state, { expectedRevision: mine.revision }),
+        ).toEqual({
+          ok: false,
+          error: {
+            kind: "revisionConflict",
+            expectedRevision: 1,
+            actualRevision: 2,
+          },
+        });
+      } finally {
+        other.close();
+      }
+    });
+
+    it("saves exactly its own State after another writer's save", async () => {
+      const other = new SqliteStore({ basePath });
+      const variable = (id: string): State["variables"][number] => ({
+        id,
+        node: DEFAULT_PERSONAL_NODE,
+        name: id,
+        status: "InRange",
+      });
+      try {
+        await store.save(baseState);
+        const mine = await store.load();
+        const theirs = await other.load();
+
+        await other.save({
+          ...theirs,
+          variables: [...theirs.variables, variable("vb")],
+        });
+        const next: State = {
+          ...mine,
+          variables: [...mine.variables, variable("va")],
+        };
+        expect(await store.save(next)).toEqual({ ok: true, value: 3 });
+
+        expect(await reload()).toEqual(next);
+        const entries = await store.readJournal();
+        expect(entries.at(-1)).toEqual(
+          expect.objectContaining({ type: "snapshot", state: next }),
+        );
+      } finally {
+        other.close();
+      }
+    });
+  });
+
+  describe("mutateWithRetry", () => {
+    function withNote(id: string): (state: State) => Result<State> {
+      return (state) => ({
+        ok: true,
+        value: {
+          ...state,
+          notes: [
+            ...state.notes,
+            {
+              id,
+              content: id,
+              createdAt: "2025-01-01T00:00:00.000Z",
+              tags: [],
+            },
+          ],
+        },
+      });
+    }
+
+    /**
+     * Delegates to `inner`, letting another writer save right after each of
+     * the first `races` loads — the window a web request and the CLI race in.
+     */
+    function racingStore(
+      inner: StateStore,
+      races: number,
+      race: () => Promise<unknown>,
+    ): StateStore {
+      let remaining = races;
+      return {
+        load: () => inner.load(),
+        loadWithRevision: async () => {
+          const loaded = await inner.loadWithRevision();
+          if (remaining > 0) {
+            remaining--;
+            await race();
+          }
+          return loaded;
+        },
+        save: (state, options) => inner.save(state, options),
+        update: (mutate) => inner.update(mutate),
+        record: (base, mutation, result) =>
+          inner.record(base, mutation, result),
+        readJournal: () => inner.readJournal(),
+        loadAsOf: (asOf) => inner.loadAsOf(asOf),
+        listSnapshots: () => inner.listSnapshots(),
+        loadSnapshot: (id) => inner.loadSnapshot(id),
+        loadRecovery: () => inner.loadRecovery(),
+        acknowledgeRecovery: () => inner.acknowledgeRecovery(),
+        close: () => inner.close(),
+      };
+    }
+
+    let other: SqliteStore;
+
+    beforeEach(async () => {
+      await store.save(baseState);
+      other = new SqliteStore({ basePath });
+    });
+
+    afterEach(() => {
+      other.close();
+    });
+
+    it("re-runs the mutation on top of the concurrent save", async () => {
+      let runs = 0;
+      const racing = racingStore(store, 1, () =>
+        other.update(withNote("theirs")),
+      );
+
+      const result = await mutateWithRetry(racing, (state) => {
+        runs++;
+        return withNote("mine")(state);
+      });
+
+      expect(result.ok).toBe(true);
+      expect(runs).toBe(2);
+      expect((await reload()).notes.map((n) => n.id)).toEqual([
+        "theirs",
+        "mine",
+      ]);
+    });
+
+    it("gives up after maxAttempts conflicts", async () => {
+      let n = 0;
+      const racing = racingStore(store, 5, () =>
+        other.update(withNote(`theirs-${n++}`)),
+      );
+
+      const result = await mutateWithRetry(racing, withNote("mine"), {
+        maxAttempts: 2,
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("gave up after 2 attempts");
+      }
+      expect((await reload()).notes.map((note) => note.id)).not.toContain(
+        "mine",
+      );
+    });
+
+    it("returns mutation errors without saving", async () => {
+      const result = await mutateWithRetry(store, () => ({
+        ok: false,
+        error: "nope",
+      }));
+
+      expect(result).toEqual({ ok: false, error: "nope" });
+      expect((await store.loadWithRevision()).revision).toBe(1);
+    });
+  });
+
+  describe("loadAsOf", () => {
+    it("replays journal entries through the injected replayer", async () => {
+      store.close();
+      store = new SqliteStore({
+        basePath,
+        replay: (entries) => {
+          const first = entries[0];
+          return first?.type === "snapshot"
+            ? { ok: true, value: first.state }
+            : { ok: false, error: "no snapshot" };
+        },
+      });
+      await store.save(baseState);
+
+      const result = await store.loadAsOf(new Date().toISOString());
+      expect(result).toEqual({ ok: true, value: baseState });
+    });
+  });
+
+  describe("snapshots", () => {
+    function snapshotEvery(every: number): void {
+      store.close();
+      store = new SqliteStore({
+        basePath,
+        snapshots: { keepLast: 10, keepDaily: 0, keepWeekly: 0, every },
+      });
+    }
+
+    it("takes a snapshot every `every` saves and updates", async () => {
+      snapshotEvery(2);
+      await store.save(baseState);
+      await store.save({ ...baseState, proxyReadings: [] });
+      await store.update((state) => ({
+        ok: true,
+        value: { ...state, proxyReadings: [reading("r3")] },
+      }));
+
+      const snapshots = await store.listSnapshots();
+      expect(snapshots.map((s) => s.revision)).toEqual([3, 1]);
+
+      const oldest = await store.loadSnapshot(snapshots[1]?.id ?? "");
+      expect(oldest).toEqual({ ok: true, value: baseState });
+    });
+
+    it("restores a snapshot as a new revision", async () => {
+      snapshotEvery(1);
+      await store.save(baseState);
+      await store.save({ ...baseState, proxyReadings: [] });
+      const [, first] = await store.listSnapshots();
+
+      const snapshot = await store.loadSnapshot(first?.id ?? "");
+      if (!snapshot.ok) throw new Error(snapshot.error);
+      const saved = await store.save(snapshot.value, { expectedRevision: 2 });
+
+      expect(saved).toEqual({ ok: true, value: 3 });
+      expect(await reload()).toEqual(baseState);
+    });
+
+    it("respects retention and can be disabled", async () => {
+      store.close();
+      store = new SqliteStore({
+        basePath,
+        snapshots: { keepLast: 0, keepDaily: 0, keepWeekly: 0, every: 1 },
+      });
+      await store.save(baseState);
+
+      expect(await store.listSnapshots()).toEqual([]);
+    });
+
+    it("is shared with JsonStore in the same environment", async () => {
+      const json = new JsonStore({ basePath });
+      await json.save(baseState);
+
+      const [latest] = await store.listSnapshots();
+      expect(latest?.revision).toBe(1);
+      expect(await store.loadSnapshot(latest?.id ?? "")).toEqual({
+        ok: true,
+        value: baseState,
+      });
+    });
+  });
+});
+
+describe("createStateStore", () => {
+  it("creates the requested backend", () => {
+    expect(createStateStore({ backend: "json" })).toBeInstanceOf(JsonStore);
+    expect(createStateStore({ backend: "sqlite" })).toBeInstanceOf(SqliteStore);
+  });
+});
@@ -0,0 +1,512 @@
+// The Memory organ remembers — in SQLite
+// SqliteStore persists each State collection as its own table
+
+import Database from "better-sqlite3";
+import fs from "fs-extra";
+import * as path from "node:path";
+import { SCHEMA_VERSION } from "./types.js";
+import type { JournalEntry, JournalMutation, State } from "./types.js";
+import { getConfig, ok, silentLogger } from "../shared/index.js";
+import type { Logger, Result, SnapshotRetention } from "../shared/index.js";
+import type {
+  JournalReplayer,
+  RecoveryReport,
+  RevisionedState,
+  SaveOptions,
+  SnapshotInfo,
+  StateStore,
+  StateStoreOptions,
+} from "./state-store.js";
+import { migrateToLatest } from "./internal/migrations.js";
+import { backupInvalidStateFile } from "./internal/fs.js";
+import {
+  isJournalCurrent,
+  planJournalEntries,
+  replayAsOf,
+} from "./internal/journal.js";
+import type { PendingMutation } from "./internal/journal.js";
+import { checkRevision, describeSaveRejection } from "./internal/revision.js";
+import type { RecoveryPending, SaveRejection } from "./internal/revision.js";
+import {
+  archiveRecovery,
+  getRecoveryPath,
+  readRecovery,
+  writeRecovery,
+} from "./internal/recovery.js";
+import { salvageState } from "./internal/salvage.js";
+import { createSeedState } from "./internal/seed.js";
+import {
+  getSnapshotPrefix,
+  listSnapshots,
+  readSnapshot,
+  takeSnapshot,
+} from "./internal/snapshots.js";
+import type { SnapshotLocation } from "./internal/snapshots.js";
+import {
+  appendJournalRows,
+  ensureSchema,
+  hasJournalEntries,
+  readJournalRows,
+  readLastJournalRowRevision,
+  readRawState,
+  readRevision,
+  writeState,
+} from "./internal/sqlite.js";
+
+// Use centralized configuration
+const config = getConfig();
+
+/** What readState found in the database; `persisted` is false for seeded State */
+interface LoadedState extends RevisionedState {
+  persisted: boolean;
+}
+
+/**
+ * What readPersisted found in the rows: nothing saved, valid State
+ * (`persisted` is false after a migration), or an invalid document to salvage.
+ */
+type PersistedRows =
+  | { status: "empty" }
+  | { status: "valid"; state: State; persisted: boolean }
+  | { status: "invalid"; raw: unknown };
+
+export class SqliteStore implements StateStore {
+  private filePath: string;
+  private recoveryPath: string;
+  private logger: Logger;
+  private replay: JournalReplayer | undefined;
+  private snapshots: SnapshotLocation;
+  private retention: SnapshotRetention;
+  /** Open connection, created on first use */
+  private database: Database.Database | null = null;
+  /** Last State read from or written to the database (null when unknown or seeded) */
+  private lastPersisted: State | null = null;
+  /** Revision the database was at when lastPersisted was read or written */
+  private persistedRevision = 0;
+  /** Mutations recorded since lastPersisted, awaiting the next save */
+  private pending: PendingMutation[] = [];
+
+  constructor(options?: StateStoreOptions) {
+    const basePath = options?.basePath ?? process.cwd();
+    this.filePath = path.join(basePath, config.dataDir, config.databaseFile);
+    this.recoveryPath = getRecoveryPath(this.filePath, config.databaseFile);
+    this.logger = options?.logger ?? silentLogger;
+    this.replay = options?.replay;
+    this.snapshots = {
+      dir: path.join(basePath, config.snapshotDir),
+      prefix: getSnapshotPrefix(config.databaseFile),
+    };
+    this.retention = options?.snapshots ?? config.snapshotRetention;
+  }
+
+  /**
+   * Loads the system state from the database.
+   *
+   * **Intent:** Same guarantee as JsonStore.load — a valid State always
+   * exists (seeds if nothing has been saved).
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to a valid State object
+   * - Side effects: Creates the database file and tables if missing;
+   *   discards mutations recorded but not yet saved
+   * - Error handling: Salvages invalid rows or an unreadable database (see
+   *   loadRecovery) and returns the salvaged State, as JsonStore does
+   */
+  async load(): Promise<State> {
+    const { state } = await this.loadWithRevision();
+    return state;
+  }
+
+  /**
+   * Loads the system state along with its persisted revision.
+   * Same contract as JsonStore.loadWithRevision.
+   */
+  async loadWithRevision(): Promise<RevisionedState> {
+    // Seeded or recovered state has no known journal base until saved
+    this.markPersisted(null);
+    const { state, persisted, revision } = await this.readState();
+    if (persisted) {
+      this.markPersisted(state, revision);
+    }
+    return { state, revision };
+  }
+
+  /**
+   * Persists the system state in one transaction.
+   *
+   * **Intent:** Avoid rewriting everything on every save — only rows that
+   * changed since the last load or save are written. When another writer
+   * saved in between, every table is rewritten so the database holds
+   * exactly `state`, never a blend of both.
+   *
+   * **Contract:**
+   * - Parameters: state - The complete State object to persist;
+   *   options.expectedRevision - Only save if the database is still at this revision
+   * - Returns: Promise resolving to the new revision, or a RevisionConflict,
+   *   or RecoveryPending while a salvage awaits acknowledgement
+   * - Side effects: Writes changed rows and journal entries atomically,
+   *   then takes a rolling snapshot when due (as JsonStore.save); nothing
+   *   on conflict
+   * - Error handling: Propagates database errors to caller (nothing is written)
+   */
+  async save(
+    state: State,
+    options?: SaveOptions,
+  ): Promise<Result<number, SaveRejection>> {
+    const pending = await this.checkRecoveryPending();
+    if (pending) {
+      return { ok: false, error: pending };
+    }
+    const db = this.open();
+    const saved = db
+      .transaction((): Result<number, SaveRejection> => {
+        const current = readRevision(db);
+        const check = checkRevision(options?.expectedRevision, current);
+        if (!check.ok) {
+          return check;
+        }
+        this.writeState(db, state, current + 1);
+        return ok(current + 1);
+      })
+      .immediate();
+
+    if (saved.ok) {
+      this.markPersisted(state, saved.value);
+      await this.snapshot(state, saved.value);
+    }
+    return saved;
+  }
+
+  /**
+   * Applies a mutation to the freshest persisted State in one transaction.
+   *
+   * **Intent:** Same as JsonStore.update — load → mutate → save without a
+   * concurrent writer slipping in between.
+   *
+   * **Contract:**
+   * - Parameters: mutate - Pure function from State to Result<State>
+   * - Returns: Promise resolving to the mutation's Result
+   * - Side effects: Holds a write transaction for the whole cycle;
+   *   writes nothing when `mutate` fails
+   * - Error handling: Returns error while a salvage awaits acknowledgement,
+   *   and salvages invalid rows (writing nothing else); propagates database
+   *   errors to caller
+   */
+  async update(
+    mutate: (state: State) => Result<State>,
+  ): Promise<Result<State>> {
+    const pending = await this.checkRecoveryPending();
+    if (pending) {
+      return { ok: false, error: describeSaveRejection(pending) };
+    }
+    const db = this.open();
+    let revision = 0;
+    // Invalid rows are salvaged once the transaction is over
+    const outcome = db
+      .transaction((): { result: Result<State> } | { invalid: unknown } => {
+        this.markPersisted(null);
+        const loaded = this.readPersisted(db);
+        if (loaded.status === "invalid") {
+          return { invalid: loaded.raw };
+        }
+        const state =
+          loaded.status === "valid" ? loaded.state : createSeedState();
+        if (loaded.status === "valid" && loaded.persisted) {
+          this.markPersisted(state, readRevision(db));
+        }
+
+        const mutated = mutate(state);
+        if (mutated.ok) {
+          revision = readRevision(db) + 1;
+          this.writeState(db, mutated.value, revision);
+          this.markPersisted(mutated.value, revision);
+        }
+        return { result: mutated };
+      })
+      .immediate();
+
+    if ("invalid" in outcome) {
+      await this.salvage(outcome.invalid);
+      return {
+        ok: false,
+        error: describeSaveRejection({
+          kind: "recoveryPending",
+          reportPath: this.recoveryPath,
+        }),
+      };
+    }
+    const { result } = outcome;
+    if (result.ok) {
+      await this.snapshot(result.value, revision);
+    }
+    return result;
+  }
+
+  /**
+   * Records a successful mutation so the next save can journal it.
+   * Pass this store as the Regulator's journal.
+   */
+  record(base: State, mutation: JournalMutation, result: State): void {
+    this.pending.push({ base, mutation, result });
+  }
+
+  /**
+   * Reads the mutation journal in the order entries were written.
+   * Malformed rows are returned as `unreadable` entries.
+   */
+  async readJournal(): Promise<JournalEntry[]> {
+    return readJournalRows(this.open());
+  }
+
+  /**
+   * Reconstructs the State as it was at a past moment.
+   * Same contract as JsonStore.loadAsOf.
+   */
+  async loadAsOf(asOf: string): Promise<Result<State>> {
+    return replayAsOf(asOf, () => this.readJournal(), this.replay);
+  }
+  /**
+   * Lists the rolling snapshots taken after saves, newest first.
+   * Same contract as JsonStore.listSnapshots.
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return listSnapshots(this.snapshots);
+  }
+
+  /**
+   * Reads one snapshot as current-schema State.
+   * Same contract as JsonStore.loadSnapshot.
+   */
+  async loadSnapshot(id: string): Promise<Result<State>> {
+    return readSnapshot(this.snapshots, id);
+  }
+
+  /**
+   * Reads the pending recovery report, if invalid rows or an unreadable
+   * database were salvaged. Same contract as JsonStore.loadRecovery.
+   */
+  async loadRecovery(): Promise<RecoveryReport | null> {
+    const recovery = await readRecovery(this.recoveryPath);
+    return recovery?.report ?? null;
+  }
+
+  /**
+   * Accepts a salvage: rewrites every table with the salvaged State (the
+   * journal gets a snapshot of it) and resumes saving.
+   * Same contract as JsonStore.acknowledgeRecovery.
+   */
+  async acknowledgeRecovery(): Promise<Result<number>> {
+    const recovery = await readRecovery(this.recoveryPath);
+    if (!recovery) {
+      return { ok: false, error: "No recovery is pending" };
+    }
+
+    const { state } = recovery;
+    const db = this.open();
+    const revision = db
+      .transaction((): number => {
+        this.markPersisted(null);
+        const next = readRevision(db) + 1;
+        this.writeState(db, state, next);
+        return next;
+      })
+      .immediate();
+    await archiveRecovery(this.recoveryPath);
+
+    this.markPersisted(state, revision);
+    await this.snapshot(state, revision);
+    return ok(revision);
+  }
+
+  /**
+   * Closes the database connection. The next call reopens it.
+   */
+  close(): void {
+    this.database?.close();
+    this.database = null;
+  }
+
+  private open(): Database.Database {
+    if (!this.database) {
+      fs.ensureDirSync(path.dirname(this.filePath));
+      const db = new Database(this.filePath);
+      try {
+        db.pragma("journal_mode = WAL");
+        ensureSchema(db);
+      } catch (error) {
+        db.close();
+        throw error;
+      }
+      this.database = db;
+    }
+    return this.database;
+  }
+
+  /**
+   * Reads the database, falling back to seed only when nothing has been
+   * saved. Invalid rows or an unreadable database are salvaged (see
+   * salvage) and a pending salvage is returned as-is until acknowledged.
+   * `persisted` is false for seeded or salvaged State, which has no
+   * journal base yet.
+   */
+  private async readState(): Promise<LoadedState> {
+    const recovery = await readRecovery(this.recoveryPath);
+    if (recovery) {
+      return { state: recovery.state, persisted: false, revision: 0 };
+    }
+
+    let loaded: PersistedRows;
+    let revision: number;
+    try {
+      const db = this.open();
+      loaded = this.readPersisted(db);
+      revision = readRevision(db);
+    } catch (error) {
+      this.logger.error("Database is not readable", error);
+      return this.salvage(null);
+    }
+
+    switch (loaded.status) {
+      case "empty":
+        this.logger.info("No saved state found. Generating seed state...");
+        return { state: createSeedState(), persisted: false, revision: 0 };
+      case "valid":
+        return { state: loaded.state, persisted: loaded.persisted, revision };
+      case "invalid":
+        this.logger.warn("Invalid state in database");
+        return this.salvage(loaded.raw);
+    }
+  }
+
+  /**
+   * Reads and migrates persisted rows.
+   * `persisted` is false after a migration: the rows still hold the old
+   * shape, so the next write must rewrite them rather than diff against them.
+   */
+  private readPersisted(db: Database.Database): PersistedRows {
+    const raw = readRawState(db);
+    if (raw === null) {
+      return { status: "empty" };
+    }
+
+    const result = migrateToLatest(raw);
+    switch (result.status) {
+      case "current":
+        return { status: "valid", state: result.state, persisted: true };
+      case "migrated":
+        this.logger.info(
+          `Migrated state from v${result.fromVersion} to v${SCHEMA_VERSION}`,
+        );
+        return { status: "valid", state: result.state, persisted: false };
+      case "invalid":
+        return { status: "invalid", raw };
+    }
+  }
+
+  /**
+   * Salvages invalid rows (or, with null, an unreadable database) instead
+   * of seeding over them.
+   *
+   * **Intent:** Same as JsonStore's salvage — a bad row must never cost
+   * more than the entities it broke, and nothing is saved over the
+   * database until the salvage is acknowledged.
+   *
+   * **Contract:**
+   * - Side effects: Closes the connection, moves the database (rows and
+   *   journal) to `.corrupt-*`, writes the recovery report
+   * - Returns: The salvaged State (not persisted)
+   */
+  private async salvage(raw: unknown): Promise<LoadedState> {
+    const { state, kept, quarantined } = salvageState(raw);
+    this.close();
+    const report: RecoveryReport = {
+      createdAt: new Date().toISOString(),
+      backupPath: await backupInvalidStateFile(
+        this.filePath,
+        config.databaseFile,
+      ),
+      reportPath: this.recoveryPath,
+      kept,
+      quarantined,
+    };
+    await fs.ensureDir(path.dirname(this.recoveryPath));
+    await writeRecovery(report, state);
+
+    const keptCount = Object.values(kept).reduce((sum, n) => sum + n, 0);
+    this.logger.warn(
+      `Salvaged ${keptCount} entities and quarantined ${quarantined.length}; saving is paused until the repair is acknowledged (report: ${this.recoveryPath}; review it with \`becoming recover\`)`,
+    );
+    return { state, persisted: false, revision: 0 };
+  }
+
+  /**
+   * Returns the rejection to give a save while a salvage awaits acknowledgement.
+   */
+  private async checkRecoveryPending(): Promise<RecoveryPending | null> {
+    const recovery = await readRecovery(this.recoveryPath);
+    return recovery
+      ? { kind: "recoveryPending", reportPath: this.recoveryPath }
+      : null;
+  }
+
+  /**
+   * Writes `state` and its journal entries as `revision`.
+   * Diffs against lastPersisted only while the database is still at the
+   * revision it was read at; after another writer's save the rows and
+   * journal are no longer based on it, so everything is rewritten and
+   * the journal gets a snapshot. So does a journal that does not end at
+   * that revision (see isJournalCurrent).
+   */
+  private writeState(
+    db: Database.Database,
+    state: State,
+    revision: number,
+  ): void {
+    const base =
+      readRevision(db) === this.persistedRevision ? this.lastPersisted : null;
+    writeState(db, base, state, revision);
+    const hasJournal = hasJournalEntries(db);
+    const journalBase = isJournalCurrent(
+      hasJournal,
+      readLastJournalRowRevision(db),
+      this.persistedRevision,
+    )
+      ? base
+      : null;
+    appendJournalRows(
+      db,
+      planJournalEntries(
+        journalBase,
+        this.pending,
+        state,
+        hasJournal,
+        new Date().toISOString(),
+        revision,
+      ),
+    );
+  }
+
+  /**
+   * Takes a rolling snapshot of State that was just saved, if one is due.
+   * A failed snapshot is logged, never allowed to fail the save it follows.
+   */
+  private async snapshot(state: State, revision: number): Promise<void> {
+    try {
+      await takeSnapshot(
+        this.snapshots,
+        state,
+        revision,
+        this.retention,
+        new Date().toISOString(),
+      );
+    } catch (error) {
+      this.logger.error("Failed to write state snapshot", error);
+    }
+  }
+
+  private markPersisted(state: State | null, revision = 0): void {
+    this.lastPersisted = state;
+    this.persistedRevision = revision;
+    this.pending = [];
+  }
+}
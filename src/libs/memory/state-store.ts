@@ -0,0 +1,216 @@
+// The StateStore contract every persistence backend fulfils
+// Callers depend on this interface; createStateStore picks the backend
+
+import type { JournalEntry, JournalMutation, State } from "./types.js";
+import type { StateCollection } from "./diff.js";
+import { err, getConfig } from "../shared/index.js";
+import type {
+  Logger,
+  Result,
+  SnapshotRetention,
+  StoreBackend,
+} from "../shared/index.js";
+import { JsonStore } from "./store.js";
+import { SqliteStore } from "./sqlite-store.js";
+import { describeSaveRejection } from "./internal/revision.js";
+import type { RevisionConflict, SaveRejection } from "./internal/revision.js";
+
+export { describeSaveRejection } from "./internal/revision.js";
+export type {
+  RecoveryPending,
+  RevisionConflict,
+  SaveRejection,
+} from "./internal/revision.js";
+
+/**
+ * Rebuilds State from journal entries (oldest first).
+ * Memory cannot interpret mutations itself; the Regulator's replayJournal fits here.
+ */
+export type JournalReplayer = (
+  entries: readonly JournalEntry[],
+) => Result<State>;
+
+/**
+ * Options shared by every StateStore backend.
+ */
+export interface StateStoreOptions {
+  /** Project root; the data directory is resolved beneath it (default: cwd) */
+  basePath?: string;
+  logger?: Logger;
+  /** Enables loadAsOf; pass the Regulator's replayJournal */
+  replay?: JournalReplayer;
+  /** Overrides the configured snapshot retention (all zeros disables snapshots) */
+  snapshots?: SnapshotRetention;
+}
+
+/**
+ * A rolling copy of State taken after a save, stored in the snapshot directory.
+ */
+export interface SnapshotInfo {
+  /** Stable identifier, e.g. `2025-01-06T09-30-00-000Z-r42` */
+  id: string;
+  /** When the snapshot was taken (ISO 8601) */
+  createdAt: string;
+  /** Revision of the State it captured */
+  revision: number;
+}
+
+/**
+ * State together with the revision it was persisted at.
+ * Revision 0 means nothing has been saved yet.
+ */
+export interface RevisionedState {
+  state: State;
+  revision: number;
+}
+
+/**
+ * An entity removed from an invalid state file during salvage.
+ */
+export interface QuarantinedEntity {
+  /** Collection it came from ("state" when the document itself was unusable) */
+  collection: StateCollection | "state";
+  /** Position in the original collection (-1 for a whole collection) */
+  index: number;
+  id: string | null;
+  reason: string;
+  /** The entity exactly as it was found */
+  entity: unknown;
+}
+
+/**
+ * Written when an invalid state file is salvaged instead of seeded over.
+ */
+export interface RecoveryReport {
+  /** When the salvage happened (ISO 8601) */
+  createdAt: string;
+  /** Where the invalid file was moved (null if it could not be backed up) */
+  backupPath: string | null;
+  /** Where this report is stored */
+  reportPath: string;
+  /** Entities kept, per collection */
+  kept: Record<StateCollection, number>;
+  quarantined: QuarantinedEntity[];
+}
+
+export interface SaveOptions {
+  /**
+   * Compare-and-swap: only save if the persisted revision still equals this.
+   * Omit for an unconditional save (last writer wins).
+   */
+  expectedRevision?: number;
+}
+
+/** How many times mutateWithRetry runs the mutation before giving up */
+export const DEFAULT_MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Persistence boundary for State.
+ *
+ * **Intent:** Let the CLI and web app persist State without knowing which
+ * backend holds it. Structurally satisfies the Regulator's MutationJournal,
+ * so any store can be passed as `new Regulator({ journal: store })`.
+ *
+ * **Contract:**
+ * - load: Always resolves to a valid State (seeds when nothing is persisted)
+ * - loadWithRevision: Same, plus the persisted revision for compare-and-swap
+ * - save: Persists the complete State, journals how it was reached and
+ *   resolves to the new revision; with `expectedRevision`, resolves to a
+ *   RevisionConflict (writing nothing) if another writer saved first
+ * - update: Load → mutate → save as one exclusive transaction; nothing is
+ *   written when `mutate` returns an error
+ * - record / readJournal / loadAsOf: Mutation journal and time-travel
+ * - listSnapshots / loadSnapshot: Rolling snapshots taken as saves come due
+ * - loadRecovery / acknowledgeRecovery: Salvage of an invalid state file;
+ *   saves resolve to RecoveryPending until the repair is acknowledged
+ * - close: Releases any open connection; the next call reopens it
+ */
+export interface StateStore {
+  load(): Promise<State>;
+  loadWithRevision(): Promise<RevisionedState>;
+  save(
+    state: State,
+    options?: SaveOptions,
+  ): Promise<Result<number, SaveRejection>>;
+  update(mutate: (state: State) => Result<State>): Promise<Result<State>>;
+  record(base: State, mutation: JournalMutation, result: State): void;
+  readJournal(): Promise<JournalEntry[]>;
+  loadAsOf(asOf: string): Promise<Result<State>>;
+  listSnapshots(): Promise<SnapshotInfo[]>;
+  loadSnapshot(id: string): Promise<Result<State>>;
+  loadRecovery(): Promise<RecoveryReport | null>;
+  acknowledgeRecovery(): Promise<Result<number>>;
+  close(): void;
+}
+
+/**
+ * Creates the configured StateStore.
+ *
+ * **Intent:** Single place where apps choose a backend, so switching from
+ * JSON to SQLite is configuration (BECOMING_STORE=sqlite), not code.
+ *
+ * **Contract:**
+ * - Parameters: options - Shared store options; backend overrides config
+ * - Returns: JsonStore or SqliteStore behind the StateStore interface
+ */
+export function createStateStore(
+  options?: StateStoreOptions & { backend?: StoreBackend },
+): StateStore {
+  const backend = options?.backend ?? getConfig().storeBackend;
+  switch (backend) {
+    case "json":
+      return new JsonStore(options);
+    case "sqlite":
+      return new SqliteStore(options);
+  }
+}
+
+/**
+ * Runs a pure mutation against fresh State and saves it optimistically.
+ *
+ * **Intent:** Stop concurrent load → mutate → save cycles from silently
+ * clobbering each other. On conflict the mutation is re-run against the
+ * State the other writer saved, so its change is kept and ours applies on top.
+ *
+ * **Contract:**
+ * - Parameters: store, mutate - Pure function from State to Result<State>
+ *   (typically a Regulator method); may run more than once
+ * - Returns: Promise resolving to the saved State, the mutation's error,
+ *   a conflict error once `maxAttempts` saves have lost the race, or a
+ *   recovery error (without retrying) while a salvage awaits acknowledgement
+ * - Error handling: Propagates persistence errors to caller
+ */
+export async function mutateWithRetry(
+  store: StateStore,
+  mutate: (state: State) => Result<State>,
+  options?: { maxAttempts?: number },
+): Promise<Result<State>> {
+  const maxAttempts = Math.max(
+    1,
+    options?.maxAttempts ?? DEFAULT_MAX_SAVE_ATTEMPTS,
+  );
+  let conflict: RevisionConflict | null = null;
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const { state, revision } = await store.loadWithRevision();
+    const result = mutate(state);
+    if (!result.ok) {
+      return result;
+    }
+
+    const saved = await store.save(result.value, {
+      expectedRevision: revision,
+    });
+    if (saved.ok) {
+      return result;
+    }
+    if (saved.error.kind === "recoveryPending") {
+      return err(describeSaveRejection(saved.error));
+    }
+    conflict = saved.error;
+  }
+
+  return err(
+    `State was saved concurrently (expected revision ${conflict?.expectedRevision}, found ${conflict?.actualRevision}); gave up after ${maxAttempts} attempts`,
+  );
+}
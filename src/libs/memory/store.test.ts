@@ -15,7 +15,8 @@ import {
   SCHEMA_VERSION,
   VARIABLE_STATUSES,
 } from "./index.js";
-import type { State } from "./index.js";
+import type { JournalEntry, State } from "./index.js";
+import type { Result } from "../shared/index.js";
 
 // Mock fs-extra
 vi.mock("fs-extra", () => ({
@@ -26,6 +27,8 @@ vi.mock("fs-extra", () => ({
     writeJson: vi.fn(),
     move: vi.fn(),
     remove: vi.fn(),
+    appendFile: vi.fn(),
+    readFile: vi.fn(),
   },
 }));
 
@@ -36,6 +39,24 @@ vi.mock("node:fs/promises", () => ({
 import fs from "fs-extra";
 import { open as openFile } from "node:fs/promises";
 
+/**
+ * Mocks opening files (the lock, and with `handle` the journal's tail).
+ * What the lock handle writes reads back, so releasing the lock (which
+ * checks it still holds it) removes it.
+ */
+function mockLockFile(handle: Record<string, unknown> = {}): void {
+  let written = "";
+  vi.mocked(fs.readFile).mockImplementation((async (file: string) =>
+    file.endsWith(".lock") ? written : undefined) as never);
+  vi.mocked(openFile).mockResolvedValue({
+    writeFile: vi.fn(async (data: string) => {
+      written = data;
+    }),
+    close: vi.fn().mockResolvedValue(undefined),
+    ...handle,
+  } as never);
+}
+
 describe("JsonStore", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -119,6 +140,7 @@ describe("JsonStore", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
@@ -159,13 +181,21 @@ describe("JsonStore", () => {
       expect(state.variables[0]?.node).toEqual(DEFAULT_PERSONAL_NODE);
     });
 
-    it("backs up invalid state file and returns seed", async () => {
+    it("backs up an invalid state file and salvages its valid entities", async () => {
+      const valid = {
+        id: "test-1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Test Var",
+        status: VARIABLE_STATUSES[0],
+      };
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
       vi.mocked(fs.readJson).mockResolvedValue({
-        // invalid: missing required arrays
-        variables: "nope",
+        schemaVersion: SCHEMA_VERSION,
+        // invalid: one variable has no name, other collections are missing
+        variables: [valid, { id: "test-2", status: "Sky" }],
       } as never);
       vi.mocked(fs.move).mockResolvedValue(undefined as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
 
       const store = new JsonStore({
         logger: { info() {}, warn() {}, error() {} },
@@ -173,12 +203,162 @@ describe("JsonStore", () => {
       const state = await store.load();
 
       expect(state.schemaVersion).toBe(SCHEMA_VERSION);
-      expect(state.variables).toHaveLength(2);
+      expect(state.variables).toEqual([valid]);
       expect(fs.move).toHaveBeenCalledWith(
         expect.stringContaining("state.json"),
         expect.stringContaining("state.json.corrupt-"),
         { overwrite: false },
       );
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.recovery.json"),
+        expect.objectContaining({
+          backupPath: expect.stringContaining("state.json.corrupt-"),
+          quarantined: expect.arrayContaining([
+            expect.objectContaining({
+              collection: "variables",
+              id: "test-2",
+              reason: "Fails validation",
+            }),
+          ]),
+          state,
+        }),
+        { spaces: 2 },
+      );
+    });
+
+    it("salvages nothing from unreadable JSON but still writes a report", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockRejectedValue(new Error("Unexpected token"));
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+
+      const store = new JsonStore({
+        logger: { info() {}, warn() {}, error() {} },
+      });
+      const state = await store.load();
+
+      expect(state.variables).toEqual([]);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.recovery.json"),
+        expect.objectContaining({
+          quarantined: [expect.objectContaining({ collection: "state" })],
+        }),
+        { spaces: 2 },
+      );
+    });
+  });
+
+  describe("recovery", () => {
+    const salvaged: State = {
+      schemaVersion: SCHEMA_VERSION,
+      variables: [
+        {
+          id: "kept",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Kept Var",
+          status: VARIABLE_STATUSES[0],
+        },
+      ],
+      episodes: [],
+      actions: [],
+      notes: [],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [],
+      proxyReadings: [],
+      statusChanges: [],
+    };
+
+    function mockPendingRecovery(): void {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockImplementation((async (file: string) =>
+        file.endsWith(".recovery.json")
+          ? {
+              createdAt: "2025-01-01T00:00:00.000Z",
+              backupPath: "state.json.corrupt-x",
+              reportPath: file,
+              kept: { variables: 1 },
+              quarantined: [],
+              state: salvaged,
+            }
+          : { ...salvaged, variables: [], revision: 3 }) as never);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+      vi.mocked(fs.appendFile).mockResolvedValue(undefined as never);
+      mockLockFile();
+    }
+
+    it("loads the salvaged State while a recovery is pending", async () => {
+      mockPendingRecovery();
+
+      const store = new JsonStore();
+      const { state, revision } = await store.loadWithRevision();
+
+      expect(state).toEqual(salvaged);
+      expect(revision).toBe(0);
+      expect(await store.loadRecovery()).toMatchObject({
+        backupPath: "state.json.corrupt-x",
+        reportPath: expect.stringContaining("state.json.recovery.json"),
+      });
+    });
+
+    it("refuses saves and updates until the recovery is acknowledged", async () => {
+      mockPendingRecovery();
+
+      const store = new JsonStore();
+      const saved = await store.save(salvaged);
+      const updated = await store.update((state) => ({
+        ok: true,
+        value: state,
+      }));
+
+      expect(saved).toEqual({
+        ok: false,
+        error: {
+          kind: "recoveryPending",
+          reportPath: expect.stringContaining("state.json.recovery.json"),
+        },
+      });
+      expect(updated.ok).toBe(false);
+      if (!updated.ok) {
+        expect(updated.error).toContain("saving is paused");
+      }
+      expect(fs.writeJson).not.toHaveBeenCalled();
+    });
+
+    it("acknowledging writes the salvaged State and archives the report", async () => {
+      mockPendingRecovery();
+
+      const store = new JsonStore();
+      const acknowledged = await store.acknowledgeRecovery();
+
+      expect(acknowledged).toEqual({ ok: true, value: 4 });
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.tmp"),
+        { ...salvaged, revision: 4 },
+        { spaces: 2 },
+      );
+      expect(fs.move).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.recovery.json"),
+        expect.stringContaining("state.json.recovery-"),
+        { overwrite: false },
+      );
+    });
+
+    it("has nothing to acknowledge when no recovery is pending", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined as never);
+      mockLockFile();
+
+      const store = new JsonStore();
+
+      expect(await store.loadRecovery()).toBeNull();
+      expect(await store.acknowledgeRecovery()).toEqual({
+        ok: false,
+        error: "No recovery is pending",
+      });
     });
   });
 
@@ -188,10 +368,7 @@ describe("JsonStore", () => {
       vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
       vi.mocked(fs.move).mockResolvedValue(undefined as never);
 
-      vi.mocked(openFile).mockResolvedValue({
-        writeFile: vi.fn().mockResolvedValue(undefined),
-        close: vi.fn().mockResolvedValue(undefined),
-      } as never);
+      mockLockFile();
 
       const state: State = {
         schemaVersion: SCHEMA_VERSION,
@@ -234,15 +411,17 @@ describe("JsonStore", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const store = new JsonStore();
-      await store.save(state);
+      const saved = await store.save(state);
 
+      expect(saved).toEqual({ ok: true, value: 1 });
       expect(fs.ensureDir).toHaveBeenCalled();
       expect(fs.writeJson).toHaveBeenCalledWith(
         expect.stringContaining("state.json.tmp-"),
-        state,
+        { ...state, revision: 1 },
         { spaces: 2 },
       );
       expect(fs.move).toHaveBeenCalledWith(
@@ -256,4 +435,410 @@ describe("JsonStore", () => {
       );
     });
   });
+
+  describe("revisions", () => {
+    const persisted: State = {
+      schemaVersion: SCHEMA_VERSION,
+      variables: [],
+      episodes: [],
+      actions: [],
+      notes: [],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [],
+      proxyReadings: [],
+      statusChanges: [],
+    };
+
+    function mockFileAtRevision(revision: number): void {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({
+        ...persisted,
+        revision,
+      } as never);
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+      vi.mocked(fs.appendFile).mockResolvedValue(undefined as never);
+      mockLockFile();
+    }
+
+    it("loads the revision separately from State", async () => {
+      mockFileAtRevision(4);
+
+      const store = new JsonStore();
+      const { state, revision } = await store.loadWithRevision();
+
+      expect(revision).toBe(4);
+      expect(state).toEqual(persisted);
+      expect(state).not.toHaveProperty("revision");
+    });
+
+    it("treats files without a revision as revision 0", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue(persisted as never);
+
+      const store = new JsonStore();
+      expect((await store.loadWithRevision()).revision).toBe(0);
+    });
+
+    it("saves when the expected revision matches", async () => {
+      mockFileAtRevision(4);
+
+      const store = new JsonStore();
+      const saved = await store.save(persisted, { expectedRevision: 4 });
+
+      expect(saved).toEqual({ ok: true, value: 5 });
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.any(String),
+        { ...persisted, revision: 5 },
+        { spaces: 2 },
+      );
+    });
+
+    it("returns a conflict and writes nothing when another writer saved first", async () => {
+      mockFileAtRevision(5);
+
+      const store = new JsonStore();
+      const saved = await store.save(persisted, { expectedRevision: 4 });
+
+      expect(saved).toEqual({
+        ok: false,
+        error: {
+          kind: "revisionConflict",
+          expectedRevision: 4,
+          actualRevision: 5,
+        },
+      });
+      expect(fs.writeJson).not.toHaveBeenCalled();
+      expect(fs.remove).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.lock"),
+      );
+    });
+  });
+
+  describe("journal", () => {
+    const baseState: State = {
+      schemaVersion: SCHEMA_VERSION,
+      variables: [
+        {
+          id: "var-1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: SEED_AGENCY_NAME,
+          status: SEED_STATUS,
+        },
+      ],
+      episodes: [],
+      actions: [],
+      notes: [],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [],
+      proxyReadings: [],
+      statusChanges: [],
+    };
+
+    /** Journal file whose last entry was written at `tailRevision` */
+    function mockWritableFs(tailRevision = 0): void {
+      const journal = Buffer.from(
+        JSON.stringify({
+          type: "snapshot",
+          recordedAt: "2025-01-01T00:00:00.000Z",
+          state: baseState,
+          revision: tailRevision,
+        }) + "\n",
+      );
+      vi.mocked(fs.ensureDir).mockResolvedValue(undefined as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+      vi.mocked(fs.appendFile).mockResolvedValue(undefined as never);
+      mockLockFile({
+        stat: vi.fn().mockResolvedValue({ size: journal.length }),
+        read: vi.fn(
+          (
+            buffer: Buffer,
+            offset: number,
+            length: number,
+            position: number,
+          ) => {
+            journal.copy(buffer, offset, position, position + length);
+            return Promise.resolve({ bytesRead: length, buffer });
+          },
+        ),
+        close: vi.fn().mockResolvedValue(undefined),
+      });
+    }
+
+    function appendedEntries(): unknown[] {
+      return vi.mocked(fs.appendFile).mock.calls.flatMap(([, data]) =>
+        String(data)
+          .split("\n")
+          .filter((line) => line.length > 0)
+          .map((line) => JSON.parse(line) as unknown),
+      );
+    }
+
+    async function loadStore(): Promise<{ store: JsonStore; state: State }> {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue(baseState as never);
+      const store = new JsonStore();
+      const state = await store.load();
+      return { store, state };
+    }
+
+    it("writes a snapshot when the mutation chain is unknown", async () => {
+      mockWritableFs();
+
+      const store = new JsonStore();
+      await store.save(baseState);
+
+      expect(fs.appendFile).toHaveBeenCalledWith(
+        expect.stringContaining("state.json.journal.jsonl"),
+        expect.any(String),
+        "utf-8",
+      );
+      expect(appendedEntries()).toEqual([
+        expect.objectContaining({ type: "snapshot", state: baseState }),
+      ]);
+    });
+
+    it("appends recorded mutations that produced the saved state", async () => {
+      mockWritableFs();
+      const { store, state } = await loadStore();
+
+      const mutation = { kind: "completeAction", params: { actionId: "a" } };
+      const next: State = { ...state, notes: [] };
+      store.record(state, mutation, next);
+      await store.save(next);
+
+      expect(appendedEntries()).toEqual([
+        expect.objectContaining({ type: "mutation", mutation, revision: 1 }),
+      ]);
+    });
+
+    it("writes a snapshot when the journal did not reach the loaded revision", async () => {
+      // A crash between writing the state file and appending to the journal
+      mockWritableFs(-1);
+      const { store, state } = await loadStore();
+
+      const mutation = { kind: "completeAction", params: { actionId: "a" } };
+      const next: State = { ...state, notes: [] };
+      store.record(state, mutation, next);
+      await store.save(next);
+
+      expect(appendedEntries()).toEqual([
+        expect.objectContaining({ type: "snapshot", state: next, revision: 1 }),
+      ]);
+    });
+
+    it("prefixes a snapshot of the base when the journal is missing", async () => {
+      mockWritableFs();
+      const { store, state } = await loadStore();
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      const mutation = { kind: "createNote", params: { noteId: "n" } };
+      const next: State = { ...state, notes: [] };
+      store.record(state, mutation, next);
+      await store.save(next);
+
+      expect(appendedEntries()).toEqual([
+        expect.objectContaining({ type: "snapshot", state }),
+        expect.objectContaining({ type: "mutation", mutation }),
+      ]);
+    });
+
+    it("skips mutations from branches that were never saved", async () => {
+      mockWritableFs();
+      const { store, state } = await loadStore();
+
+      const discarded = { kind: "createNote", params: { noteId: "x" } };
+      const kept = { kind: "createNote", params: { noteId: "y" } };
+      store.record(state, discarded, { ...state });
+      const next: State = { ...state };
+      store.record(state, kept, next);
+      await store.save(next);
+
+      expect(appendedEntries()).toEqual([
+        expect.objectContaining({ type: "mutation", mutation: kept }),
+      ]);
+    });
+
+    it("reads entries and marks malformed lines unreadable", async () => {
+      const lines = [
+        JSON.stringify({
+          type: "snapshot",
+          recordedAt: "2025-01-01T00:00:00.000Z",
+          state: baseState,
+        }),
+        "not json",
+        JSON.stringify({ type: "mutation", recordedAt: "x" }),
+        JSON.stringify({
+          type: "mutation",
+          recordedAt: "2025-01-02T00:00:00.000Z",
+          mutation: { kind: "completeAction", params: { actionId: "a" } },
+        }),
+      ];
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readFile).mockResolvedValue(lines.join("\n") as never);
+
+      const store = new JsonStore();
+      const entries = await store.readJournal();
+
+      expect(entries).toHaveLength(4);
+      expect(entries[0]?.type).toBe("snapshot");
+      expect(entries[1]).toEqual({ type: "unreadable", position: 2 });
+      expect(entries[2]).toEqual({ type: "unreadable", position: 3 });
+      expect(entries[3]).toEqual({
+        type: "mutation",
+        recordedAt: "2025-01-02T00:00:00.000Z",
+        mutation: { kind: "completeAction", params: { actionId: "a" } },
+      });
+    });
+
+    it("returns empty journal when the file is missing", async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+
+      const store = new JsonStore();
+      expect(await store.readJournal()).toEqual([]);
+    });
+
+    describe("update", () => {
+      it("mutates the freshest state under the lock and journals the mutation", async () => {
+        mockWritableFs();
+        vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+        vi.mocked(fs.readJson).mockResolvedValue(baseState as never);
+
+        const store = new JsonStore();
+        const mutation = { kind: "completeAction", params: { actionId: "a" } };
+        const result = await store.update((state) => {
+          const next: State = { ...state, notes: [] };
+          store.record(state, mutation, next);
+          return { ok: true, value: next };
+        });
+
+        expect(result.ok).toBe(true);
+        expect(openFile).toHaveBeenCalledWith(
+          expect.stringContaining("state.json.lock"),
+          "wx",
+        );
+        expect(fs.writeJson).toHaveBeenCalledWith(
+          expect.stringContaining("state.json.tmp-"),
+          { ...baseState, revision: 1 },
+          { spaces: 2 },
+        );
+        expect(appendedEntries()).toEqual([
+          expect.objectContaining({ type: "mutation", mutation }),
+        ]);
+        expect(fs.remove).toHaveBeenCalledWith(
+          expect.stringContaining("state.json.lock"),
+        );
+      });
+
+      it("writes nothing when the mutation fails", async () => {
+        mockWritableFs();
+        vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+        vi.mocked(fs.readJson).mockResolvedValue(baseState as never);
+
+        const store = new JsonStore();
+        const result = await store.update(() => ({
+          ok: false,
+          error: "nope",
+        }));
+
+        expect(result).toEqual({ ok: false, error: "nope" });
+        expect(fs.writeJson).not.toHaveBeenCalled();
+        expect(fs.appendFile).not.toHaveBeenCalled();
+        expect(fs.remove).toHaveBeenCalled();
+      });
+    });
+
+    describe("loadAsOf", () => {
+      function mockJournal(entries: JournalEntry[]): void {
+        vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+        vi.mocked(fs.readFile).mockResolvedValue(
+          entries.map((e) => JSON.stringify(e)).join("\n") as never,
+        );
+      }
+
+      const history: JournalEntry[] = [
+        {
+          type: "snapshot",
+          recordedAt: "2025-01-01T00:00:00.000Z",
+          state: baseState,
+        },
+        {
+          type: "mutation",
+          recordedAt: "2025-01-02T00:00:00.000Z",
+          mutation: { kind: "completeAction", params: { actionId: "a" } },
+        },
+        {
+          type: "mutation",
+          recordedAt: "2025-01-03T00:00:00.000Z",
+          mutation: { kind: "completeAction", params: { actionId: "b" } },
+        },
+      ];
+
+      it("replays only entries recorded at or before the timestamp", async () => {
+        mockJournal(history);
+        const replay = vi.fn(
+          (): Result<State> => ({ ok: true, value: baseState }),
+        );
+
+        const store = new JsonStore({ replay });
+        const result = await store.loadAsOf("2025-01-02T00:00:00.000Z");
+
+        expect(result).toEqual({ ok: true, value: baseState });
+        expect(replay).toHaveBeenCalledWith(history.slice(0, 2));
+      });
+
+      it("surfaces replay failures", async () => {
+        mockJournal(history);
+        const store = new JsonStore({
+          replay: () => ({ ok: false, error: "boom" }),
+        });
+
+        expect(await store.loadAsOf("2025-02-01")).toEqual({
+          ok: false,
+          error: "boom",
+        });
+      });
+
+      it("fails when nothing was recorded yet", async () => {
+        mockJournal(history);
+        const store = new JsonStore({
+          replay: () => ({ ok: true, value: baseState }),
+        });
+
+        const result = await store.loadAsOf("2024-12-31T23:59:59.000Z");
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error).toContain("No history");
+        }
+      });
+
+      it("rejects invalid timestamps", async () => {
+        const store = new JsonStore({
+          replay: () => ({ ok: true, value: baseState }),
+        });
+
+        const result = await store.loadAsOf("last tuesday");
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error).toContain("Invalid timestamp");
+        }
+      });
+
+      it("requires a replayer", async () => {
+        const store = new JsonStore();
+
+        const result = await store.loadAsOf("2025-01-02");
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+          expect(result.error).toContain("replayer");
+        }
+      });
+    });
+  });
 });
@@ -3,50 +3,118 @@
 
 import fs from "fs-extra";
 import * as path from "node:path";
-import * as crypto from "node:crypto";
-import {
-  DEFAULT_ORG_NODE,
-  DEFAULT_PERSONAL_NODE,
-  SCHEMA_VERSION,
-} from "./types.js";
-import type { NodeRef, State, Variable, VariableStatus } from "./types.js";
-import { getConfig, silentLogger } from "../shared/index.js";
-import type { Logger } from "../shared/index.js";
+import { SCHEMA_VERSION } from "./types.js";
+import type { JournalEntry, JournalMutation, State } from "./types.js";
+import { getConfig, ok, silentLogger } from "../shared/index.js";
+import type { Logger, Result, SnapshotRetention } from "../shared/index.js";
+import type {
+  JournalReplayer,
+  RecoveryReport,
+  RevisionedState,
+  SaveOptions,
+  SnapshotInfo,
+  StateStore,
+  StateStoreOptions,
+} from "./state-store.js";
 import { migrateToLatest } from "./internal/migrations.js";
 import {
   acquireLock,
   backupInvalidStateFile,
   getTempPath,
 } from "./internal/fs.js";
+import {
+  appendJournalEntries,
+  getJournalPath,
+  isJournalCurrent,
+  planJournalEntries,
+  readJournalEntries,
+  readJournalTailRevision,
+  replayAsOf,
+} from "./internal/journal.js";
+import type { PendingMutation } from "./internal/journal.js";
+import {
+  checkRevision,
+  describeSaveRejection,
+  splitRevision,
+} from "./internal/revision.js";
+import type { RecoveryPending, SaveRejection } from "./internal/revision.js";
+import {
+  archiveRecovery,
+  getRecoveryPath,
+  readRecovery,
+  writeRecovery,
+} from "./internal/recovery.js";
+import { salvageState } from "./internal/salvage.js";
+import { createSeedState } from "./internal/seed.js";
+import {
+  getSnapshotPrefix,
+  listSnapshots,
+  readSnapshot,
+  takeSnapshot,
+} from "./internal/snapshots.js";
+import type { SnapshotLocation } from "./internal/snapshots.js";
 
 // Use centralized configuration
 const config = getConfig();
 
 // Seed state constants (exported for test use)
-export const SEED_PERSONAL_NODE: NodeRef = {
-  ...DEFAULT_PERSONAL_NODE,
-};
-export const SEED_ORG_NODE: NodeRef = { ...DEFAULT_ORG_NODE };
-export const SEED_AGENCY_NAME = "Agency";
-export const SEED_EXECUTION_CAPACITY_NAME = "Execution Capacity";
-export const SEED_STATUS: VariableStatus = "InRange";
+export {
+  SEED_PERSONAL_NODE,
+  SEED_ORG_NODE,
+  SEED_AGENCY_NAME,
+  SEED_EXECUTION_CAPACITY_NAME,
+  SEED_STATUS,
+} from "./internal/seed.js";
 
 // Re-export Logger for API compatibility
 export type { Logger } from "../shared/index.js";
 
-export class JsonStore {
+/**
+ * Gets the path of the lock file guarding the JSON state file.
+ * Exposed so maintenance tooling can inspect and clear orphaned locks.
+ */
+export function getStateLockPath(basePath?: string): string {
+  return path.join(
+    basePath ?? process.cwd(),
+    config.dataDir,
+    `${config.stateFile}.lock`,
+  );
+}
+
+/** What readState found on disk; `persisted` is false for seeded State */
+interface LoadedState extends RevisionedState {
+  persisted: boolean;
+}
+
+export class JsonStore implements StateStore {
   private filePath: string;
   private lockPath: string;
+  private journalPath: string;
+  private recoveryPath: string;
   private logger: Logger;
+  private replay: JournalReplayer | undefined;
+  private snapshots: SnapshotLocation;
+  private retention: SnapshotRetention;
+  /** Last State read from or written to disk (null when unknown or seeded) */
+  private lastPersisted: State | null = null;
+  /** Revision the file was at when lastPersisted was read or written */
+  private persistedRevision = 0;
+  /** Mutations recorded since lastPersisted, awaiting the next save */
+  private pending: PendingMutation[] = [];
 
-  constructor(options?: { basePath?: string; logger?: Logger }) {
+  constructor(options?: StateStoreOptions) {
     const basePath = options?.basePath ?? process.cwd();
     this.filePath = path.join(basePath, config.dataDir, config.stateFile);
-    this.lockPath = path.join(
-      path.dirname(this.filePath),
-      `${config.stateFile}.lock`,
-    );
+    this.lockPath = getStateLockPath(basePath);
+    this.journalPath = getJournalPath(this.filePath, config.stateFile);
+    this.recoveryPath = getRecoveryPath(this.filePath, config.stateFile);
     this.logger = options?.logger ?? silentLogger;
+    this.replay = options?.replay;
+    this.snapshots = {
+      dir: path.join(basePath, config.snapshotDir),
+      prefix: getSnapshotPrefix(config.stateFile),
+    };
+    this.retention = options?.snapshots ?? config.snapshotRetention;
   }
 
   /**
@@ -57,108 +125,414 @@ export class JsonStore {
    *
    * **Contract:**
    * - Returns: Promise resolving to a valid State object
-   * - Side effects: May emit messages to the provided logger (defaults to silent)
-   * - Error handling: Falls back to seed state on any error
+   * - Side effects: May emit messages to the provided logger (defaults to silent);
+   *   discards mutations recorded but not yet saved
+   * - Error handling: Salvages an invalid or unreadable file (see
+   *   loadRecovery) and returns the salvaged State
    */
   async load(): Promise<State> {
+    const { state } = await this.loadWithRevision();
+    return state;
+  }
+
+  /**
+   * Loads the system state along with its persisted revision.
+   *
+   * **Intent:** Give load → mutate → save callers the revision to pass as
+   * `expectedRevision`, so a concurrent save is detected instead of clobbered.
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to State and revision (0 when seeded)
+   * - Side effects and error handling: Same as load()
+   */
+  async loadWithRevision(): Promise<RevisionedState> {
+    // Seeded or recovered state has no known journal base until saved
+    this.markPersisted(null);
+    const { state, persisted, revision } = await this.readState();
+    if (persisted) {
+      this.markPersisted(state, revision);
+    }
+    return { state, revision };
+  }
+
+  /**
+   * Persists the system state to disk.
+   *
+   * **Intent:** Ensures state survives process restarts by writing to JSON,
+   * and keeps the mutation journal in step with the state file.
+   *
+   * **Contract:**
+   * - Parameters: state - The complete State object to persist;
+   *   options.expectedRevision - Only save if the file is still at this revision
+   * - Returns: Promise resolving to the new revision, or a RevisionConflict,
+   *   or RecoveryPending while a salvage awaits acknowledgement
+   *   when the file was saved by someone else since `expectedRevision`
+   * - Side effects: Creates data directory if missing, writes JSON file,
+   *   appends the recorded mutations that produced `state` to the journal
+   *   (or a full snapshot when that chain is unknown), then writes a rolling
+   *   copy to the snapshot directory and prunes old ones; nothing on conflict
+   * - Error handling: Propagates filesystem errors to caller; a failed
+   *   rolling snapshot is only logged
+   */
+  async save(
+    state: State,
+    options?: SaveOptions,
+  ): Promise<Result<number, SaveRejection>> {
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    const release = await acquireLock(this.lockPath, this.logger);
+    let revision: number;
     try {
-      const exists = await fs.pathExists(this.filePath);
-      if (!exists) {
-        this.logger.info("No state file found. Generating seed state...");
-        return this.createSeed();
+      const pending = await this.checkRecoveryPending();
+      if (pending) {
+        return { ok: false, error: pending };
+      }
+      const current = await this.readRevision();
+      const check = checkRevision(options?.expectedRevision, current);
+      if (!check.ok) {
+        return check;
       }
+      revision = current + 1;
+      await this.writeState(state, revision);
+    } finally {
+      await release();
+    }
 
-      const data: unknown = await fs.readJson(this.filePath);
-      const result = migrateToLatest(data);
+    this.markPersisted(state, revision);
+    return ok(revision);
+  }
 
-      switch (result.status) {
-        case "current":
-          return result.state;
+  /**
+   * Applies a mutation to the freshest persisted State under the lock.
+   *
+   * **Intent:** Close the gap between load and save so a concurrent writer
+   * cannot slip in between reading State and persisting the result.
+   *
+   * **Contract:**
+   * - Parameters: mutate - Pure function from State to Result<State>
+   *   (typically a Regulator method)
+   * - Returns: Promise resolving to the mutation's Result
+   * - Side effects: Reads and writes the state file while holding the lock;
+   *   writes nothing when `mutate` fails
+   * - Error handling: Propagates filesystem errors to caller
+   */
+  async update(
+    mutate: (state: State) => Result<State>,
+  ): Promise<Result<State>> {
+    await fs.ensureDir(path.dirname(this.filePath));
 
-        case "migrated":
-          this.logger.info(
-            `Migrated state from v${result.fromVersion} to v${SCHEMA_VERSION}`,
-          );
-          return result.state;
+    const release = await acquireLock(this.lockPath, this.logger);
+    try {
+      const pending = await this.checkRecoveryPending();
+      if (pending) {
+        return { ok: false, error: describeSaveRejection(pending) };
+      }
+      this.markPersisted(null);
+      const { state, persisted, revision } = await this.readState();
+      if (persisted) {
+        this.markPersisted(state, revision);
+      }
 
-        case "invalid":
-          await this.backupInvalidStateFile();
-          this.logger.warn("Invalid state file format, returning seed");
-          return this.createSeed();
+      const result = mutate(state);
+      if (result.ok) {
+        await this.writeState(result.value, revision + 1);
+        this.markPersisted(result.value, revision + 1);
       }
-    } catch (error) {
-      await this.backupInvalidStateFile();
-      this.logger.error("Error loading state, returning seed", error);
-      return this.createSeed();
+      return result;
+    } finally {
+      await release();
     }
   }
 
   /**
-   * Persists the system state to disk.
+   * Records a successful mutation so the next save can journal it.
    *
-   * **Intent:** Ensures state survives process restarts by writing to JSON.
+   * **Intent:** Lets the Regulator report every applied mutation without
+   * knowing about persistence. Pass this store as the Regulator's journal.
    *
    * **Contract:**
-   * - Parameters: state - The complete State object to persist
-   * - Returns: Promise resolving to void
-   * - Side effects: Creates data directory if missing, writes JSON file
-   * - Error handling: Propagates filesystem errors to caller
+   * - Parameters: base (State before), mutation (what was applied), result (State after)
+   * - Side effects: Buffers the mutation in memory only; nothing is written until save()
+   */
+  record(base: State, mutation: JournalMutation, result: State): void {
+    this.pending.push({ base, mutation, result });
+  }
+
+  /**
+   * Reads the mutation journal.
+   *
+   * **Intent:** Expose persisted history so State can be rebuilt by replay.
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to entries in the order they were written
+   * - Missing journal yields an empty array; malformed lines are returned
+   *   as `unreadable` entries so replay and undo cannot cross them
+   */
+  async readJournal(): Promise<JournalEntry[]> {
+    return readJournalEntries(this.journalPath);
+  }
+
+  /**
+   * Reconstructs the State as it was at a past moment.
+   *
+   * **Intent:** Time-travel queries — answer "what was Low, Active or pending
+   * then?" from the journal instead of from memory.
+   *
+   * **Contract:**
+   * - Parameters: asOf - Any timestamp `Date.parse` accepts (ISO 8601 recommended)
+   * - Returns: Promise resolving to Result<State> rebuilt from every journal
+   *   entry recorded at or before `asOf`
+   * - Side effects: Reads the journal only; never touches the current state file
+   *   or mutations awaiting save
+   * - Error handling: Returns error if the timestamp is invalid, no replayer was
+   *   configured, no history exists at that time, or replay fails
    */
-  async save(state: State): Promise<void> {
+  async loadAsOf(asOf: string): Promise<Result<State>> {
+    return replayAsOf(asOf, () => this.readJournal(), this.replay);
+  }
+  /**
+   * Lists the rolling snapshots taken after saves, newest first.
+   *
+   * **Intent:** Give recovery tooling something better than a seed to fall
+   * back on after a bad write.
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to SnapshotInfo entries (empty when none)
+   * - Side effects: Reads the snapshot directory only
+   */
+  async listSnapshots(): Promise<SnapshotInfo[]> {
+    return listSnapshots(this.snapshots);
+  }
+
+  /**
+   * Reads one snapshot as current-schema State.
+   *
+   * **Intent:** Inspect or restore a past State. Restoring is a normal
+   * `save` of the returned State, so it is revision-checked and journaled.
+   *
+   * **Contract:**
+   * - Parameters: id - A SnapshotInfo id from listSnapshots
+   * - Returns: Promise resolving to Result<State>, migrated and validated
+   * - Error handling: Returns error if the snapshot is missing or invalid
+   */
+  async loadSnapshot(id: string): Promise<Result<State>> {
+    return readSnapshot(this.snapshots, id);
+  }
+  /**
+   * Reads the pending recovery report, if an invalid state file was salvaged.
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to the report, or null when nothing is pending
+   * - Side effects: None
+   */
+  async loadRecovery(): Promise<RecoveryReport | null> {
+    const recovery = await readRecovery(this.recoveryPath);
+    return recovery?.report ?? null;
+  }
+
+  /**
+   * Accepts a salvage: persists the salvaged State and resumes saving.
+   *
+   * **Intent:** Make repairing a damaged file a deliberate act, so nobody
+   * saves over quarantined data without having seen the report.
+   *
+   * **Contract:**
+   * - Returns: Promise resolving to the revision the salvaged State was saved at
+   * - Side effects: Writes the state file and journal under the lock, then
+   *   archives the report as `<state>.recovery-<timestamp>.json`
+   * - Error handling: Returns error when no recovery is pending
+   */
+  async acknowledgeRecovery(): Promise<Result<number>> {
     await fs.ensureDir(path.dirname(this.filePath));
 
-    const release = await acquireLock(this.lockPath);
+    const release = await acquireLock(this.lockPath, this.logger);
+    let revision: number;
+    let state: State;
     try {
-      const tempPath = getTempPath(this.filePath, config.stateFile);
-      await fs.writeJson(tempPath, state, { spaces: 2 });
-      await fs.move(tempPath, this.filePath, { overwrite: true });
+      const recovery = await readRecovery(this.recoveryPath);
+      if (!recovery) {
+        return { ok: false, error: "No recovery is pending" };
+      }
+      state = recovery.state;
+      this.markPersisted(null);
+      revision = (await this.readRevision()) + 1;
+      await this.writeState(state, revision);
+      await archiveRecovery(this.recoveryPath);
     } finally {
       await release();
     }
+
+    this.markPersisted(state, revision);
+    return ok(revision);
   }
 
   /**
-   * Generates the initial system state when no persisted state exists.
+   * Nothing to release: the state file is opened and closed per call.
+   */
+  close(): void {}
+
+  /**
+   * Reads the state file, falling back to seed only when none exists.
+   * An invalid file is salvaged (see salvage) and a pending salvage is
+   * returned as-is until acknowledged. `persisted` is false for seeded or
+   * salvaged State, which has no journal base yet.
+   * Does NOT take the lock — caller is responsible for exclusive access.
+   */
+  private async readState(): Promise<LoadedState> {
+    const recovery = await readRecovery(this.recoveryPath);
+    if (recovery) {
+      return { state: recovery.state, persisted: false, revision: 0 };
+    }
+
+    const exists = await fs.pathExists(this.filePath);
+    if (!exists) {
+      this.logger.info("No state file found. Generating seed state...");
+      return { state: createSeedState(), persisted: false, revision: 0 };
+    }
+
+    let raw: unknown;
+    try {
+      raw = await fs.readJson(this.filePath);
+    } catch (error) {
+      this.logger.error("State file is not readable JSON", error);
+      return this.salvage(null);
+    }
+
+    const { data, revision } = splitRevision(raw);
+    const result = migrateToLatest(data);
+
+    switch (result.status) {
+      case "current":
+        return { state: result.state, persisted: true, revision };
+
+      case "migrated":
+        this.logger.info(
+          `Migrated state from v${result.fromVersion} to v${SCHEMA_VERSION}`,
+        );
+        return { state: result.state, persisted: true, revision };
+
+      case "invalid":
+        this.logger.warn("Invalid state file format");
+        return this.salvage(data);
+    }
+  }
+
+  /**
+   * Salvages an invalid state file instead of seeding over it.
    *
-   * **Intent:** Provides a baseline viable state with core variables
-   * for both Personal and Org nodes, ensuring the system can start
-   * from a known-good configuration.
+   * **Intent:** A bad write must never cost more than the entities it broke.
+   * Valid entities are kept, invalid ones quarantined into the report, and
+   * saving pauses so the salvage can't silently replace what was on disk.
    *
    * **Contract:**
-   * - Returns: A valid State object with seed variables
-   * - Variables: Agency (Personal) and Execution Capacity (Org), both InRange
-   * - All other collections (episodes, actions, notes) are empty arrays
-   */
-  private createSeed(): State {
-    const agencyVariable: Variable = {
-      id: crypto.randomUUID(),
-      node: SEED_PERSONAL_NODE,
-      name: SEED_AGENCY_NAME,
-      status: SEED_STATUS,
+   * - Side effects: Moves the file to `.corrupt-*`, writes the recovery report
+   * - Returns: The salvaged State (not persisted)
+   */
+  private async salvage(data: unknown): Promise<LoadedState> {
+    const { state, kept, quarantined } = salvageState(data);
+    const report: RecoveryReport = {
+      createdAt: new Date().toISOString(),
+      backupPath: await this.backupInvalidStateFile(),
+      reportPath: this.recoveryPath,
+      kept,
+      quarantined,
     };
+    await writeRecovery(report, state);
 
-    const executionCapacityVariable: Variable = {
-      id: crypto.randomUUID(),
-      node: SEED_ORG_NODE,
-      name: SEED_EXECUTION_CAPACITY_NAME,
-      status: SEED_STATUS,
-    };
+    const keptCount = Object.values(kept).reduce((sum, n) => sum + n, 0);
+    this.logger.warn(
+      `Salvaged ${keptCount} entities and quarantined ${quarantined.length}; saving is paused until the repair is acknowledged (report: ${this.recoveryPath}; review it with \`becoming recover\`)`,
+    );
+    return { state, persisted: false, revision: 0 };
+  }
 
-    return {
-      schemaVersion: SCHEMA_VERSION,
-      variables: [agencyVariable, executionCapacityVariable],
-      episodes: [],
-      actions: [],
-      notes: [],
-      models: [],
-      links: [],
-      exceptions: [],
-      proxies: [],
-      proxyReadings: [],
-    };
+  /**
+   * Returns the rejection to give a save while a salvage awaits acknowledgement.
+   */
+  private async checkRecoveryPending(): Promise<RecoveryPending | null> {
+    const recovery = await readRecovery(this.recoveryPath);
+    return recovery
+      ? { kind: "recoveryPending", reportPath: this.recoveryPath }
+      : null;
+  }
+
+  /**
+   * Reads only the persisted revision (0 when missing or unreadable).
+   * Does NOT take the lock — caller is responsible for exclusive access.
+   */
+  private async readRevision(): Promise<number> {
+    try {
+      const exists = await fs.pathExists(this.filePath);
+      if (!exists) {
+        return 0;
+      }
+      return splitRevision(await fs.readJson(this.filePath)).revision;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Writes the state file (stamped with `revision`) atomically, journals
+   * how it was reached and takes a rolling snapshot when due.
+   * The journal is appended after the state file is in place, so a crash
+   * in between leaves the journal short of a revision, never ahead of the
+   * file; the next save sees that (see isJournalCurrent) and re-snapshots.
+   * Does NOT take the lock — caller is responsible for exclusive access.
+   */
+  private async writeState(state: State, revision: number): Promise<void> {
+    const hasJournal = await fs.pathExists(this.journalPath);
+    const base = isJournalCurrent(
+      hasJournal,
+      hasJournal ? await readJournalTailRevision(this.journalPath) : null,
+      this.persistedRevision,
+    )
+      ? this.lastPersisted
+      : null;
+
+    const tempPath = getTempPath(this.filePath, config.stateFile);
+    await fs.writeJson(tempPath, { ...state, revision }, { spaces: 2 });
+    await fs.move(tempPath, this.filePath, { overwrite: true });
+
+    await appendJournalEntries(
+      this.journalPath,
+      planJournalEntries(
+        base,
+        this.pending,
+        state,
+        hasJournal,
+        new Date().toISOString(),
+        revision,
+      ),
+    );
+    await this.snapshot(state, revision);
+  }
+
+  /**
+   * Takes a rolling snapshot of State that was just saved, if one is due.
+   * A failed snapshot is logged, never allowed to fail the save it follows.
+   */
+  private async snapshot(state: State, revision: number): Promise<void> {
+    try {
+      await takeSnapshot(
+        this.snapshots,
+        state,
+        revision,
+        this.retention,
+        new Date().toISOString(),
+      );
+    } catch (error) {
+      this.logger.error("Failed to write state snapshot", error);
+    }
+  }
+
+  private markPersisted(state: State | null, revision = 0): void {
+    this.lastPersisted = state;
+    this.persistedRevision = revision;
+    this.pending = [];
   }
 
-  private async backupInvalidStateFile(): Promise<void> {
-    await backupInvalidStateFile(this.filePath, config.stateFile);
+  private async backupInvalidStateFile(): Promise<string | null> {
+    return backupInvalidStateFile(this.filePath, config.stateFile);
   }
 }
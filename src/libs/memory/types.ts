@@ -20,7 +20,9 @@ export {
   SCHEMA_VERSION,
   MUTATION_TYPES,
   OVERRIDE_DECISIONS,
+  WEEKDAYS,
   PROXY_VALUE_TYPES,
+  STATUS_CHANGE_SOURCES,
 } from "../../dna.js";
 
 // Import for local type derivations
@@ -41,7 +43,9 @@ import {
   SCHEMA_VERSION,
   MUTATION_TYPES,
   OVERRIDE_DECISIONS,
+  WEEKDAYS,
   PROXY_VALUE_TYPES,
+  STATUS_CHANGE_SOURCES,
 } from "../../dna.js";
 
 // Type derivations from DNA constants
@@ -59,7 +63,9 @@ export type LinkRelation = (typeof LINK_RELATIONS)[number];
 export type SchemaVersion = typeof SCHEMA_VERSION;
 export type MutationType = (typeof MUTATION_TYPES)[number];
 export type OverrideDecision = (typeof OVERRIDE_DECISIONS)[number];
+export type Weekday = (typeof WEEKDAYS)[number];
 export type ProxyValueType = (typeof PROXY_VALUE_TYPES)[number];
+export type StatusChangeSource = (typeof STATUS_CHANGE_SOURCES)[number];
 
 export type NodeId = string;
 
@@ -105,6 +111,8 @@ export interface Variable {
   preferredRange?: string;
   /** How often to evaluate this variable */
   measurementCadence?: MeasurementCadence;
+  /** ISO timestamp when archived: hidden from views by default, still queryable */
+  archivedAt?: string;
 }
 
 export interface Episode {
@@ -126,6 +134,8 @@ export interface Episode {
   closureNoteId?: string;
   /** Optional timebox in days — episode should close/expire after this duration */
   timeboxDays?: number;
+  /** ISO timestamp when archived: hidden from views by default, still queryable */
+  archivedAt?: string;
 }
 
 export interface Action {
@@ -137,6 +147,14 @@ export interface Action {
    * When present, the Episode must exist and be Active for the Action to be considered "in-cycle".
    */
   episodeId?: string;
+  /** Calendar date (YYYY-MM-DD) the Action should be done by */
+  dueDate?: string;
+  /** Position among its Episode's Actions, lowest first */
+  order?: number;
+  /** Why the Action was abandoned (status Cancelled) */
+  cancelReason?: string;
+  /** ISO timestamp when archived: hidden from views by default, still queryable */
+  archivedAt?: string;
 }
 
 export interface Note {
@@ -148,6 +166,8 @@ export interface Note {
   tags: NoteTag[];
   /** Optional array of object IDs this note is linked to */
   linkedObjects?: string[];
+  /** ISO timestamp when archived: hidden from views by default, still queryable */
+  archivedAt?: string;
 }
 
 export interface Model {
@@ -162,6 +182,45 @@ export interface Model {
   enforcement?: EnforcementLevel;
   /** Whether exceptions can be logged against this model (default: true for warn, false for block) */
   exceptionsAllowed?: boolean;
+  /** When a Normative model applies (default: to opening Episodes in scope) */
+  condition?: ModelCondition;
+  /** Calendar date (YYYY-MM-DD) a Normative model comes up for review */
+  reviewOn?: string;
+  /** Calendar date (YYYY-MM-DD) from which a Normative model stops being enforced */
+  expiresOn?: string;
+  /** ISO timestamp when archived: hidden from views by default, still queryable */
+  archivedAt?: string;
+}
+
+/**
+ * A machine-readable condition on a Normative Model.
+ * The model applies only to mutations matching every field present.
+ */
+export interface ModelCondition {
+  /** Kinds of mutation the rule governs */
+  mutationTypes?: MutationType[];
+  /** Episode types the rule governs (Episodes and the Actions inside them) */
+  episodeTypes?: EpisodeType[];
+  /** A Variable that must currently hold one of the listed statuses */
+  variable?: VariableCondition;
+  /** Recurring windows of the week (UTC) in which the rule applies */
+  timeWindows?: TimeWindow[];
+  /** Applies only when the node's active Episodes hold more than this many Pending actions */
+  pendingActionsAbove?: number;
+}
+
+export interface VariableCondition {
+  variableId: string;
+  statuses: VariableStatus[];
+}
+
+/** A recurring window of the week, in UTC */
+export interface TimeWindow {
+  days: Weekday[];
+  /** Hour the window opens, 0-23 (default: 0) */
+  fromHour?: number;
+  /** Hour the window closes, exclusive, 1-24 (default: 24) */
+  toHour?: number;
 }
 
 export interface Link {
@@ -190,7 +249,7 @@ export interface MembraneException {
   justification: string;
   /** What mutation was being attempted */
   mutationType: MutationType;
-  /** ID of the resulting mutation (episode/action ID) */
+  /** ID of the mutation's subject (Episode, Action, Variable or Note) */
   mutationId: string;
   /** ISO timestamp */
   createdAt: string;
@@ -255,6 +314,26 @@ export interface ProxyReading {
   source?: string;
 }
 
+/**
+ * A StatusChange records one transition of a Variable's status.
+ * Together they are the Variable's history; `Variable.status` is the latest `to`.
+ */
+export interface StatusChange {
+  id: string;
+  /** Which Variable changed */
+  variableId: string;
+  from: VariableStatus;
+  to: VariableStatus;
+  /** ISO timestamp of the change */
+  at: string;
+  /** What moved the status */
+  source: StatusChangeSource;
+  /** Why, when given (e.g. the signal's reason) */
+  reason?: string;
+  /** The Episode whose closure made the change (source episodeClosure) */
+  episodeId?: string;
+}
+
 export interface State {
   schemaVersion: SchemaVersion;
   variables: Variable[];
@@ -266,8 +345,19 @@ export interface State {
   exceptions: MembraneException[];
   proxies: Proxy[];
   proxyReadings: ProxyReading[];
+  statusChanges: StatusChange[];
 }
 
+/** Collections whose entities can be archived: hidden from views, kept in State */
+export const ARCHIVABLE_COLLECTIONS = [
+  "variables",
+  "episodes",
+  "actions",
+  "notes",
+  "models",
+] as const satisfies readonly (keyof State)[];
+export type ArchivableCollection = (typeof ARCHIVABLE_COLLECTIONS)[number];
+
 /**
  * Creates an empty State object with the current schema version.
  *
@@ -290,5 +380,53 @@ export function createEmptyState(): State {
     exceptions: [],
     proxies: [],
     proxyReadings: [],
+    statusChanges: [],
   };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// MUTATION JOURNAL — Append-only history of State changes
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A mutation as persisted in the journal.
+ * Memory stores mutations opaquely; the Regulator defines the concrete
+ * kinds and knows how to replay them.
+ */
+export interface JournalMutation {
+  /** Which Regulator mutation was applied (e.g., "openEpisode") */
+  kind: string;
+  /** The exact params the mutation was applied with */
+  params: unknown;
+}
+
+/**
+ * A single line of the append-only mutation journal.
+ *
+ * - snapshot: a complete State that replay starts from
+ * - mutation: a successful mutation applied on top of the previous entries
+ * - unreadable: a line that no longer parses, kept in place so replay
+ *   can refuse to step over it
+ */
+export type JournalEntry =
+  | {
+      type: "snapshot";
+      /** ISO timestamp when the entry was written */
+      recordedAt: string;
+      /** Revision of the save that wrote the entry (absent in older journals) */
+      revision?: number;
+      state: State;
+    }
+  | {
+      type: "mutation";
+      /** ISO timestamp when the entry was written */
+      recordedAt: string;
+      /** Revision of the save that wrote the entry (absent in older journals) */
+      revision?: number;
+      mutation: JournalMutation;
+    }
+  | {
+      type: "unreadable";
+      /** Position of the line (or row) in the journal, from 1 */
+      position: number;
+    };
@@ -0,0 +1,467 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEpisodeEffectiveness,
+  getEpisodeEffectivenessReport,
+  getExceptionRates,
+  getStatusAnalytics,
+} from "./analytics.js";
+import { getExceptionAudit, getStatusHistory } from "./selectors.js";
+import {
+  createEmptyState,
+  DEFAULT_ORG_NODE,
+  DEFAULT_PERSONAL_NODE,
+  VARIABLE_STATUSES,
+} from "../memory/index.js";
+import type {
+  Episode,
+  MembraneException,
+  State,
+  StatusChange,
+  VariableStatus,
+} from "../memory/index.js";
+
+function change(
+  id: string,
+  from: VariableStatus,
+  to: VariableStatus,
+  at: string,
+): StatusChange {
+  return { id, variableId: "v1", from, to, at, source: "manual" };
+}
+
+function createState(statusChanges: StatusChange[]): State {
+  return {
+    ...createEmptyState(),
+    variables: [
+      {
+        id: "v1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Sleep",
+        status: statusChanges.at(-1)?.to ?? VARIABLE_STATUSES[1],
+      },
+      {
+        id: "v2",
+        node: DEFAULT_ORG_NODE,
+        name: "Capacity",
+        status: VARIABLE_STATUSES[1],
+      },
+    ],
+    statusChanges,
+  };
+}
+
+describe("getStatusHistory", () => {
+  it("lists a Variable's changes oldest first", () => {
+    const state = createState([
+      change("c2", "Low", "InRange", "2025-01-03T00:00:00.000Z"),
+      change("c1", "InRange", "Low", "2025-01-01T00:00:00.000Z"),
+    ]);
+
+    expect(getStatusHistory(state, "v1").map((c) => c.id)).toEqual([
+      "c1",
+      "c2",
+    ]);
+    expect(getStatusHistory(state, "v2")).toEqual([]);
+  });
+});
+
+describe("getStatusAnalytics", () => {
+  it("reports no history for a Variable that never changed", () => {
+    const [sleep] = getStatusAnalytics(
+      createState([]),
+      DEFAULT_PERSONAL_NODE,
+      "2025-01-10T00:00:00.000Z",
+    );
+
+    expect(sleep?.trackedSince).toBeNull();
+    expect(sleep?.excursions).toEqual([]);
+    expect(sleep?.meanDaysToInRange).toBeNull();
+    expect(sleep?.daysInStatus).toEqual({
+      Low: 0,
+      InRange: 0,
+      High: 0,
+      Unknown: 0,
+    });
+  });
+
+  it("adds up time in each status and the time back to InRange", () => {
+    const state = createState([
+      change("c1", "Unknown", "InRange", "2025-01-01T00:00:00.000Z"),
+      change("c2", "InRange", "Low", "2025-01-03T00:00:00.000Z"),
+      change("c3", "Low", "InRange", "2025-01-07T00:00:00.000Z"),
+      change("c4", "InRange", "High", "2025-01-08T00:00:00.000Z"),
+      change("c5", "High", "InRange", "2025-01-10T00:00:00.000Z"),
+    ]);
+
+    const analytics = getStatusAnalytics(
+      state,
+      DEFAULT_PERSONAL_NODE,
+      "2025-01-11T00:00:00.000Z",
+    );
+
+    expect(analytics).toHaveLength(1);
+    expect(analytics[0]?.trackedSince).toBe("2025-01-01T00:00:00.000Z");
+    expect(analytics[0]?.daysInStatus).toEqual({
+      Low: 4,
+      InRange: 4,
+      High: 2,
+      Unknown: 0,
+    });
+    expect(analytics[0]?.excursions.map((e) => [e.status, e.days])).toEqual([
+      ["Low", 4],
+      ["High", 2],
+    ]);
+    expect(analytics[0]?.meanDaysToInRange).toBe(3);
+  });
+
+  it("keeps one excursion open through Low → High until InRange", () => {
+    const state = createState([
+      change("c1", "InRange", "Low", "2025-03-30T00:00:00.000Z"),
+      change("c2", "Low", "High", "2025-04-02T00:00:00.000Z"),
+      change("c3", "High", "InRange", "2025-04-04T00:00:00.000Z"),
+      change("c4", "InRange", "Low", "2025-04-10T00:00:00.000Z"),
+    ]);
+
+    const [sleep] = getStatusAnalytics(
+      state,
+      DEFAULT_PERSONAL_NODE,
+      "2025-04-12T00:00:00.000Z",
+    );
+
+    expect(sleep?.excursions).toEqual([
+      {
+        status: "Low",
+        startedAt: "2025-03-30T00:00:00.000Z",
+        endedAt: "2025-04-04T00:00:00.000Z",
+        days: 5,
+      },
+      {
+        status: "Low",
+        startedAt: "2025-04-10T00:00:00.000Z",
+        endedAt: null,
+        days: 2,
+      },
+    ]);
+    // Only the excursion that ended counts towards the mean
+    expect(sleep?.meanDaysToInRange).toBe(5);
+    expect(sleep?.excursionsPerQuarter).toEqual({
+      "2025-Q1": 1,
+      "2025-Q2": 1,
+    });
+  });
+});
+
+describe("getEpisodeEffectiveness", () => {
+  const episode: Episode = {
+    id: "e1",
+    node: DEFAULT_PERSONAL_NODE,
+    type: "Stabilize",
+    variableId: "v1",
+    objective: "Sleep by 23:00",
+    status: "Closed",
+    openedAt: "2025-01-01T00:00:00.000Z",
+    closedAt: "2025-01-08T00:00:00.000Z",
+    closureNoteId: "n1",
+    timeboxDays: 7,
+  };
+
+  function createEpisodeState(): State {
+    return {
+      ...createState([
+        change("c1", "InRange", "Low", "2024-12-30T00:00:00.000Z"),
+        {
+          ...change("n1:v1", "Low", "InRange", "2025-01-08T00:00:00.000Z"),
+          source: "episodeClosure",
+          episodeId: "e1",
+        },
+      ]),
+      episodes: [episode],
+      actions: [
+        {
+          id: "a1",
+          description: "No screens",
+          status: "Done",
+          episodeId: "e1",
+        },
+        { id: "a2", description: "Blinds", status: "Pending", episodeId: "e1" },
+        { id: "a3", description: "Unrelated", status: "Done" },
+      ],
+      proxies: [
+        {
+          id: "p1",
+          variableId: "v1",
+          name: "Sleep hours",
+          valueType: "numeric",
+        },
+        {
+          id: "p2",
+          variableId: "v1",
+          name: "Rested",
+          valueType: "categorical",
+          categories: ["yes", "no"],
+        },
+      ],
+      proxyReadings: [
+        {
+          id: "r0",
+          proxyId: "p1",
+          value: { type: "numeric", value: 5 },
+          recordedAt: "2024-12-31T00:00:00.000Z",
+        },
+        {
+          id: "r2",
+          proxyId: "p1",
+          value: { type: "numeric", value: 7.5 },
+          recordedAt: "2025-01-07T00:00:00.000Z",
+        },
+        {
+          id: "r1",
+          proxyId: "p1",
+          value: { type: "numeric", value: 6 },
+          recordedAt: "2025-01-02T00:00:00.000Z",
+        },
+        {
+          id: "r3",
+          proxyId: "p2",
+          value: { type: "categorical", value: "yes" },
+          recordedAt: "2025-01-05T00:00:00.000Z",
+        },
+      ],
+    };
+  }
+
+  it("compares the Variable at opening and closing and what was done", () => {
+    const report = getEpisodeEffectiveness(createEpisodeState(), episode);
+
+    expect(report).toMatchObject({
+      statusAtOpen: "Low",
+      statusAtClose: "InRange",
+      restored: true,
+      actionsDone: 1,
+      actionsPending: 1,
+      durationDays: 7,
+      timeboxDays: 7,
+      withinTimebox: true,
+    });
+    expect(
+      report?.trends.map((t) => [
+        t.proxy.id,
+        t.readings.map((r) => r.id),
+        t.change,
+      ]),
+    ).toEqual([
+      ["p1", ["r1", "r2"], 1.5],
+      ["p2", ["r3"], null],
+    ]);
+  });
+
+  it("does not count an Episode that closed still out of range", () => {
+    const state = createEpisodeState();
+    state.statusChanges = state.statusChanges.slice(0, 1);
+
+    const report = getEpisodeEffectiveness(state, {
+      ...episode,
+      closedAt: "2025-01-10T00:00:00.000Z",
+    });
+
+    expect(report?.statusAtClose).toBe("Low");
+    expect(report?.restored).toBe(false);
+    expect(report?.withinTimebox).toBe(false);
+  });
+
+  it("only reports closed Stabilize Episodes, most recently closed first", () => {
+    const state = createEpisodeState();
+    state.episodes = [
+      episode,
+      { ...episode, id: "e2", closedAt: "2025-02-01T00:00:00.000Z" },
+      {
+        id: "e3",
+        node: DEFAULT_PERSONAL_NODE,
+        type: "Stabilize",
+        variableId: "v1",
+        objective: "Still going",
+        status: "Active",
+        openedAt: "2025-01-10T00:00:00.000Z",
+      },
+      {
+        id: "e4",
+        node: DEFAULT_PERSONAL_NODE,
+        type: "Explore",
+        objective: "Try naps",
+        status: "Closed",
+        openedAt: "2025-01-01T00:00:00.000Z",
+        closedAt: "2025-03-01T00:00:00.000Z",
+      },
+    ];
+
+    expect(getEpisodeEffectiveness(state, state.episodes[2] as Episode)).toBe(
+      null,
+    );
+    expect(
+      getEpisodeEffectivenessReport(state, DEFAULT_PERSONAL_NODE).map(
+        (r) => r.episode.id,
+      ),
+    ).toEqual(["e2", "e1"]);
+    expect(getEpisodeEffectivenessReport(state, DEFAULT_ORG_NODE)).toEqual([]);
+  });
+});
+
+describe("exception audit", () => {
+  function exception(
+    id: string,
+    modelId: string,
+    originalDecision: MembraneException["originalDecision"],
+    mutationType: MembraneException["mutationType"],
+    mutationId: string,
+    createdAt: string,
+  ): MembraneException {
+    return {
+      id,
+      modelId,
+      originalDecision,
+      justification: `Because ${id}`,
+      mutationType,
+      mutationId,
+      createdAt,
+    };
+  }
+
+  function createAuditState(): State {
+    return {
+      ...createState([]),
+      models: [
+        {
+          id: "m1",
+          type: "Normative",
+          statement: "No exploring while depleted",
+          enforcement: "block",
+        },
+        {
+          id: "m2",
+          type: "Normative",
+          statement: "Keep actions few",
+          enforcement: "warn",
+        },
+      ],
+      episodes: [
+        {
+          id: "e1",
+          node: DEFAULT_PERSONAL_NODE,
+          type: "Explore",
+          objective: "Try naps",
+          status: "Active",
+          openedAt: "2025-01-20T00:00:00.000Z",
+        },
+      ],
+      actions: [{ id: "a1", description: "Walk", status: "Pending" }],
+      exceptions: [
+        exception(
+          "x1",
+          "m1",
+          "block",
+          "episode",
+          "e1",
+          "2025-01-20T00:00:00.000Z",
+        ),
+        exception(
+          "x2",
+          "m2",
+          "warn",
+          "action",
+          "a1",
+          "2025-01-25T00:00:00.000Z",
+        ),
+        exception(
+          "x3",
+          "m2",
+          "warn",
+          "action",
+          "a2",
+          "2025-01-26T00:00:00.000Z",
+        ),
+        exception(
+          "x4",
+          "m2",
+          "warn",
+          "signal",
+          "v1",
+          "2025-01-27T00:00:00.000Z",
+        ),
+        exception("x5", "m2", "warn", "note", "n1", "2025-01-28T00:00:00.000Z"),
+        exception(
+          "x6",
+          "gone",
+          "warn",
+          "action",
+          "a1",
+          "2025-01-28T00:00:00.000Z",
+        ),
+      ],
+    };
+  }
+
+  it("lists exceptions newest first, resolved to their Model and target", () => {
+    const state = createAuditState();
+
+    const audit = getExceptionAudit(state, { mutationType: "action" });
+    expect(audit.map((entry) => entry.exception.id)).toEqual([
+      "x6",
+      "x3",
+      "x2",
+    ]);
+    expect(audit[0]?.model).toBeNull();
+    expect(audit[1]?.target).toEqual({
+      collection: "actions",
+      id: "a2",
+      label: null,
+    });
+    expect(audit[2]?.target.label).toBe("Walk");
+
+    expect(getExceptionAudit(state, { modelId: "m1" })).toMatchObject([
+      {
+        model: { id: "m1" },
+        target: { collection: "episodes", id: "e1", label: "Try naps" },
+      },
+    ]);
+    expect(
+      getExceptionAudit(state, {
+        modelId: "m2",
+        from: "2025-01-26T00:00:00.000Z",
+        to: "2025-01-27T00:00:00.000Z",
+      }).map((entry) => [entry.exception.id, entry.target.collection]),
+    ).toEqual([
+      ["x4", "variables"],
+      ["x3", "actions"],
+    ]);
+  });
+
+  it("flags Models excepted at least weekly for demotion", () => {
+    const rates = getExceptionRates(
+      createAuditState(),
+      "2025-02-01T00:00:00.000Z",
+    );
+
+    expect(rates).toEqual([
+      {
+        model: expect.objectContaining({ id: "m2" }),
+        warnAcknowledgments: 4,
+        blockOverrides: 0,
+        perWeek: 1,
+        flagged: true,
+        demoteTo: "none",
+      },
+      {
+        model: expect.objectContaining({ id: "m1" }),
+        warnAcknowledgments: 0,
+        blockOverrides: 1,
+        perWeek: 0.25,
+        flagged: false,
+        demoteTo: null,
+      },
+    ]);
+    // Exceptions older than the window no longer count
+    expect(
+      getExceptionRates(createAuditState(), "2025-03-01T00:00:00.000Z"),
+    ).toEqual([]);
+  });
+});
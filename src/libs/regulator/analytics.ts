@@ -0,0 +1,308 @@
+// Outcome analytics for the Regulator organ
+// Pure functions that read status history, readings and closed Episodes; no transitions.
+
+import {
+  ACTION_STATUSES,
+  ENFORCEMENT_LEVELS,
+  EPISODE_STATUSES,
+  EPISODE_TYPES,
+  nodeRefEquals,
+  VARIABLE_STATUSES,
+} from "../memory/index.js";
+import type {
+  Episode,
+  NodeRef,
+  State,
+  Variable,
+  VariableStatus,
+} from "../memory/index.js";
+import type {
+  EpisodeEffectiveness,
+  ModelExceptionRate,
+  ProxyTrend,
+  StatusExcursion,
+  VariableStatusAnalytics,
+} from "./types.js";
+import {
+  getProxiesForVariable,
+  getRecentReadings,
+  getStatusHistory,
+  getVariablesByNode,
+} from "./selectors.js";
+
+const IN_RANGE_STATUS = VARIABLE_STATUSES[1];
+const CLOSED_STATUS = EPISODE_STATUSES[1];
+const STABILIZE_TYPE = EPISODE_TYPES[0];
+const ACTION_PENDING_STATUS = ACTION_STATUSES[0];
+const ACTION_DONE_STATUS = ACTION_STATUSES[1];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Days of exceptions that exception rates are measured over */
+export const EXCEPTION_RATE_WINDOW_DAYS = 28;
+
+/** Exceptions per week at which a norm is flagged for revision */
+export const EXCEPTION_RATE_FLAG_PER_WEEK = 1;
+
+/** Calendar quarter (UTC) of an ISO timestamp, e.g. "2025-Q1" */
+function quarterOf(time: string): string {
+  const date = new Date(time);
+  return `${date.getUTCFullYear()}-Q${Math.floor(date.getUTCMonth() / 3) + 1}`;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.max(0, Date.parse(to) - Date.parse(from)) / MS_PER_DAY;
+}
+
+function isOutOfRange(status: VariableStatus): status is "Low" | "High" {
+  return status === VARIABLE_STATUSES[0] || status === VARIABLE_STATUSES[2];
+}
+
+/**
+ * Summarises how each Variable of a node has moved between statuses.
+ *
+ * **Intent:** Answer "how long was Sleep Low this quarter?" and "how fast do
+ * I get back to InRange?" from the recorded history instead of memory.
+ *
+ * **Contract:**
+ * - Reads State.statusChanges; time before a Variable's first recorded change
+ *   is not counted, and its current status runs up to `now`
+ * - An excursion starts on a change to Low or High from InRange or Unknown
+ *   and ends on the next change to InRange; Low → High stays one excursion
+ * - meanDaysToInRange averages the excursions that ended
+ * - excursionsPerQuarter counts excursions by the UTC quarter they started in
+ * - Returns: one VariableStatusAnalytics per Variable of the node, in State order
+ * - Pure function: `now` is an ISO-8601 timestamp supplied by the caller
+ */
+export function getStatusAnalytics(
+  state: State,
+  node: NodeRef,
+  now: string,
+): VariableStatusAnalytics[] {
+  return getVariablesByNode(state, node).map((variable) => {
+    const history = getStatusHistory(state, variable.id);
+    const daysInStatus = Object.fromEntries(
+      VARIABLE_STATUSES.map((status) => [status, 0]),
+    ) as Record<VariableStatus, number>;
+    const excursions: StatusExcursion[] = [];
+    let open: StatusExcursion | null = null;
+
+    for (const [index, change] of history.entries()) {
+      const until = history[index + 1]?.at ?? now;
+      daysInStatus[change.to] += daysBetween(change.at, until);
+
+      if (open && change.to === IN_RANGE_STATUS) {
+        open.endedAt = change.at;
+        open.days = daysBetween(open.startedAt, change.at);
+        open = null;
+      } else if (!open && isOutOfRange(change.to)) {
+        open = {
+          status: change.to,
+          startedAt: change.at,
+          endedAt: null,
+          days: 0,
+        };
+        excursions.push(open);
+      }
+    }
+    if (open) {
+      open.days = daysBetween(open.startedAt, now);
+    }
+
+    const ended = excursions.filter((e) => e.endedAt !== null);
+    const excursionsPerQuarter: Record<string, number> = {};
+    for (const excursion of excursions) {
+      const quarter = quarterOf(excursion.startedAt);
+      excursionsPerQuarter[quarter] = (excursionsPerQuarter[quarter] ?? 0) + 1;
+    }
+
+    return {
+      variable,
+      trackedSince: history[0]?.at ?? null,
+      daysInStatus,
+      excursions,
+      meanDaysToInRange:
+        ended.length > 0
+          ? ended.reduce((sum, e) => sum + e.days, 0) / ended.length
+          : null,
+      excursionsPerQuarter,
+    };
+  });
+}
+
+/**
+ * A Variable's status at a moment, read from its history: the latest change
+ * at or before `at`, else the status the first later change moved away from.
+ * Without history the status has not changed, so it is the current one.
+ */
+function getStatusAt(
+  state: State,
+  variable: Variable,
+  at: string,
+): VariableStatus {
+  const history = getStatusHistory(state, variable.id);
+  const time = Date.parse(at);
+  const before = history.filter((c) => Date.parse(c.at) <= time).at(-1);
+  if (before) return before.to;
+  return history[0]?.from ?? variable.status;
+}
+
+function getProxyTrends(
+  state: State,
+  variableId: string,
+  openedAt: string,
+  closedAt: string,
+): ProxyTrend[] {
+  const from = Date.parse(openedAt);
+  const to = Date.parse(closedAt);
+  return getProxiesForVariable(state, variableId).map((proxy) => {
+    const readings = getRecentReadings(state, proxy.id)
+      .filter((r) => {
+        const time = Date.parse(r.recordedAt);
+        return time >= from && time <= to;
+      })
+      .reverse();
+    const first = readings[0]?.value;
+    const last = readings.at(-1)?.value;
+    const change =
+      readings.length >= 2 &&
+      first?.type === "numeric" &&
+      last?.type === "numeric"
+        ? last.value - first.value
+        : null;
+    return { proxy, readings, change };
+  });
+}
+
+/**
+ * Reports how a closed Stabilize Episode left its Variable.
+ *
+ * **Intent:** Learn which interventions actually restore homeostasis by
+ * comparing the Variable before and after, and what was done in between.
+ *
+ * **Contract:**
+ * - Returns: null unless the Episode is a closed Stabilize Episode
+ * - statusAtOpen/statusAtClose come from State.statusChanges (a closure's
+ *   variable update counts at closedAt); restored means opened out of range
+ *   (Low, High or Unknown) and closed InRange
+ * - Trends cover each Proxy of the Variable, using readings recorded from
+ *   openedAt to closedAt inclusive
+ * - Actions count those scoped to the Episode, Done vs still Pending
+ * - Pure function
+ */
+export function getEpisodeEffectiveness(
+  state: State,
+  episode: Episode,
+): EpisodeEffectiveness | null {
+  const { closedAt, variableId } = episode;
+  if (
+    episode.type !== STABILIZE_TYPE ||
+    episode.status !== CLOSED_STATUS ||
+    !closedAt ||
+    !variableId
+  ) {
+    return null;
+  }
+
+  const variable = state.variables.find((v) => v.id === variableId) ?? null;
+  const statusAtOpen = variable
+    ? getStatusAt(state, variable, episode.openedAt)
+    : null;
+  const statusAtClose = variable
+    ? getStatusAt(state, variable, closedAt)
+    : null;
+  const actions = state.actions.filter((a) => a.episodeId === episode.id);
+  const durationDays = daysBetween(episode.openedAt, closedAt);
+  const timeboxDays = episode.timeboxDays ?? null;
+
+  return {
+    episode,
+    variable,
+    statusAtOpen,
+    statusAtClose,
+    restored:
+      statusAtOpen !== null &&
+      statusAtOpen !== IN_RANGE_STATUS &&
+      statusAtClose === IN_RANGE_STATUS,
+    trends: getProxyTrends(state, variableId, episode.openedAt, closedAt),
+    actionsDone: actions.filter((a) => a.status === ACTION_DONE_STATUS).length,
+    actionsPending: actions.filter((a) => a.status === ACTION_PENDING_STATUS)
+      .length,
+    durationDays,
+    timeboxDays,
+    withinTimebox: timeboxDays === null ? null : durationDays <= timeboxDays,
+  };
+}
+
+/**
+ * Reports every closed Stabilize Episode of a node, most recently closed first.
+ * See getEpisodeEffectiveness for what each entry holds.
+ */
+export function getEpisodeEffectivenessReport(
+  state: State,
+  node: NodeRef,
+): EpisodeEffectiveness[] {
+  return state.episodes
+    .filter((e) => nodeRefEquals(e.node, node))
+    .map((e) => getEpisodeEffectiveness(state, e))
+    .filter((report): report is EpisodeEffectiveness => report !== null)
+    .sort(
+      (a, b) =>
+        Date.parse(b.episode.closedAt ?? "") -
+        Date.parse(a.episode.closedAt ?? ""),
+    );
+}
+
+/**
+ * Measures how often each Normative Model was excepted recently.
+ *
+ * **Intent:** A norm that is acknowledged or overridden every week is not
+ * regulating anything; surface it so it gets revised or demoted with
+ * `updateModel`.
+ *
+ * **Contract:**
+ * - Counts exceptions created in the EXCEPTION_RATE_WINDOW_DAYS up to `now`;
+ *   allowed mutations are not recorded, so the rate is per week, not per check
+ * - flagged at EXCEPTION_RATE_FLAG_PER_WEEK or more, unless enforcement is
+ *   already none; demoteTo is one enforcement level down
+ * - Returns: Models with at least one exception in the window, most excepted
+ *   first; exceptions against deleted Models are skipped
+ * - Pure function: `now` is an ISO-8601 timestamp supplied by the caller
+ */
+export function getExceptionRates(
+  state: State,
+  now: string,
+): ModelExceptionRate[] {
+  const end = Date.parse(now);
+  const start = end - EXCEPTION_RATE_WINDOW_DAYS * MS_PER_DAY;
+  const recent = state.exceptions.filter((x) => {
+    const at = Date.parse(x.createdAt);
+    return at > start && at <= end;
+  });
+
+  return state.models
+    .map((model): ModelExceptionRate => {
+      const excepted = recent.filter((x) => x.modelId === model.id);
+      const perWeek = excepted.length / (EXCEPTION_RATE_WINDOW_DAYS / 7);
+      const level = ENFORCEMENT_LEVELS.indexOf(model.enforcement ?? "none");
+      const flagged = perWeek >= EXCEPTION_RATE_FLAG_PER_WEEK && level > 0;
+      return {
+        model,
+        warnAcknowledgments: excepted.filter(
+          (x) => x.originalDecision === "warn",
+        ).length,
+        blockOverrides: excepted.filter((x) => x.originalDecision === "block")
+          .length,
+        perWeek,
+        flagged,
+        demoteTo: flagged ? (ENFORCEMENT_LEVELS[level - 1] ?? null) : null,
+      };
+    })
+    .filter((rate) => rate.warnAcknowledgments + rate.blockOverrides > 0)
+    .sort(
+      (a, b) =>
+        b.warnAcknowledgments +
+        b.blockOverrides -
+        (a.warnAcknowledgments + a.blockOverrides),
+    );
+}
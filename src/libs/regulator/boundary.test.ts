@@ -65,6 +65,7 @@ function createEmptyState(): State {
     exceptions: [],
     proxies: [],
     proxyReadings: [],
+    statusChanges: [],
   };
 }
 
@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from "vitest";
 import { Regulator } from "./engine.js";
 import type { Logger } from "../shared/index.js";
 import { DEFAULT_REGULATOR_POLICY } from "./policy.js";
+import type { RegulatorMutation } from "./types.js";
 import {
   DEFAULT_PERSONAL_NODE,
   DEFAULT_ORG_NODE,
@@ -11,6 +12,7 @@ import {
   MODEL_TYPES,
   MODEL_SCOPES,
   SCHEMA_VERSION,
+  createEmptyState,
 } from "../memory/index.js";
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
@@ -44,6 +46,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -66,6 +69,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -102,6 +106,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulatorDefault = new Regulator();
@@ -123,6 +128,67 @@ describe("Regulator (Class Integration)", () => {
     });
   });
 
+  describe("checkInvariants", () => {
+    const explore = (id: string) => ({
+      id,
+      node: DEFAULT_PERSONAL_NODE,
+      type: EPISODE_TYPES[1],
+      objective: `Explore ${id}`,
+      status: ACTIVE_STATUS,
+      openedAt: "2025-01-01T00:00:00.000Z",
+    });
+
+    it("returns no violations for a consistent State", () => {
+      const state: State = {
+        ...createEmptyState(),
+        episodes: [explore("e1"), { ...explore("e2"), status: CLOSED_STATUS }],
+      };
+
+      expect(new Regulator().checkInvariants(state)).toEqual([]);
+    });
+
+    it("reports active Episode limits and missing Stabilize variables", () => {
+      const stabilize = {
+        node: DEFAULT_PERSONAL_NODE,
+        type: EPISODE_TYPES[0],
+        variableId: "v1",
+        objective: "Rest",
+        status: ACTIVE_STATUS,
+        openedAt: "2025-01-01T00:00:00.000Z",
+      };
+      const state: State = {
+        ...createEmptyState(),
+        episodes: [
+          explore("e1"),
+          explore("e2"),
+          { ...stabilize, id: "s1" },
+          { ...stabilize, id: "s2" },
+        ],
+      };
+
+      const violations = new Regulator().checkInvariants(state);
+
+      expect(violations.map((v) => [v.rule, v.episodeIds])).toEqual([
+        ["maxActiveExplorePerNode", ["e1", "e2"]],
+        ["maxActiveStabilizePerVariable", ["s1", "s2"]],
+        ["stabilizeVariableExists", ["s1"]],
+        ["stabilizeVariableExists", ["s2"]],
+      ]);
+    });
+
+    it("applies the Regulator's policy", () => {
+      const state: State = {
+        ...createEmptyState(),
+        episodes: [explore("e1"), explore("e2")],
+      };
+      const regulator = new Regulator({
+        policy: { ...DEFAULT_REGULATOR_POLICY, maxActiveExplorePerNode: 2 },
+      });
+
+      expect(regulator.checkInvariants(state)).toEqual([]);
+    });
+  });
+
   describe("canAct", () => {
     it("returns Result correctly", () => {
       const state: State = {
@@ -145,6 +211,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -166,6 +233,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -202,6 +270,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator({ logger: mockLogger });
@@ -237,6 +306,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator({ logger: mockLogger });
@@ -277,6 +347,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -331,6 +402,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator({ logger: mockLogger });
@@ -370,6 +442,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       // Should not throw even without logger
@@ -405,6 +478,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -446,6 +520,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator({ logger: mockLogger });
@@ -480,6 +555,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator({ logger: mockLogger });
@@ -519,6 +595,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -582,6 +659,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -631,6 +709,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -690,6 +769,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -727,6 +807,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.createProxy(state, {
@@ -768,6 +849,7 @@ describe("Regulator (Class Integration)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -803,6 +885,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.updateProxy(state, {
@@ -842,6 +925,7 @@ describe("Regulator (Class Integration)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -876,6 +960,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.deleteProxy(state, {
@@ -914,6 +999,7 @@ describe("Regulator (Class Integration)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -951,6 +1037,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.logProxyReading(state, {
@@ -992,6 +1079,7 @@ describe("Regulator (Class Integration)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1027,6 +1115,7 @@ describe("Regulator (Class Integration)", () => {
             recordedAt: "2025-01-01T00:00:00.000Z",
           },
         ],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1059,6 +1148,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1095,6 +1185,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.signal(state, {
@@ -1125,6 +1216,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1162,6 +1254,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.createVariable(state, {
@@ -1193,6 +1286,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1229,6 +1323,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.act(state, {
@@ -1265,6 +1360,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1299,6 +1395,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.completeAction(state, {
@@ -1327,6 +1424,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1363,6 +1461,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.createNote(state, {
@@ -1396,6 +1495,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1431,6 +1531,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.addNoteTag(state, {
@@ -1463,6 +1564,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1498,6 +1600,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.removeNoteTag(state, {
@@ -1537,6 +1640,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1572,6 +1676,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.addNoteLinkedObject(state, {
@@ -1604,6 +1709,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1639,6 +1745,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.updateNote(state, {
@@ -1651,6 +1758,57 @@ describe("Regulator (Class Integration)", () => {
     });
   });
 
+  describe("createModel and updateModel", () => {
+    it("creates and updates a model, journaling each", () => {
+      const journal = { record: vi.fn() };
+      const regulator = new Regulator({ journal });
+      const created = regulator.createModel(createEmptyState(), {
+        modelId: "m1",
+        type: "Normative",
+        statement: "No meetings before noon",
+        enforcement: "block",
+      });
+      expect(created.ok).toBe(true);
+      if (!created.ok) return;
+
+      const updated = regulator.updateModel(created.value, {
+        modelId: "m1",
+        enforcement: "warn",
+      });
+
+      expect(updated.ok).toBe(true);
+      if (updated.ok) {
+        expect(updated.value.models).toEqual([
+          {
+            id: "m1",
+            type: "Normative",
+            statement: "No meetings before noon",
+            enforcement: "warn",
+          },
+        ]);
+      }
+      expect(journal.record.mock.calls.map(([, m]) => m.kind)).toEqual([
+        "createModel",
+        "updateModel",
+      ]);
+    });
+
+    it("logs warning when the model does not exist", () => {
+      const mockWarn = vi.fn();
+      const regulator = new Regulator({
+        logger: { info: vi.fn(), warn: mockWarn, error: vi.fn() },
+      });
+
+      const result = regulator.updateModel(createEmptyState(), {
+        modelId: "missing",
+        enforcement: "none",
+      });
+
+      expect(result.ok).toBe(false);
+      expect(mockWarn).toHaveBeenCalled();
+    });
+  });
+
   // =========================================================================
   // LOG EXCEPTION
   // =========================================================================
@@ -1674,6 +1832,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1714,6 +1873,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.logException(state, {
@@ -1757,6 +1917,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1792,6 +1953,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1827,6 +1989,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.updateEpisode(state, {
@@ -1865,6 +2028,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1904,6 +2068,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.closeEpisode(state, {
@@ -1937,6 +2102,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1965,6 +2131,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const regulator = new Regulator();
@@ -1977,6 +2144,96 @@ describe("Regulator (Class Integration)", () => {
   // INVALID POLICY FALLBACK
   // =========================================================================
 
+  describe("batch", () => {
+    const openedAt = "2025-01-01T00:00:00.000Z";
+    const operations: RegulatorMutation[] = [
+      {
+        kind: "createVariable",
+        params: {
+          variableId: "v1",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Sleep",
+          status: VARIABLE_STATUSES[0],
+        },
+      },
+      ...["Hours", "Bedtime", "Wake-ups"].map(
+        (name, i): RegulatorMutation => ({
+          kind: "createProxy",
+          params: {
+            proxyId: `p${i + 1}`,
+            variableId: "v1",
+            name,
+            valueType: "numeric",
+          },
+        }),
+      ),
+      {
+        kind: "openEpisode",
+        params: {
+          episodeId: "e1",
+          node: DEFAULT_PERSONAL_NODE,
+          type: EPISODE_TYPES[0],
+          variableId: "v1",
+          objective: "Sleep by 23:00",
+          openedAt,
+        },
+      },
+    ];
+
+    it("applies every operation in order", () => {
+      const regulator = new Regulator();
+
+      const result = regulator.batch(createEmptyState(), operations);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.variables.map((v) => v.id)).toEqual(["v1"]);
+        expect(result.value.proxies.map((p) => p.id)).toEqual([
+          "p1",
+          "p2",
+          "p3",
+        ]);
+        expect(result.value.episodes[0]?.variableId).toBe("v1");
+      }
+    });
+
+    it("stops at the first failing operation and changes nothing", () => {
+      const regulator = new Regulator();
+      const state = createEmptyState();
+      const failing: RegulatorMutation[] = [
+        ...operations.slice(0, 4),
+        {
+          kind: "createProxy",
+          params: {
+            proxyId: "p4",
+            variableId: "missing",
+            name: "Naps",
+            valueType: "numeric",
+          },
+        },
+        ...operations.slice(4),
+      ];
+
+      const result = regulator.batch(state, failing);
+
+      expect(result).toEqual({
+        ok: false,
+        index: 4,
+        error: expect.stringContaining("missing"),
+      });
+      expect(state).toEqual(createEmptyState());
+    });
+
+    it("returns the State unchanged for an empty batch", () => {
+      const state = createEmptyState();
+
+      expect(new Regulator().batch(state, [])).toEqual({
+        ok: true,
+        value: state,
+      });
+    });
+  });
+
   describe("invalid policy fallback", () => {
     it("falls back to default policy when invalid policy provided", () => {
       const mockWarn = vi.fn();
@@ -2010,6 +2267,7 @@ describe("Regulator (Class Integration)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = regulator.canStartExplore(state, DEFAULT_PERSONAL_NODE);
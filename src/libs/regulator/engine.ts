@@ -11,20 +11,36 @@ import type {
 import type {
   AddNoteLinkedObjectParams,
   AddNoteTagParams,
+  ArchiveEntityParams,
+  BatchResult,
+  BlockActionParams,
+  CancelActionParams,
   CloseEpisodeParams,
   CompleteActionParams,
   CreateActionParams,
+  CreateModelParams,
   CreateNoteParams,
   CreateProxyParams,
   CreateVariableParams,
+  DeleteEntityParams,
   DeleteProxyParams,
+  InvariantViolation,
   LogExceptionParams,
   LogProxyReadingParams,
+  MutationJournal,
+  RegulatorMutation,
   RemoveNoteTagParams,
+  ReorderActionsParams,
   Result,
+  RevertParams,
+  ReviewModelParams,
   OpenEpisodeParams,
   SignalParams,
+  UnarchiveEntityParams,
+  UnblockActionParams,
+  UpdateActionParams,
   UpdateEpisodeParams,
+  UpdateModelParams,
   UpdateNoteParams,
   UpdateProxyParams,
 } from "./types.js";
@@ -36,6 +52,7 @@ import {
   getRegulatorPolicyForNode,
   validateRegulatorPolicy,
 } from "./policy.js";
+import * as crypto from "node:crypto";
 import { silentLogger } from "../shared/index.js";
 import type { Logger } from "../shared/index.js";
 
@@ -49,13 +66,22 @@ import type { Logger } from "../shared/index.js";
  * - All mutations return new State objects (immutable)
  * - Failed operations return Result<T> with error details
  * - Logging is optional and silent by default (cybernetic quiet baseline)
+ * - Successful mutations are reported to the optional journal (e.g., a JsonStore)
  */
 export class Regulator {
   private logger: Logger;
   private policy: RegulatorPolicy;
+  private journal: MutationJournal | undefined;
+  /** Mutations held back from the journal while a batch is applied (null outside one) */
+  private deferred: Parameters<MutationJournal["record"]>[] | null = null;
 
-  constructor(options?: { logger?: Logger; policy?: RegulatorPolicy }) {
+  constructor(options?: {
+    logger?: Logger;
+    policy?: RegulatorPolicy;
+    journal?: MutationJournal;
+  }) {
     this.logger = options?.logger ?? silentLogger;
+    this.journal = options?.journal;
     const policy = options?.policy ?? DEFAULT_REGULATOR_POLICY;
     const validated = validateRegulatorPolicy(policy);
     if (validated.ok) {
@@ -76,10 +102,15 @@ export class Regulator {
   }
 
   /**
-   * Gets all variables for a specific node.
+   * Gets all variables for a specific node, leaving out archived ones
+   * unless `includeArchived` is set.
    */
-  getVariables(state: State, node: NodeRef): Variable[] {
-    return selectors.getVariablesByNode(state, node);
+  getVariables(
+    state: State,
+    node: NodeRef,
+    filter?: selectors.ArchiveFilter,
+  ): Variable[] {
+    return selectors.getVariablesByNode(state, node, filter);
   }
 
   /**
@@ -94,6 +125,17 @@ export class Regulator {
     );
   }
 
+  /**
+   * Lists the invariants (active Episode limits, Stabilize → Variable) that
+   * the State breaks under this Regulator's policy.
+   * Use on State that did not come from Regulator mutations, e.g. a merge.
+   */
+  checkInvariants(state: State): InvariantViolation[] {
+    return logic.findInvariantViolations(state, (node) =>
+      getRegulatorPolicyForNode(this.policy, node),
+    );
+  }
+
   /**
    * Checks if an action can be created for a node.
    * If an Episode is referenced, it must exist and be Active.
@@ -109,7 +151,9 @@ export class Regulator {
    *
    * **Contract:**
    * - Returns: Result<State> with new state if successful
-   * - Validates: objective not empty, Explore constraint if applicable
+   * - Validates: objective not empty, Explore constraint if applicable,
+   *   previousEpisodeId (if given) exists on the same node
+   * - Lineage: a follow-up is recorded as a `derived_from` link to its previous episode
    * - Side effects: Logs episode creation (if logger provided)
    * - Error handling: Returns error in Result if constraints violated
    */
@@ -119,6 +163,7 @@ export class Regulator {
       params,
       getRegulatorPolicyForNode(this.policy, params.node),
     );
+    this.record(state, { kind: "openEpisode", params }, result);
     if (result.ok) {
       this.logger.info(
         `Episode opened: ${params.type} for ${params.node} - "${params.objective}"`,
@@ -139,10 +184,12 @@ export class Regulator {
    * - Returns: Result<State> with new state if successful
    * - Parameters: CloseEpisodeParams (episodeId, closedAt, optional closureNoteId, optional variableUpdates)
    * - Side effects: Logs episode closure (if logger provided)
-   * - Error handling: Returns error if episode not found or already closed
+   * - Error handling: Returns error if episode not found or already closed,
+   *   or it has open actions and `pendingActions` does not say what happens to them
    */
   closeEpisode(state: State, params: CloseEpisodeParams): Result<State> {
     const result = logic.closeEpisode(state, params);
+    this.record(state, { kind: "closeEpisode", params }, result);
     if (result.ok) {
       const updateCount = params.variableUpdates?.length ?? 0;
       this.logger.info(
@@ -167,6 +214,7 @@ export class Regulator {
    */
   updateEpisode(state: State, params: UpdateEpisodeParams): Result<State> {
     const result = logic.updateEpisode(state, params);
+    this.record(state, { kind: "updateEpisode", params }, result);
     if (result.ok) {
       const updates: string[] = [];
       if (params.objective !== undefined) {
@@ -188,7 +236,14 @@ export class Regulator {
    * Applies a signal to update a Variable status via the Regulator.
    */
   signal(state: State, params: SignalParams): Result<State> {
-    const result = logic.applySignal(state, params);
+    // Resolve audit defaults here so the journaled params replay identically
+    const resolved: SignalParams = {
+      ...params,
+      auditNoteId: params.auditNoteId ?? crypto.randomUUID(),
+      auditTimestamp: params.auditTimestamp ?? new Date().toISOString(),
+    };
+    const result = logic.applySignal(state, resolved);
+    this.record(state, { kind: "signal", params: resolved }, result);
     if (result.ok) {
       this.logger.info(
         `Signal applied: ${params.node.type}:${params.node.id} variable ${params.variableId} -> ${params.status}`,
@@ -211,6 +266,7 @@ export class Regulator {
    */
   createVariable(state: State, params: CreateVariableParams): Result<State> {
     const result = logic.createVariable(state, params);
+    this.record(state, { kind: "createVariable", params }, result);
     if (result.ok) {
       this.logger.info(
         `Variable created: ${params.name} on ${params.node.type}:${params.node.id}`,
@@ -227,6 +283,7 @@ export class Regulator {
   //TODO: Go through sensorium first
   act(state: State, params: CreateActionParams): Result<State> {
     const result = logic.createAction(state, params);
+    this.record(state, { kind: "createAction", params }, result);
     if (result.ok) {
       this.logger.info(
         `Action created: ${params.node.type}:${params.node.id}${params.episodeId ? ` episode ${params.episodeId}` : ""}`,
@@ -249,6 +306,7 @@ export class Regulator {
    */
   completeAction(state: State, params: CompleteActionParams): Result<State> {
     const result = logic.completeAction(state, params);
+    this.record(state, { kind: "completeAction", params }, result);
     if (result.ok) {
       this.logger.info(`Action completed: ${params.actionId}`);
     } else {
@@ -257,6 +315,102 @@ export class Regulator {
     return result;
   }
 
+  /**
+   * Cancels an Action that will not be done.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the action Cancelled and its reason recorded
+   * - Error handling: Returns error if action not found, already Done or
+   *   Cancelled, or the reason is empty
+   */
+  cancelAction(state: State, params: CancelActionParams): Result<State> {
+    const result = logic.cancelAction(state, params);
+    this.record(state, { kind: "cancelAction", params }, result);
+    if (result.ok) {
+      this.logger.info(`Action cancelled: ${params.actionId}`);
+    } else {
+      this.logger.warn(`Action cancellation failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Blocks an Action on another object.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the action Blocked and a `blocks` Link added
+   * - Error handling: Returns error if action is not open or the blocker
+   *   does not exist
+   */
+  blockAction(state: State, params: BlockActionParams): Result<State> {
+    const result = logic.blockAction(state, params);
+    this.record(state, { kind: "blockAction", params }, result);
+    if (result.ok) {
+      this.logger.info(
+        `Action blocked: ${params.actionId} (by ${params.blockedBy})`,
+      );
+    } else {
+      this.logger.warn(`Action block failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Unblocks a Blocked Action, returning it to Pending.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the action Pending and its `blocks` Links removed
+   * - Error handling: Returns error if action not found or not Blocked
+   */
+  unblockAction(state: State, params: UnblockActionParams): Result<State> {
+    const result = logic.unblockAction(state, params);
+    this.record(state, { kind: "unblockAction", params }, result);
+    if (result.ok) {
+      this.logger.info(`Action unblocked: ${params.actionId}`);
+    } else {
+      this.logger.warn(`Action unblock failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Updates an open Action's description or due date.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the action updated
+   * - Error handling: Returns error if action is Done or Cancelled, or the
+   *   due date is not YYYY-MM-DD
+   */
+  updateAction(state: State, params: UpdateActionParams): Result<State> {
+    const result = logic.updateAction(state, params);
+    this.record(state, { kind: "updateAction", params }, result);
+    if (result.ok) {
+      this.logger.info(`Action updated: ${params.actionId}`);
+    } else {
+      this.logger.warn(`Action update failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Reorders the Actions of an Episode.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with each action's order set to its position
+   * - Error handling: Returns error unless `actionIds` lists every action of
+   *   the episode exactly once
+   */
+  reorderActions(state: State, params: ReorderActionsParams): Result<State> {
+    const result = logic.reorderActions(state, params);
+    this.record(state, { kind: "reorderActions", params }, result);
+    if (result.ok) {
+      this.logger.info(`Actions reordered: ${params.episodeId}`);
+    } else {
+      this.logger.warn(`Action reorder failed: ${result.error}`);
+    }
+    return result;
+  }
+
   /**
    * Creates a new note.
    *
@@ -270,6 +424,7 @@ export class Regulator {
    */
   createNote(state: State, params: CreateNoteParams): Result<State> {
     const result = logic.createNote(state, params);
+    this.record(state, { kind: "createNote", params }, result);
     if (result.ok) {
       this.logger.info(`Note created: ${params.noteId}`);
     } else {
@@ -290,6 +445,7 @@ export class Regulator {
    */
   addNoteTag(state: State, params: AddNoteTagParams): Result<State> {
     const result = logic.addNoteTag(state, params);
+    this.record(state, { kind: "addNoteTag", params }, result);
     if (result.ok) {
       this.logger.info(`Tag '${params.tag}' added to note ${params.noteId}`);
     } else {
@@ -310,6 +466,7 @@ export class Regulator {
    */
   removeNoteTag(state: State, params: RemoveNoteTagParams): Result<State> {
     const result = logic.removeNoteTag(state, params);
+    this.record(state, { kind: "removeNoteTag", params }, result);
     if (result.ok) {
       this.logger.info(
         `Tag '${params.tag}' removed from note ${params.noteId}`,
@@ -336,6 +493,7 @@ export class Regulator {
     params: AddNoteLinkedObjectParams,
   ): Result<State> {
     const result = logic.addNoteLinkedObject(state, params);
+    this.record(state, { kind: "addNoteLinkedObject", params }, result);
     if (result.ok) {
       this.logger.info(
         `Object '${params.objectId}' linked to note ${params.noteId}`,
@@ -357,6 +515,7 @@ export class Regulator {
    */
   updateNote(state: State, params: UpdateNoteParams): Result<State> {
     const result = logic.updateNote(state, params);
+    this.record(state, { kind: "updateNote", params }, result);
     if (result.ok) {
       this.logger.info(`Note updated: ${params.noteId}`);
     } else {
@@ -378,6 +537,7 @@ export class Regulator {
    */
   logException(state: State, params: LogExceptionParams): Result<State> {
     const result = logic.logException(state, params);
+    this.record(state, { kind: "logException", params }, result);
     if (result.ok) {
       this.logger.info(
         `Exception logged: ${params.originalDecision} override for model ${params.modelId}`,
@@ -404,6 +564,7 @@ export class Regulator {
    */
   createProxy(state: State, params: CreateProxyParams): Result<State> {
     const result = logic.createProxy(state, params);
+    this.record(state, { kind: "createProxy", params }, result);
     if (result.ok) {
       this.logger.info(
         `Proxy created: ${params.name} for variable ${params.variableId}`,
@@ -426,6 +587,7 @@ export class Regulator {
    */
   updateProxy(state: State, params: UpdateProxyParams): Result<State> {
     const result = logic.updateProxy(state, params);
+    this.record(state, { kind: "updateProxy", params }, result);
     if (result.ok) {
       this.logger.info(`Proxy updated: ${params.proxyId}`);
     } else {
@@ -446,6 +608,7 @@ export class Regulator {
    */
   deleteProxy(state: State, params: DeleteProxyParams): Result<State> {
     const result = logic.deleteProxy(state, params);
+    this.record(state, { kind: "deleteProxy", params }, result);
     if (result.ok) {
       this.logger.info(`Proxy deleted: ${params.proxyId}`);
     } else {
@@ -466,6 +629,7 @@ export class Regulator {
    */
   logProxyReading(state: State, params: LogProxyReadingParams): Result<State> {
     const result = logic.logProxyReading(state, params);
+    this.record(state, { kind: "logProxyReading", params }, result);
     if (result.ok) {
       this.logger.info(`Reading logged for proxy: ${params.proxyId}`);
     } else {
@@ -474,6 +638,215 @@ export class Regulator {
     return result;
   }
 
+  // ═══════════════════════════════════════════════════════════════════════════
+  // MODEL OPERATIONS
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Creates a new Model (explicit belief).
+   *
+   * **Intent:** Record a belief outside an Episode closure, e.g. a norm the
+   * Membrane should enforce.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the Model appended
+   * - Validates: modelId is unique, the fields are valid, a condition's
+   *   Variable exists
+   * - Error handling: Returns error if validation fails
+   */
+  createModel(state: State, params: CreateModelParams): Result<State> {
+    const result = logic.createModel(state, params);
+    this.record(state, { kind: "createModel", params }, result);
+    if (result.ok) {
+      this.logger.info(`Model created: ${params.modelId} (${params.type})`);
+    } else {
+      this.logger.warn(`Model creation failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Updates an existing Model; only the given fields change.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the Model updated
+   * - Validates: modelId exists, the updated fields are valid
+   * - Error handling: Returns error if validation fails
+   */
+  updateModel(state: State, params: UpdateModelParams): Result<State> {
+    const result = logic.updateModel(state, params);
+    this.record(state, { kind: "updateModel", params }, result);
+    if (result.ok) {
+      this.logger.info(`Model updated: ${params.modelId}`);
+    } else {
+      this.logger.warn(`Model update failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════════
+  // ARCHIVAL AND DELETION
+  // ═══════════════════════════════════════════════════════════════════════════
+
+  /**
+   * Renews, re-enforces or retires a Normative Model due for review.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the Model updated and an audit Note
+   * - Error handling: Returns error if the Model is not an unarchived
+   *   Normative Model, or a kept Model would still be due for review
+   */
+  reviewModel(state: State, params: ReviewModelParams): Result<State> {
+    const result = logic.reviewModel(state, params);
+    this.record(state, { kind: "reviewModel", params }, result);
+    if (result.ok) {
+      this.logger.info(
+        `Model reviewed: ${params.modelId} (${params.decision.outcome})`,
+      );
+    } else {
+      this.logger.warn(`Model review failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Archives a Variable, Episode, Action, Note or Model.
+   *
+   * **Intent:** Hide what is finished with from everyday views without
+   * losing it or anything that refers to it.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the entity's archivedAt set
+   * - Validates: Episodes must be Closed, Actions Done or Cancelled,
+   *   Variables without an active Episode
+   * - Error handling: Returns error if not found, already archived or still open
+   */
+  archiveEntity(state: State, params: ArchiveEntityParams): Result<State> {
+    const result = logic.archiveEntity(state, params);
+    this.record(state, { kind: "archiveEntity", params }, result);
+    if (result.ok) {
+      this.logger.info(`Archived: ${params.collection} ${params.id}`);
+    } else {
+      this.logger.warn(`Archive failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Brings an archived entity back into view.
+   */
+  unarchiveEntity(state: State, params: UnarchiveEntityParams): Result<State> {
+    const result = logic.unarchiveEntity(state, params);
+    this.record(state, { kind: "unarchiveEntity", params }, result);
+    if (result.ok) {
+      this.logger.info(`Unarchived: ${params.collection} ${params.id}`);
+    } else {
+      this.logger.warn(`Unarchive failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Deletes a Variable, Episode, Action, Note or Model for good.
+   *
+   * **Contract:**
+   * - Returns: Result<State> without the entity; Links, Note linkedObjects
+   *   and a Variable's Proxies, readings and status changes go with it
+   * - Error handling: Returns error listing every other reference that
+   *   blocks the deletion (see getDeletionBlockers)
+   */
+  deleteEntity(state: State, params: DeleteEntityParams): Result<State> {
+    const result = logic.deleteEntity(state, params);
+    this.record(state, { kind: "deleteEntity", params }, result);
+    if (result.ok) {
+      this.logger.info(`Deleted: ${params.collection} ${params.id}`);
+    } else {
+      this.logger.warn(`Deletion failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Undoes or redoes one journaled mutation (see `planRevert`).
+   *
+   * **Intent:** Take back a mistaken signal or completion as a new,
+   * compensating change; the history keeps both.
+   *
+   * **Contract:**
+   * - Returns: Result<State> with the reverted entities put back
+   * - Validates: nothing the revert touches has changed since, and the
+   *   result keeps this Regulator's invariants (e.g. undoing a closure
+   *   cannot reopen an Explore episode beyond maxActiveExplorePerNode)
+   * - Error handling: Returns error if either check fails
+   */
+  revert(state: State, params: RevertParams): Result<State> {
+    const result = logic.revert(state, params, (node) =>
+      getRegulatorPolicyForNode(this.policy, node),
+    );
+    this.record(state, { kind: "revert", params }, result);
+    const verb = params.direction === "undo" ? "Undid" : "Redid";
+    if (result.ok) {
+      this.logger.info(`${verb} ${params.mutationKind}`);
+    } else {
+      this.logger.warn(`Revert failed: ${result.error}`);
+    }
+    return result;
+  }
+
+  /**
+   * Applies several mutations as one.
+   *
+   * **Intent:** Let callers make a multi-step change (e.g. create a Variable,
+   * add its Proxies and open a Stabilize episode) that either happens
+   * completely or not at all, and is undone as one change.
+   *
+   * **Contract:**
+   * - Parameters: operations as `{ kind, params }` (RegulatorMutation), applied
+   *   in order, each through the same method (and checks) as a single call
+   * - Returns: BatchResult with the State after the last operation, or the
+   *   index and error of the first operation that failed
+   * - Stops at the first failure; the input State is never modified
+   * - Side effects: only if the whole batch succeeds, journals one `batch`
+   *   mutation holding the operations as each method recorded them (a
+   *   batch that changed one thing journals just that mutation)
+   */
+  batch(state: State, operations: readonly RegulatorMutation[]): BatchResult {
+    const outer = this.deferred;
+    const deferred: Parameters<MutationJournal["record"]>[] = [];
+    this.deferred = deferred;
+    let current = state;
+    try {
+      for (const [index, operation] of operations.entries()) {
+        const result = this.dispatch(current, operation);
+        if (!result.ok) {
+          this.logger.warn(
+            `Batch failed at operation ${index} (${operation.kind}): ${result.error}`,
+          );
+          return { ok: false, error: result.error, index };
+        }
+        current = result.value;
+      }
+    } finally {
+      this.deferred = outer;
+    }
+
+    const [only] = deferred;
+    if (deferred.length === 1 && only) {
+      this.record(only[0], only[1], { ok: true, value: only[2] });
+    } else if (deferred.length > 1) {
+      this.record(
+        state,
+        {
+          kind: "batch",
+          params: { operations: deferred.map(([, mutation]) => mutation) },
+        },
+        { ok: true, value: current },
+      );
+    }
+    this.logger.info(`Batch applied: ${operations.length} operation(s)`);
+    return { ok: true, value: current };
+  }
+
   /**
    * Gets all proxies for a Variable.
    */
@@ -491,4 +864,116 @@ export class Regulator {
   ): ProxyReading[] {
     return selectors.getRecentReadings(state, proxyId, limit);
   }
+
+  /**
+   * Routes one batch operation to the method that applies that kind.
+   * Kinds without a method of their own go straight to the logic function.
+   */
+  private dispatch(state: State, operation: RegulatorMutation): Result<State> {
+    switch (operation.kind) {
+      case "openEpisode":
+        return this.openEpisode(state, operation.params);
+      case "closeEpisode":
+        return this.closeEpisode(state, operation.params);
+      case "updateEpisode":
+        return this.updateEpisode(state, operation.params);
+      case "signal":
+        return this.signal(state, operation.params);
+      case "createVariable":
+        return this.createVariable(state, operation.params);
+      case "createAction":
+        return this.act(state, operation.params);
+      case "completeAction":
+        return this.completeAction(state, operation.params);
+      case "cancelAction":
+        return this.cancelAction(state, operation.params);
+      case "blockAction":
+        return this.blockAction(state, operation.params);
+      case "unblockAction":
+        return this.unblockAction(state, operation.params);
+      case "updateAction":
+        return this.updateAction(state, operation.params);
+      case "reorderActions":
+        return this.reorderActions(state, operation.params);
+      case "createModel":
+        return this.createModel(state, operation.params);
+      case "updateModel":
+        return this.updateModel(state, operation.params);
+      case "reviewModel":
+        return this.reviewModel(state, operation.params);
+      case "createNote":
+        return this.createNote(state, operation.params);
+      case "updateNote":
+        return this.updateNote(state, operation.params);
+      case "addNoteTag":
+        return this.addNoteTag(state, operation.params);
+      case "removeNoteTag":
+        return this.removeNoteTag(state, operation.params);
+      case "addNoteLinkedObject":
+        return this.addNoteLinkedObject(state, operation.params);
+      case "createLink":
+        return this.applyRecorded(
+          state,
+          operation,
+          logic.createLink(state, operation.params),
+        );
+      case "deleteLink":
+        return this.applyRecorded(
+          state,
+          operation,
+          logic.deleteLink(state, operation.params),
+        );
+      case "logException":
+        return this.logException(state, operation.params);
+      case "createProxy":
+        return this.createProxy(state, operation.params);
+      case "updateProxy":
+        return this.updateProxy(state, operation.params);
+      case "deleteProxy":
+        return this.deleteProxy(state, operation.params);
+      case "logProxyReading":
+        return this.logProxyReading(state, operation.params);
+      case "archiveEntity":
+        return this.archiveEntity(state, operation.params);
+      case "unarchiveEntity":
+        return this.unarchiveEntity(state, operation.params);
+      case "deleteEntity":
+        return this.deleteEntity(state, operation.params);
+      case "revert":
+        return this.revert(state, operation.params);
+      case "batch":
+        return this.batch(state, operation.params.operations);
+    }
+  }
+
+  /**
+   * Records a mutation applied through a logic function directly.
+   */
+  private applyRecorded(
+    base: State,
+    mutation: RegulatorMutation,
+    result: Result<State>,
+  ): Result<State> {
+    this.record(base, mutation, result);
+    return result;
+  }
+
+  /**
+   * Reports a successful, state-changing mutation to the journal.
+   * No-ops (result identical to base) are not recorded.
+   * During a batch, mutations wait until the whole batch has applied.
+   */
+  private record(
+    base: State,
+    mutation: RegulatorMutation,
+    result: Result<State>,
+  ): void {
+    if (result.ok && result.value !== base) {
+      if (this.deferred) {
+        this.deferred.push([base, mutation, result.value]);
+      } else {
+        this.journal?.record(base, mutation, result.value);
+      }
+    }
+  }
 }
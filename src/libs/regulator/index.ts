@@ -25,5 +25,8 @@
 export * from "./types.js";
 export * from "./policy.js";
 export * from "./selectors.js";
+export * from "./analytics.js";
+export * from "./journal.js";
+export * from "./undo.js";
 export { Regulator } from "./engine.js";
 export type { Logger } from "../shared/index.js";
@@ -7,8 +7,35 @@
  * @module Regulator/Internal/Integrity
  */
 
-import type { State } from "../../memory/index.js";
-import type { Result } from "../types.js";
+import { ACTION_STATUSES } from "../../memory/index.js";
+import type {
+  ArchivableCollection,
+  LinkRelation,
+  State,
+} from "../../memory/index.js";
+import type { DeletionBlocker, Result } from "../types.js";
+
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
+const BLOCKS_RELATION: LinkRelation = "blocks";
+
+/** What one entity of each archivable collection is called in messages */
+const ENTITY_NOUNS: Record<ArchivableCollection, string> = {
+  variables: "Variable",
+  episodes: "Episode",
+  actions: "Action",
+  notes: "Note",
+  models: "Model",
+};
+
+/**
+ * Names an entity for messages, e.g. "Variable 'v1'".
+ */
+export function describeEntity(
+  collection: ArchivableCollection,
+  id: string,
+): string {
+  return `${ENTITY_NOUNS[collection]} '${id}'`;
+}
 
 /**
  * Collects all object IDs from the state for referential integrity checks.
@@ -122,3 +149,109 @@ export function checkNoDuplicateId<T extends { id: string }>(
   }
   return { ok: true, value: undefined };
 }
+
+/**
+ * Lists what would be left dangling if an entity were deleted.
+ *
+ * **Intent:** Deletion cascades only what cannot mean anything without the
+ * entity (Links, Note linkedObjects, a Variable's Proxies, readings and
+ * status history); every other reference must be dealt with first.
+ *
+ * **Contract:**
+ * - Variable: Episodes that regulate it, Models whose condition watches it,
+ *   exceptions recorded for creating or signalling it
+ * - Episode: its Actions, status changes its closure made, exceptions
+ *   recorded for it
+ * - Action: exceptions recorded for it
+ * - Note: Episodes it closed, exceptions recorded for it
+ * - Model: exceptions logged against it
+ * - Any entity: Blocked Actions it blocks
+ * - Returns: DeletionBlocker[] (empty when the entity can be deleted)
+ * - Pure function: does not mutate state
+ */
+export function findDeletionBlockers(
+  state: State,
+  collection: ArchivableCollection,
+  id: string,
+): DeletionBlocker[] {
+  const blockers: DeletionBlocker[] = [];
+
+  if (collection === "variables") {
+    for (const e of state.episodes.filter((e) => e.variableId === id)) {
+      blockers.push({
+        collection: "episodes",
+        id: e.id,
+        reason: `Episode '${e.id}' regulates it`,
+      });
+    }
+    for (const m of state.models.filter(
+      (m) => m.condition?.variable?.variableId === id,
+    )) {
+      blockers.push({
+        collection: "models",
+        id: m.id,
+        reason: `Model '${m.id}' has a condition on it`,
+      });
+    }
+  }
+  if (collection === "episodes") {
+    for (const a of state.actions.filter((a) => a.episodeId === id)) {
+      blockers.push({
+        collection: "actions",
+        id: a.id,
+        reason: `Action '${a.id}' belongs to it`,
+      });
+    }
+    for (const c of state.statusChanges.filter((c) => c.episodeId === id)) {
+      blockers.push({
+        collection: "statusChanges",
+        id: c.id,
+        reason: `Status change '${c.id}' was made by its closure`,
+      });
+    }
+  }
+  // Gated mutations record their result's id: an Episode, Action, Note, or
+  // the Variable that was created or signalled
+  for (const x of state.exceptions.filter((x) => x.mutationId === id)) {
+    blockers.push({
+      collection: "exceptions",
+      id: x.id,
+      reason: `Exception '${x.id}' records an override for it`,
+    });
+  }
+  if (collection === "notes") {
+    for (const e of state.episodes.filter((e) => e.closureNoteId === id)) {
+      blockers.push({
+        collection: "episodes",
+        id: e.id,
+        reason: `Episode '${e.id}' was closed with it`,
+      });
+    }
+  }
+  if (collection === "models") {
+    for (const x of state.exceptions.filter((x) => x.modelId === id)) {
+      blockers.push({
+        collection: "exceptions",
+        id: x.id,
+        reason: `Exception '${x.id}' was logged against it`,
+      });
+    }
+  }
+
+  const blocked = new Set(
+    state.links
+      .filter((l) => l.sourceId === id && l.relation === BLOCKS_RELATION)
+      .map((l) => l.targetId),
+  );
+  for (const a of state.actions) {
+    if (blocked.has(a.id) && a.status === ACTION_BLOCKED_STATUS) {
+      blockers.push({
+        collection: "actions",
+        id: a.id,
+        reason: `Action '${a.id}' is blocked by it`,
+      });
+    }
+  }
+
+  return blockers;
+}
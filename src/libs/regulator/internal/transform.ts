@@ -17,37 +17,58 @@ import type {
   Action,
   Episode,
   Link,
+  LinkRelation,
   Model,
   Note,
   Proxy,
   ProxyReading,
   State,
+  StatusChange,
   Variable,
   VariableStatus,
   MembraneException,
   NoteTag,
+  ArchivableCollection,
+  StateCollection,
 } from "../../memory/index.js";
 import type {
+  ArchiveEntityParams,
+  BlockActionParams,
   CreateActionParams,
   CreateLinkParams,
   CreateModelParams,
   CreateNoteParams,
   CreateProxyParams,
   CreateVariableParams,
+  DeleteEntityParams,
+  EntityRevert,
   LogExceptionParams,
   LogProxyReadingParams,
   ModelUpdate,
   OpenEpisodeParams,
+  PendingActionDisposition,
+  ReviewModelParams,
+  StateEntity,
+  UnarchiveEntityParams,
+  UpdateActionParams,
   VariableUpdate,
 } from "../types.js";
+import { PENDING_ACTION_DISPOSITIONS } from "../types.js";
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
 const CLOSED_STATUS = EPISODE_STATUSES[1];
 const STABILIZE_TYPE = EPISODE_TYPES[0];
 const ACTION_PENDING_STATUS = ACTION_STATUSES[0];
 const ACTION_DONE_STATUS = ACTION_STATUSES[1];
+const ACTION_CANCELLED_STATUS = ACTION_STATUSES[2];
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
+const BLOCKS_RELATION: LinkRelation = "blocks";
+const DERIVED_FROM_RELATION: LinkRelation = "derived_from";
+const CARRY_OVER = PENDING_ACTION_DISPOSITIONS[0];
+const CANCEL = PENDING_ACTION_DISPOSITIONS[1];
 
 const CLOSURE_NOTE_TAG: NoteTag = "closure_note";
+const AUDIT_NOTE_TAG: NoteTag = "audit";
 
 // ═══════════════════════════════════════════════════════════════════════════
 // VARIABLE TRANSFORMS
@@ -70,6 +91,53 @@ export function applyVariableUpdates(
   });
 }
 
+/**
+ * Records the status changes an Episode closure makes.
+ * Updates that leave a Variable's status as it was are not changes.
+ * Ids derive from the closure note so replaying the closure yields the same history.
+ */
+export function closureStatusChanges(
+  variables: Variable[],
+  updates: VariableUpdate[] | undefined,
+  episodeId: string,
+  closedAt: string,
+  closureNoteId: string,
+): StatusChange[] {
+  const changes: StatusChange[] = [];
+  for (const variable of variables) {
+    const update = updates?.find((u) => u.id === variable.id);
+    if (!update || variable.status === update.status) continue;
+    changes.push({
+      id: `${closureNoteId}:${variable.id}`,
+      variableId: variable.id,
+      from: variable.status,
+      to: update.status,
+      at: closedAt,
+      source: "episodeClosure",
+      episodeId,
+    });
+  }
+  return changes;
+}
+
+/**
+ * Records which Models an Episode closure created or revised, as
+ * `derived_from` links (Model → Episode).
+ * Ids derive from the closure note, as for closureStatusChanges.
+ */
+export function closureModelLinks(
+  updates: ModelUpdate[] | undefined,
+  episodeId: string,
+  closureNoteId: string,
+): Link[] {
+  return (updates ?? []).map((update) => ({
+    id: `${closureNoteId}:${update.id}`,
+    sourceId: update.id,
+    targetId: episodeId,
+    relation: DERIVED_FROM_RELATION,
+  }));
+}
+
 /**
  * Creates a new variable and appends it to the state.
  */
@@ -119,10 +187,22 @@ export function applyOpenEpisode(
     status: ACTIVE_STATUS,
     openedAt: params.openedAt,
   };
+  const lineageLinks: Link[] =
+    params.previousEpisodeId !== undefined && params.linkId !== undefined
+      ? [
+          {
+            id: params.linkId,
+            sourceId: params.episodeId,
+            targetId: params.previousEpisodeId,
+            relation: DERIVED_FROM_RELATION,
+          },
+        ]
+      : [];
 
   return {
     ...state,
     episodes: [...state.episodes, newEpisode],
+    links: [...state.links, ...lineageLinks],
   };
 }
 
@@ -164,6 +244,20 @@ export function applyCloseEpisode(
     variables: applyVariableUpdates(state.variables, variableUpdates),
     notes: [...state.notes, newNote],
     models: applyModelUpdates(state.models, modelUpdates),
+    links: [
+      ...state.links,
+      ...closureModelLinks(modelUpdates, episodeId, closureNoteId),
+    ],
+    statusChanges: [
+      ...state.statusChanges,
+      ...closureStatusChanges(
+        state.variables,
+        variableUpdates,
+        episodeId,
+        closedAt,
+        closureNoteId,
+      ),
+    ],
   };
 }
 
@@ -215,8 +309,19 @@ export function applyUpdateEpisode(
 // ACTION TRANSFORMS
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Position after the last of an episode's actions (0 for the first one).
+ */
+function nextActionOrder(state: State, episodeId: string): number {
+  const orders = state.actions
+    .filter((a) => a.episodeId === episodeId)
+    .map((a) => a.order ?? -1);
+  return Math.max(-1, ...orders) + 1;
+}
+
 /**
  * Creates a new action and appends it to the state.
+ * Episode-scoped actions go to the end of their episode's order.
  */
 export function applyCreateAction(
   state: State,
@@ -226,7 +331,13 @@ export function applyCreateAction(
     id: params.actionId,
     description: params.description,
     status: ACTION_PENDING_STATUS,
-    ...(params.episodeId ? { episodeId: params.episodeId } : {}),
+    ...(params.episodeId
+      ? {
+          episodeId: params.episodeId,
+          order: nextActionOrder(state, params.episodeId),
+        }
+      : {}),
+    ...(params.dueDate !== undefined ? { dueDate: params.dueDate } : {}),
   };
 
   return {
@@ -249,6 +360,169 @@ export function applyCompleteAction(state: State, actionId: string): State {
   };
 }
 
+/**
+ * Cancels an action, recording why it was abandoned.
+ */
+export function applyCancelAction(
+  state: State,
+  actionId: string,
+  reason: string,
+): State {
+  return {
+    ...state,
+    actions: state.actions.map((a) =>
+      a.id === actionId
+        ? { ...a, status: ACTION_CANCELLED_STATUS, cancelReason: reason }
+        : a,
+    ),
+  };
+}
+
+/**
+ * Blocks an action and links it to what it is waiting on.
+ */
+export function applyBlockAction(
+  state: State,
+  params: BlockActionParams,
+): State {
+  const link: Link = {
+    id: params.linkId,
+    sourceId: params.blockedBy,
+    targetId: params.actionId,
+    relation: BLOCKS_RELATION,
+  };
+
+  return {
+    ...state,
+    actions: state.actions.map((a) =>
+      a.id === params.actionId ? { ...a, status: ACTION_BLOCKED_STATUS } : a,
+    ),
+    links: [...state.links, link],
+  };
+}
+
+/**
+ * Returns a blocked action to Pending and removes the links blocking it.
+ */
+export function applyUnblockAction(state: State, actionId: string): State {
+  return {
+    ...state,
+    actions: state.actions.map((a) =>
+      a.id === actionId ? { ...a, status: ACTION_PENDING_STATUS } : a,
+    ),
+    links: state.links.filter(
+      (l) => !(l.targetId === actionId && l.relation === BLOCKS_RELATION),
+    ),
+  };
+}
+
+/**
+ * Updates an existing action's description and due date.
+ */
+export function applyUpdateAction(
+  state: State,
+  params: UpdateActionParams,
+): State {
+  const updatedActions = state.actions.map((a) => {
+    if (a.id !== params.actionId) {
+      return a;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { dueDate: _unused, ...rest } = a;
+    const base = params.dueDate === null ? rest : a;
+    return {
+      ...base,
+      ...(params.description !== undefined
+        ? { description: params.description }
+        : {}),
+      ...(typeof params.dueDate === "string"
+        ? { dueDate: params.dueDate }
+        : {}),
+    };
+  });
+
+  return {
+    ...state,
+    actions: updatedActions,
+  };
+}
+
+/**
+ * Sets each listed action's order to its position in `actionIds`.
+ */
+export function applyReorderActions(
+  state: State,
+  actionIds: readonly string[],
+): State {
+  const positions = new Map(actionIds.map((id, index) => [id, index]));
+
+  return {
+    ...state,
+    actions: state.actions.map((a) => {
+      const order = positions.get(a.id);
+      return order === undefined ? a : { ...a, order };
+    }),
+  };
+}
+
+/**
+ * Applies a closing episode's PendingActionDisposition to its open
+ * (Pending or Blocked) actions. Done and Cancelled actions stay with it.
+ * Carried-over actions keep their relative order after the target's actions.
+ */
+export function applyPendingActionDisposition(
+  state: State,
+  episodeId: string,
+  disposition: PendingActionDisposition,
+): State {
+  const isOpen = (a: Action): boolean =>
+    a.episodeId === episodeId &&
+    (a.status === ACTION_PENDING_STATUS || a.status === ACTION_BLOCKED_STATUS);
+
+  if (disposition.mode === CANCEL) {
+    const reason = disposition.reason ?? `Episode '${episodeId}' closed`;
+    return {
+      ...state,
+      actions: state.actions.map((a) =>
+        isOpen(a)
+          ? { ...a, status: ACTION_CANCELLED_STATUS, cancelReason: reason }
+          : a,
+      ),
+    };
+  }
+
+  if (disposition.mode === CARRY_OVER) {
+    const first = nextActionOrder(state, disposition.episodeId);
+    const moved = [...state.actions]
+      .filter(isOpen)
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map((a) => a.id);
+    return {
+      ...state,
+      actions: state.actions.map((a) =>
+        isOpen(a)
+          ? {
+              ...a,
+              episodeId: disposition.episodeId,
+              order: first + moved.indexOf(a.id),
+            }
+          : a,
+      ),
+    };
+  }
+
+  return {
+    ...state,
+    actions: state.actions.map((a) => {
+      if (!isOpen(a)) return a;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { episodeId: _episode, order: _order, ...rest } = a;
+      return rest;
+    }),
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // MODEL TRANSFORMS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -326,6 +600,9 @@ export function applyCreateModel(
     ...(params.enforcement !== undefined
       ? { enforcement: params.enforcement }
       : {}),
+    ...(params.condition !== undefined ? { condition: params.condition } : {}),
+    ...(params.reviewOn !== undefined ? { reviewOn: params.reviewOn } : {}),
+    ...(params.expiresOn !== undefined ? { expiresOn: params.expiresOn } : {}),
   };
 
   return {
@@ -334,6 +611,91 @@ export function applyCreateModel(
   };
 }
 
+/**
+ * The Model as a review decision leaves it. Retiring sets enforcement none
+ * and archives it; otherwise an undefined date is kept and a null one removed.
+ */
+export function reviewedModel(model: Model, params: ReviewModelParams): Model {
+  const { decision } = params;
+  if (decision.outcome === "retire") {
+    return { ...model, enforcement: "none", archivedAt: params.reviewedAt };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { reviewOn: _reviewOn, expiresOn: _expiresOn, ...undated } = model;
+  const reviewOn =
+    decision.reviewOn === undefined
+      ? model.reviewOn
+      : (decision.reviewOn ?? undefined);
+  const expiresOn =
+    decision.expiresOn === undefined
+      ? model.expiresOn
+      : (decision.expiresOn ?? undefined);
+  return {
+    ...undated,
+    ...(decision.outcome === "changeEnforcement"
+      ? { enforcement: decision.enforcement }
+      : {}),
+    ...(reviewOn !== undefined ? { reviewOn } : {}),
+    ...(expiresOn !== undefined ? { expiresOn } : {}),
+  };
+}
+
+/** Says what a review decided, for its audit Note */
+function describeReview(
+  before: Model,
+  after: Model,
+  params: ReviewModelParams,
+): string {
+  const dates = [
+    after.reviewOn !== undefined ? `review ${after.reviewOn}` : null,
+    after.expiresOn !== undefined ? `expires ${after.expiresOn}` : null,
+  ].filter((part) => part !== null);
+  const schedule = dates.length > 0 ? dates.join(", ") : "no review date";
+
+  let decided: string;
+  switch (params.decision.outcome) {
+    case "renew":
+      decided = `renewed (${schedule})`;
+      break;
+    case "changeEnforcement":
+      decided = `enforcement ${before.enforcement ?? "none"} → ${params.decision.enforcement} (${schedule})`;
+      break;
+    case "retire":
+      decided = "retired";
+      break;
+  }
+  const content = `Norm reviewed: "${before.statement}" ${decided}`;
+  return params.reason ? `${content}. ${params.reason}` : content;
+}
+
+/**
+ * Applies a norm review to its Model and records the decision as an audit
+ * Note linked to it.
+ */
+export function applyReviewModel(
+  state: State,
+  params: ReviewModelParams,
+): State {
+  const before = state.models.find((m) => m.id === params.modelId);
+  if (!before) return state;
+  const after = reviewedModel(before, params);
+
+  const auditNote: Note = {
+    id: params.noteId,
+    content: describeReview(before, after, params),
+    createdAt: params.reviewedAt,
+    tags: [AUDIT_NOTE_TAG],
+    linkedObjects: [params.modelId],
+  };
+
+  return {
+    ...state,
+    models: state.models.map((m) => (m.id === params.modelId ? after : m)),
+    notes: [...state.notes, auditNote],
+  };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // NOTE TRANSFORMS
 // ═══════════════════════════════════════════════════════════════════════════
@@ -474,3 +836,125 @@ export function applyLogException(
     exceptions: [...state.exceptions, newException],
   };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARCHIVAL AND DELETION TRANSFORMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Sets (or, with undefined, clears) one entity's archivedAt.
+ */
+function setArchivedAt(
+  state: State,
+  collection: ArchivableCollection,
+  id: string,
+  archivedAt: string | undefined,
+): State {
+  const next: State = { ...state };
+  const collections = next as Record<ArchivableCollection, StateEntity[]>;
+  collections[collection] = collections[collection].map((e) => {
+    if (e.id !== id) return e;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { archivedAt: _previous, ...rest } = e as StateEntity & {
+      archivedAt?: string;
+    };
+    return (archivedAt ? { ...rest, archivedAt } : rest) as StateEntity;
+  });
+  return next;
+}
+
+/**
+ * Marks an entity archived.
+ */
+export function applyArchiveEntity(
+  state: State,
+  params: ArchiveEntityParams,
+): State {
+  return setArchivedAt(state, params.collection, params.id, params.archivedAt);
+}
+
+/**
+ * Brings an archived entity back into view.
+ */
+export function applyUnarchiveEntity(
+  state: State,
+  params: UnarchiveEntityParams,
+): State {
+  return setArchivedAt(state, params.collection, params.id, undefined);
+}
+
+/**
+ * Deletes an entity with everything that only made sense alongside it:
+ * a Variable's Proxies, their readings and its status history; every Link
+ * to or from anything removed (including Links to those Links); and its id
+ * in Notes' linkedObjects.
+ */
+export function applyDeleteEntity(
+  state: State,
+  params: DeleteEntityParams,
+): State {
+  const { collection, id } = params;
+  const next: State = { ...state };
+  const collections = next as Record<ArchivableCollection, StateEntity[]>;
+  collections[collection] = collections[collection].filter((e) => e.id !== id);
+
+  const removed = new Set([id]);
+  if (collection === "variables") {
+    const proxyIds = new Set(
+      state.proxies.filter((p) => p.variableId === id).map((p) => p.id),
+    );
+    next.proxies = state.proxies.filter((p) => !proxyIds.has(p.id));
+    next.proxyReadings = state.proxyReadings.filter(
+      (r) => !proxyIds.has(r.proxyId),
+    );
+    next.statusChanges = state.statusChanges.filter((c) => c.variableId !== id);
+  }
+
+  let links = state.links;
+  let dropped = true;
+  while (dropped) {
+    const kept = links.filter(
+      (l) => !removed.has(l.sourceId) && !removed.has(l.targetId),
+    );
+    dropped = kept.length < links.length;
+    for (const l of links) {
+      if (!kept.includes(l)) removed.add(l.id);
+    }
+    links = kept;
+  }
+  next.links = links;
+
+  next.notes = next.notes.map((n) =>
+    n.linkedObjects?.some((o) => removed.has(o))
+      ? { ...n, linkedObjects: n.linkedObjects.filter((o) => !removed.has(o)) }
+      : n,
+  );
+  return next;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REVERT TRANSFORMS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Puts each entity back the way a revert describes.
+ * Changed entities keep their position; entities brought back are appended.
+ */
+export function applyRevert(
+  state: State,
+  changes: readonly EntityRevert[],
+): State {
+  const next: State = { ...state };
+  const collections = next as Record<StateCollection, StateEntity[]>;
+  for (const { collection, id, to } of changes) {
+    const entities = collections[collection];
+    if (to === null) {
+      collections[collection] = entities.filter((e) => e.id !== id);
+    } else if (entities.some((e) => e.id === id)) {
+      collections[collection] = entities.map((e) => (e.id === id ? to : e));
+    } else {
+      collections[collection] = [...entities, to];
+    }
+  }
+  return next;
+}
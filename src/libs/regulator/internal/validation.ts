@@ -9,6 +9,8 @@
  */
 
 import {
+  ACTION_STATUSES,
+  ARCHIVABLE_COLLECTIONS,
   EPISODE_STATUSES,
   EPISODE_TYPES,
   formatNodeRef,
@@ -20,26 +22,55 @@ import {
   LINK_RELATIONS,
   MUTATION_TYPES,
   OVERRIDE_DECISIONS,
+  VARIABLE_STATUSES,
+  WEEKDAYS,
+  isCalendarDate,
+  sameData,
 } from "../../memory/index.js";
-import type { State, NodeRef, NoteTag } from "../../memory/index.js";
 import type {
+  ArchivableCollection,
+  ModelCondition,
+  State,
+  NodeRef,
+  NoteTag,
+} from "../../memory/index.js";
+import type {
+  InvariantViolation,
   Result,
   OpenEpisodeParams,
   ClosureNote,
   CreateModelParams,
+  PendingActionDisposition,
   LogExceptionParams,
+  RevertParams,
+  StateEntity,
+  ArchiveEntityParams,
+  DeleteEntityParams,
+  ReviewModelParams,
+  UnarchiveEntityParams,
 } from "../types.js";
 import type { RegulatorPolicyForNode } from "../policy.js";
-import { MAX_ACTIVE_EXPLORE_PER_NODE } from "../types.js";
+import {
+  MAX_ACTIVE_EXPLORE_PER_NODE,
+  MODEL_REVIEW_OUTCOMES,
+  PENDING_ACTION_DISPOSITIONS,
+} from "../types.js";
 import {
   countActiveExplores,
   countActiveStabilizesForVariable,
+  getNormReview,
+  getOpenEpisodeActions,
 } from "../selectors.js";
+import { describeEntity, findDeletionBlockers } from "./integrity.js";
+import { reviewedModel } from "./transform.js";
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
 const CLOSED_STATUS = EPISODE_STATUSES[1];
 const STABILIZE_TYPE = EPISODE_TYPES[0];
 const EXPLORE_TYPE = EPISODE_TYPES[1];
+const ACTION_PENDING_STATUS = ACTION_STATUSES[0];
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
+const CARRY_OVER = PENDING_ACTION_DISPOSITIONS[0];
 
 // ═══════════════════════════════════════════════════════════════════════════
 // EPISODE VALIDATION
@@ -106,6 +137,38 @@ export function canStartStabilize(
   return { ok: true, value: undefined };
 }
 
+/**
+ * Validates the episode a new one follows up on.
+ * It must exist and belong to the same node, and the `derived_from`
+ * link recording it needs an id.
+ */
+export function validateEpisodeLineage(
+  state: State,
+  params: OpenEpisodeParams,
+): Result<void> {
+  const { previousEpisodeId } = params;
+  if (previousEpisodeId === undefined) {
+    return { ok: true, value: undefined };
+  }
+  if (!params.linkId || params.linkId.trim().length === 0) {
+    return { ok: false, error: "previousEpisodeId requires a linkId" };
+  }
+  const previous = state.episodes.find((e) => e.id === previousEpisodeId);
+  if (!previous) {
+    return {
+      ok: false,
+      error: `Previous episode '${previousEpisodeId}' not found`,
+    };
+  }
+  if (!nodeRefEquals(previous.node, params.node)) {
+    return {
+      ok: false,
+      error: `Previous episode '${previousEpisodeId}' does not belong to node ${formatNodeRef(params.node)}`,
+    };
+  }
+  return { ok: true, value: undefined };
+}
+
 /**
  * Validates closure note content.
  */
@@ -118,11 +181,16 @@ export function validateClosureNote(note: ClosureNote): Result<void> {
 
 /**
  * Validates that an episode can be closed.
+ * When `pendingActions` is required (the default), an episode with open
+ * (Pending or Blocked) actions must say what happens to them, and a
+ * carry-over target must be another Active episode of the same node.
  */
 export function validateEpisodeClosure(
   state: State,
   episodeId: string,
   modelUpdatesCount: number,
+  pendingActions?: PendingActionDisposition,
+  requirePendingActionChoice: boolean = true,
 ): Result<void> {
   const episode = state.episodes.find((e) => e.id === episodeId);
   if (!episode) {
@@ -142,6 +210,44 @@ export function validateEpisodeClosure(
     };
   }
 
+  const openActions = getOpenEpisodeActions(state, episodeId);
+  if (!pendingActions && openActions.length > 0 && requirePendingActionChoice) {
+    return {
+      ok: false,
+      error: `Episode '${episodeId}' has ${openActions.length} pending action(s): carry them over to another episode, cancel them or detach them`,
+    };
+  }
+
+  if (pendingActions?.mode === CARRY_OVER) {
+    const target = state.episodes.find(
+      (e) => e.id === pendingActions.episodeId,
+    );
+    if (!target) {
+      return {
+        ok: false,
+        error: `Episode '${pendingActions.episodeId}' not found`,
+      };
+    }
+    if (target.id === episodeId) {
+      return {
+        ok: false,
+        error: "Pending actions cannot be carried over to the closing episode",
+      };
+    }
+    if (target.status !== ACTIVE_STATUS) {
+      return {
+        ok: false,
+        error: `Episode '${target.id}' is not active`,
+      };
+    }
+    if (!nodeRefEquals(target.node, episode.node)) {
+      return {
+        ok: false,
+        error: `Episode '${target.id}' does not belong to node ${formatNodeRef(episode.node)}`,
+      };
+    }
+  }
+
   return { ok: true, value: undefined };
 }
 
@@ -183,6 +289,87 @@ export function validateEpisodeUpdate(
   return { ok: true, value: undefined };
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// STATE INVARIANTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Lists every Regulator invariant the State breaks.
+ *
+ * **Intent:** Mutations keep the invariants by refusing to break them; State
+ * assembled another way (e.g. merged from two files) must be re-checked.
+ *
+ * **Contract:**
+ * - maxActiveExplorePerNode: active Explore episodes per node within policy
+ * - maxActiveStabilizePerVariable: active Stabilize episodes per variable
+ *   (per node) within policy
+ * - stabilizeVariableExists: every Stabilize episode's Variable exists
+ * - Returns: InvariantViolation[] (empty when the State is consistent)
+ * - Pure function: does not mutate state
+ */
+export function findInvariantViolations(
+  state: State,
+  policyForNode: (node: NodeRef) => RegulatorPolicyForNode,
+): InvariantViolation[] {
+  const violations: InvariantViolation[] = [];
+  const active = state.episodes.filter((e) => e.status === ACTIVE_STATUS);
+
+  const groups = new Map<string, { node: NodeRef; episodeIds: string[] }>();
+  const add = (key: string, node: NodeRef, episodeId: string): void => {
+    const group = groups.get(key) ?? { node, episodeIds: [] };
+    group.episodeIds.push(episodeId);
+    groups.set(key, group);
+  };
+  for (const episode of active) {
+    const node = formatNodeRef(episode.node);
+    if (episode.type === EXPLORE_TYPE) {
+      add(`explore|${node}`, episode.node, episode.id);
+    } else if (episode.variableId) {
+      add(`stabilize|${node}|${episode.variableId}`, episode.node, episode.id);
+    }
+  }
+
+  for (const [key, { node, episodeIds }] of groups) {
+    const policy = policyForNode(node);
+    if (key.startsWith("explore|")) {
+      if (episodeIds.length > policy.maxActiveExplorePerNode) {
+        violations.push({
+          rule: "maxActiveExplorePerNode",
+          node,
+          episodeIds,
+          message: `Node '${formatNodeRef(node)}' has ${episodeIds.length} active Explore episodes. Max allowed: ${policy.maxActiveExplorePerNode}`,
+        });
+      }
+    } else if (episodeIds.length > policy.maxActiveStabilizePerVariable) {
+      const variableId = key.split("|")[2];
+      violations.push({
+        rule: "maxActiveStabilizePerVariable",
+        node,
+        episodeIds,
+        message: `Node '${formatNodeRef(node)}' has ${episodeIds.length} active Stabilize episodes for variable '${variableId}'. Max allowed: ${policy.maxActiveStabilizePerVariable}`,
+      });
+    }
+  }
+
+  const variableIds = new Set(state.variables.map((v) => v.id));
+  for (const episode of state.episodes) {
+    if (
+      episode.type === STABILIZE_TYPE &&
+      episode.variableId &&
+      !variableIds.has(episode.variableId)
+    ) {
+      violations.push({
+        rule: "stabilizeVariableExists",
+        node: episode.node,
+        episodeIds: [episode.id],
+        message: `Stabilize episode '${episode.id}' refers to missing variable '${episode.variableId}'`,
+      });
+    }
+  }
+
+  return violations;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // ACTION VALIDATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -222,6 +409,88 @@ export function validateActionCreation(
   return { ok: true, value: undefined };
 }
 
+/**
+ * Validates an action due date: a real calendar date written YYYY-MM-DD.
+ * Undefined (unchanged) and null (removed) are accepted.
+ */
+export function validateActionDueDate(dueDate?: string | null): Result<void> {
+  if (dueDate === undefined || dueDate === null || isCalendarDate(dueDate)) {
+    return { ok: true, value: undefined };
+  }
+  return {
+    ok: false,
+    error: `Action due date '${dueDate}' must be a date in YYYY-MM-DD format`,
+  };
+}
+
+/**
+ * Validates that an action exists and is still open (Pending or Blocked).
+ * Done and Cancelled actions are final.
+ */
+export function validateOpenAction(
+  state: State,
+  actionId: string,
+  operation: string,
+): Result<void> {
+  const action = state.actions.find((a) => a.id === actionId);
+  if (!action) {
+    return { ok: false, error: `Action '${actionId}' not found` };
+  }
+
+  if (
+    action.status !== ACTION_PENDING_STATUS &&
+    action.status !== ACTION_BLOCKED_STATUS
+  ) {
+    return {
+      ok: false,
+      error: `Action '${actionId}' cannot be ${operation}: it is ${action.status}`,
+    };
+  }
+
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validates a new order for an episode's actions: every action of the
+ * episode exactly once, and nothing else.
+ */
+export function validateActionReorder(
+  state: State,
+  episodeId: string,
+  actionIds: readonly string[],
+): Result<void> {
+  if (!state.episodes.some((e) => e.id === episodeId)) {
+    return { ok: false, error: `Episode '${episodeId}' not found` };
+  }
+
+  const episodeActionIds = new Set(
+    state.actions.filter((a) => a.episodeId === episodeId).map((a) => a.id),
+  );
+  const seen = new Set<string>();
+  for (const actionId of actionIds) {
+    if (!episodeActionIds.has(actionId)) {
+      return {
+        ok: false,
+        error: `Action '${actionId}' does not belong to episode '${episodeId}'`,
+      };
+    }
+    if (seen.has(actionId)) {
+      return { ok: false, error: `Action '${actionId}' is listed twice` };
+    }
+    seen.add(actionId);
+  }
+
+  const missing = [...episodeActionIds].filter((id) => !seen.has(id));
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      error: `New order is missing action(s): ${missing.join(", ")}`,
+    };
+  }
+
+  return { ok: true, value: undefined };
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // MODEL VALIDATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -259,6 +528,165 @@ export function validateModelParams(params: CreateModelParams): Result<void> {
       error: `Invalid enforcement level: ${params.enforcement}`,
     };
   }
+  if (params.condition !== undefined) {
+    const conditionCheck = validateModelCondition(params.condition);
+    if (!conditionCheck.ok) return conditionCheck;
+  }
+  return validateModelSchedule(params.reviewOn, params.expiresOn);
+}
+
+/**
+ * Validates a Model's review date and expiry: calendar dates, with the
+ * review no later than the expiry.
+ */
+export function validateModelSchedule(
+  reviewOn?: string,
+  expiresOn?: string,
+): Result<void> {
+  if (reviewOn !== undefined && !isCalendarDate(reviewOn)) {
+    return {
+      ok: false,
+      error: `Model review date '${reviewOn}' must be a date in YYYY-MM-DD format`,
+    };
+  }
+  if (expiresOn !== undefined && !isCalendarDate(expiresOn)) {
+    return {
+      ok: false,
+      error: `Model expiry date '${expiresOn}' must be a date in YYYY-MM-DD format`,
+    };
+  }
+  if (
+    reviewOn !== undefined &&
+    expiresOn !== undefined &&
+    reviewOn > expiresOn
+  ) {
+    return {
+      ok: false,
+      error: `Model review date '${reviewOn}' must not be after its expiry '${expiresOn}'`,
+    };
+  }
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validates a norm review: the Model is an unarchived Normative Model, the
+ * decision is well-formed, and a renewed or re-enforced Model is not left
+ * due for review again at `reviewedAt`.
+ */
+export function validateModelReview(
+  state: State,
+  params: ReviewModelParams,
+): Result<void> {
+  const model = state.models.find((m) => m.id === params.modelId);
+  if (!model) {
+    return { ok: false, error: `Model with id '${params.modelId}' not found` };
+  }
+  if (model.type !== "Normative") {
+    return { ok: false, error: `Model '${model.id}' is not Normative` };
+  }
+  if (model.archivedAt !== undefined) {
+    return { ok: false, error: `Model '${model.id}' is archived` };
+  }
+  const { decision } = params;
+  if (
+    !(MODEL_REVIEW_OUTCOMES as readonly string[]).includes(decision.outcome)
+  ) {
+    return {
+      ok: false,
+      error: `Invalid review outcome '${decision.outcome}'. Expected one of: ${MODEL_REVIEW_OUTCOMES.join(", ")}`,
+    };
+  }
+  if (
+    decision.outcome === "changeEnforcement" &&
+    !(ENFORCEMENT_LEVELS as readonly string[]).includes(decision.enforcement)
+  ) {
+    return {
+      ok: false,
+      error: `Invalid enforcement level: ${decision.enforcement}`,
+    };
+  }
+  if (Number.isNaN(Date.parse(params.reviewedAt))) {
+    return {
+      ok: false,
+      error: `Invalid review timestamp '${params.reviewedAt}'`,
+    };
+  }
+
+  const reviewed = reviewedModel(model, params);
+  const scheduleCheck = validateModelSchedule(
+    reviewed.reviewOn,
+    reviewed.expiresOn,
+  );
+  if (!scheduleCheck.ok) return scheduleCheck;
+  const stillDue = getNormReview(reviewed, params.reviewedAt);
+  if (stillDue) {
+    return {
+      ok: false,
+      error: `Model '${model.id}' would still be due for review (${stillDue.reason} on ${stillDue.dueOn}); give a later reviewOn or expiresOn`,
+    };
+  }
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validates a Model's structured condition.
+ * Each list must name known values, and each time window must span at
+ * least one hour of the day.
+ */
+function validateModelCondition(condition: ModelCondition): Result<void> {
+  const unknown = (allowed: readonly string[], values: readonly string[]) =>
+    values.find((value) => !allowed.includes(value));
+
+  const mutationType = unknown(MUTATION_TYPES, condition.mutationTypes ?? []);
+  if (mutationType !== undefined) {
+    return { ok: false, error: `Invalid mutation type: ${mutationType}` };
+  }
+  const episodeType = unknown(EPISODE_TYPES, condition.episodeTypes ?? []);
+  if (episodeType !== undefined) {
+    return { ok: false, error: `Invalid episode type: ${episodeType}` };
+  }
+  if (condition.variable !== undefined) {
+    if (condition.variable.statuses.length === 0) {
+      return {
+        ok: false,
+        error: "Variable condition must list at least one status",
+      };
+    }
+    const status = unknown(VARIABLE_STATUSES, condition.variable.statuses);
+    if (status !== undefined) {
+      return { ok: false, error: `Invalid variable status: ${status}` };
+    }
+  }
+  for (const window of condition.timeWindows ?? []) {
+    const day = unknown(WEEKDAYS, window.days);
+    if (day !== undefined) {
+      return { ok: false, error: `Invalid weekday: ${day}` };
+    }
+    const from = window.fromHour ?? 0;
+    const to = window.toHour ?? 24;
+    if (
+      !Number.isInteger(from) ||
+      !Number.isInteger(to) ||
+      from < 0 ||
+      to > 24 ||
+      from >= to
+    ) {
+      return {
+        ok: false,
+        error: `Invalid time window: hours ${from}-${to} must be whole hours within 0-24, opening before closing`,
+      };
+    }
+  }
+  const threshold = condition.pendingActionsAbove;
+  if (
+    threshold !== undefined &&
+    (!Number.isInteger(threshold) || threshold < 0)
+  ) {
+    return {
+      ok: false,
+      error: "pendingActionsAbove must be a non-negative whole number",
+    };
+  }
   return { ok: true, value: undefined };
 }
 
@@ -270,6 +698,7 @@ export function validateModelUpdate(
   confidence?: number,
   scope?: string,
   enforcement?: string,
+  condition?: ModelCondition | null,
 ): Result<void> {
   if (statement !== undefined && statement.trim().length === 0) {
     return { ok: false, error: "Model statement cannot be empty" };
@@ -289,6 +718,9 @@ export function validateModelUpdate(
   ) {
     return { ok: false, error: `Invalid enforcement level: ${enforcement}` };
   }
+  if (condition !== undefined && condition !== null) {
+    return validateModelCondition(condition);
+  }
   return { ok: true, value: undefined };
 }
 
@@ -381,3 +813,159 @@ export function validateExceptionParams(
 
   return { ok: true, value: undefined };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// REVERT VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validates that a revert still applies: every entity it touches must be
+ * exactly as the reverted mutation left it (or, for redo, as the undo left it).
+ * Anything changed since would be silently overwritten otherwise.
+ */
+export function validateRevert(
+  state: State,
+  params: RevertParams,
+): Result<void> {
+  if (params.changes.length === 0) {
+    return {
+      ok: false,
+      error: `Nothing to ${params.direction}: ${params.mutationKind} changed nothing`,
+    };
+  }
+  for (const change of params.changes) {
+    const entities: readonly StateEntity[] = state[change.collection];
+    const current = entities.find((e) => e.id === change.id) ?? null;
+    if (!sameData(current, change.from)) {
+      return {
+        ok: false,
+        error: `Cannot ${params.direction} ${params.mutationKind}: ${change.collection} '${change.id}' has changed since`,
+      };
+    }
+  }
+  return { ok: true, value: undefined };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARCHIVAL AND DELETION VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Validates that params name an archivable collection and an entity in it.
+ * The collection comes from untrusted input (CLI, batch files).
+ */
+function validateArchivableEntity(
+  state: State,
+  collection: ArchivableCollection,
+  id: string,
+): Result<{ archivedAt?: string }> {
+  if (!(ARCHIVABLE_COLLECTIONS as readonly string[]).includes(collection)) {
+    return {
+      ok: false,
+      error: `Invalid collection '${collection}'. Expected one of: ${ARCHIVABLE_COLLECTIONS.join(", ")}`,
+    };
+  }
+  const entities: readonly State[ArchivableCollection][number][] =
+    state[collection];
+  const entity = entities.find((e) => e.id === id);
+  if (!entity) {
+    return { ok: false, error: `${describeEntity(collection, id)} not found` };
+  }
+  return { ok: true, value: entity };
+}
+
+/**
+ * Validates that an entity can be archived: it exists, is not archived yet,
+ * and nothing open depends on it staying in view.
+ * Active Episodes, open (Pending or Blocked) Actions and Variables with an
+ * active Episode must be closed, finished or cancelled first.
+ */
+export function validateArchive(
+  state: State,
+  params: ArchiveEntityParams,
+): Result<void> {
+  const found = validateArchivableEntity(state, params.collection, params.id);
+  if (!found.ok) return found;
+  const name = describeEntity(params.collection, params.id);
+  if (found.value.archivedAt !== undefined) {
+    return { ok: false, error: `${name} is already archived` };
+  }
+  if (!params.archivedAt) {
+    return { ok: false, error: "archivedAt is required" };
+  }
+
+  if (params.collection === "episodes") {
+    const episode = state.episodes.find((e) => e.id === params.id);
+    if (episode?.status === ACTIVE_STATUS) {
+      return {
+        ok: false,
+        error: `${name} is still Active; close it before archiving`,
+      };
+    }
+  }
+  if (params.collection === "actions") {
+    const action = state.actions.find((a) => a.id === params.id);
+    if (
+      action?.status === ACTION_PENDING_STATUS ||
+      action?.status === ACTION_BLOCKED_STATUS
+    ) {
+      return {
+        ok: false,
+        error: `${name} is still open; complete or cancel it before archiving`,
+      };
+    }
+  }
+  if (params.collection === "variables") {
+    const active = state.episodes.find(
+      (e) => e.variableId === params.id && e.status === ACTIVE_STATUS,
+    );
+    if (active) {
+      return {
+        ok: false,
+        error: `${name} has an active Episode '${active.id}'; close it before archiving`,
+      };
+    }
+  }
+
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validates that an archived entity can be brought back into view.
+ */
+export function validateUnarchive(
+  state: State,
+  params: UnarchiveEntityParams,
+): Result<void> {
+  const found = validateArchivableEntity(state, params.collection, params.id);
+  if (!found.ok) return found;
+  if (found.value.archivedAt === undefined) {
+    return {
+      ok: false,
+      error: `${describeEntity(params.collection, params.id)} is not archived`,
+    };
+  }
+  return { ok: true, value: undefined };
+}
+
+/**
+ * Validates that an entity can be deleted: it exists and nothing that
+ * deletion does not cascade refers to it (see findDeletionBlockers).
+ * The error lists every blocker.
+ */
+export function validateDeletion(
+  state: State,
+  params: DeleteEntityParams,
+): Result<void> {
+  const found = validateArchivableEntity(state, params.collection, params.id);
+  if (!found.ok) return found;
+
+  const blockers = findDeletionBlockers(state, params.collection, params.id);
+  if (blockers.length > 0) {
+    return {
+      ok: false,
+      error: `Cannot delete ${describeEntity(params.collection, params.id)}: ${blockers.map((b) => b.reason).join("; ")}`,
+    };
+  }
+  return { ok: true, value: undefined };
+}
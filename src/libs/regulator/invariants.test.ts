@@ -120,6 +120,7 @@ const minimalStateArb: fc.Arbitrary<State> = fc.constant({
   exceptions: [],
   proxies: [],
   proxyReadings: [],
+  statusChanges: [],
 });
 
 /** Generate a valid State with some content */
@@ -142,6 +143,7 @@ const validStateArb: fc.Arbitrary<State> = fc
             exceptions: [],
             proxies: [],
             proxyReadings: [],
+            statusChanges: [],
           })),
       ),
   );
@@ -173,6 +175,7 @@ const stateWithActiveEpisodeArb: fc.Arbitrary<{
       exceptions: [],
       proxies: [],
       proxyReadings: [],
+      statusChanges: [],
     },
     episodeId,
   }));
@@ -201,6 +204,7 @@ const stateWithMaxExploresArb: fc.Arbitrary<{ state: State; node: NodeRef }> =
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       },
       node,
     })),
@@ -242,6 +246,7 @@ const stateWithActiveStabilizeArb: fc.Arbitrary<{
       exceptions: [],
       proxies: [],
       proxyReadings: [],
+      statusChanges: [],
     },
     node,
     variableId,
@@ -602,6 +607,7 @@ describe("Invariant: Episode Lifecycle Consistency", () => {
             exceptions: [],
             proxies: [],
             proxyReadings: [],
+            statusChanges: [],
           };
 
           const result = closeEpisode(state, {
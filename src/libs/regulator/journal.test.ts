@@ -0,0 +1,515 @@
+import { describe, it, expect } from "vitest";
+import { Regulator } from "./engine.js";
+import {
+  applyMutation,
+  isRegulatorMutation,
+  parseBatchOperations,
+  replayJournal,
+} from "./journal.js";
+import { DEFAULT_REGULATOR_POLICY } from "./policy.js";
+import type { MutationJournal, RegulatorMutation } from "./types.js";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "../memory/index.js";
+import type { JournalEntry, State } from "../memory/index.js";
+
+const T0 = "2025-01-01T00:00:00.000Z";
+
+function stateWithVariable(): State {
+  return {
+    ...createEmptyState(),
+    variables: [
+      {
+        id: "v1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Agency",
+        status: "InRange",
+      },
+    ],
+  };
+}
+
+/**
+ * Collects recorded mutations the way JsonStore does, without persistence.
+ */
+function memoryJournal(): MutationJournal & { mutations: RegulatorMutation[] } {
+  const mutations: RegulatorMutation[] = [];
+  return {
+    mutations,
+    record(_base, mutation): void {
+      mutations.push(mutation);
+    },
+  };
+}
+
+function toEntries(
+  snapshot: State,
+  mutations: RegulatorMutation[],
+): JournalEntry[] {
+  return [
+    { type: "snapshot", recordedAt: T0, state: snapshot },
+    ...mutations.map(
+      (mutation): JournalEntry => ({
+        type: "mutation",
+        recordedAt: T0,
+        mutation,
+      }),
+    ),
+  ];
+}
+
+describe("Mutation Journal", () => {
+  describe("Regulator recording", () => {
+    it("records successful mutations with their params", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+
+      const result = regulator.openEpisode(stateWithVariable(), {
+        episodeId: "e1",
+        node: DEFAULT_PERSONAL_NODE,
+        type: "Explore",
+        objective: "Learn",
+        openedAt: T0,
+      });
+
+      expect(result.ok).toBe(true);
+      expect(journal.mutations).toEqual([
+        {
+          kind: "openEpisode",
+          params: {
+            episodeId: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: "Explore",
+            objective: "Learn",
+            openedAt: T0,
+          },
+        },
+      ]);
+    });
+
+    it("does not record failed mutations or no-ops", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+      const state = stateWithVariable();
+
+      regulator.completeAction(state, { actionId: "missing" });
+      regulator.signal(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId: "v1",
+        status: "InRange",
+      });
+
+      expect(journal.mutations).toHaveLength(1);
+      expect(journal.mutations[0]?.kind).toBe("signal");
+
+      const noteState = regulator.createNote(state, {
+        noteId: "n1",
+        content: "hello",
+        createdAt: T0,
+        tags: ["inbox"],
+      });
+      expect(noteState.ok).toBe(true);
+      if (!noteState.ok) return;
+
+      journal.mutations.length = 0;
+      regulator.addNoteTag(noteState.value, { noteId: "n1", tag: "inbox" });
+      expect(journal.mutations).toHaveLength(0);
+    });
+
+    it("resolves signal audit defaults so replay is deterministic", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+      const state = stateWithVariable();
+
+      const result = regulator.signal(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId: "v1",
+        status: "Low",
+      });
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+
+      const recorded = journal.mutations[0];
+      expect(recorded?.kind).toBe("signal");
+      if (recorded?.kind !== "signal") return;
+      expect(recorded.params.auditNoteId).toBeDefined();
+      expect(recorded.params.auditTimestamp).toBeDefined();
+
+      const replayed = replayJournal(toEntries(state, journal.mutations));
+      expect(replayed).toEqual({ ok: true, value: result.value });
+    });
+
+    it("records a batch only once all of it has applied", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+      const state = stateWithVariable();
+      const signal: RegulatorMutation = {
+        kind: "signal",
+        params: {
+          node: DEFAULT_PERSONAL_NODE,
+          variableId: "v1",
+          status: "Low",
+        },
+      };
+
+      const failed = regulator.batch(state, [
+        signal,
+        { kind: "completeAction", params: { actionId: "missing" } },
+      ]);
+      expect(failed.ok).toBe(false);
+      expect(journal.mutations).toEqual([]);
+
+      const result = regulator.batch(state, [
+        signal,
+        {
+          kind: "createNote",
+          params: { noteId: "n1", content: "Slept badly", createdAt: T0 },
+        },
+      ]);
+      expect(journal.mutations).toHaveLength(1);
+      const [recorded] = journal.mutations;
+      expect(recorded?.kind).toBe("batch");
+      if (recorded?.kind !== "batch") return;
+      // Operations are journaled as each method resolved them
+      expect(recorded.params.operations.map((m) => m.kind)).toEqual([
+        "signal",
+        "createNote",
+      ]);
+      expect(recorded.params.operations[0]?.params).toHaveProperty(
+        "auditNoteId",
+      );
+      expect(replayJournal(toEntries(state, journal.mutations))).toEqual(
+        result,
+      );
+    });
+
+    it("records a batch that changed one thing as that mutation", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+
+      regulator.batch(stateWithVariable(), [
+        {
+          kind: "createNote",
+          params: { noteId: "n1", content: "Slept badly", createdAt: T0 },
+        },
+      ]);
+
+      expect(journal.mutations.map((m) => m.kind)).toEqual(["createNote"]);
+    });
+  });
+
+  describe("replayJournal", () => {
+    it("rebuilds the same State the Regulator produced", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+      const initial = stateWithVariable();
+
+      const steps: Array<(s: State) => ReturnType<Regulator["act"]>> = [
+        (s) =>
+          regulator.openEpisode(s, {
+            episodeId: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: "Stabilize",
+            variableId: "v1",
+            objective: "Recover",
+            openedAt: T0,
+          }),
+        (s) =>
+          regulator.act(s, {
+            actionId: "a1",
+            node: DEFAULT_PERSONAL_NODE,
+            episodeId: "e1",
+            description: "Rest",
+          }),
+        (s) => regulator.completeAction(s, { actionId: "a1" }),
+        (s) =>
+          regulator.closeEpisode(s, {
+            episodeId: "e1",
+            closedAt: T0,
+            closureNote: { id: "n1", content: "Done" },
+            variableUpdates: [{ id: "v1", status: "InRange" }],
+          }),
+      ];
+
+      let state = initial;
+      for (const step of steps) {
+        const result = step(state);
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        state = result.value;
+      }
+
+      const replayed = replayJournal(toEntries(initial, journal.mutations));
+      expect(replayed).toEqual({ ok: true, value: state });
+    });
+
+    it("replays the Action lifecycle: block, reorder, reschedule, cancel", () => {
+      const journal = memoryJournal();
+      const regulator = new Regulator({ journal });
+      const initial = stateWithVariable();
+
+      const steps: Array<(s: State) => ReturnType<Regulator["act"]>> = [
+        (s) =>
+          regulator.openEpisode(s, {
+            episodeId: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: "Stabilize",
+            variableId: "v1",
+            objective: "Recover",
+            openedAt: T0,
+          }),
+        (s) =>
+          regulator.act(s, {
+            actionId: "a1",
+            node: DEFAULT_PERSONAL_NODE,
+            episodeId: "e1",
+            description: "Rest",
+          }),
+        (s) =>
+          regulator.act(s, {
+            actionId: "a2",
+            node: DEFAULT_PERSONAL_NODE,
+            episodeId: "e1",
+            description: "Walk",
+            dueDate: "2025-01-10",
+          }),
+        (s) =>
+          regulator.blockAction(s, {
+            actionId: "a2",
+            blockedBy: "a1",
+            linkId: "l1",
+          }),
+        (s) =>
+          regulator.reorderActions(s, {
+            episodeId: "e1",
+            actionIds: ["a2", "a1"],
+          }),
+        (s) => regulator.unblockAction(s, { actionId: "a2" }),
+        (s) => regulator.updateAction(s, { actionId: "a2", dueDate: null }),
+        (s) => regulator.cancelAction(s, { actionId: "a1", reason: "Skip" }),
+      ];
+
+      let state = initial;
+      for (const step of steps) {
+        const result = step(state);
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        state = result.value;
+      }
+
+      const replayed = replayJournal(toEntries(initial, journal.mutations));
+      expect(replayed).toEqual({ ok: true, value: state });
+    });
+
+    it("replays closures recorded before open actions needed a disposition", () => {
+      const open: State = {
+        ...stateWithVariable(),
+        episodes: [
+          {
+            id: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: "Explore",
+            objective: "Learn",
+            status: "Active",
+            openedAt: T0,
+          },
+        ],
+        actions: [
+          { id: "a1", description: "Rest", status: "Pending", episodeId: "e1" },
+        ],
+      };
+      const entries = toEntries(open, [
+        {
+          kind: "closeEpisode",
+          params: {
+            episodeId: "e1",
+            closedAt: T0,
+            closureNote: { id: "n1", content: "Done" },
+            modelUpdates: [{ id: "m1", type: "Descriptive", statement: "X" }],
+          },
+        },
+      ]);
+
+      const replayed = replayJournal(entries);
+      expect(replayed.ok).toBe(true);
+      if (replayed.ok) {
+        expect(replayed.value.episodes[0]?.status).toBe("Closed");
+        expect(replayed.value.actions[0]?.episodeId).toBe("e1");
+      }
+    });
+
+    it("starts from the most recent snapshot", () => {
+      const later = { ...stateWithVariable(), notes: [] };
+      const entries: JournalEntry[] = [
+        ...toEntries(createEmptyState(), [
+          { kind: "completeAction", params: { actionId: "missing" } },
+        ]),
+        { type: "snapshot", recordedAt: T0, state: later },
+      ];
+
+      expect(replayJournal(entries)).toEqual({ ok: true, value: later });
+    });
+
+    it("ignores episode limits that applied when the mutation was recorded", () => {
+      const journal = memoryJournal();
+      const permissive = new Regulator({
+        journal,
+        policy: { ...DEFAULT_REGULATOR_POLICY, maxActiveExplorePerNode: 2 },
+      });
+
+      let state = createEmptyState();
+      for (const episodeId of ["e1", "e2"]) {
+        const result = permissive.openEpisode(state, {
+          episodeId,
+          node: DEFAULT_PERSONAL_NODE,
+          type: "Explore",
+          objective: "Learn",
+          openedAt: T0,
+        });
+        expect(result.ok).toBe(true);
+        if (!result.ok) return;
+        state = result.value;
+      }
+
+      const replayed = replayJournal(
+        toEntries(createEmptyState(), journal.mutations),
+      );
+      expect(replayed).toEqual({ ok: true, value: state });
+    });
+
+    it("fails without a snapshot", () => {
+      const result = replayJournal([]);
+      expect(result.ok).toBe(false);
+    });
+
+    it("fails on unknown mutation kinds", () => {
+      const entries: JournalEntry[] = [
+        { type: "snapshot", recordedAt: T0, state: createEmptyState() },
+        {
+          type: "mutation",
+          recordedAt: T0,
+          mutation: { kind: "teleport", params: {} },
+        },
+      ];
+
+      const result = replayJournal(entries);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("teleport");
+      }
+    });
+
+    it("reports which entry failed to replay", () => {
+      const entries = toEntries(createEmptyState(), [
+        { kind: "completeAction", params: { actionId: "missing" } },
+      ]);
+
+      const result = replayJournal(entries);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("Journal entry 1 (completeAction)");
+      }
+    });
+
+    it("fails on an unreadable entry after the snapshot", () => {
+      const entries: JournalEntry[] = [
+        { type: "unreadable", position: 1 },
+        { type: "snapshot", recordedAt: T0, state: createEmptyState() },
+        { type: "unreadable", position: 3 },
+      ];
+
+      expect(replayJournal(entries)).toEqual({
+        ok: false,
+        error:
+          "Journal entry 2 (line 3) is unreadable; history after it cannot be replayed",
+      });
+    });
+
+    it("fails when revisions skip between entries", () => {
+      const mutation = { kind: "deleteLink", params: { linkId: "l" } };
+      const entries: JournalEntry[] = [
+        {
+          type: "snapshot",
+          recordedAt: T0,
+          state: createEmptyState(),
+          revision: 3,
+        },
+        { type: "mutation", recordedAt: T0, mutation, revision: 5 },
+      ];
+
+      expect(replayJournal(entries)).toEqual({
+        ok: false,
+        error:
+          "Journal entry 1 is at revision 5 but follows revision 3; entries in between are missing",
+      });
+    });
+  });
+
+  describe("isRegulatorMutation", () => {
+    it("accepts known kinds with object params", () => {
+      expect(
+        isRegulatorMutation({ kind: "deleteLink", params: { linkId: "l" } }),
+      ).toBe(true);
+    });
+
+    it("rejects unknown kinds and missing params", () => {
+      expect(isRegulatorMutation({ kind: "toString", params: {} })).toBe(false);
+      expect(isRegulatorMutation({ kind: "deleteLink", params: null })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("parseBatchOperations", () => {
+    it("accepts an array of known mutations", () => {
+      const operations = [
+        { kind: "deleteLink", params: { linkId: "l" } },
+        { kind: "completeAction", params: { actionId: "a" } },
+      ];
+
+      expect(parseBatchOperations(operations)).toEqual({
+        ok: true,
+        value: operations,
+      });
+    });
+
+    it("names the first operation that is not a mutation", () => {
+      expect(parseBatchOperations({ kind: "deleteLink" })).toEqual({
+        ok: false,
+        error: "A batch must be an array of { kind, params } operations",
+      });
+      expect(
+        parseBatchOperations([
+          { kind: "deleteLink", params: { linkId: "l" } },
+          { kind: "dropTables", params: {} },
+        ]),
+      ).toEqual({
+        ok: false,
+        error: "Operation 1 is not a known Regulator mutation",
+      });
+      expect(parseBatchOperations([null])).toMatchObject({ ok: false });
+      expect(
+        parseBatchOperations([
+          {
+            kind: "batch",
+            params: { operations: [{ kind: "dropTables", params: {} }] },
+          },
+        ]),
+      ).toEqual({
+        ok: false,
+        error: "Operation 0 is not a known Regulator mutation",
+      });
+    });
+  });
+
+  describe("applyMutation", () => {
+    it("dispatches to the matching logic function", () => {
+      const result = applyMutation(createEmptyState(), {
+        kind: "createNote",
+        params: { noteId: "n1", content: "hi", createdAt: T0 },
+      });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.notes.map((n) => n.id)).toEqual(["n1"]);
+      }
+    });
+  });
+});
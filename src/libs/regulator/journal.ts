@@ -0,0 +1,295 @@
+// Mutation journal replay for the Regulator organ
+// Rebuilds State by re-applying recorded mutations through the pure logic functions.
+
+import type { JournalEntry, JournalMutation, State } from "../memory/index.js";
+import type {
+  CloseEpisodeOptions,
+  RegulatorMutation,
+  RegulatorMutationKind,
+  Result,
+} from "./types.js";
+import type { RegulatorPolicyForNode } from "./policy.js";
+import * as logic from "./logic.js";
+
+/**
+ * Every mutation kind the journal understands.
+ * Typed as a Record so adding a kind to RegulatorMutation without handling it fails to compile.
+ */
+const MUTATION_KINDS: Record<RegulatorMutationKind, true> = {
+  openEpisode: true,
+  closeEpisode: true,
+  updateEpisode: true,
+  signal: true,
+  createVariable: true,
+  createAction: true,
+  completeAction: true,
+  cancelAction: true,
+  blockAction: true,
+  unblockAction: true,
+  updateAction: true,
+  reorderActions: true,
+  createModel: true,
+  updateModel: true,
+  reviewModel: true,
+  createNote: true,
+  updateNote: true,
+  addNoteTag: true,
+  removeNoteTag: true,
+  addNoteLinkedObject: true,
+  createLink: true,
+  deleteLink: true,
+  logException: true,
+  createProxy: true,
+  updateProxy: true,
+  deleteProxy: true,
+  logProxyReading: true,
+  archiveEntity: true,
+  unarchiveEntity: true,
+  deleteEntity: true,
+  revert: true,
+  batch: true,
+};
+
+/**
+ * Replay ignores episode limits: a recorded mutation was already admitted
+ * under whatever policy was active at the time, so re-checking it against
+ * today's policy could only make history unreplayable.
+ */
+const REPLAY_POLICY: RegulatorPolicyForNode = {
+  maxActiveExplorePerNode: Number.POSITIVE_INFINITY,
+  maxActiveStabilizePerVariable: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Closures recorded before episodes had to say what happens to their open
+ * actions left them in place; replay must reproduce that.
+ */
+const REPLAY_CLOSE_OPTIONS: CloseEpisodeOptions = {
+  requirePendingActionChoice: false,
+};
+
+/**
+ * Validates that a persisted journal mutation is a known Regulator mutation.
+ */
+export function isRegulatorMutation(
+  mutation: JournalMutation,
+): mutation is RegulatorMutation {
+  if (
+    !Object.hasOwn(MUTATION_KINDS, mutation.kind) ||
+    typeof mutation.params !== "object" ||
+    mutation.params === null
+  ) {
+    return false;
+  }
+  // A batch replays its operations, so each must be known too
+  if (mutation.kind === "batch") {
+    const { operations } = mutation.params as { operations?: unknown };
+    return (
+      Array.isArray(operations) &&
+      operations.every(
+        (operation: unknown) =>
+          typeof operation === "object" &&
+          operation !== null &&
+          typeof (operation as JournalMutation).kind === "string" &&
+          isRegulatorMutation(operation as JournalMutation),
+      )
+    );
+  }
+  return true;
+}
+
+/**
+ * Reads a batch of operations from untrusted input (e.g. a JSON file).
+ *
+ * **Contract:**
+ * - Returns: the operations when `value` is an array of known
+ *   `{ kind, params }` mutations
+ * - Only the shape is checked; each operation's params are validated
+ *   when the batch is applied
+ * - Error handling: Returns error naming the first operation that is not
+ *   a known Regulator mutation
+ */
+export function parseBatchOperations(
+  value: unknown,
+): Result<RegulatorMutation[]> {
+  if (!Array.isArray(value)) {
+    return {
+      ok: false,
+      error: "A batch must be an array of { kind, params } operations",
+    };
+  }
+  const operations: RegulatorMutation[] = [];
+  for (const [index, item] of value.entries()) {
+    if (
+      typeof item !== "object" ||
+      item === null ||
+      typeof (item as JournalMutation).kind !== "string" ||
+      !isRegulatorMutation(item as JournalMutation)
+    ) {
+      return {
+        ok: false,
+        error: `Operation ${index} is not a known Regulator mutation`,
+      };
+    }
+    operations.push(item as RegulatorMutation);
+  }
+  return { ok: true, value: operations };
+}
+
+/**
+ * Applies a single recorded mutation to State.
+ *
+ * **Intent:** Single dispatch point from a journal entry to the pure logic function
+ * that originally produced it.
+ *
+ * **Contract:**
+ * - Returns: Result<State> from the underlying logic function
+ * - Pure function: does not mutate input state
+ * - Episode limits are not enforced (see REPLAY_POLICY), nor are they
+ *   re-checked for reverts
+ */
+export function applyMutation(
+  state: State,
+  mutation: RegulatorMutation,
+): Result<State> {
+  switch (mutation.kind) {
+    case "openEpisode":
+      return logic.openEpisode(state, mutation.params, REPLAY_POLICY);
+    case "closeEpisode":
+      return logic.closeEpisode(state, mutation.params, REPLAY_CLOSE_OPTIONS);
+    case "updateEpisode":
+      return logic.updateEpisode(state, mutation.params);
+    case "signal":
+      return logic.applySignal(state, mutation.params);
+    case "createVariable":
+      return logic.createVariable(state, mutation.params);
+    case "createAction":
+      return logic.createAction(state, mutation.params);
+    case "completeAction":
+      return logic.completeAction(state, mutation.params);
+    case "cancelAction":
+      return logic.cancelAction(state, mutation.params);
+    case "blockAction":
+      return logic.blockAction(state, mutation.params);
+    case "unblockAction":
+      return logic.unblockAction(state, mutation.params);
+    case "updateAction":
+      return logic.updateAction(state, mutation.params);
+    case "reorderActions":
+      return logic.reorderActions(state, mutation.params);
+    case "createModel":
+      return logic.createModel(state, mutation.params);
+    case "updateModel":
+      return logic.updateModel(state, mutation.params);
+    case "reviewModel":
+      return logic.reviewModel(state, mutation.params);
+    case "createNote":
+      return logic.createNote(state, mutation.params);
+    case "updateNote":
+      return logic.updateNote(state, mutation.params);
+    case "addNoteTag":
+      return logic.addNoteTag(state, mutation.params);
+    case "removeNoteTag":
+      return logic.removeNoteTag(state, mutation.params);
+    case "addNoteLinkedObject":
+      return logic.addNoteLinkedObject(state, mutation.params);
+    case "createLink":
+      return logic.createLink(state, mutation.params);
+    case "deleteLink":
+      return logic.deleteLink(state, mutation.params);
+    case "logException":
+      return logic.logException(state, mutation.params);
+    case "createProxy":
+      return logic.createProxy(state, mutation.params);
+    case "updateProxy":
+      return logic.updateProxy(state, mutation.params);
+    case "deleteProxy":
+      return logic.deleteProxy(state, mutation.params);
+    case "logProxyReading":
+      return logic.logProxyReading(state, mutation.params);
+    case "archiveEntity":
+      return logic.archiveEntity(state, mutation.params);
+    case "unarchiveEntity":
+      return logic.unarchiveEntity(state, mutation.params);
+    case "deleteEntity":
+      return logic.deleteEntity(state, mutation.params);
+    case "revert":
+      return logic.revert(state, mutation.params);
+    case "batch": {
+      let current = state;
+      for (const operation of mutation.params.operations) {
+        const result = applyMutation(current, operation);
+        if (!result.ok) return result;
+        current = result.value;
+      }
+      return { ok: true, value: current };
+    }
+  }
+}
+
+/**
+ * Rebuilds State from journal entries.
+ *
+ * **Intent:** Event-sourced reconstruction — start from the most recent
+ * snapshot and replay every mutation recorded after it.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the reconstructed state
+ * - Pure function: does not mutate the entries
+ * - Error handling: Returns error if there is no snapshot, an entry after it
+ *   is unreadable, revisions skip (entries are missing), a mutation kind
+ *   is unknown, or a mutation no longer applies
+ */
+export function replayJournal(entries: readonly JournalEntry[]): Result<State> {
+  const snapshotIndex = entries.findLastIndex((e) => e.type === "snapshot");
+  const snapshot = entries[snapshotIndex];
+  if (!snapshot || snapshot.type !== "snapshot") {
+    return { ok: false, error: "Journal has no snapshot to replay from" };
+  }
+
+  let state = snapshot.state;
+  let revision = snapshot.revision;
+  for (let i = snapshotIndex + 1; i < entries.length; i++) {
+    const entry = entries[i];
+    if (!entry || entry.type === "snapshot") continue;
+
+    if (entry.type === "unreadable") {
+      return {
+        ok: false,
+        error: `Journal entry ${i} (line ${entry.position}) is unreadable; history after it cannot be replayed`,
+      };
+    }
+    // Each save's entries follow the previous save's; anything else means
+    // entries were lost (saves that cannot chain write a snapshot instead)
+    if (
+      revision !== undefined &&
+      entry.revision !== undefined &&
+      entry.revision !== revision &&
+      entry.revision !== revision + 1
+    ) {
+      return {
+        ok: false,
+        error: `Journal entry ${i} is at revision ${entry.revision} but follows revision ${revision}; entries in between are missing`,
+      };
+    }
+    revision = entry.revision ?? revision;
+
+    if (!isRegulatorMutation(entry.mutation)) {
+      return {
+        ok: false,
+        error: `Journal entry ${i} has unknown mutation kind '${entry.mutation.kind}'`,
+      };
+    }
+
+    const result = applyMutation(state, entry.mutation);
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: `Journal entry ${i} (${entry.mutation.kind}) failed to replay: ${result.error}`,
+      };
+    }
+    state = result.value;
+  }
+
+  return { ok: true, value: state };
+}
@@ -5,6 +5,18 @@ import {
   countActiveExplores,
   getProxiesForVariable,
   getRecentReadings,
+  getOverdueEpisodes,
+  getDueMeasurements,
+  getEpisodeActions,
+  getPendingActionsForActiveEpisodes,
+  getPendingOrphanedActions,
+  getPreviousEpisode,
+  getFollowUpEpisodes,
+  getEpisodeLineage,
+  getEpisodeLineages,
+  getArchivedEntities,
+  getDeletionBlockers,
+  getNormsDueForReview,
 } from "./selectors.js";
 import {
   canStartExplore,
@@ -12,12 +24,18 @@ import {
   applySignal,
   createAction,
   completeAction,
+  cancelAction,
+  blockAction,
+  unblockAction,
+  updateAction,
+  reorderActions,
   validateEpisodeParams,
   openEpisode,
   closeEpisode,
   updateEpisode,
   createModel,
   updateModel,
+  reviewModel,
   createNote,
   addNoteTag,
   removeNoteTag,
@@ -31,8 +49,12 @@ import {
   updateProxy,
   deleteProxy,
   logProxyReading,
+  archiveEntity,
+  unarchiveEntity,
+  deleteEntity,
 } from "./logic.js";
 import {
+  createEmptyState,
   DEFAULT_PERSONAL_NODE,
   DEFAULT_ORG_NODE,
   ACTION_STATUSES,
@@ -49,7 +71,7 @@ import {
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
 const CLOSED_STATUS = EPISODE_STATUSES[1];
-import type { State } from "../memory/index.js";
+import type { MutationType, State } from "../memory/index.js";
 import { MAX_ACTIVE_EXPLORE_PER_NODE } from "./types.js";
 import type { RegulatorPolicyForNode } from "./policy.js";
 
@@ -80,6 +102,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const personalVars = getVariablesByNode(state, DEFAULT_PERSONAL_NODE);
@@ -131,6 +154,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const personalActive = getActiveEpisodesByNode(
@@ -181,6 +205,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const count = countActiveExplores(state, DEFAULT_PERSONAL_NODE);
@@ -201,6 +226,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = canStartExplore(state, DEFAULT_PERSONAL_NODE);
@@ -228,6 +254,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = canStartExplore(state, DEFAULT_PERSONAL_NODE);
@@ -260,6 +287,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = canStartExplore(state, DEFAULT_ORG_NODE);
@@ -295,6 +323,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const policyTwo: RegulatorPolicyForNode = {
@@ -334,6 +363,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = canCreateAction(state, {
@@ -363,6 +393,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = canCreateAction(state, {
@@ -414,6 +445,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const openedAt = "2025-01-01T12:00:00.000Z";
@@ -451,6 +483,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const params = {
@@ -487,6 +520,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const params = {
@@ -523,6 +557,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const sameVariable = openEpisode(state, {
@@ -569,6 +604,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const closedAt = "2025-01-01T12:00:00.000Z";
@@ -625,6 +661,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = closeEpisode(state, {
@@ -636,6 +673,17 @@ describe("Regulator Logic (Pure Functions)", () => {
       expect(result.ok).toBe(true);
       if (result.ok) {
         expect(result.value.variables[0]?.status).toBe(VARIABLE_STATUSES[1]);
+        expect(result.value.statusChanges).toEqual([
+          {
+            id: "note-1:v1",
+            variableId: "v1",
+            from: "Low",
+            to: "InRange",
+            at: "2025-01-01T12:00:00.000Z",
+            source: "episodeClosure",
+            episodeId: "e1",
+          },
+        ]);
         // Original state unchanged (pure function)
         expect(state.variables[0]?.status).toBe(VARIABLE_STATUSES[0]);
       }
@@ -653,6 +701,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = closeEpisode(state, {
@@ -688,6 +737,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = closeEpisode(state, {
@@ -722,6 +772,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = closeEpisode(state, {
@@ -756,6 +807,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = closeEpisode(state, {
@@ -790,6 +842,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       // Closing Explore without modelUpdates should fail
@@ -850,6 +903,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       // Closing Stabilize without modelUpdates should succeed
@@ -862,6 +916,363 @@ describe("Regulator Logic (Pure Functions)", () => {
     });
   });
 
+  describe("closeEpisode with pending actions", () => {
+    function createPendingState(): State {
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [],
+        episodes: [
+          {
+            id: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: EPISODE_TYPES[0],
+            objective: "Closing",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+          {
+            id: "e2",
+            node: DEFAULT_PERSONAL_NODE,
+            type: EPISODE_TYPES[0],
+            objective: "Continuing",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+          {
+            id: "e3",
+            node: DEFAULT_ORG_NODE,
+            type: EPISODE_TYPES[0],
+            objective: "Elsewhere",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+        actions: [
+          {
+            id: "a1",
+            description: "Done already",
+            status: ACTION_STATUSES[1],
+            episodeId: "e1",
+            order: 0,
+          },
+          {
+            id: "a2",
+            description: "Waiting",
+            status: ACTION_STATUSES[3],
+            episodeId: "e1",
+            order: 2,
+          },
+          {
+            id: "a3",
+            description: "Still to do",
+            status: ACTION_STATUSES[0],
+            episodeId: "e1",
+            order: 1,
+          },
+          {
+            id: "a4",
+            description: "Other episode",
+            status: ACTION_STATUSES[0],
+            episodeId: "e2",
+            order: 0,
+          },
+        ],
+        notes: [],
+        models: [],
+        links: [],
+        exceptions: [],
+        proxies: [],
+        proxyReadings: [],
+        statusChanges: [],
+      };
+    }
+
+    const closure = {
+      episodeId: "e1",
+      closedAt: "2025-01-05T00:00:00.000Z",
+      closureNote: { id: "n1", content: "Wrapped up" },
+    };
+
+    it("refuses to close without saying what happens to open actions", () => {
+      const result = closeEpisode(createPendingState(), closure);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("has 2 pending action(s)");
+      }
+    });
+
+    it("carries open actions over to the end of another active episode", () => {
+      const result = closeEpisode(createPendingState(), {
+        ...closure,
+        pendingActions: { mode: "carryOver", episodeId: "e2" },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(getEpisodeActions(result.value, "e2").map((a) => a.id)).toEqual([
+          "a4",
+          "a3",
+          "a2",
+        ]);
+        // Done actions stay with the closed episode
+        expect(result.value.actions[0]?.episodeId).toBe("e1");
+        expect(result.value.actions[1]?.status).toBe(ACTION_STATUSES[3]);
+      }
+    });
+
+    it("only carries over to an active episode of the same node", () => {
+      const state = createPendingState();
+
+      const self = closeEpisode(state, {
+        ...closure,
+        pendingActions: { mode: "carryOver", episodeId: "e1" },
+      });
+      expect(self.ok).toBe(false);
+
+      const otherNode = closeEpisode(state, {
+        ...closure,
+        pendingActions: { mode: "carryOver", episodeId: "e3" },
+      });
+      expect(otherNode.ok).toBe(false);
+      if (!otherNode.ok) {
+        expect(otherNode.error).toContain("does not belong to node");
+      }
+    });
+
+    it("cancels open actions with the closure as the default reason", () => {
+      const result = closeEpisode(createPendingState(), {
+        ...closure,
+        pendingActions: { mode: "cancel" },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(
+          result.value.actions.map((a) => [a.id, a.status, a.cancelReason]),
+        ).toEqual([
+          ["a1", ACTION_STATUSES[1], undefined],
+          ["a2", ACTION_STATUSES[2], "Episode 'e1' closed"],
+          ["a3", ACTION_STATUSES[2], "Episode 'e1' closed"],
+          ["a4", ACTION_STATUSES[0], undefined],
+        ]);
+      }
+    });
+
+    it("detaches open actions into the triage list", () => {
+      const result = closeEpisode(createPendingState(), {
+        ...closure,
+        pendingActions: { mode: "detach" },
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(
+          getPendingOrphanedActions(result.value).map((a) => a.id),
+        ).toEqual(["a3"]);
+        expect(result.value.actions[1]).not.toHaveProperty("episodeId");
+        expect(result.value.actions[1]).not.toHaveProperty("order");
+      }
+    });
+
+    it("can skip the choice for journal replay", () => {
+      const result = closeEpisode(createPendingState(), closure, {
+        requirePendingActionChoice: false,
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actions[2]?.episodeId).toBe("e1");
+      }
+    });
+  });
+
+  describe("episode lineage", () => {
+    function createExploreState(): State {
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [
+          {
+            id: "v1",
+            node: DEFAULT_PERSONAL_NODE,
+            name: "Sleep",
+            status: VARIABLE_STATUSES[0],
+          },
+        ],
+        episodes: [
+          {
+            id: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: EPISODE_TYPES[1],
+            objective: "Why do I sleep late?",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+          {
+            id: "e-org",
+            node: DEFAULT_ORG_NODE,
+            type: EPISODE_TYPES[1],
+            objective: "Elsewhere",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+        actions: [],
+        notes: [],
+        models: [],
+        links: [],
+        exceptions: [],
+        proxies: [],
+        proxyReadings: [],
+        statusChanges: [],
+      };
+    }
+
+    function closeExplore(state: State): State {
+      const result = closeEpisode(state, {
+        episodeId: "e1",
+        closedAt: "2025-01-08T00:00:00.000Z",
+        closureNote: { id: "n1", content: "Screens keep me up" },
+        modelUpdates: [
+          {
+            id: "m1",
+            type: MODEL_TYPES[0],
+            statement: "Screens after 22:00 delay sleep",
+          },
+        ],
+      });
+      if (!result.ok) throw new Error(result.error);
+      return result.value;
+    }
+
+    function openFollowUp(
+      state: State,
+      episodeId: string,
+      previousEpisodeId: string,
+      openedAt: string,
+    ): State {
+      const result = openEpisode(state, {
+        episodeId,
+        node: DEFAULT_PERSONAL_NODE,
+        type: EPISODE_TYPES[0],
+        variableId: "v1",
+        objective: `Follow-up ${episodeId}`,
+        openedAt,
+        previousEpisodeId,
+        linkId: `l-${episodeId}`,
+      });
+      if (!result.ok) throw new Error(result.error);
+      return result.value;
+    }
+
+    it("records the closure's model updates against the episode", () => {
+      const state = closeExplore(createExploreState());
+
+      expect(state.links).toEqual([
+        {
+          id: "n1:m1",
+          sourceId: "m1",
+          targetId: "e1",
+          relation: LINK_RELATIONS[4],
+        },
+      ]);
+    });
+
+    it("records a follow-up as a derived_from link to the previous episode", () => {
+      const state = openFollowUp(
+        closeExplore(createExploreState()),
+        "e2",
+        "e1",
+        "2025-01-09T00:00:00.000Z",
+      );
+
+      expect(state.links).toContainEqual({
+        id: "l-e2",
+        sourceId: "e2",
+        targetId: "e1",
+        relation: LINK_RELATIONS[4],
+      });
+      expect(getPreviousEpisode(state, "e2")?.id).toBe("e1");
+      expect(getPreviousEpisode(state, "e1")).toBeNull();
+      expect(getFollowUpEpisodes(state, "e1").map((e) => e.id)).toEqual(["e2"]);
+    });
+
+    it("rejects a previous episode that is missing, elsewhere or unlinked", () => {
+      const state = createExploreState();
+      const params = {
+        episodeId: "e2",
+        node: DEFAULT_PERSONAL_NODE,
+        type: EPISODE_TYPES[1],
+        objective: "Next",
+        openedAt: "2025-01-09T00:00:00.000Z",
+      };
+
+      expect(
+        openEpisode(state, {
+          ...params,
+          previousEpisodeId: "nope",
+          linkId: "l1",
+        }),
+      ).toEqual({ ok: false, error: "Previous episode 'nope' not found" });
+      expect(
+        openEpisode(state, {
+          ...params,
+          previousEpisodeId: "e-org",
+          linkId: "l1",
+        }),
+      ).toEqual({
+        ok: false,
+        error:
+          "Previous episode 'e-org' does not belong to node Personal:personal",
+      });
+      expect(
+        openEpisode(state, { ...params, previousEpisodeId: "e1" }),
+      ).toEqual({ ok: false, error: "previousEpisodeId requires a linkId" });
+    });
+
+    it("builds the lineage tree with each parent's conclusions", () => {
+      // One active Stabilize per Variable: retire each follow-up in turn
+      const retire = (current: State, episodeId: string): State => ({
+        ...current,
+        episodes: current.episodes.map((e) =>
+          e.id === episodeId ? { ...e, status: CLOSED_STATUS } : e,
+        ),
+      });
+      let state = closeExplore(createExploreState());
+      state = openFollowUp(state, "e3", "e1", "2025-01-10T00:00:00.000Z");
+      state = openFollowUp(
+        retire(state, "e3"),
+        "e2",
+        "e1",
+        "2025-01-09T00:00:00.000Z",
+      );
+      state = openFollowUp(
+        retire(state, "e2"),
+        "e4",
+        "e2",
+        "2025-01-20T00:00:00.000Z",
+      );
+
+      const lineage = getEpisodeLineage(state, "e4");
+
+      expect(lineage?.episode.id).toBe("e1");
+      expect(lineage?.closureNote?.content).toBe("Screens keep me up");
+      expect(lineage?.modelUpdates.map((m) => m.id)).toEqual(["m1"]);
+      expect(lineage?.followUps.map((f) => f.episode.id)).toEqual(["e2", "e3"]);
+      expect(lineage?.followUps[0]?.closureNote).toBeNull();
+      expect(lineage?.followUps[0]?.followUps.map((f) => f.episode.id)).toEqual(
+        ["e4"],
+      );
+      expect(getEpisodeLineage(state, "missing")).toBeNull();
+      expect(
+        getEpisodeLineages(state, DEFAULT_PERSONAL_NODE).map(
+          (l) => l.episode.id,
+        ),
+      ).toEqual(["e1"]);
+      expect(getEpisodeLineages(state, DEFAULT_ORG_NODE)).toEqual([]);
+    });
+  });
+
   describe("applySignal", () => {
     it("updates only the intended variable", () => {
       const state: State = {
@@ -888,6 +1299,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = applySignal(state, {
@@ -920,6 +1332,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createAction(state, {
@@ -946,6 +1359,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createAction(state, {
@@ -978,6 +1392,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const wrongNode = createAction(state, {
@@ -1011,6 +1426,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createAction(state, {
@@ -1043,6 +1459,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createAction(state, {
@@ -1079,6 +1496,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = completeAction(state, { actionId: "a1" });
@@ -1102,6 +1520,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = completeAction(state, { actionId: "nonexistent" });
@@ -1129,6 +1548,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = completeAction(state, { actionId: "a1" });
@@ -1162,15 +1582,268 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
+      };
+
+      const result = completeAction(state, { actionId: "a1" });
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actions).toHaveLength(2);
+        expect(result.value.actions[0]?.status).toBe(ACTION_STATUSES[1]); // Done
+        expect(result.value.actions[1]?.status).toBe(ACTION_STATUSES[0]); // Still Pending
+      }
+    });
+  });
+
+  describe("action lifecycle", () => {
+    function createLifecycleState(): State {
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [],
+        episodes: [
+          {
+            id: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: "Explore",
+            objective: "Learn",
+            status: ACTIVE_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+          },
+        ],
+        actions: [
+          {
+            id: "a1",
+            description: "First",
+            status: ACTION_STATUSES[0],
+            episodeId: "e1",
+            order: 0,
+          },
+          {
+            id: "a2",
+            description: "Second",
+            status: ACTION_STATUSES[0],
+            episodeId: "e1",
+            order: 1,
+          },
+          { id: "a3", description: "Finished", status: ACTION_STATUSES[1] },
+        ],
+        notes: [],
+        models: [],
+        links: [],
+        exceptions: [],
+        proxies: [],
+        proxyReadings: [],
+        statusChanges: [],
       };
+    }
+
+    it("appends new episode actions to the end of the order, with a due date", () => {
+      const result = createAction(createLifecycleState(), {
+        actionId: "a4",
+        node: DEFAULT_PERSONAL_NODE,
+        episodeId: "e1",
+        description: "Third",
+        dueDate: "2025-02-01",
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actions.at(-1)).toMatchObject({
+          id: "a4",
+          order: 2,
+          dueDate: "2025-02-01",
+        });
+      }
+    });
+
+    it("rejects a due date that is not YYYY-MM-DD", () => {
+      const result = createAction(createLifecycleState(), {
+        actionId: "a4",
+        node: DEFAULT_PERSONAL_NODE,
+        description: "Third",
+        dueDate: "2025-02-30",
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("YYYY-MM-DD");
+      }
+    });
+
+    it("cancels an open action with a reason", () => {
+      const state = createLifecycleState();
+      const result = cancelAction(state, {
+        actionId: "a1",
+        reason: "Not needed",
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actions[0]).toMatchObject({
+          status: ACTION_STATUSES[2], // Cancelled
+          cancelReason: "Not needed",
+        });
+        expect(state.actions[0]?.status).toBe(ACTION_STATUSES[0]);
+      }
+    });
+
+    it("refuses to cancel without a reason or once Done", () => {
+      const state = createLifecycleState();
+
+      const noReason = cancelAction(state, { actionId: "a1", reason: " " });
+      expect(noReason.ok).toBe(false);
+
+      const done = cancelAction(state, { actionId: "a3", reason: "Oops" });
+      expect(done.ok).toBe(false);
+      if (!done.ok) {
+        expect(done.error).toContain("it is Done");
+      }
+    });
+
+    it("blocks an action with a blocks link from the blocker", () => {
+      const result = blockAction(createLifecycleState(), {
+        actionId: "a2",
+        blockedBy: "a1",
+        linkId: "l1",
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.actions[1]?.status).toBe(ACTION_STATUSES[3]); // Blocked
+        expect(result.value.links).toEqual([
+          { id: "l1", sourceId: "a1", targetId: "a2", relation: "blocks" },
+        ]);
+      }
+    });
+
+    it("refuses to block on itself or on a missing object", () => {
+      const state = createLifecycleState();
+
+      expect(
+        blockAction(state, { actionId: "a2", blockedBy: "a2", linkId: "l1" })
+          .ok,
+      ).toBe(false);
+      const missing = blockAction(state, {
+        actionId: "a2",
+        blockedBy: "ghost",
+        linkId: "l1",
+      });
+      expect(missing.ok).toBe(false);
+      if (!missing.ok) {
+        expect(missing.error).toContain("not found");
+      }
+    });
+
+    it("will not complete a Blocked action until it is unblocked", () => {
+      const blocked = blockAction(createLifecycleState(), {
+        actionId: "a2",
+        blockedBy: "a1",
+        linkId: "l1",
+      });
+      if (!blocked.ok) throw new Error(blocked.error);
+      const state: State = {
+        ...blocked.value,
+        links: [
+          ...blocked.value.links,
+          { id: "l2", sourceId: "a1", targetId: "a3", relation: "blocks" },
+        ],
+      };
+
+      const completed = completeAction(state, { actionId: "a2" });
+      expect(completed.ok).toBe(false);
+      if (!completed.ok) {
+        expect(completed.error).toContain("unblock");
+      }
+
+      const unblocked = unblockAction(state, { actionId: "a2" });
+      expect(unblocked.ok).toBe(true);
+      if (unblocked.ok) {
+        expect(unblocked.value.actions[1]?.status).toBe(ACTION_STATUSES[0]);
+        // Only the links blocking a2 go
+        expect(unblocked.value.links.map((l) => l.id)).toEqual(["l2"]);
+        expect(completeAction(unblocked.value, { actionId: "a2" }).ok).toBe(
+          true,
+        );
+      }
+    });
+
+    it("refuses to unblock an action that is not Blocked", () => {
+      const result = unblockAction(createLifecycleState(), { actionId: "a1" });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("not Blocked");
+      }
+    });
+
+    it("sets and clears an open action's due date", () => {
+      const set = updateAction(createLifecycleState(), {
+        actionId: "a1",
+        dueDate: "2025-03-01",
+      });
+      if (!set.ok) throw new Error(set.error);
+      expect(set.value.actions[0]?.dueDate).toBe("2025-03-01");
+
+      const cleared = updateAction(set.value, {
+        actionId: "a1",
+        dueDate: null,
+      });
+      if (!cleared.ok) throw new Error(cleared.error);
+      expect(cleared.value.actions[0]).not.toHaveProperty("dueDate");
+      expect(cleared.value.actions[0]?.description).toBe("First");
+    });
+
+    it("does not edit Done actions", () => {
+      const result = updateAction(createLifecycleState(), {
+        actionId: "a3",
+        description: "Rewritten",
+      });
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("reorders an episode's actions", () => {
+      const result = reorderActions(createLifecycleState(), {
+        episodeId: "e1",
+        actionIds: ["a2", "a1"],
+      });
 
-      const result = completeAction(state, { actionId: "a1" });
       expect(result.ok).toBe(true);
       if (result.ok) {
-        expect(result.value.actions).toHaveLength(2);
-        expect(result.value.actions[0]?.status).toBe(ACTION_STATUSES[1]); // Done
-        expect(result.value.actions[1]?.status).toBe(ACTION_STATUSES[0]); // Still Pending
+        expect(getEpisodeActions(result.value, "e1").map((a) => a.id)).toEqual([
+          "a2",
+          "a1",
+        ]);
+        expect(
+          getPendingActionsForActiveEpisodes(
+            result.value,
+            DEFAULT_PERSONAL_NODE,
+          ).map((a) => a.id),
+        ).toEqual(["a2", "a1"]);
+      }
+    });
+
+    it("requires every action of the episode exactly once", () => {
+      const state = createLifecycleState();
+
+      const missing = reorderActions(state, {
+        episodeId: "e1",
+        actionIds: ["a2"],
+      });
+      expect(missing.ok).toBe(false);
+      if (!missing.ok) {
+        expect(missing.error).toContain("missing action(s): a1");
       }
+
+      expect(
+        reorderActions(state, { episodeId: "e1", actionIds: ["a1", "a1"] }).ok,
+      ).toBe(false);
+      expect(
+        reorderActions(state, {
+          episodeId: "e1",
+          actionIds: ["a1", "a2", "a3"],
+        }).ok,
+      ).toBe(false);
     });
   });
 
@@ -1187,6 +1860,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1220,6 +1894,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1251,6 +1926,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1277,6 +1953,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1300,6 +1977,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1327,6 +2005,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1357,6 +2036,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createModel(state, {
@@ -1391,6 +2071,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1425,6 +2106,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1456,6 +2138,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1485,6 +2168,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1516,6 +2200,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1544,6 +2229,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateModel(state, {
@@ -1553,6 +2239,253 @@ describe("Regulator Logic (Pure Functions)", () => {
 
       expect(result.ok).toBe(false);
     });
+
+    it("sets, validates and clears a structured condition", () => {
+      const state: State = {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [
+          {
+            id: "v1",
+            node: DEFAULT_PERSONAL_NODE,
+            name: "Agency",
+            status: VARIABLE_STATUSES[0],
+          },
+        ],
+        episodes: [],
+        actions: [],
+        notes: [],
+        models: [
+          {
+            id: "m1",
+            type: MODEL_TYPES[2],
+            statement: "No Explore episodes while Agency is Low",
+            scope: MODEL_SCOPES[0],
+            enforcement: ENFORCEMENT_LEVELS[2],
+          },
+        ],
+        links: [],
+        exceptions: [],
+        proxies: [],
+        proxyReadings: [],
+        statusChanges: [],
+      };
+      const condition = {
+        episodeTypes: [EPISODE_TYPES[1]],
+        variable: { variableId: "v1", statuses: [VARIABLE_STATUSES[0]] },
+      };
+
+      const conditioned = updateModel(state, { modelId: "m1", condition });
+      expect(conditioned.ok && conditioned.value.models[0]?.condition).toEqual(
+        condition,
+      );
+
+      expect(
+        updateModel(state, {
+          modelId: "m1",
+          condition: { variable: { variableId: "v9", statuses: ["Low"] } },
+        }),
+      ).toEqual({ ok: false, error: "Variable with id 'v9' not found" });
+      expect(
+        updateModel(state, {
+          modelId: "m1",
+          condition: {
+            timeWindows: [{ days: ["Sat"], fromHour: 9, toHour: 9 }],
+          },
+        }).ok,
+      ).toBe(false);
+
+      if (!conditioned.ok) return;
+      const cleared = updateModel(conditioned.value, {
+        modelId: "m1",
+        condition: null,
+      });
+      expect(cleared.ok && cleared.value.models[0]).toEqual(state.models[0]);
+    });
+
+    it("sets and clears review and expiry dates, review first", () => {
+      const state: State = {
+        ...createEmptyState(),
+        models: [
+          {
+            id: "m1",
+            type: MODEL_TYPES[2],
+            statement: "No Explore this quarter",
+            enforcement: ENFORCEMENT_LEVELS[2],
+          },
+        ],
+      };
+
+      const dated = updateModel(state, {
+        modelId: "m1",
+        reviewOn: "2025-03-01",
+        expiresOn: "2025-03-31",
+      });
+      expect(dated.ok && dated.value.models[0]).toMatchObject({
+        reviewOn: "2025-03-01",
+        expiresOn: "2025-03-31",
+      });
+      if (!dated.ok) return;
+
+      expect(
+        updateModel(dated.value, { modelId: "m1", reviewOn: "2025-04-01" }),
+      ).toEqual({
+        ok: false,
+        error:
+          "Model review date '2025-04-01' must not be after its expiry '2025-03-31'",
+      });
+      expect(
+        updateModel(state, { modelId: "m1", expiresOn: "end of March" }).ok,
+      ).toBe(false);
+
+      const cleared = updateModel(dated.value, {
+        modelId: "m1",
+        reviewOn: null,
+        expiresOn: null,
+      });
+      expect(cleared.ok && cleared.value.models[0]).toEqual(state.models[0]);
+    });
+  });
+
+  describe("norm review", () => {
+    const REVIEWED_AT = "2025-04-02T09:00:00.000Z";
+
+    function reviewState(): State {
+      return {
+        ...createEmptyState(),
+        models: [
+          {
+            id: "m1",
+            type: MODEL_TYPES[2],
+            statement: "No Explore this quarter",
+            enforcement: ENFORCEMENT_LEVELS[2],
+            reviewOn: "2025-03-15",
+            expiresOn: "2025-04-01",
+          },
+          {
+            id: "m2",
+            type: MODEL_TYPES[2],
+            statement: "Keep actions few",
+            enforcement: ENFORCEMENT_LEVELS[1],
+            reviewOn: "2025-03-01",
+          },
+          {
+            id: "m3",
+            type: MODEL_TYPES[2],
+            statement: "Informational",
+            enforcement: ENFORCEMENT_LEVELS[0],
+            expiresOn: "2025-01-01",
+          },
+          {
+            id: "m4",
+            type: MODEL_TYPES[2],
+            statement: "Not yet",
+            enforcement: ENFORCEMENT_LEVELS[1],
+            reviewOn: "2025-05-01",
+          },
+        ],
+      };
+    }
+
+    it("queues enforced norms whose review date or expiry has come", () => {
+      expect(
+        getNormsDueForReview(reviewState(), REVIEWED_AT).map((review) => [
+          review.model.id,
+          review.reason,
+          review.dueOn,
+        ]),
+      ).toEqual([
+        ["m2", "review", "2025-03-01"],
+        ["m1", "expired", "2025-04-01"],
+      ]);
+    });
+
+    it("renews a norm with an audit Note, refusing dates already past", () => {
+      const state = reviewState();
+      const renewed = reviewModel(state, {
+        modelId: "m1",
+        decision: { outcome: "renew", reviewOn: null, expiresOn: "2025-07-01" },
+        reason: "Quarter close moved",
+        noteId: "n1",
+        reviewedAt: REVIEWED_AT,
+      });
+
+      expect(renewed.ok).toBe(true);
+      if (!renewed.ok) return;
+      expect(renewed.value.models[0]).toEqual({
+        id: "m1",
+        type: MODEL_TYPES[2],
+        statement: "No Explore this quarter",
+        enforcement: ENFORCEMENT_LEVELS[2],
+        expiresOn: "2025-07-01",
+      });
+      expect(renewed.value.notes).toEqual([
+        {
+          id: "n1",
+          content:
+            'Norm reviewed: "No Explore this quarter" renewed (expires 2025-07-01). Quarter close moved',
+          createdAt: REVIEWED_AT,
+          tags: ["audit"],
+          linkedObjects: ["m1"],
+        },
+      ]);
+      expect(
+        getNormsDueForReview(renewed.value, REVIEWED_AT).map((r) => r.model.id),
+      ).toEqual(["m2"]);
+
+      expect(
+        reviewModel(state, {
+          modelId: "m1",
+          decision: { outcome: "renew" },
+          noteId: "n1",
+          reviewedAt: REVIEWED_AT,
+        }),
+      ).toEqual({
+        ok: false,
+        error:
+          "Model 'm1' would still be due for review (expired on 2025-04-01); give a later reviewOn or expiresOn",
+      });
+    });
+
+    it("changes enforcement or retires, recording each decision", () => {
+      const state = reviewState();
+      const demoted = reviewModel(state, {
+        modelId: "m2",
+        decision: {
+          outcome: "changeEnforcement",
+          enforcement: ENFORCEMENT_LEVELS[0],
+        },
+        noteId: "n1",
+        reviewedAt: REVIEWED_AT,
+      });
+      expect(demoted.ok && demoted.value.models[1]?.enforcement).toBe("none");
+      expect(demoted.ok && demoted.value.notes[0]?.content).toBe(
+        'Norm reviewed: "Keep actions few" enforcement warn → none (review 2025-03-01)',
+      );
+
+      const retired = reviewModel(state, {
+        modelId: "m1",
+        decision: { outcome: "retire" },
+        noteId: "n1",
+        reviewedAt: REVIEWED_AT,
+      });
+      expect(retired.ok && retired.value.models[0]).toMatchObject({
+        enforcement: "none",
+        archivedAt: REVIEWED_AT,
+      });
+      expect(retired.ok && retired.value.notes[0]?.content).toBe(
+        'Norm reviewed: "No Explore this quarter" retired',
+      );
+      if (!retired.ok) return;
+
+      expect(
+        reviewModel(retired.value, {
+          modelId: "m1",
+          decision: { outcome: "retire" },
+          noteId: "n2",
+          reviewedAt: REVIEWED_AT,
+        }),
+      ).toEqual({ ok: false, error: "Model 'm1' is archived" });
+    });
   });
 
   describe("createNote", () => {
@@ -1568,6 +2501,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const createdAt = "2025-01-01T12:00:00.000Z";
@@ -1601,6 +2535,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createNote(state, {
@@ -1628,6 +2563,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createNote(state, {
@@ -1658,6 +2594,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createNote(state, {
@@ -1691,6 +2628,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createNote(state, {
@@ -1726,6 +2664,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteTag(state, {
@@ -1760,6 +2699,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteTag(state, {
@@ -1787,6 +2727,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteTag(state, {
@@ -1821,6 +2762,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = removeNoteTag(state, {
@@ -1855,6 +2797,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = removeNoteTag(state, {
@@ -1882,6 +2825,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = removeNoteTag(state, {
@@ -1916,6 +2860,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteLinkedObject(state, {
@@ -1951,6 +2896,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteLinkedObject(state, {
@@ -1987,6 +2933,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteLinkedObject(state, {
@@ -2014,6 +2961,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteLinkedObject(state, {
@@ -2046,6 +2994,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = addNoteLinkedObject(state, {
@@ -2080,6 +3029,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateNote(state, {
@@ -2112,6 +3062,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateNote(state, {
@@ -2144,6 +3095,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateNote(state, {
@@ -2176,6 +3128,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateNote(state, {
@@ -2212,6 +3165,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2255,6 +3209,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2294,6 +3249,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2331,6 +3287,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2367,6 +3324,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2399,6 +3357,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2433,6 +3392,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2467,6 +3427,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2501,6 +3462,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2535,6 +3497,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2570,6 +3533,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2605,6 +3569,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateEpisode(state, {
@@ -2643,6 +3608,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2691,6 +3657,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2732,6 +3699,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result1 = createLink(state, {
@@ -2772,6 +3740,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2806,6 +3775,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2841,6 +3811,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2883,6 +3854,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2917,6 +3889,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -2951,6 +3924,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createLink(state, {
@@ -3013,6 +3987,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       // Link variable to episode
@@ -3077,6 +4052,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = deleteLink(state, { linkId: "l1" });
@@ -3102,6 +4078,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = deleteLink(state, { linkId: "nonexistent" });
@@ -3134,6 +4111,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logException(state, {
@@ -3171,6 +4149,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logException(state, {
@@ -3207,6 +4186,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logException(state, {
@@ -3253,6 +4233,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         ],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logException(state, {
@@ -3285,6 +4266,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3318,6 +4300,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3345,6 +4328,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3372,6 +4356,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3406,6 +4391,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3440,6 +4426,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3474,6 +4461,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3508,6 +4496,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createVariable(state, {
@@ -3550,6 +4539,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createProxy(state, {
@@ -3579,6 +4569,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createProxy(state, {
@@ -3610,6 +4601,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createProxy(state, {
@@ -3648,6 +4640,7 @@ describe("Regulator Logic (Pure Functions)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = createProxy(state, {
@@ -3688,6 +4681,7 @@ describe("Regulator Logic (Pure Functions)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateProxy(state, {
@@ -3713,6 +4707,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = updateProxy(state, {
@@ -3758,6 +4753,7 @@ describe("Regulator Logic (Pure Functions)", () => {
             recordedAt: "2025-01-01T00:00:00.000Z",
           },
         ],
+        statusChanges: [],
       };
 
       const result = deleteProxy(state, {
@@ -3783,6 +4779,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = deleteProxy(state, {
@@ -3820,6 +4817,7 @@ describe("Regulator Logic (Pure Functions)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logProxyReading(state, {
@@ -3851,6 +4849,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logProxyReading(state, {
@@ -3889,6 +4888,7 @@ describe("Regulator Logic (Pure Functions)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = logProxyReading(state, {
@@ -3947,6 +4947,7 @@ describe("Regulator Logic (Pure Functions)", () => {
           },
         ],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const proxies = getProxiesForVariable(state, "var-1");
@@ -3995,6 +4996,7 @@ describe("Regulator Logic (Pure Functions)", () => {
             recordedAt: "2025-01-02T00:00:00.000Z",
           },
         ],
+        statusChanges: [],
       };
 
       const readings = getRecentReadings(state, "proxy-1");
@@ -4042,6 +5044,7 @@ describe("Regulator Logic (Pure Functions)", () => {
             recordedAt: "2025-01-02T00:00:00.000Z",
           },
         ],
+        statusChanges: [],
       };
 
       const readings = getRecentReadings(state, "proxy-1", 2);
@@ -4051,6 +5054,200 @@ describe("Regulator Logic (Pure Functions)", () => {
     });
   });
 
+  describe("getOverdueEpisodes", () => {
+    const state: State = {
+      schemaVersion: SCHEMA_VERSION,
+      variables: [],
+      episodes: [
+        {
+          id: "no-timebox",
+          node: DEFAULT_PERSONAL_NODE,
+          type: EPISODE_TYPES[1],
+          objective: "Open-ended",
+          status: ACTIVE_STATUS,
+          openedAt: "2025-01-01T00:00:00.000Z",
+        },
+        {
+          id: "late",
+          node: DEFAULT_PERSONAL_NODE,
+          type: EPISODE_TYPES[0],
+          variableId: "var-1",
+          objective: "Sleep by 23:00",
+          status: ACTIVE_STATUS,
+          openedAt: "2025-01-01T00:00:00.000Z",
+          timeboxDays: 7,
+        },
+        {
+          id: "later",
+          node: DEFAULT_PERSONAL_NODE,
+          type: EPISODE_TYPES[0],
+          variableId: "var-2",
+          objective: "Walk daily",
+          status: ACTIVE_STATUS,
+          openedAt: "2025-01-01T00:00:00.000Z",
+          timeboxDays: 3,
+        },
+        {
+          id: "closed",
+          node: DEFAULT_PERSONAL_NODE,
+          type: EPISODE_TYPES[1],
+          objective: "Done already",
+          status: CLOSED_STATUS,
+          openedAt: "2025-01-01T00:00:00.000Z",
+          closedAt: "2025-01-02T00:00:00.000Z",
+          timeboxDays: 1,
+        },
+      ],
+      actions: [],
+      notes: [],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [],
+      proxyReadings: [],
+      statusChanges: [],
+    };
+
+    it("returns active timeboxed episodes past openedAt + timeboxDays, most overdue first", () => {
+      const overdue = getOverdueEpisodes(
+        state,
+        DEFAULT_PERSONAL_NODE,
+        "2025-01-10T12:00:00.000Z",
+      );
+
+      expect(overdue.map((o) => o.episode.id)).toEqual(["later", "late"]);
+      expect(overdue[0]).toMatchObject({
+        dueAt: "2025-01-04T00:00:00.000Z",
+        daysOverdue: 6,
+      });
+      expect(overdue[1]).toMatchObject({
+        dueAt: "2025-01-08T00:00:00.000Z",
+        daysOverdue: 2,
+      });
+    });
+
+    it("does not count an episode as overdue until its timebox has passed", () => {
+      expect(
+        getOverdueEpisodes(
+          state,
+          DEFAULT_PERSONAL_NODE,
+          "2025-01-04T00:00:00.000Z",
+        ),
+      ).toEqual([]);
+      expect(
+        getOverdueEpisodes(state, DEFAULT_ORG_NODE, "2025-02-01T00:00:00.000Z"),
+      ).toEqual([]);
+    });
+  });
+
+  describe("getDueMeasurements", () => {
+    const state: State = {
+      schemaVersion: SCHEMA_VERSION,
+      variables: [
+        {
+          id: "sleep",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Sleep",
+          status: VARIABLE_STATUSES[0],
+          measurementCadence: "daily",
+        },
+        {
+          id: "focus",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Focus",
+          status: VARIABLE_STATUSES[1],
+          measurementCadence: "weekly",
+        },
+        {
+          id: "money",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Money",
+          status: VARIABLE_STATUSES[3],
+          measurementCadence: "monthly",
+        },
+        {
+          id: "mood",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Mood",
+          status: VARIABLE_STATUSES[3],
+          measurementCadence: "asNeeded",
+        },
+        {
+          id: "energy",
+          node: DEFAULT_PERSONAL_NODE,
+          name: "Energy",
+          status: VARIABLE_STATUSES[3],
+        },
+      ],
+      episodes: [],
+      actions: [],
+      notes: [
+        {
+          id: "audit-1",
+          content: "Status changed: InRange → Low",
+          createdAt: "2025-01-05T21:00:00.000Z",
+          tags: [NOTE_TAGS[4]],
+          linkedObjects: ["sleep"],
+        },
+        {
+          id: "audit-2",
+          content: "Status changed: Unknown → InRange",
+          createdAt: "2025-01-03T09:00:00.000Z",
+          tags: [NOTE_TAGS[4]],
+          linkedObjects: ["focus"],
+        },
+      ],
+      models: [],
+      links: [],
+      exceptions: [],
+      proxies: [
+        {
+          id: "sleep-hours",
+          variableId: "sleep",
+          name: "Sleep hours",
+          valueType: "numeric",
+        },
+      ],
+      proxyReadings: [
+        {
+          id: "r1",
+          proxyId: "sleep-hours",
+          value: { type: "numeric", value: 7 },
+          recordedAt: "2025-01-07T07:00:00.000Z",
+        },
+      ],
+      statusChanges: [],
+    };
+
+    it("schedules by cadence from the latest reading or status signal", () => {
+      const due = getDueMeasurements(
+        state,
+        DEFAULT_PERSONAL_NODE,
+        "2025-01-10T08:00:00.000Z",
+      );
+
+      expect(
+        due.map((d) => [d.variable.id, d.status, d.dueOn, d.daysOverdue]),
+      ).toEqual([
+        ["sleep", "overdue", "2025-01-08", 2],
+        ["money", "due", null, 0],
+        ["focus", "due", "2025-01-10", 0],
+      ]);
+      expect(due[0]?.lastMeasuredAt).toBe("2025-01-07T07:00:00.000Z");
+      expect(due[0]?.proxies.map((p) => p.id)).toEqual(["sleep-hours"]);
+    });
+
+    it("does not list a Variable measured within its cadence", () => {
+      const due = getDueMeasurements(
+        state,
+        DEFAULT_PERSONAL_NODE,
+        "2025-01-07T23:00:00.000Z",
+      );
+
+      expect(due.map((d) => d.variable.id)).toEqual(["money"]);
+    });
+  });
+
   describe("applySignal with audit trail", () => {
     it("creates audit note when status changes", () => {
       const state: State = {
@@ -4071,6 +5268,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = applySignal(state, {
@@ -4089,6 +5287,54 @@ describe("Regulator Logic (Pure Functions)", () => {
       }
     });
 
+    it("records the change in the status history under the audit note id", () => {
+      const state: State = {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [
+          {
+            id: "var-1",
+            node: DEFAULT_PERSONAL_NODE,
+            name: "Sleep Quality",
+            status: VARIABLE_STATUSES[0], // Low
+          },
+        ],
+        episodes: [],
+        actions: [],
+        notes: [],
+        models: [],
+        links: [],
+        exceptions: [],
+        proxies: [],
+        proxyReadings: [],
+        statusChanges: [],
+      };
+
+      const result = applySignal(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId: "var-1",
+        status: VARIABLE_STATUSES[1], // InRange
+        reason: "Proxy readings in range",
+        auditNoteId: "audit-1",
+        auditTimestamp: "2025-01-05T00:00:00.000Z",
+        source: "inference",
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.statusChanges).toEqual([
+          {
+            id: "audit-1",
+            variableId: "var-1",
+            from: "Low",
+            to: "InRange",
+            at: "2025-01-05T00:00:00.000Z",
+            source: "inference",
+            reason: "Proxy readings in range",
+          },
+        ]);
+      }
+    });
+
     it("does not create audit note when status unchanged", () => {
       const state: State = {
         schemaVersion: SCHEMA_VERSION,
@@ -4108,6 +5354,7 @@ describe("Regulator Logic (Pure Functions)", () => {
         exceptions: [],
         proxies: [],
         proxyReadings: [],
+        statusChanges: [],
       };
 
       const result = applySignal(state, {
@@ -4119,7 +5366,220 @@ describe("Regulator Logic (Pure Functions)", () => {
       expect(result.ok).toBe(true);
       if (result.ok) {
         expect(result.value.notes).toHaveLength(0);
+        expect(result.value.statusChanges).toHaveLength(0);
       }
     });
   });
+
+  describe("archival and deletion", () => {
+    const T = "2025-02-01T00:00:00.000Z";
+
+    function createState(): State {
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        variables: [
+          {
+            id: "v1",
+            node: DEFAULT_PERSONAL_NODE,
+            name: "Sleep",
+            status: VARIABLE_STATUSES[1],
+          },
+        ],
+        episodes: [
+          {
+            id: "e1",
+            node: DEFAULT_PERSONAL_NODE,
+            type: EPISODE_TYPES[1],
+            objective: "Try a new routine",
+            status: CLOSED_STATUS,
+            openedAt: "2025-01-01T00:00:00.000Z",
+            closedAt: "2025-01-10T00:00:00.000Z",
+          },
+        ],
+        actions: [{ id: "a1", description: "Walk", status: "Pending" }],
+        notes: [
+          {
+            id: "n1",
+            content: "Slept badly",
+            createdAt: "2025-01-02T00:00:00.000Z",
+            tags: [],
+            linkedObjects: ["v1", "e1"],
+          },
+        ],
+        models: [],
+        links: [
+          { id: "l1", sourceId: "n1", targetId: "v1", relation: "supports" },
+          { id: "l2", sourceId: "l1", targetId: "e1", relation: "tests" },
+        ],
+        exceptions: [],
+        proxies: [
+          {
+            id: "p1",
+            variableId: "v1",
+            name: "Hours",
+            valueType: "numeric",
+          },
+        ],
+        proxyReadings: [
+          {
+            id: "r1",
+            proxyId: "p1",
+            value: { type: "numeric", value: 7 },
+            recordedAt: "2025-01-03T00:00:00.000Z",
+          },
+        ],
+        statusChanges: [
+          {
+            id: "c1",
+            variableId: "v1",
+            from: "Low",
+            to: "InRange",
+            at: "2025-01-03T00:00:00.000Z",
+            source: "manual",
+          },
+        ],
+      };
+    }
+
+    it("hides an archived variable from views until it is unarchived", () => {
+      const archived = archiveEntity(createState(), {
+        collection: "variables",
+        id: "v1",
+        archivedAt: T,
+      });
+
+      expect(archived.ok).toBe(true);
+      if (!archived.ok) return;
+      expect(getVariablesByNode(archived.value, DEFAULT_PERSONAL_NODE)).toEqual(
+        [],
+      );
+      expect(
+        getVariablesByNode(archived.value, DEFAULT_PERSONAL_NODE, {
+          includeArchived: true,
+        }),
+      ).toHaveLength(1);
+      expect(getArchivedEntities(archived.value, "variables")).toEqual([
+        { ...createState().variables[0], archivedAt: T },
+      ]);
+
+      const restored = unarchiveEntity(archived.value, {
+        collection: "variables",
+        id: "v1",
+      });
+      expect(restored).toEqual({ ok: true, value: createState() });
+    });
+
+    it("refuses to archive what is still open or already archived", () => {
+      const state = createState();
+      expect(
+        archiveEntity(state, {
+          collection: "actions",
+          id: "a1",
+          archivedAt: T,
+        }),
+      ).toEqual({
+        ok: false,
+        error:
+          "Action 'a1' is still open; complete or cancel it before archiving",
+      });
+      expect(
+        archiveEntity(
+          {
+            ...state,
+            episodes: state.episodes.map((e) => ({
+              ...e,
+              status: ACTIVE_STATUS,
+            })),
+          },
+          { collection: "episodes", id: "e1", archivedAt: T },
+        ),
+      ).toEqual({
+        ok: false,
+        error: "Episode 'e1' is still Active; close it before archiving",
+      });
+      expect(unarchiveEntity(state, { collection: "notes", id: "n1" })).toEqual(
+        { ok: false, error: "Note 'n1' is not archived" },
+      );
+      expect(
+        archiveEntity(state, { collection: "models", id: "m9", archivedAt: T }),
+      ).toEqual({ ok: false, error: "Model 'm9' not found" });
+    });
+
+    it("deletes a variable with its links, proxies, readings and mentions", () => {
+      const result = deleteEntity(createState(), {
+        collection: "variables",
+        id: "v1",
+      });
+
+      expect(result.ok).toBe(true);
+      if (!result.ok) return;
+      expect(result.value.variables).toEqual([]);
+      expect(result.value.proxies).toEqual([]);
+      expect(result.value.proxyReadings).toEqual([]);
+      expect(result.value.statusChanges).toEqual([]);
+      // l2 goes with l1, the link it annotated
+      expect(result.value.links).toEqual([]);
+      expect(result.value.notes[0]?.linkedObjects).toEqual(["e1"]);
+    });
+
+    it("refuses to delete what is still referred to, listing every blocker", () => {
+      const state: State = {
+        ...createState(),
+        episodes: [{ ...createState().episodes[0]!, variableId: "v1" }],
+        actions: [{ id: "a1", description: "Walk", status: "Blocked" }],
+        links: [
+          { id: "l3", sourceId: "v1", targetId: "a1", relation: "blocks" },
+        ],
+      };
+
+      expect(getDeletionBlockers(state, "variables", "v1")).toEqual([
+        {
+          collection: "episodes",
+          id: "e1",
+          reason: "Episode 'e1' regulates it",
+        },
+        {
+          collection: "actions",
+          id: "a1",
+          reason: "Action 'a1' is blocked by it",
+        },
+      ]);
+      expect(
+        deleteEntity(state, { collection: "variables", id: "v1" }),
+      ).toEqual({
+        ok: false,
+        error:
+          "Cannot delete Variable 'v1': Episode 'e1' regulates it; Action 'a1' is blocked by it",
+      });
+    });
+
+    it("refuses to delete a variable or note an exception was recorded for", () => {
+      const exception = (id: string, mutationType: MutationType) => ({
+        id,
+        modelId: "m1",
+        originalDecision: "warn" as const,
+        justification: "Needed it",
+        mutationType,
+        mutationId: mutationType === "note" ? "n1" : "v1",
+        createdAt: T,
+      });
+      const state: State = {
+        ...createState(),
+        exceptions: [exception("x1", "signal"), exception("x2", "note")],
+      };
+
+      expect(getDeletionBlockers(state, "variables", "v1")).toEqual([
+        {
+          collection: "exceptions",
+          id: "x1",
+          reason: "Exception 'x1' records an override for it",
+        },
+      ]);
+      expect(deleteEntity(state, { collection: "notes", id: "n1" })).toEqual({
+        ok: false,
+        error:
+          "Cannot delete Note 'n1': Exception 'x2' records an override for it",
+      });
+    });
+  });
 });
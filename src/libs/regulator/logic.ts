@@ -8,10 +8,21 @@ import {
   formatNodeRef,
   nodeRefEquals,
 } from "../memory/index.js";
-import type { State, Note, NoteTag, Proxy } from "../memory/index.js";
+import type {
+  NodeRef,
+  State,
+  Note,
+  NoteTag,
+  Proxy,
+  StatusChange,
+} from "../memory/index.js";
 import type {
   AddNoteLinkedObjectParams,
+  ArchiveEntityParams,
   AddNoteTagParams,
+  BlockActionParams,
+  CancelActionParams,
+  CloseEpisodeOptions,
   CloseEpisodeParams,
   CompleteActionParams,
   CreateActionParams,
@@ -20,14 +31,21 @@ import type {
   CreateNoteParams,
   CreateProxyParams,
   CreateVariableParams,
+  DeleteEntityParams,
   DeleteLinkParams,
   DeleteProxyParams,
   LogExceptionParams,
   LogProxyReadingParams,
   RemoveNoteTagParams,
+  ReorderActionsParams,
   Result,
+  RevertParams,
+  ReviewModelParams,
   OpenEpisodeParams,
   SignalParams,
+  UnarchiveEntityParams,
+  UnblockActionParams,
+  UpdateActionParams,
   UpdateEpisodeParams,
   UpdateModelParams,
   UpdateNoteParams,
@@ -42,6 +60,7 @@ import {
   checkNoDuplicateId,
 } from "./internal/integrity.js";
 import {
+  validateEpisodeLineage,
   validateEpisodeParams,
   canStartExplore,
   canStartStabilize,
@@ -49,22 +68,39 @@ import {
   validateEpisodeClosure,
   validateEpisodeUpdate,
   validateActionCreation,
+  validateActionDueDate,
+  validateActionReorder,
+  validateOpenAction,
   validateModelParams,
   validateModelUpdate,
+  validateModelReview,
+  validateModelSchedule,
   validateNoteContent,
   validateNoteTag,
   validateNoteTags,
   validateLinkRelation,
   validateLinkWeight,
   validateExceptionParams,
+  validateRevert,
+  validateArchive,
+  validateUnarchive,
+  validateDeletion,
+  findInvariantViolations,
 } from "./internal/validation.js";
 import {
   applyOpenEpisode,
   applyCloseEpisode,
+  applyPendingActionDisposition,
   applyUpdateEpisode,
   applyCreateAction,
   applyCompleteAction,
+  applyCancelAction,
+  applyBlockAction,
+  applyUnblockAction,
+  applyUpdateAction,
+  applyReorderActions,
   applyCreateModel,
+  applyReviewModel,
   applyCreateNote,
   applyCreateLink,
   applyDeleteLink,
@@ -73,6 +109,10 @@ import {
   applyLogProxyReading,
   applyLogException,
   applyCreateVariable,
+  applyRevert,
+  applyArchiveEntity,
+  applyUnarchiveEntity,
+  applyDeleteEntity,
 } from "./internal/transform.js";
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
@@ -80,11 +120,13 @@ const STABILIZE_TYPE = EPISODE_TYPES[0];
 const EXPLORE_TYPE = EPISODE_TYPES[1];
 const ACTION_PENDING_STATUS = ACTION_STATUSES[0];
 const ACTION_DONE_STATUS = ACTION_STATUSES[1];
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
 
 type CanCreateActionParams = Pick<CreateActionParams, "node" | "episodeId">;
 
 // Re-export canStartExplore for API compatibility
 export { canStartExplore } from "./internal/validation.js";
+export { findInvariantViolations } from "./internal/validation.js";
 
 /**
  * Validates whether an action can be created for a node.
@@ -121,6 +163,9 @@ export function canCreateAction(
 /**
  * Applies a signal to update a variable's status.
  * Returns a new State if successful.
+ *
+ * A change of status also appends an audit Note and a StatusChange sharing
+ * its id, so the history replays identically from the journal.
  */
 const AUDIT_NOTE_TAG: NoteTag = "audit";
 
@@ -160,12 +205,23 @@ export function applySignal(state: State, params: SignalParams): Result<State> {
       linkedObjects: [params.variableId],
     };
 
+    const statusChange: StatusChange = {
+      id: noteId,
+      variableId: params.variableId,
+      from: oldStatus,
+      to: newStatus,
+      at: timestamp,
+      source: params.source ?? "manual",
+      ...(reason ? { reason } : {}),
+    };
+
     return {
       ok: true,
       value: {
         ...state,
         variables: updatedVariables,
         notes: [...state.notes, auditNote],
+        statusChanges: [...state.statusChanges, statusChange],
       },
     };
   }
@@ -196,6 +252,9 @@ export function createAction(
   );
   if (!validationCheck.ok) return validationCheck;
 
+  const dueDateCheck = validateActionDueDate(params.dueDate);
+  if (!dueDateCheck.ok) return dueDateCheck;
+
   return { ok: true, value: applyCreateAction(state, params) };
 }
 
@@ -208,7 +267,8 @@ export function createAction(
  * **Contract:**
  * - Returns: Result<State> with updated state if successful
  * - Validates: action exists and is currently Pending
- * - Error handling: Returns error if action not found or already Done
+ * - Error handling: Returns error if action not found, Blocked (unblock it
+ *   first) or Cancelled; completing a Done action succeeds unchanged
  */
 export function completeAction(
   state: State,
@@ -225,6 +285,13 @@ export function completeAction(
     return { ok: true, value: state };
   }
 
+  if (action.status === ACTION_BLOCKED_STATUS) {
+    return {
+      ok: false,
+      error: `Action '${params.actionId}' is Blocked: unblock it before completing it`,
+    };
+  }
+
   if (action.status !== ACTION_PENDING_STATUS) {
     return {
       ok: false,
@@ -235,6 +302,148 @@ export function completeAction(
   return { ok: true, value: applyCompleteAction(state, params.actionId) };
 }
 
+/**
+ * Cancels an Action that will not be done, recording why.
+ *
+ * **Intent:** Abandoned work stays visible as Cancelled with a reason
+ * instead of lingering as Pending or being marked Done.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the action Cancelled and `cancelReason` set
+ * - Validates: action exists, is Pending or Blocked, and the reason is non-empty
+ * - Pure function: does not mutate input state
+ */
+export function cancelAction(
+  state: State,
+  params: CancelActionParams,
+): Result<State> {
+  const openCheck = validateOpenAction(state, params.actionId, "cancelled");
+  if (!openCheck.ok) return openCheck;
+
+  if (!params.reason || params.reason.trim().length === 0) {
+    return { ok: false, error: "A reason is required to cancel an action" };
+  }
+
+  return {
+    ok: true,
+    value: applyCancelAction(state, params.actionId, params.reason),
+  };
+}
+
+/**
+ * Blocks an Action on another object it is waiting for.
+ *
+ * **Intent:** Make "can't do this yet" explicit, with a `blocks` Link saying
+ * what the action waits on.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the action Blocked and a Link
+ *   `blockedBy —blocks→ actionId` added
+ * - Validates: action is Pending or Blocked (an action can wait on several
+ *   objects), `blockedBy` exists and is not the action, link ID is unused
+ * - Pure function: does not mutate input state
+ */
+export function blockAction(
+  state: State,
+  params: BlockActionParams,
+): Result<State> {
+  const openCheck = validateOpenAction(state, params.actionId, "blocked");
+  if (!openCheck.ok) return openCheck;
+
+  if (params.blockedBy === params.actionId) {
+    return { ok: false, error: "An action cannot block itself" };
+  }
+
+  if (!collectAllObjectIds(state).has(params.blockedBy)) {
+    return { ok: false, error: `Object '${params.blockedBy}' not found` };
+  }
+
+  const duplicateCheck = checkNoDuplicateId(state.links, params.linkId, "Link");
+  if (!duplicateCheck.ok) return duplicateCheck;
+
+  return { ok: true, value: applyBlockAction(state, params) };
+}
+
+/**
+ * Unblocks a Blocked Action, returning it to Pending.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the action Pending and every `blocks` Link
+ *   targeting it removed
+ * - Error handling: Returns error if action not found or not Blocked
+ * - Pure function: does not mutate input state
+ */
+export function unblockAction(
+  state: State,
+  params: UnblockActionParams,
+): Result<State> {
+  const action = state.actions.find((a) => a.id === params.actionId);
+  if (!action) {
+    return { ok: false, error: `Action '${params.actionId}' not found` };
+  }
+
+  if (action.status !== ACTION_BLOCKED_STATUS) {
+    return {
+      ok: false,
+      error: `Action '${params.actionId}' is not Blocked`,
+    };
+  }
+
+  return { ok: true, value: applyUnblockAction(state, params.actionId) };
+}
+
+/**
+ * Updates an open Action's description or due date.
+ * Returns a new State with the action updated.
+ * Pure function: does not mutate input state.
+ *
+ * Only Pending or Blocked actions can be edited; pass `dueDate: null` to
+ * remove a due date.
+ */
+export function updateAction(
+  state: State,
+  params: UpdateActionParams,
+): Result<State> {
+  const openCheck = validateOpenAction(state, params.actionId, "edited");
+  if (!openCheck.ok) return openCheck;
+
+  if (
+    params.description !== undefined &&
+    params.description.trim().length === 0
+  ) {
+    return { ok: false, error: "Action description cannot be empty" };
+  }
+
+  const dueDateCheck = validateActionDueDate(params.dueDate);
+  if (!dueDateCheck.ok) return dueDateCheck;
+
+  return { ok: true, value: applyUpdateAction(state, params) };
+}
+
+/**
+ * Reorders the Actions of an Episode.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with each action's `order` set to its index in
+ *   `actionIds`
+ * - Validates: episode exists and `actionIds` lists each of its actions
+ *   exactly once
+ * - Pure function: does not mutate input state
+ */
+export function reorderActions(
+  state: State,
+  params: ReorderActionsParams,
+): Result<State> {
+  const reorderCheck = validateActionReorder(
+    state,
+    params.episodeId,
+    params.actionIds,
+  );
+  if (!reorderCheck.ok) return reorderCheck;
+
+  return { ok: true, value: applyReorderActions(state, params.actionIds) };
+}
+
 // Re-export validateEpisodeParams for API compatibility
 export { validateEpisodeParams } from "./internal/validation.js";
 
@@ -242,6 +451,9 @@ export { validateEpisodeParams } from "./internal/validation.js";
  * Opens a new episode.
  * Returns a new State with the episode added.
  * Pure function: does not mutate input state.
+ *
+ * With `previousEpisodeId`, the new episode is recorded as a follow-up of
+ * that episode through a `derived_from` link (new episode → previous).
  */
 export function openEpisode(
   state: State,
@@ -252,6 +464,9 @@ export function openEpisode(
   const paramsCheck = validateEpisodeParams(params);
   if (!paramsCheck.ok) return paramsCheck;
 
+  const lineageCheck = validateEpisodeLineage(state, params);
+  if (!lineageCheck.ok) return lineageCheck;
+
   // Check type-specific constraints
   if (params.type === EXPLORE_TYPE) {
     const exploreCheck = canStartExplore(state, params.node, policy);
@@ -280,13 +495,22 @@ export { validateClosureNote } from "./internal/validation.js";
  * Pure function: does not mutate input state.
  *
  * Explore episodes MUST produce at least one Model update (learning is required).
+ * Open (Pending or Blocked) actions are carried over, cancelled or detached as
+ * `pendingActions` says; closing an episode that has them without saying fails.
  */
 export function closeEpisode(
   state: State,
   params: CloseEpisodeParams,
+  options?: CloseEpisodeOptions,
 ): Result<State> {
-  const { episodeId, closedAt, closureNote, variableUpdates, modelUpdates } =
-    params;
+  const {
+    episodeId,
+    closedAt,
+    closureNote,
+    variableUpdates,
+    modelUpdates,
+    pendingActions,
+  } = params;
 
   // Validate closure note
   const noteCheck = validateClosureNote(closureNote);
@@ -297,20 +521,26 @@ export function closeEpisode(
     state,
     episodeId,
     modelUpdates?.length ?? 0,
+    pendingActions,
+    options?.requirePendingActionChoice ?? true,
   );
   if (!closureCheck.ok) return closureCheck;
 
+  const closed = applyCloseEpisode(
+    state,
+    episodeId,
+    closedAt,
+    closureNote.id,
+    closureNote.content,
+    variableUpdates,
+    modelUpdates,
+  );
+
   return {
     ok: true,
-    value: applyCloseEpisode(
-      state,
-      episodeId,
-      closedAt,
-      closureNote.id,
-      closureNote.content,
-      variableUpdates,
-      modelUpdates,
-    ),
+    value: pendingActions
+      ? applyPendingActionDisposition(closed, episodeId, pendingActions)
+      : closed,
   };
 }
 
@@ -357,6 +587,15 @@ export function createModel(
   const validation = validateModelParams(params);
   if (!validation.ok) return validation;
 
+  // A variable condition must watch a Variable that exists
+  if (params.condition?.variable !== undefined) {
+    const variableCheck = checkVariableExists(
+      state,
+      params.condition.variable.variableId,
+    );
+    if (!variableCheck.ok) return variableCheck;
+  }
+
   // Check for duplicate ID
   const duplicateCheck = checkNoDuplicateId(
     state.models,
@@ -387,26 +626,58 @@ export function updateModel(
     params.confidence,
     params.scope,
     params.enforcement,
+    params.condition,
   );
   if (!updateCheck.ok) return updateCheck;
-
-  const updatedModels = state.models.map((m) =>
-    m.id === params.modelId
-      ? {
-          ...m,
-          ...(params.statement !== undefined
-            ? { statement: params.statement }
-            : {}),
-          ...(params.confidence !== undefined
-            ? { confidence: params.confidence }
-            : {}),
-          ...(params.scope !== undefined ? { scope: params.scope } : {}),
-          ...(params.enforcement !== undefined
-            ? { enforcement: params.enforcement }
-            : {}),
-        }
-      : m,
+  const model = state.models.find((m) => m.id === params.modelId);
+  const scheduleCheck = validateModelSchedule(
+    params.reviewOn === undefined
+      ? model?.reviewOn
+      : (params.reviewOn ?? undefined),
+    params.expiresOn === undefined
+      ? model?.expiresOn
+      : (params.expiresOn ?? undefined),
   );
+  if (!scheduleCheck.ok) return scheduleCheck;
+  if (params.condition?.variable !== undefined) {
+    const variableCheck = checkVariableExists(
+      state,
+      params.condition.variable.variableId,
+    );
+    if (!variableCheck.ok) return variableCheck;
+  }
+
+  const updatedModels = state.models.map((m) => {
+    if (m.id !== params.modelId) return m;
+    // Optional fields: undefined keeps the current value, null removes it
+    const { condition, reviewOn, expiresOn, ...rest } = m;
+    const nextCondition =
+      params.condition === undefined
+        ? condition
+        : (params.condition ?? undefined);
+    const nextReviewOn =
+      params.reviewOn === undefined ? reviewOn : (params.reviewOn ?? undefined);
+    const nextExpiresOn =
+      params.expiresOn === undefined
+        ? expiresOn
+        : (params.expiresOn ?? undefined);
+    return {
+      ...rest,
+      ...(params.statement !== undefined
+        ? { statement: params.statement }
+        : {}),
+      ...(params.confidence !== undefined
+        ? { confidence: params.confidence }
+        : {}),
+      ...(params.scope !== undefined ? { scope: params.scope } : {}),
+      ...(params.enforcement !== undefined
+        ? { enforcement: params.enforcement }
+        : {}),
+      ...(nextCondition !== undefined ? { condition: nextCondition } : {}),
+      ...(nextReviewOn !== undefined ? { reviewOn: nextReviewOn } : {}),
+      ...(nextExpiresOn !== undefined ? { expiresOn: nextExpiresOn } : {}),
+    };
+  });
 
   return {
     ok: true,
@@ -417,6 +688,32 @@ export function updateModel(
   };
 }
 
+/**
+ * Records the decision on a Normative Model due for review.
+ *
+ * **Intent:** Norms are revisited rather than left blocking forever; what
+ * was decided, and why, stays in the Note history.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the Model renewed, re-enforced or retired
+ *   (enforcement none, archived) and an audit Note linked to it
+ * - Validates: an unarchived Normative Model, a known outcome and valid
+ *   dates; a kept Model must not be left due for review at reviewedAt
+ * - Pure function: does not mutate input state
+ */
+export function reviewModel(
+  state: State,
+  params: ReviewModelParams,
+): Result<State> {
+  const reviewCheck = validateModelReview(state, params);
+  if (!reviewCheck.ok) return reviewCheck;
+
+  const duplicateCheck = checkNoDuplicateId(state.notes, params.noteId, "Note");
+  if (!duplicateCheck.ok) return duplicateCheck;
+
+  return { ok: true, value: applyReviewModel(state, params) };
+}
+
 /**
  * Creates a new note.
  * Returns a new State with the note added.
@@ -923,3 +1220,117 @@ export function logException(
 
   return { ok: true, value: applyLogException(state, params) };
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ARCHIVAL AND DELETION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Archives a Variable, Episode, Action, Note or Model.
+ *
+ * **Intent:** Retire something without losing it: archived entities keep
+ * every reference to them but drop out of status and lens views.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the entity's archivedAt set
+ * - Validates: entity exists and is not archived; Episodes must be Closed,
+ *   Actions Done or Cancelled, Variables without an active Episode
+ * - Pure function: does not mutate input state
+ */
+export function archiveEntity(
+  state: State,
+  params: ArchiveEntityParams,
+): Result<State> {
+  const archiveCheck = validateArchive(state, params);
+  if (!archiveCheck.ok) return archiveCheck;
+
+  return { ok: true, value: applyArchiveEntity(state, params) };
+}
+
+/**
+ * Brings an archived entity back into view.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with the entity's archivedAt removed
+ * - Validates: entity exists and is archived
+ * - Pure function: does not mutate input state
+ */
+export function unarchiveEntity(
+  state: State,
+  params: UnarchiveEntityParams,
+): Result<State> {
+  const unarchiveCheck = validateUnarchive(state, params);
+  if (!unarchiveCheck.ok) return unarchiveCheck;
+
+  return { ok: true, value: applyUnarchiveEntity(state, params) };
+}
+
+/**
+ * Deletes a Variable, Episode, Action, Note or Model for good.
+ *
+ * **Intent:** Remove mistakes outright while keeping State referentially
+ * whole: what cannot stand alone goes with the entity, anything else must
+ * be dealt with first.
+ *
+ * **Contract:**
+ * - Returns: Result<State> without the entity, Links touching it (or those
+ *   Links), its id in Note linkedObjects, and for a Variable its Proxies,
+ *   their readings and its status changes
+ * - Validates: entity exists and getDeletionBlockers finds nothing
+ * - Error handling: Returns error listing every blocker
+ * - Pure function: does not mutate input state
+ */
+export function deleteEntity(
+  state: State,
+  params: DeleteEntityParams,
+): Result<State> {
+  const deletionCheck = validateDeletion(state, params);
+  if (!deletionCheck.ok) return deletionCheck;
+
+  return { ok: true, value: applyDeleteEntity(state, params) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// UNDO / REDO
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Reverts one journaled mutation with a compensating change.
+ *
+ * **Intent:** Take back a mistaken change (or put an undone one back)
+ * without rewriting history: the revert is a mutation of its own.
+ *
+ * **Contract:**
+ * - Returns: Result<State> with every entity in `changes` set to its `to` side
+ * - Validates: each entity is still exactly its `from` side
+ * - policyForNode: when given, the revert must not break an invariant the
+ *   State currently keeps (e.g. reopening an Explore episode beyond
+ *   maxActiveExplorePerNode); replay omits it, like REPLAY_POLICY
+ * - Pure function: does not mutate input state
+ */
+export function revert(
+  state: State,
+  params: RevertParams,
+  policyForNode?: (node: NodeRef) => RegulatorPolicyForNode,
+): Result<State> {
+  const revertCheck = validateRevert(state, params);
+  if (!revertCheck.ok) return revertCheck;
+
+  const next = applyRevert(state, params.changes);
+  if (policyForNode) {
+    const kept = new Set(
+      findInvariantViolations(state, policyForNode).map((v) => v.message),
+    );
+    const broken = findInvariantViolations(next, policyForNode).find(
+      (v) => !kept.has(v.message),
+    );
+    if (broken) {
+      return {
+        ok: false,
+        error: `Cannot ${params.direction} ${params.mutationKind}: ${broken.message}`,
+      };
+    }
+  }
+
+  return { ok: true, value: next };
+}
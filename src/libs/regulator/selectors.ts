@@ -5,32 +5,118 @@ import {
   EPISODE_STATUSES,
   EPISODE_TYPES,
   ACTION_STATUSES,
+  nodeRefEquals,
 } from "../memory/index.js";
 import type {
   Action,
+  ArchivableCollection,
+  LinkRelation,
+  MeasurementCadence,
+  MembraneException,
+  Model,
+  NoteTag,
   Proxy,
   ProxyReading,
   State,
+  StatusChange,
   Variable,
   Episode,
   NodeRef,
 } from "../memory/index.js";
-import type { StatusData } from "./types.js";
+import type {
+  DeletionBlocker,
+  DueMeasurement,
+  EpisodeLineage,
+  ExceptionAuditEntry,
+  ExceptionFilter,
+  ExceptionTarget,
+  NormReview,
+  OverdueEpisode,
+  StatusData,
+} from "./types.js";
+import { findDeletionBlockers } from "./internal/integrity.js";
 
 const ACTIVE_STATUS = EPISODE_STATUSES[0];
 const STABILIZE_TYPE = EPISODE_TYPES[0];
 const EXPLORE_TYPE = EPISODE_TYPES[1];
 const ACTION_PENDING_STATUS = ACTION_STATUSES[0];
+const ACTION_BLOCKED_STATUS = ACTION_STATUSES[3];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Days between measurements per cadence; asNeeded is never scheduled */
+const MEASUREMENT_INTERVAL_DAYS: Record<MeasurementCadence, number | null> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  quarterly: 91,
+  asNeeded: null,
+};
+
+/** Relation from a follow-up Episode, or a closure's Model, to its Episode */
+const DERIVED_FROM_RELATION: LinkRelation = "derived_from";
+
+/** Tag of the Note written when a signal changes a Variable's status */
+const AUDIT_NOTE_TAG: NoteTag = "audit";
+
+/**
+ * Options for views that hide archived entities unless asked for them.
+ */
+export interface ArchiveFilter {
+  includeArchived?: boolean;
+}
+
+/**
+ * Whether an entity has been archived.
+ */
+export function isArchived(entity: { archivedAt?: string }): boolean {
+  return entity.archivedAt !== undefined;
+}
 
 /**
  * Filters variables by node type.
+ * Archived variables are left out unless `includeArchived` is set.
  */
-export function getVariablesByNode(state: State, node: NodeRef): Variable[] {
+export function getVariablesByNode(
+  state: State,
+  node: NodeRef,
+  { includeArchived = false }: ArchiveFilter = {},
+): Variable[] {
   return state.variables.filter(
-    (v) => v.node.type === node.type && v.node.id === node.id,
+    (v) =>
+      v.node.type === node.type &&
+      v.node.id === node.id &&
+      (includeArchived || !isArchived(v)),
   );
 }
 
+/**
+ * Gets the archived entities of one collection, most recently archived first.
+ */
+export function getArchivedEntities<C extends ArchivableCollection>(
+  state: State,
+  collection: C,
+): State[C] {
+  const entities: State[ArchivableCollection] = state[collection];
+  return entities
+    .filter(isArchived)
+    .sort((a, b) =>
+      (b.archivedAt ?? "").localeCompare(a.archivedAt ?? ""),
+    ) as State[C];
+}
+
+/**
+ * Lists what refers to an entity and would stop it being deleted.
+ * Links and Note linkedObjects are not listed: deletion removes them.
+ */
+export function getDeletionBlockers(
+  state: State,
+  collection: ArchivableCollection,
+  id: string,
+): DeletionBlocker[] {
+  return findDeletionBlockers(state, collection, id);
+}
+
 /**
  * Filters active episodes by node type.
  */
@@ -53,9 +139,45 @@ export function isBaseline(state: State, node: NodeRef): boolean {
   return getActiveEpisodesByNode(state, node).length === 0;
 }
 
+/**
+ * Sorts actions by their position in their episode (`order`, lowest first).
+ * Actions without an order keep their stored order after the ordered ones.
+ */
+export function sortActionsByOrder(actions: readonly Action[]): Action[] {
+  return [...actions].sort(
+    (a, b) =>
+      (a.order ?? Number.POSITIVE_INFINITY) -
+        (b.order ?? Number.POSITIVE_INFINITY) || 0,
+  );
+}
+
+/**
+ * Gets every action of an episode, whatever its status, in episode order.
+ */
+export function getEpisodeActions(state: State, episodeId: string): Action[] {
+  return sortActionsByOrder(
+    state.actions.filter((a) => a.episodeId === episodeId),
+  );
+}
+
+/**
+ * Gets an episode's open (Pending or Blocked) actions in episode order:
+ * the ones closing the episode must carry over, cancel or detach.
+ */
+export function getOpenEpisodeActions(
+  state: State,
+  episodeId: string,
+): Action[] {
+  return getEpisodeActions(state, episodeId).filter(
+    (a) =>
+      a.status === ACTION_PENDING_STATUS || a.status === ACTION_BLOCKED_STATUS,
+  );
+}
+
 /**
  * Gets pending actions scoped to active episodes for a node.
- * Only returns actions with status "Pending" that reference an active episode.
+ * Only returns actions with status "Pending" that reference an active episode,
+ * in episode order.
  */
 export function getPendingActionsForActiveEpisodes(
   state: State,
@@ -64,11 +186,13 @@ export function getPendingActionsForActiveEpisodes(
   const activeEpisodeIds = new Set(
     getActiveEpisodesByNode(state, node).map((e) => e.id),
   );
-  return state.actions.filter(
-    (a) =>
-      a.status === ACTION_PENDING_STATUS &&
-      a.episodeId !== undefined &&
-      activeEpisodeIds.has(a.episodeId),
+  return sortActionsByOrder(
+    state.actions.filter(
+      (a) =>
+        a.status === ACTION_PENDING_STATUS &&
+        a.episodeId !== undefined &&
+        activeEpisodeIds.has(a.episodeId),
+    ),
   );
 }
 
@@ -82,11 +206,189 @@ export function getPendingOrphanedActions(state: State): Action[] {
   );
 }
 
+/**
+ * Computes when an Episode's timebox runs out (openedAt + timeboxDays).
+ * Returns null when the Episode has no timebox or openedAt is not a date.
+ */
+export function getEpisodeDueAt(episode: Episode): string | null {
+  if (episode.timeboxDays === undefined) return null;
+  const openedAt = Date.parse(episode.openedAt);
+  if (Number.isNaN(openedAt)) return null;
+  return new Date(openedAt + episode.timeboxDays * MS_PER_DAY).toISOString();
+}
+
+/**
+ * Gets active episodes for a node whose timebox has run out by `now`.
+ *
+ * **Intent:** Make timeboxes mean something — an Episode past its timebox
+ * should be closed, extended or reframed rather than left open by default.
+ *
+ * **Contract:**
+ * - Returns: OverdueEpisode[] sorted most overdue first
+ * - Episodes without timeboxDays are never overdue
+ * - An Episode is overdue once `now` is strictly after its dueAt
+ * - Pure function: `now` is an ISO-8601 timestamp supplied by the caller
+ */
+export function getOverdueEpisodes(
+  state: State,
+  node: NodeRef,
+  now: string,
+): OverdueEpisode[] {
+  const nowMs = Date.parse(now);
+  const overdue: OverdueEpisode[] = [];
+  for (const episode of getActiveEpisodesByNode(state, node)) {
+    const dueAt = getEpisodeDueAt(episode);
+    if (dueAt === null) continue;
+    const lateMs = nowMs - Date.parse(dueAt);
+    if (lateMs > 0) {
+      overdue.push({
+        episode,
+        dueAt,
+        daysOverdue: Math.floor(lateMs / MS_PER_DAY),
+      });
+    }
+  }
+  return overdue.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+}
+
+/**
+ * Gets the episode an episode follows up on (its `derived_from` link
+ * to another episode), or null for the first episode of a chain.
+ */
+export function getPreviousEpisode(
+  state: State,
+  episodeId: string,
+): Episode | null {
+  for (const link of state.links) {
+    if (link.relation !== DERIVED_FROM_RELATION || link.sourceId !== episodeId)
+      continue;
+    const previous = state.episodes.find((e) => e.id === link.targetId);
+    if (previous) return previous;
+  }
+  return null;
+}
+
+/**
+ * Gets the episodes opened as follow-ups of an episode, oldest first.
+ */
+export function getFollowUpEpisodes(
+  state: State,
+  episodeId: string,
+): Episode[] {
+  const followUpIds = new Set(
+    state.links
+      .filter(
+        (l) => l.relation === DERIVED_FROM_RELATION && l.targetId === episodeId,
+      )
+      .map((l) => l.sourceId),
+  );
+  return state.episodes
+    .filter((e) => followUpIds.has(e.id))
+    .sort((a, b) => a.openedAt.localeCompare(b.openedAt));
+}
+
+/**
+ * Gets the Models an episode's closure created or revised.
+ * Closures record them as `derived_from` links (Model → Episode).
+ */
+export function getEpisodeModelUpdates(
+  state: State,
+  episodeId: string,
+): Model[] {
+  const modelIds = new Set(
+    state.links
+      .filter(
+        (l) => l.relation === DERIVED_FROM_RELATION && l.targetId === episodeId,
+      )
+      .map((l) => l.sourceId),
+  );
+  return state.models.filter((m) => modelIds.has(m.id));
+}
+
+/**
+ * Gets the lineage an episode belongs to, from the first episode of its chain.
+ *
+ * **Intent:** Show how one episode led to the next (e.g. an Explore that
+ * turned into a Stabilize), with what each parent concluded next to the
+ * follow-ups it produced.
+ *
+ * **Contract:**
+ * - Returns: the EpisodeLineage tree rooted at the chain's first episode,
+ *   or null when the episode does not exist
+ * - An episode in no chain is a tree of one
+ * - Follow-ups are ordered oldest first; a cycle of links is cut where it
+ *   would revisit an episode
+ */
+export function getEpisodeLineage(
+  state: State,
+  episodeId: string,
+): EpisodeLineage | null {
+  let root = state.episodes.find((e) => e.id === episodeId);
+  if (!root) return null;
+  const seen = new Set<string>([root.id]);
+  for (
+    let previous = getPreviousEpisode(state, root.id);
+    previous && !seen.has(previous.id);
+    previous = getPreviousEpisode(state, previous.id)
+  ) {
+    seen.add(previous.id);
+    root = previous;
+  }
+  return buildLineage(state, root, new Set());
+}
+
+/**
+ * Gets every chain of episodes on a node: lineages whose first episode
+ * has at least one follow-up, most recently opened first.
+ * Chains whose first episode is archived are left out unless
+ * `includeArchived` is set.
+ */
+export function getEpisodeLineages(
+  state: State,
+  node: NodeRef,
+  { includeArchived = false }: ArchiveFilter = {},
+): EpisodeLineage[] {
+  return state.episodes
+    .filter(
+      (e) =>
+        nodeRefEquals(e.node, node) &&
+        (includeArchived || !isArchived(e)) &&
+        getPreviousEpisode(state, e.id) === null &&
+        getFollowUpEpisodes(state, e.id).length > 0,
+    )
+    .sort((a, b) => b.openedAt.localeCompare(a.openedAt))
+    .map((root) => buildLineage(state, root, new Set()));
+}
+
+function buildLineage(
+  state: State,
+  episode: Episode,
+  visited: Set<string>,
+): EpisodeLineage {
+  visited.add(episode.id);
+  const closureNote = episode.closureNoteId
+    ? (state.notes.find((n) => n.id === episode.closureNoteId) ?? null)
+    : null;
+  return {
+    episode,
+    closureNote,
+    modelUpdates: getEpisodeModelUpdates(state, episode.id),
+    followUps: getFollowUpEpisodes(state, episode.id)
+      .filter((e) => !visited.has(e.id))
+      .map((e) => buildLineage(state, e, visited)),
+  };
+}
+
 /**
  * Gets status data for CLI display.
  * Returns baseline mode if no active episodes, otherwise returns active mode with details.
+ * Overdue episodes are judged against `now` (default: the current time).
  */
-export function getStatusData(state: State, node: NodeRef): StatusData {
+export function getStatusData(
+  state: State,
+  node: NodeRef,
+  now?: string,
+): StatusData {
   if (isBaseline(state, node)) {
     return { mode: "baseline", node };
   }
@@ -96,6 +398,7 @@ export function getStatusData(state: State, node: NodeRef): StatusData {
     variables: getVariablesByNode(state, node),
     episodes: getActiveEpisodesByNode(state, node),
     actions: getPendingActionsForActiveEpisodes(state, node),
+    overdue: getOverdueEpisodes(state, node, now ?? new Date().toISOString()),
   };
 }
 
@@ -149,3 +452,233 @@ export function getRecentReadings(
 
   return limit !== undefined ? readings.slice(0, limit) : readings;
 }
+
+/**
+ * Gets a Variable's status history, oldest change first.
+ * Changes recorded at the same moment keep the order they were recorded in.
+ */
+export function getStatusHistory(
+  state: State,
+  variableId: string,
+): StatusChange[] {
+  return state.statusChanges
+    .filter((c) => c.variableId === variableId)
+    .sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+}
+
+/**
+ * Finds when a Variable was last measured: its latest proxy reading or the
+ * latest status change signalled for it, whichever is newer.
+ */
+function getLastMeasuredAt(state: State, variable: Variable): string | null {
+  const proxyIds = new Set(
+    getProxiesForVariable(state, variable.id).map((p) => p.id),
+  );
+  const times = [
+    ...state.proxyReadings
+      .filter((r) => proxyIds.has(r.proxyId))
+      .map((r) => r.recordedAt),
+    ...state.notes
+      .filter(
+        (n) =>
+          n.tags.includes(AUDIT_NOTE_TAG) &&
+          n.linkedObjects?.includes(variable.id) === true,
+      )
+      .map((n) => n.createdAt),
+  ].filter((time) => !Number.isNaN(Date.parse(time)));
+
+  if (times.length === 0) return null;
+  return times.reduce((latest, time) =>
+    Date.parse(time) > Date.parse(latest) ? time : latest,
+  );
+}
+
+/** Calendar date (UTC) of an ISO timestamp, as milliseconds at midnight */
+function startOfDay(time: string): number {
+  const ms = Date.parse(time);
+  return ms - (((ms % MS_PER_DAY) + MS_PER_DAY) % MS_PER_DAY);
+}
+
+/**
+ * Lists the Variables of a node that need measuring by `now`.
+ *
+ * **Intent:** Turn measurementCadence into the daily loop — "what needs
+ * measuring today" — instead of leaving it as decoration.
+ *
+ * **Contract:**
+ * - A Variable is measured by a ProxyReading on any of its proxies or by a
+ *   signal that changed its status (the audit Note); the newest one counts
+ * - Due on the calendar day (UTC) `interval` days after the last measurement:
+ *   daily 1, weekly 7, monthly 30, quarterly 91; asNeeded and Variables
+ *   without a cadence are never listed
+ * - Never measured: due now; past the day it fell due: overdue
+ * - Returns: DueMeasurement[], most overdue first, then never measured,
+ *   then by Variable name
+ * - Pure function: `now` is an ISO-8601 timestamp supplied by the caller
+ */
+export function getDueMeasurements(
+  state: State,
+  node: NodeRef,
+  now: string,
+): DueMeasurement[] {
+  const today = startOfDay(now);
+  const due: DueMeasurement[] = [];
+
+  for (const variable of getVariablesByNode(state, node)) {
+    const cadence = variable.measurementCadence;
+    const interval = cadence ? MEASUREMENT_INTERVAL_DAYS[cadence] : null;
+    if (!cadence || interval === null) continue;
+
+    const lastMeasuredAt = getLastMeasuredAt(state, variable);
+    const proxies = getProxiesForVariable(state, variable.id);
+    if (lastMeasuredAt === null) {
+      due.push({
+        variable,
+        cadence,
+        proxies,
+        lastMeasuredAt,
+        dueOn: null,
+        status: "due",
+        daysOverdue: 0,
+      });
+      continue;
+    }
+
+    const dueDay = startOfDay(lastMeasuredAt) + interval * MS_PER_DAY;
+    if (today < dueDay) continue;
+    const daysOverdue = Math.round((today - dueDay) / MS_PER_DAY);
+    due.push({
+      variable,
+      cadence,
+      proxies,
+      lastMeasuredAt,
+      dueOn: new Date(dueDay).toISOString().slice(0, 10),
+      status: daysOverdue > 0 ? "overdue" : "due",
+      daysOverdue,
+    });
+  }
+
+  return due.sort(
+    (a, b) =>
+      b.daysOverdue - a.daysOverdue ||
+      Number(a.dueOn !== null) - Number(b.dueOn !== null) ||
+      a.variable.name.localeCompare(b.variable.name),
+  );
+}
+
+/**
+ * Finds what an excepted mutation produced or touched: the Episode, Action
+ * or Note it created, or the Variable created or signalled.
+ */
+function getExceptionTarget(
+  state: State,
+  exception: MembraneException,
+): ExceptionTarget {
+  const id = exception.mutationId;
+  switch (exception.mutationType) {
+    case "episode":
+      return {
+        collection: "episodes",
+        id,
+        label: state.episodes.find((e) => e.id === id)?.objective ?? null,
+      };
+    case "action":
+      return {
+        collection: "actions",
+        id,
+        label: state.actions.find((a) => a.id === id)?.description ?? null,
+      };
+    case "signal":
+    case "variable":
+      return {
+        collection: "variables",
+        id,
+        label: state.variables.find((v) => v.id === id)?.name ?? null,
+      };
+    case "note":
+      return {
+        collection: "notes",
+        id,
+        label: state.notes.find((n) => n.id === id)?.content ?? null,
+      };
+  }
+}
+
+/**
+ * Lists Membrane exceptions for audit, newest first.
+ *
+ * **Contract:**
+ * - Keeps exceptions matching every field of `filter` (from/to inclusive)
+ * - Each entry carries the Model it bypassed and the entity the mutation
+ *   landed on, resolved against the current State
+ * - Pure function
+ */
+export function getExceptionAudit(
+  state: State,
+  filter: ExceptionFilter = {},
+): ExceptionAuditEntry[] {
+  const from = filter.from !== undefined ? Date.parse(filter.from) : -Infinity;
+  const to = filter.to !== undefined ? Date.parse(filter.to) : Infinity;
+
+  return state.exceptions
+    .filter((x) => {
+      const at = Date.parse(x.createdAt);
+      return (
+        (filter.modelId === undefined || x.modelId === filter.modelId) &&
+        (filter.mutationType === undefined ||
+          x.mutationType === filter.mutationType) &&
+        at >= from &&
+        at <= to
+      );
+    })
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))
+    .map((exception) => ({
+      exception,
+      model: state.models.find((m) => m.id === exception.modelId) ?? null,
+      target: getExceptionTarget(state, exception),
+    }));
+}
+
+/**
+ * Says whether a Normative Model is due for review at `now`.
+ *
+ * **Contract:**
+ * - Returns: "expired" from its expiresOn date (UTC), else "review" from
+ *   its reviewOn date; null when neither has come
+ * - Only enforced (warn or block), unarchived Normative Models are reviewed
+ * - Pure function
+ */
+export function getNormReview(model: Model, now: string): NormReview | null {
+  if (
+    model.type !== "Normative" ||
+    isArchived(model) ||
+    (model.enforcement ?? "none") === "none"
+  ) {
+    return null;
+  }
+  const today = new Date(now).toISOString().slice(0, 10);
+  if (model.expiresOn !== undefined && today >= model.expiresOn) {
+    return { model, reason: "expired", dueOn: model.expiresOn };
+  }
+  if (model.reviewOn !== undefined && today >= model.reviewOn) {
+    return { model, reason: "review", dueOn: model.reviewOn };
+  }
+  return null;
+}
+
+/**
+ * Lists the norms due for review, longest waiting first.
+ *
+ * **Intent:** Norms set months ago should not keep blocking unexamined;
+ * each comes back to be renewed, re-enforced or retired (`reviewModel`).
+ *
+ * **Contract:**
+ * - Returns: a NormReview per Model getNormReview flags at `now`
+ * - Pure function: `now` is an ISO-8601 timestamp supplied by the caller
+ */
+export function getNormsDueForReview(state: State, now: string): NormReview[] {
+  return state.models
+    .map((model) => getNormReview(model, now))
+    .filter((review): review is NormReview => review !== null)
+    .sort((a, b) => a.dueOn.localeCompare(b.dueOn));
+}
@@ -8,19 +8,29 @@
 import { EPISODE_TYPES } from "../memory/index.js";
 import type {
   Action,
+  ArchivableCollection,
   EnforcementLevel,
   Episode,
   LinkRelation,
+  MembraneException,
   MeasurementCadence,
+  Model,
+  ModelCondition,
   ModelScope,
   ModelType,
   MutationType,
   NodeRef,
+  Note,
   NoteTag,
   OverrideDecision,
+  Proxy,
+  ProxyReading,
   ProxyThresholds,
   ProxyValue,
   ProxyValueType,
+  State,
+  StateCollection,
+  StatusChangeSource,
   Variable,
   VariableStatus,
 } from "../memory/index.js";
@@ -58,6 +68,10 @@ export type OpenEpisodeParams =
       objective: string;
       /** ISO-8601 timestamp when episode was opened */
       openedAt: string;
+      /** The episode this one follows up on (recorded as a `derived_from` link) */
+      previousEpisodeId?: string;
+      /** Unique identifier for the `derived_from` link (required with previousEpisodeId) */
+      linkId?: string;
     }
   | {
       /** Unique identifier for the new episode */
@@ -70,6 +84,10 @@ export type OpenEpisodeParams =
       objective: string;
       /** ISO-8601 timestamp when episode was opened */
       openedAt: string;
+      /** The episode this one follows up on (recorded as a `derived_from` link) */
+      previousEpisodeId?: string;
+      /** Unique identifier for the `derived_from` link (required with previousEpisodeId) */
+      linkId?: string;
     };
 
 /**
@@ -94,11 +112,32 @@ export interface ClosureNote {
   content: string;
 }
 
+/** What closing an episode does with its open actions */
+export const PENDING_ACTION_DISPOSITIONS = [
+  "carryOver",
+  "cancel",
+  "detach",
+] as const;
+
+/**
+ * What happens to an episode's open (Pending or Blocked) actions when it
+ * closes, so none are left dangling without authority:
+ * - **carryOver**: move them to another Active episode of the same node
+ * - **cancel**: mark them Cancelled (reason defaults to the closure)
+ * - **detach**: remove their episode, leaving them in the triage list
+ *   (`getPendingOrphanedActions`)
+ */
+export type PendingActionDisposition =
+  | { mode: (typeof PENDING_ACTION_DISPOSITIONS)[0]; episodeId: string }
+  | { mode: (typeof PENDING_ACTION_DISPOSITIONS)[1]; reason?: string }
+  | { mode: (typeof PENDING_ACTION_DISPOSITIONS)[2] };
+
 /**
  * Parameters for closing an episode.
  *
  * Episodes must be closed with a closure note. Explore episodes
  * additionally require at least one model update (learning is mandatory).
+ * Episodes with open actions must say what happens to them.
  */
 export interface CloseEpisodeParams {
   /** The episode to close */
@@ -111,6 +150,19 @@ export interface CloseEpisodeParams {
   variableUpdates?: VariableUpdate[];
   /** Model updates (required for Explore episodes) */
   modelUpdates?: ModelUpdate[];
+  /** Required when the episode has Pending or Blocked actions */
+  pendingActions?: PendingActionDisposition;
+}
+
+/**
+ * Options for closing an episode.
+ */
+export interface CloseEpisodeOptions {
+  /**
+   * Whether open actions need a PendingActionDisposition (default true).
+   * Journal replay turns this off for closures recorded before it existed.
+   */
+  requirePendingActionChoice?: boolean;
 }
 
 /**
@@ -144,6 +196,8 @@ export interface SignalParams {
   auditNoteId?: string;
   /** Optional timestamp for audit (uses current if not provided) */
   auditTimestamp?: string;
+  /** What prompted the change, for the status history (default: manual) */
+  source?: StatusChangeSource;
 }
 
 /**
@@ -159,6 +213,8 @@ export interface CreateActionParams {
   episodeId?: string;
   /** What this action does */
   description: string;
+  /** Optional due date (YYYY-MM-DD) */
+  dueDate?: string;
 }
 
 /**
@@ -170,6 +226,62 @@ export interface CompleteActionParams {
   actionId: string;
 }
 
+/**
+ * Parameters for cancelling an action (marking it as Cancelled).
+ * Only Pending or Blocked actions can be cancelled, and a reason is required.
+ */
+export interface CancelActionParams {
+  /** The action to cancel */
+  actionId: string;
+  /** Why the action was abandoned */
+  reason: string;
+}
+
+/**
+ * Parameters for blocking an action on another object.
+ * Records a `blocks` Link from the blocker to the action.
+ */
+export interface BlockActionParams {
+  /** The action that cannot proceed */
+  actionId: string;
+  /** The object (Action, Episode, Variable, …) it is waiting on */
+  blockedBy: string;
+  /** Unique identifier for the new `blocks` link */
+  linkId: string;
+}
+
+/**
+ * Parameters for unblocking an action (Blocked back to Pending).
+ * Removes every `blocks` Link pointing at the action.
+ */
+export interface UnblockActionParams {
+  /** The action to unblock */
+  actionId: string;
+}
+
+/**
+ * Parameters for editing an open (Pending or Blocked) action.
+ * Only provided fields are updated; others remain unchanged.
+ */
+export interface UpdateActionParams {
+  /** The action to update */
+  actionId: string;
+  /** New description (optional) */
+  description?: string;
+  /** New due date, YYYY-MM-DD (optional, null to remove) */
+  dueDate?: string | null;
+}
+
+/**
+ * Parameters for reordering the actions of an episode.
+ */
+export interface ReorderActionsParams {
+  /** The episode whose actions are reordered */
+  episodeId: string;
+  /** Every action of the episode, in the new order */
+  actionIds: string[];
+}
+
 /**
  * Parameters for creating a new model (belief).
  * Models capture learned knowledge from episodes.
@@ -187,6 +299,12 @@ export interface CreateModelParams {
   scope?: ModelScope;
   /** Enforcement level for Normative models: none, warn, or block */
   enforcement?: EnforcementLevel;
+  /** When a Normative model applies (default: opening Episodes in scope) */
+  condition?: ModelCondition;
+  /** Calendar date (YYYY-MM-DD) the model comes up for review */
+  reviewOn?: string;
+  /** Calendar date (YYYY-MM-DD) from which the model is enforced as none */
+  expiresOn?: string;
 }
 
 /**
@@ -204,6 +322,55 @@ export interface UpdateModelParams {
   scope?: ModelScope;
   /** New enforcement level (optional) */
   enforcement?: EnforcementLevel;
+  /** New condition (optional, null to remove) */
+  condition?: ModelCondition | null;
+  /** New review date (optional, null to remove) */
+  reviewOn?: string | null;
+  /** New expiry date (optional, null to remove) */
+  expiresOn?: string | null;
+}
+
+/** What reviewing a Normative Model can decide */
+export const MODEL_REVIEW_OUTCOMES = [
+  "renew",
+  "changeEnforcement",
+  "retire",
+] as const;
+
+/**
+ * The decision on a Normative Model that came up for review:
+ * - **renew**: keep it as it is, with new dates (undefined keeps a date,
+ *   null removes it)
+ * - **changeEnforcement**: set a new enforcement level, and optionally dates
+ * - **retire**: stop enforcing it (enforcement none) and archive it
+ */
+export type ModelReviewDecision =
+  | {
+      outcome: (typeof MODEL_REVIEW_OUTCOMES)[0];
+      reviewOn?: string | null;
+      expiresOn?: string | null;
+    }
+  | {
+      outcome: (typeof MODEL_REVIEW_OUTCOMES)[1];
+      enforcement: EnforcementLevel;
+      reviewOn?: string | null;
+      expiresOn?: string | null;
+    }
+  | { outcome: (typeof MODEL_REVIEW_OUTCOMES)[2] };
+
+/**
+ * Parameters for reviewing a Normative Model.
+ * The decision is recorded as a Note tagged `audit`, linked to the Model.
+ */
+export interface ReviewModelParams {
+  modelId: string;
+  decision: ModelReviewDecision;
+  /** Why; appended to the audit Note */
+  reason?: string;
+  /** ID for the audit Note */
+  noteId: string;
+  /** ISO timestamp of the review */
+  reviewedAt: string;
 }
 
 /**
@@ -353,6 +520,163 @@ export interface LogExceptionParams {
   createdAt: string;
 }
 
+/**
+ * An active Episode whose timebox (openedAt + timeboxDays) has run out.
+ */
+export interface OverdueEpisode {
+  episode: Episode;
+  /** ISO-8601 timestamp when the timebox ran out */
+  dueAt: string;
+  /** Whole days since dueAt (0 on the day it ran out) */
+  daysOverdue: number;
+}
+
+/**
+ * A Variable whose measurement cadence says it should be measured now.
+ */
+export interface DueMeasurement {
+  variable: Variable;
+  cadence: MeasurementCadence;
+  /** Proxies that can be read to measure the Variable (may be empty) */
+  proxies: Proxy[];
+  /** Latest proxy reading or status signal, or null when never measured */
+  lastMeasuredAt: string | null;
+  /** Date (YYYY-MM-DD) the measurement fell due; null when never measured */
+  dueOn: string | null;
+  /** due: falls due today (or never measured); overdue: due on an earlier day */
+  status: "due" | "overdue";
+  /** Whole days since dueOn (0 when due) */
+  daysOverdue: number;
+}
+
+/**
+ * A stretch of time a Variable spent out of range: from a change to Low or
+ * High until the next change back to InRange.
+ */
+export interface StatusExcursion {
+  /** Status the excursion started in */
+  status: "Low" | "High";
+  startedAt: string;
+  /** When the Variable returned to InRange; null while still out of range */
+  endedAt: string | null;
+  /** Length in days, up to `now` while still open */
+  days: number;
+}
+
+/**
+ * Time-in-status analytics for one Variable, derived from its status history.
+ */
+export interface VariableStatusAnalytics {
+  variable: Variable;
+  /** First recorded status change; null when the Variable has no history */
+  trackedSince: string | null;
+  /** Days spent in each status since trackedSince */
+  daysInStatus: Record<VariableStatus, number>;
+  excursions: StatusExcursion[];
+  /** Mean length of the excursions that ended; null when none has */
+  meanDaysToInRange: number | null;
+  /** Excursions by the quarter they started in (e.g. "2025-Q1"), in order */
+  excursionsPerQuarter: Record<string, number>;
+}
+
+/**
+ * How one Proxy moved while an Episode was open.
+ */
+export interface ProxyTrend {
+  proxy: Proxy;
+  /** Readings recorded between the Episode's opening and closing, oldest first */
+  readings: ProxyReading[];
+  /** Last minus first value for numeric proxies with two or more readings */
+  change: number | null;
+}
+
+/**
+ * Outcome of one closed Stabilize Episode for its Variable.
+ */
+export interface EpisodeEffectiveness {
+  episode: Episode;
+  /** null when the Variable no longer exists */
+  variable: Variable | null;
+  /** Variable status when the Episode opened and closed (from its history) */
+  statusAtOpen: VariableStatus | null;
+  statusAtClose: VariableStatus | null;
+  /** Opened out of range and closed InRange */
+  restored: boolean;
+  /** One trend per Proxy of the Variable */
+  trends: ProxyTrend[];
+  actionsDone: number;
+  actionsPending: number;
+  durationDays: number;
+  /** null when the Episode had no timebox */
+  timeboxDays: number | null;
+  withinTimebox: boolean | null;
+}
+
+/**
+ * Narrows an exception audit. Every field present must match.
+ */
+export interface ExceptionFilter {
+  modelId?: string;
+  mutationType?: MutationType;
+  /** Earliest createdAt to include (ISO timestamp, inclusive) */
+  from?: string;
+  /** Latest createdAt to include (ISO timestamp, inclusive) */
+  to?: string;
+}
+
+/** Where an excepted mutation landed */
+export interface ExceptionTarget {
+  collection: "episodes" | "actions" | "variables" | "notes";
+  id: string;
+  /** Objective, description, name or content; null when it no longer exists */
+  label: string | null;
+}
+
+/** A Membrane exception with the Model it bypassed and what it let through */
+export interface ExceptionAuditEntry {
+  exception: MembraneException;
+  /** null when the Model no longer exists */
+  model: Model | null;
+  target: ExceptionTarget;
+}
+
+/**
+ * A Normative Model in the review queue: its review date has come, or it
+ * has expired and is no longer enforced.
+ */
+export interface NormReview {
+  model: Model;
+  reason: "review" | "expired";
+  /** The reviewOn or expiresOn date that put it in the queue */
+  dueOn: string;
+}
+
+/** How often a Normative Model was excepted in the recent window */
+export interface ModelExceptionRate {
+  model: Model;
+  warnAcknowledgments: number;
+  blockOverrides: number;
+  perWeek: number;
+  /** Excepted often enough that the norm should be revised or demoted */
+  flagged: boolean;
+  /** Enforcement one step down (block → warn, warn → none); null unless flagged */
+  demoteTo: EnforcementLevel | null;
+}
+
+/**
+ * An Episode with the Episodes that followed up on it.
+ * A tree: an Episode can have several follow-ups but one predecessor.
+ */
+export interface EpisodeLineage {
+  episode: Episode;
+  /** What the Episode concluded, once closed */
+  closureNote: Note | null;
+  /** Models created or revised by its closure */
+  modelUpdates: Model[];
+  /** Episodes opened with this one as previousEpisodeId, oldest first */
+  followUps: EpisodeLineage[];
+}
+
 /**
  * Status data for CLI display.
  * Discriminated union: baseline (quiet) vs active (shows details).
@@ -365,8 +689,25 @@ export type StatusData =
       variables: Variable[];
       episodes: Episode[];
       actions: Action[];
+      /** Active episodes past their timebox, most overdue first */
+      overdue: OverdueEpisode[];
     };
 
+/**
+ * A Regulator invariant broken by a State.
+ * Mutations never produce these; merged or imported State may.
+ */
+export interface InvariantViolation {
+  rule:
+    | "maxActiveExplorePerNode"
+    | "maxActiveStabilizePerVariable"
+    | "stabilizeVariableExists";
+  node: NodeRef;
+  /** Episodes that together break the rule */
+  episodeIds: string[];
+  message: string;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // Proxy Parameters (MP14)
 // ═══════════════════════════════════════════════════════════════════════════
@@ -437,3 +778,177 @@ export interface LogProxyReadingParams {
   /** How the reading was obtained (e.g., "manual") */
   source?: string;
 }
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Archival and Deletion
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parameters for archiving an entity.
+ * Archived entities stay in State (and in every reference to them) but are
+ * hidden from status and lens views unless asked for.
+ */
+export interface ArchiveEntityParams {
+  collection: ArchivableCollection;
+  id: string;
+  /** ISO timestamp of the archival */
+  archivedAt: string;
+}
+
+/**
+ * Parameters for bringing an archived entity back into view.
+ */
+export interface UnarchiveEntityParams {
+  collection: ArchivableCollection;
+  id: string;
+}
+
+/**
+ * Parameters for deleting an entity for good.
+ * Links, Note linkedObjects and (for a Variable) its Proxies, their readings
+ * and its status history go with it; anything else that refers to it blocks
+ * the deletion.
+ */
+export interface DeleteEntityParams {
+  collection: ArchivableCollection;
+  id: string;
+}
+
+/**
+ * Something that refers to an entity and would be left dangling if the
+ * entity were deleted.
+ */
+export interface DeletionBlocker {
+  collection: StateCollection;
+  id: string;
+  /** Why it blocks, e.g. "Episode 'e1' regulates it" */
+  reason: string;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Undo / Redo
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Whether a revert takes a recorded change back or puts an undone one back */
+export const REVERT_DIRECTIONS = ["undo", "redo"] as const;
+export type RevertDirection = (typeof REVERT_DIRECTIONS)[number];
+
+/** Any entity stored in one of State's collections */
+export type StateEntity = State[StateCollection][number];
+
+/**
+ * One entity put back the way it was.
+ * `from` is what the collection must hold now and `to` what replaces it;
+ * null means the entity is absent on that side.
+ */
+export interface EntityRevert {
+  collection: StateCollection;
+  id: string;
+  from: StateEntity | null;
+  to: StateEntity | null;
+}
+
+/**
+ * Parameters for a journaled batch: the mutations `Regulator.batch`
+ * applied, in order, with the params each method resolved.
+ */
+export interface BatchParams {
+  operations: RegulatorMutation[];
+}
+
+/**
+ * Parameters for reverting one journaled mutation.
+ * Undo and redo are new, compensating changes: the journal entry they
+ * revert stays in the history.
+ */
+export interface RevertParams {
+  direction: RevertDirection;
+  /** Index of the journal entry whose change is undone or redone */
+  entryIndex: number;
+  /** Kind of the mutation in that entry */
+  mutationKind: RegulatorMutationKind;
+  /** Entity-level changes that take State from the entry's result back to its base (undo), or forward again (redo) */
+  changes: EntityRevert[];
+}
+
+/**
+ * A journaled mutation that can be undone or redone.
+ */
+export interface UndoStep {
+  /** Index of the mutation's journal entry */
+  entryIndex: number;
+  mutation: RegulatorMutation;
+}
+
+/**
+ * What `undo` and `redo` would act on next, derived from the journal.
+ */
+export interface UndoHistory {
+  /** Most recent change that has not been undone */
+  undo: UndoStep | null;
+  /** Most recently undone change, until a new change is made */
+  redo: UndoStep | null;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// Mutation Journal
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * A successful Regulator mutation, captured with the exact params it was
+ * applied with. Discriminated by `kind` (the Regulator operation name).
+ * Replaying these through the pure logic functions reproduces State.
+ * The same shape describes the operations of `Regulator.batch`.
+ */
+export type RegulatorMutation =
+  | { kind: "openEpisode"; params: OpenEpisodeParams }
+  | { kind: "closeEpisode"; params: CloseEpisodeParams }
+  | { kind: "updateEpisode"; params: UpdateEpisodeParams }
+  | { kind: "signal"; params: SignalParams }
+  | { kind: "createVariable"; params: CreateVariableParams }
+  | { kind: "createAction"; params: CreateActionParams }
+  | { kind: "completeAction"; params: CompleteActionParams }
+  | { kind: "cancelAction"; params: CancelActionParams }
+  | { kind: "blockAction"; params: BlockActionParams }
+  | { kind: "unblockAction"; params: UnblockActionParams }
+  | { kind: "updateAction"; params: UpdateActionParams }
+  | { kind: "reorderActions"; params: ReorderActionsParams }
+  | { kind: "createModel"; params: CreateModelParams }
+  | { kind: "updateModel"; params: UpdateModelParams }
+  | { kind: "reviewModel"; params: ReviewModelParams }
+  | { kind: "createNote"; params: CreateNoteParams }
+  | { kind: "updateNote"; params: UpdateNoteParams }
+  | { kind: "addNoteTag"; params: AddNoteTagParams }
+  | { kind: "removeNoteTag"; params: RemoveNoteTagParams }
+  | { kind: "addNoteLinkedObject"; params: AddNoteLinkedObjectParams }
+  | { kind: "createLink"; params: CreateLinkParams }
+  | { kind: "deleteLink"; params: DeleteLinkParams }
+  | { kind: "logException"; params: LogExceptionParams }
+  | { kind: "createProxy"; params: CreateProxyParams }
+  | { kind: "updateProxy"; params: UpdateProxyParams }
+  | { kind: "deleteProxy"; params: DeleteProxyParams }
+  | { kind: "logProxyReading"; params: LogProxyReadingParams }
+  | { kind: "archiveEntity"; params: ArchiveEntityParams }
+  | { kind: "unarchiveEntity"; params: UnarchiveEntityParams }
+  | { kind: "deleteEntity"; params: DeleteEntityParams }
+  | { kind: "revert"; params: RevertParams }
+  | { kind: "batch"; params: BatchParams };
+
+export type RegulatorMutationKind = RegulatorMutation["kind"];
+
+/**
+ * Outcome of `Regulator.batch`: the State after every operation, or the
+ * first operation that failed (its position in the batch and its error).
+ * A failed batch changes nothing.
+ */
+export type BatchResult =
+  | { ok: true; value: State }
+  | { ok: false; error: string; index: number };
+
+/**
+ * Receives every successful Regulator mutation.
+ * JsonStore implements this so mutations reach the persisted journal on save.
+ */
+export interface MutationJournal {
+  record(base: State, mutation: RegulatorMutation, result: State): void;
+}
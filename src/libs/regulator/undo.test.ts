@@ -0,0 +1,247 @@
+import { describe, it, expect } from "vitest";
+import { Regulator } from "./engine.js";
+import { replayJournal } from "./journal.js";
+import { DEFAULT_REGULATOR_POLICY } from "./policy.js";
+import { getUndoHistory, planRevert } from "./undo.js";
+import type { MutationJournal, RevertDirection } from "./types.js";
+import { createEmptyState, DEFAULT_PERSONAL_NODE } from "../memory/index.js";
+import type { JournalEntry, State } from "../memory/index.js";
+
+const T0 = "2025-01-01T00:00:00.000Z";
+
+function createState(): State {
+  return {
+    ...createEmptyState(),
+    variables: [
+      {
+        id: "v1",
+        node: DEFAULT_PERSONAL_NODE,
+        name: "Agency",
+        status: "InRange",
+      },
+    ],
+    actions: [{ id: "a1", description: "Walk", status: "Pending" }],
+  };
+}
+
+/**
+ * Journal entries as JsonStore writes them: a snapshot, then every
+ * recorded mutation.
+ */
+function entryJournal(
+  snapshot: State,
+): MutationJournal & { entries: JournalEntry[] } {
+  const entries: JournalEntry[] = [
+    { type: "snapshot", recordedAt: T0, state: snapshot },
+  ];
+  return {
+    entries,
+    record(_base, mutation): void {
+      entries.push({ type: "mutation", recordedAt: T0, mutation });
+    },
+  };
+}
+
+function unwrap<T>(result: { ok: true; value: T } | { ok: false }): T {
+  if (!result.ok) throw new Error("expected ok");
+  return result.value;
+}
+
+describe("undo / redo", () => {
+  function setup(): {
+    regulator: Regulator;
+    journal: ReturnType<typeof entryJournal>;
+    step: (state: State, direction: RevertDirection) => State;
+  } {
+    const journal = entryJournal(createState());
+    const regulator = new Regulator({ journal });
+    const step = (state: State, direction: RevertDirection): State =>
+      unwrap(
+        regulator.revert(state, unwrap(planRevert(journal.entries, direction))),
+      );
+    return { regulator, journal, step };
+  }
+
+  it("undoes the latest change and redoes it, keeping both in the journal", () => {
+    const { regulator, journal, step } = setup();
+    let state = unwrap(
+      regulator.signal(createState(), {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId: "v1",
+        status: "Low",
+      }),
+    );
+    state = unwrap(regulator.completeAction(state, { actionId: "a1" }));
+
+    state = step(state, "undo");
+    expect(state.actions[0]?.status).toBe("Pending");
+    expect(state.variables[0]?.status).toBe("Low");
+
+    state = step(state, "undo");
+    expect(state.variables[0]?.status).toBe("InRange");
+    expect(state.statusChanges).toEqual([]);
+    expect(getUndoHistory(journal.entries)).toMatchObject({
+      undo: null,
+      redo: { mutation: { kind: "signal" } },
+    });
+
+    state = step(state, "redo");
+    expect(state.variables[0]?.status).toBe("Low");
+    expect(getUndoHistory(journal.entries)).toMatchObject({
+      undo: { mutation: { kind: "signal" } },
+      redo: { mutation: { kind: "completeAction" } },
+    });
+
+    // Reverts are mutations of their own, so the journal still replays
+    expect(journal.entries).toHaveLength(6);
+    expect(replayJournal(journal.entries)).toEqual({ ok: true, value: state });
+  });
+
+  it("forgets the redo stack once a new change is made", () => {
+    const { regulator, journal, step } = setup();
+    let state = unwrap(
+      regulator.completeAction(createState(), { actionId: "a1" }),
+    );
+    state = step(state, "undo");
+    expect(getUndoHistory(journal.entries).redo).not.toBeNull();
+
+    unwrap(
+      regulator.cancelAction(state, { actionId: "a1", reason: "Raining" }),
+    );
+
+    expect(planRevert(journal.entries, "redo")).toEqual({
+      ok: false,
+      error: "Nothing to redo",
+    });
+  });
+
+  it("undoes a batch as one change", () => {
+    const { regulator, journal, step } = setup();
+    let state = unwrap(
+      regulator.batch(createState(), [
+        {
+          kind: "signal",
+          params: {
+            node: DEFAULT_PERSONAL_NODE,
+            variableId: "v1",
+            status: "Low",
+          },
+        },
+        { kind: "completeAction", params: { actionId: "a1" } },
+      ]),
+    );
+
+    state = step(state, "undo");
+    expect(state.variables[0]?.status).toBe("InRange");
+    expect(state.actions[0]?.status).toBe("Pending");
+    expect(replayJournal(journal.entries)).toEqual({ ok: true, value: state });
+  });
+
+  it("refuses to undo a change that is no longer the latest", () => {
+    const { regulator, journal } = setup();
+    const state = unwrap(
+      regulator.completeAction(createState(), { actionId: "a1" }),
+    );
+    const completed = journal.entries.length - 1;
+    expect(planRevert(journal.entries, "undo", completed)).toMatchObject({
+      ok: true,
+      value: { entryIndex: completed },
+    });
+
+    unwrap(
+      regulator.signal(state, {
+        node: DEFAULT_PERSONAL_NODE,
+        variableId: "v1",
+        status: "Low",
+      }),
+    );
+
+    expect(planRevert(journal.entries, "undo", completed)).toEqual({
+      ok: false,
+      error: "Cannot undo: another change has been made since",
+    });
+  });
+
+  it("starts a fresh history at a snapshot", () => {
+    const { regulator, journal } = setup();
+    const state = unwrap(
+      regulator.completeAction(createState(), { actionId: "a1" }),
+    );
+    journal.entries.push({ type: "snapshot", recordedAt: T0, state });
+
+    expect(getUndoHistory(journal.entries)).toEqual({ undo: null, redo: null });
+    expect(planRevert(journal.entries, "undo")).toEqual({
+      ok: false,
+      error: "Nothing to undo",
+    });
+  });
+
+  it("starts a fresh history at an unreadable entry", () => {
+    const { regulator, journal } = setup();
+    unwrap(regulator.completeAction(createState(), { actionId: "a1" }));
+    journal.entries.push({ type: "unreadable", position: 3 });
+
+    expect(getUndoHistory(journal.entries)).toEqual({ undo: null, redo: null });
+  });
+
+  it("refuses to undo over a change made since", () => {
+    const { regulator, journal } = setup();
+    const state = unwrap(
+      regulator.completeAction(createState(), { actionId: "a1" }),
+    );
+    const edited: State = {
+      ...state,
+      actions: [{ id: "a1", description: "Run", status: "Done" }],
+    };
+
+    expect(
+      regulator.revert(edited, unwrap(planRevert(journal.entries, "undo"))),
+    ).toEqual({
+      ok: false,
+      error: "Cannot undo completeAction: actions 'a1' has changed since",
+    });
+    expect(journal.entries).toHaveLength(2);
+  });
+
+  it("never reopens an Episode beyond the active Explore limit", () => {
+    const explore = (id: string): State["episodes"][number] => ({
+      id,
+      node: DEFAULT_PERSONAL_NODE,
+      type: "Explore",
+      objective: `Explore ${id}`,
+      status: "Active",
+      openedAt: T0,
+    });
+    const journal = entryJournal({
+      ...createState(),
+      episodes: [explore("e1"), explore("e2")],
+    });
+    // Recorded while the node allowed two Explore episodes
+    const lenient = new Regulator({
+      journal,
+      policy: { ...DEFAULT_REGULATOR_POLICY, maxActiveExplorePerNode: 2 },
+    });
+    const state = unwrap(
+      lenient.closeEpisode(
+        { ...createState(), episodes: [explore("e1"), explore("e2")] },
+        {
+          episodeId: "e1",
+          closedAt: T0,
+          closureNote: { id: "n1", content: "Learned enough" },
+          modelUpdates: [{ id: "m1", type: "Descriptive", statement: "X" }],
+        },
+      ),
+    );
+
+    const result = new Regulator().revert(
+      state,
+      unwrap(planRevert(journal.entries, "undo")),
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      error:
+        "Cannot undo closeEpisode: Node 'Personal:personal' has 2 active Explore episodes. Max allowed: 1",
+    });
+  });
+});
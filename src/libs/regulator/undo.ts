@@ -0,0 +1,136 @@
+// Undo / redo for the Regulator organ
+// Derives what can be undone or redone from the mutation journal and plans
+// the compensating revert that does it.
+
+import { STATE_COLLECTIONS, sameData } from "../memory/index.js";
+import type { JournalEntry, State } from "../memory/index.js";
+import type {
+  EntityRevert,
+  Result,
+  RevertDirection,
+  RevertParams,
+  StateEntity,
+  UndoHistory,
+  UndoStep,
+} from "./types.js";
+import { isRegulatorMutation, replayJournal } from "./journal.js";
+
+/**
+ * Reads the undo and redo stacks out of the journal.
+ *
+ * **Intent:** The journal is the history; undo state is never stored
+ * separately, so it cannot drift from what actually happened.
+ *
+ * **Contract:**
+ * - Every mutation is an undo step; a new one clears the redo stack
+ * - An undo revert moves its step onto the redo stack, a redo revert back
+ * - A snapshot (restore, import, first save) starts a fresh history, and
+ *   so does an unreadable entry: what it did cannot be known
+ * - Returns: UndoHistory with the top of each stack
+ * - Pure function: does not mutate the entries
+ */
+export function getUndoHistory(entries: readonly JournalEntry[]): UndoHistory {
+  let done: UndoStep[] = [];
+  let undone: UndoStep[] = [];
+
+  for (const [entryIndex, entry] of entries.entries()) {
+    if (entry.type !== "mutation") {
+      done = [];
+      undone = [];
+      continue;
+    }
+    const mutation = entry.mutation;
+    if (!isRegulatorMutation(mutation)) continue;
+
+    if (mutation.kind !== "revert") {
+      done.push({ entryIndex, mutation });
+      undone = [];
+      continue;
+    }
+    const [from, to] =
+      mutation.params.direction === "undo" ? [done, undone] : [undone, done];
+    const stepIndex = from.findLastIndex(
+      (step) => step.entryIndex === mutation.params.entryIndex,
+    );
+    const [step] = stepIndex === -1 ? [] : from.splice(stepIndex, 1);
+    if (step) to.push(step);
+  }
+
+  return { undo: done.at(-1) ?? null, redo: undone.at(-1) ?? null };
+}
+
+/**
+ * Plans the revert that undoes the most recent change, or redoes the most
+ * recently undone one.
+ *
+ * **Contract:**
+ * - Parameters: entryIndex (optional) - the journal entry the caller means
+ *   to revert, e.g. the change an undo prompt announced
+ * - Returns: RevertParams with the entity-level changes between the
+ *   step's journal entry and the State just before it
+ * - Apply with `Regulator.revert`, which checks nothing has changed since
+ * - Error handling: Returns error if there is nothing to undo or redo, if
+ *   `entryIndex` is given and is no longer the top of that stack, or the
+ *   journal no longer replays up to that entry
+ */
+export function planRevert(
+  entries: readonly JournalEntry[],
+  direction: RevertDirection,
+  entryIndex?: number,
+): Result<RevertParams> {
+  const step = getUndoHistory(entries)[direction];
+  if (!step) {
+    return { ok: false, error: `Nothing to ${direction}` };
+  }
+  if (entryIndex !== undefined && step.entryIndex !== entryIndex) {
+    return {
+      ok: false,
+      error: `Cannot ${direction}: another change has been made since`,
+    };
+  }
+
+  const before = replayJournal(entries.slice(0, step.entryIndex));
+  if (!before.ok) return before;
+  const after = replayJournal(entries.slice(0, step.entryIndex + 1));
+  if (!after.ok) return after;
+
+  return {
+    ok: true,
+    value: {
+      direction,
+      entryIndex: step.entryIndex,
+      mutationKind: step.mutation.kind,
+      changes:
+        direction === "undo"
+          ? entityChanges(after.value, before.value)
+          : entityChanges(before.value, after.value),
+    },
+  };
+}
+
+/**
+ * Every entity that differs between two States, as the changes that turn
+ * `from` into `to`.
+ */
+function entityChanges(from: State, to: State): EntityRevert[] {
+  const changes: EntityRevert[] = [];
+  for (const collection of STATE_COLLECTIONS) {
+    const fromEntities: readonly StateEntity[] = from[collection];
+    const toEntities: readonly StateEntity[] = to[collection];
+    const toById = new Map(toEntities.map((e) => [e.id, e]));
+    const fromIds = new Set(fromEntities.map((e) => e.id));
+
+    for (const entity of fromEntities) {
+      const next = toById.get(entity.id) ?? null;
+      if (!sameData(entity, next)) {
+        changes.push({ collection, id: entity.id, from: entity, to: next });
+      }
+    }
+    for (const entity of toEntities) {
+      if (!fromIds.has(entity.id)) {
+        changes.push({ collection, id: entity.id, from: null, to: entity });
+      }
+    }
+  }
+  return changes;
+}
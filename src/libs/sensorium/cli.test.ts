@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseCli, parseNodeRef, parseObservation } from "./cli.js";
+import { parseAsOf, parseCli, parseNodeRef, parseObservation } from "./cli.js";
 import {
   DEFAULT_PERSONAL_NODE,
   DEFAULT_ORG_NODE,
@@ -24,6 +24,19 @@ describe("Sensorium CLI parsing", () => {
     });
   });
 
+  describe("parseAsOf", () => {
+    it("resolves a bare date to its last millisecond", () => {
+      expect(parseAsOf("2025-01-06")).toEqual({
+        ok: true,
+        value: "2025-01-06T23:59:59.999Z",
+      });
+    });
+
+    it("rejects what is not a date", () => {
+      expect(parseAsOf("yesterday").ok).toBe(false);
+    });
+  });
+
   describe("parseCli", () => {
     it("defaults to status + default personal node", () => {
       const result = parseCli([]);
@@ -43,6 +56,418 @@ describe("Sensorium CLI parsing", () => {
       }
     });
 
+    it("parses status --as-of a date as the end of that day", () => {
+      const result = parseCli(["status", "--as-of", "2025-01-06"]);
+      expect(result).toEqual({
+        ok: true,
+        value: {
+          kind: "status",
+          node: DEFAULT_PERSONAL_NODE,
+          asOf: "2025-01-06T23:59:59.999Z",
+        },
+      });
+    });
+
+    it("parses status --as-of a timestamp as that moment", () => {
+      const result = parseCli(["status", "--as-of", "2025-01-06T09:30:00Z"]);
+      expect(result.ok && result.value).toEqual(
+        expect.objectContaining({ asOf: "2025-01-06T09:30:00.000Z" }),
+      );
+    });
+
+    it("rejects an unparseable --as-of", () => {
+      const result = parseCli(["status", "--as-of", "last week"]);
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toContain("--as-of");
+      }
+    });
+
+    it("parses doctor as report-only by default", () => {
+      expect(parseCli(["doctor"])).toEqual({
+        ok: true,
+        value: { kind: "doctor", node: DEFAULT_PERSONAL_NODE, unlock: false },
+      });
+    });
+
+    it("parses doctor --unlock", () => {
+      expect(parseCli(["doctor", "--unlock"])).toEqual({
+        ok: true,
+        value: { kind: "doctor", node: DEFAULT_PERSONAL_NODE, unlock: true },
+      });
+    });
+
+    it("parses export with a format and optional output directory", () => {
+      expect(parseCli(["export", "--format", "csv", "--out", "out"])).toEqual({
+        ok: true,
+        value: {
+          kind: "export",
+          node: DEFAULT_PERSONAL_NODE,
+          format: "csv",
+          out: "out",
+        },
+      });
+      expect(parseCli(["export"]).ok).toBe(false);
+      expect(parseCli(["export", "--format", "xlsx"]).ok).toBe(false);
+    });
+
+    it("parses import with a source and --dry-run", () => {
+      expect(
+        parseCli(["import", "--format", "md", "--from", "vault", "--dry-run"]),
+      ).toEqual({
+        ok: true,
+        value: {
+          kind: "import",
+          node: DEFAULT_PERSONAL_NODE,
+          format: "md",
+          from: "vault",
+          dryRun: true,
+        },
+      });
+      expect(parseCli(["import", "--format", "json"]).ok).toBe(false);
+    });
+
+    it("parses merge with a base, their file and an optional preference", () => {
+      expect(
+        parseCli([
+          "merge",
+          "--base",
+          "2025-01-06T09-30-00-000Z-r4",
+          "--theirs",
+          "laptop.json",
+          "--prefer",
+          "theirs",
+        ]),
+      ).toEqual({
+        ok: true,
+        value: {
+          kind: "merge",
+          node: DEFAULT_PERSONAL_NODE,
+          base: "2025-01-06T09-30-00-000Z-r4",
+          theirs: "laptop.json",
+          prefer: "theirs",
+          dryRun: false,
+        },
+      });
+      expect(parseCli(["merge", "--theirs", "laptop.json"]).ok).toBe(false);
+      expect(
+        parseCli(["merge", "--base", "b", "--theirs", "t", "--prefer", "mine"])
+          .ok,
+      ).toBe(false);
+    });
+
+    it("parses due with the default node", () => {
+      expect(parseCli(["due"])).toEqual({
+        ok: true,
+        value: { kind: "due", node: DEFAULT_PERSONAL_NODE },
+      });
+    });
+
+    it("parses review for the given node", () => {
+      expect(parseCli(["review", "--node", "Org:acme"])).toEqual({
+        ok: true,
+        value: { kind: "review", node: { type: "Org", id: "acme" } },
+      });
+    });
+
+    it("parses history with an optional variable", () => {
+      expect(parseCli(["history"])).toEqual({
+        ok: true,
+        value: { kind: "history", node: DEFAULT_PERSONAL_NODE },
+      });
+      expect(parseCli(["history", "--variableId", "v1"])).toEqual({
+        ok: true,
+        value: {
+          kind: "history",
+          node: DEFAULT_PERSONAL_NODE,
+          variableId: "v1",
+        },
+      });
+    });
+
+    it("parses batch with its operations file", () => {
+      expect(parseCli(["batch", "--file", "ops.json", "--dry-run"])).toEqual({
+        ok: true,
+        value: {
+          kind: "batch",
+          node: DEFAULT_PERSONAL_NODE,
+          file: "ops.json",
+          dryRun: true,
+        },
+      });
+      expect(parseCli(["batch"])).toEqual({
+        ok: false,
+        error: "Missing required flag: --file",
+      });
+    });
+
+    it("parses undo and redo", () => {
+      expect(parseCli(["undo"])).toEqual({
+        ok: true,
+        value: { kind: "undo", node: DEFAULT_PERSONAL_NODE },
+      });
+      expect(parseCli(["redo"])).toEqual({
+        ok: true,
+        value: { kind: "redo", node: DEFAULT_PERSONAL_NODE },
+      });
+    });
+
+    it("parses archive, unarchive, delete and archived", () => {
+      expect(parseCli(["archive", "variables", "v1"])).toEqual({
+        ok: true,
+        value: {
+          kind: "archive",
+          node: DEFAULT_PERSONAL_NODE,
+          collection: "variables",
+          id: "v1",
+        },
+      });
+      expect(parseCli(["delete", "notes", "n1"])).toMatchObject({
+        ok: true,
+        value: { kind: "delete", collection: "notes", id: "n1" },
+      });
+      expect(parseCli(["archived", "models"])).toEqual({
+        ok: true,
+        value: {
+          kind: "archived",
+          node: DEFAULT_PERSONAL_NODE,
+          collection: "models",
+        },
+      });
+      expect(parseCli(["unarchive", "links", "l1"])).toEqual({
+        ok: false,
+        error:
+          "Invalid collection 'links'. Expected one of: variables, episodes, actions, notes, models",
+      });
+      expect(parseCli(["archive", "episodes"])).toEqual({
+        ok: false,
+        error: "Missing id. Usage: archive <collection> <id>",
+      });
+    });
+
+    it("parses check open and rejects other checks", () => {
+      expect(
+        parseCli(["check", "open", "Explore", "--node", "Org:acme"]),
+      ).toEqual({
+        ok: true,
+        value: {
+          kind: "check",
+          node: { type: "Org", id: "acme" },
+          episodeType: "Explore",
+        },
+      });
+      expect(parseCli(["check", "close", "Explore"])).toEqual({
+        ok: false,
+        error: "Cannot check 'close'. Usage: check open <Stabilize|Explore>",
+      });
+      expect(parseCli(["check", "open"])).toEqual({
+        ok: false,
+        error: "Missing episode type. Usage: check open <Stabilize|Explore>",
+      });
+    });
+
+    it("parses exceptions filters, widening a bare --to date to end of day", () => {
+      expect(
+        parseCli([
+          "exceptions",
+          "--modelId",
+          "m1",
+          "--type",
+          "action",
+          "--from",
+          "2025-01-01",
+          "--to",
+          "2025-01-31",
+        ]),
+      ).toEqual({
+        ok: true,
+        value: {
+          kind: "exceptions",
+          node: DEFAULT_PERSONAL_NODE,
+          modelId: "m1",
+          mutationType: "action",
+          from: "2025-01-01T00:00:00.000Z",
+          to: "2025-01-31T23:59:59.999Z",
+        },
+      });
+      expect(parseCli(["exceptions"])).toEqual({
+        ok: true,
+        value: { kind: "exceptions", node: DEFAULT_PERSONAL_NODE },
+      });
+      expect(parseCli(["exceptions", "--type", "model"])).toEqual({
+        ok: false,
+        error:
+          "Invalid --type 'model'. Expected one of: episode, action, signal, variable, note",
+      });
+      expect(parseCli(["exceptions", "--to", "soon"])).toEqual({
+        ok: false,
+        error: "Invalid --to 'soon'. Expected an ISO date or timestamp",
+      });
+    });
+
+    it("parses the norms queue and one review decision", () => {
+      expect(parseCli(["norms"])).toEqual({
+        ok: true,
+        value: { kind: "norms", node: DEFAULT_PERSONAL_NODE, mode: "list" },
+      });
+      expect(
+        parseCli([
+          "norms",
+          "review",
+          "m1",
+          "--renew",
+          "--expires-on",
+          "2026-01-01",
+          "--review-on",
+          "none",
+        ]),
+      ).toEqual({
+        ok: true,
+        value: {
+          kind: "norms",
+          node: DEFAULT_PERSONAL_NODE,
+          mode: "review",
+          modelId: "m1",
+          decision: {
+            outcome: "renew",
+            reviewOn: null,
+            expiresOn: "2026-01-01",
+          },
+        },
+      });
+      expect(
+        parseCli([
+          "norms",
+          "review",
+          "m1",
+          "--enforcement",
+          "warn",
+          "--reason",
+          "Too strict",
+        ]),
+      ).toMatchObject({
+        ok: true,
+        value: {
+          decision: { outcome: "changeEnforcement", enforcement: "warn" },
+          reason: "Too strict",
+        },
+      });
+      expect(parseCli(["norms", "review", "m1", "--retire"])).toMatchObject({
+        ok: true,
+        value: { decision: { outcome: "retire" } },
+      });
+      expect(
+        parseCli(["norms", "review", "m1", "--renew", "--retire"]),
+      ).toEqual({
+        ok: false,
+        error: "Choose one of --renew, --enforcement <level> or --retire",
+      });
+      expect(
+        parseCli(["norms", "review", "m1", "--enforcement", "strict"]),
+      ).toEqual({
+        ok: false,
+        error:
+          "Invalid --enforcement 'strict'. Expected one of: none, warn, block",
+      });
+      expect(parseCli(["norms", "review", "--renew"])).toEqual({
+        ok: false,
+        error: "Missing model id. Usage: norms review <modelId>",
+      });
+    });
+
+    it("parses report episodes and rejects other reports", () => {
+      expect(parseCli(["report", "episodes"])).toEqual({
+        ok: true,
+        value: {
+          kind: "report",
+          node: DEFAULT_PERSONAL_NODE,
+          report: "episodes",
+        },
+      });
+      expect(parseCli(["report"])).toEqual({
+        ok: false,
+        error: "Missing report. Usage: report episodes",
+      });
+      expect(parseCli(["report", "actions"]).ok).toBe(false);
+    });
+
+    it("parses recover as report-only unless --acknowledge is given", () => {
+      expect(parseCli(["recover"])).toEqual({
+        ok: true,
+        value: {
+          kind: "recover",
+          node: DEFAULT_PERSONAL_NODE,
+          acknowledge: false,
+        },
+      });
+      expect(parseCli(["recover", "--acknowledge"])).toEqual({
+        ok: true,
+        value: {
+          kind: "recover",
+          node: DEFAULT_PERSONAL_NODE,
+          acknowledge: true,
+        },
+      });
+    });
+
+    it("parses restore without flags as a snapshot listing", () => {
+      expect(parseCli(["restore"])).toEqual({
+        ok: true,
+        value: { kind: "restore", node: DEFAULT_PERSONAL_NODE, mode: "list" },
+      });
+    });
+
+    it("parses restore --diff and --id", () => {
+      const id = "2025-01-06T09-30-00-000Z-r42";
+      expect(parseCli(["restore", "--diff", id])).toEqual({
+        ok: true,
+        value: {
+          kind: "restore",
+          node: DEFAULT_PERSONAL_NODE,
+          mode: "diff",
+          snapshotId: id,
+        },
+      });
+      expect(parseCli(["restore", "--id", id])).toEqual({
+        ok: true,
+        value: {
+          kind: "restore",
+          node: DEFAULT_PERSONAL_NODE,
+          mode: "apply",
+          snapshotId: id,
+        },
+      });
+    });
+
+    it("rejects restore with both --diff and --id", () => {
+      const result = parseCli(["restore", "--diff", "a", "--id", "b"]);
+      expect(result.ok).toBe(false);
+    });
+
+    it("parses diff between two snapshots", () => {
+      expect(parseCli(["diff", "a-r1", "b-r2"])).toEqual({
+        ok: true,
+        value: {
+          kind: "diff",
+          node: DEFAULT_PERSONAL_NODE,
+          from: "a-r1",
+          to: "b-r2",
+        },
+      });
+    });
+
+    it("parses diff against the current State", () => {
+      expect(parseCli(["diff", "a-r1"])).toEqual({
+        ok: true,
+        value: { kind: "diff", node: DEFAULT_PERSONAL_NODE, from: "a-r1" },
+      });
+    });
+
+    it("fails diff without a snapshot id", () => {
+      expect(parseCli(["diff"]).ok).toBe(false);
+      expect(parseCli(["diff", "--node", "Org:org"]).ok).toBe(false);
+    });
+
     it("parses signal command", () => {
       const result = parseCli([
         "signal",
@@ -95,6 +520,98 @@ describe("Sensorium CLI parsing", () => {
       }
     });
 
+    it("parses act --due", () => {
+      const result = parseCli([
+        "act",
+        "--description",
+        "Do the thing",
+        "--due",
+        "2025-02-01",
+      ]);
+      expect(result.ok).toBe(true);
+      if (result.ok && result.value.kind === "act") {
+        expect(result.value.dueDate).toBe("2025-02-01");
+      }
+    });
+
+    it("parses --override on every Membrane-gated command", () => {
+      const override = ["--override", "Worth it today"];
+      for (const argv of [
+        ["signal", "--variableId", "v1", "--status", "Low"],
+        ["act", "--description", "Do the thing"],
+        ["close", "--episodeId", "e1", "--note", "Done"],
+        ["add-variable", "--name", "Sleep"],
+      ]) {
+        expect(parseCli([...argv, ...override])).toMatchObject({
+          ok: true,
+          value: { override: "Worth it today" },
+        });
+        expect(parseCli(argv)).not.toMatchObject({
+          value: { override: expect.anything() },
+        });
+      }
+    });
+
+    it("parses action lifecycle operations", () => {
+      expect(parseCli(["action", "complete", "a1"])).toEqual({
+        ok: true,
+        value: {
+          kind: "action",
+          node: DEFAULT_PERSONAL_NODE,
+          op: "complete",
+          actionId: "a1",
+        },
+      });
+      expect(
+        parseCli(["action", "cancel", "a1", "--reason", "Not needed"]),
+      ).toMatchObject({
+        ok: true,
+        value: { op: "cancel", actionId: "a1", reason: "Not needed" },
+      });
+      expect(parseCli(["action", "block", "a1", "--by", "a2"])).toMatchObject({
+        ok: true,
+        value: { op: "block", actionId: "a1", blockedBy: "a2" },
+      });
+      expect(
+        parseCli(["action", "reschedule", "a1", "--due", "none"]),
+      ).toMatchObject({
+        ok: true,
+        value: { op: "reschedule", actionId: "a1", dueDate: null },
+      });
+      expect(
+        parseCli([
+          "action",
+          "reorder",
+          "--episodeId",
+          "e1",
+          "--order",
+          "a2, a1",
+        ]),
+      ).toMatchObject({
+        ok: true,
+        value: { op: "reorder", episodeId: "e1", actionIds: ["a2", "a1"] },
+      });
+    });
+
+    it("rejects incomplete action commands", () => {
+      expect(parseCli(["action"])).toMatchObject({
+        ok: false,
+        error: expect.stringContaining("Missing action operation"),
+      });
+      expect(parseCli(["action", "finish", "a1"])).toMatchObject({
+        ok: false,
+        error: expect.stringContaining("Unknown action operation 'finish'"),
+      });
+      expect(parseCli(["action", "unblock"])).toMatchObject({
+        ok: false,
+        error: "Missing action id. Usage: action unblock <actionId>",
+      });
+      expect(parseCli(["action", "cancel", "a1"])).toMatchObject({
+        ok: false,
+        error: "Missing required flag: --reason",
+      });
+    });
+
     it("parses open command for Explore episode", () => {
       const result = parseCli([
         "open",
@@ -135,6 +652,24 @@ describe("Sensorium CLI parsing", () => {
       }
     });
 
+    it("parses the episode an opened episode follows up on", () => {
+      const result = parseCli([
+        "open",
+        "--type",
+        "Stabilize",
+        "--variableId",
+        "v1",
+        "--objective",
+        "Keep screens off",
+        "--previousEpisodeId",
+        "e1",
+      ]);
+      expect(result).toMatchObject({
+        ok: true,
+        value: { kind: "open", previousEpisodeId: "e1" },
+      });
+    });
+
     it("fails open Stabilize without variableId", () => {
       const result = parseCli([
         "open",
@@ -199,6 +734,38 @@ describe("Sensorium CLI parsing", () => {
       }
     });
 
+    it("parses what close does with pending actions", () => {
+      const close = ["close", "--episodeId", "e1", "--note", "Done"];
+
+      expect(parseCli([...close, "--carry-over", "e2"])).toMatchObject({
+        ok: true,
+        value: { pendingActions: { mode: "carryOver", episodeId: "e2" } },
+      });
+      expect(
+        parseCli([...close, "--cancel-pending", "--reason", "Moot"]),
+      ).toMatchObject({
+        ok: true,
+        value: { pendingActions: { mode: "cancel", reason: "Moot" } },
+      });
+      expect(parseCli([...close, "--detach-pending"])).toMatchObject({
+        ok: true,
+        value: { pendingActions: { mode: "detach" } },
+      });
+      const plain = parseCli(close);
+      expect(plain.ok && "pendingActions" in plain.value).toBe(false);
+      expect(
+        parseCli([...close, "--detach-pending", "--cancel-pending"]),
+      ).toMatchObject({
+        ok: false,
+        error:
+          "Choose one of --carry-over, --cancel-pending or --detach-pending",
+      });
+      expect(parseCli([...close, "--carry-over"])).toMatchObject({
+        ok: false,
+        error: "--carry-over requires an episode id",
+      });
+    });
+
     it("fails close without episodeId", () => {
       const result = parseCli([
         "close",
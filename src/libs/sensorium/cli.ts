@@ -5,16 +5,26 @@
 //   - Observation → interpreted by CLI → Regulator (sensing flow)
 
 import {
+  ARCHIVABLE_COLLECTIONS,
   DEFAULT_PERSONAL_NODE,
+  ENFORCEMENT_LEVELS,
   EPISODE_TYPES,
+  EXPORT_FORMATS,
+  isExportFormat,
   MODEL_TYPES,
+  MUTATION_TYPES,
   NODE_TYPES,
   NOTE_TAGS,
   VARIABLE_STATUSES,
 } from "../memory/index.js";
 import type {
+  ArchivableCollection,
+  EnforcementLevel,
   EpisodeType,
+  ExportFormat,
+  MergeSide,
   ModelType,
+  MutationType,
   NodeRef,
   NodeType,
   NoteTag,
@@ -23,25 +33,184 @@ import type {
 import type { Observation, Result } from "./types.js";
 
 export type CliCommand =
-  | { kind: "status"; node: NodeRef }
+  | {
+      kind: "status";
+      node: NodeRef;
+      /** ISO timestamp to view State as it was then (omit for the present) */
+      asOf?: string;
+    }
+  | {
+      kind: "doctor";
+      node: NodeRef;
+      /** Clear locks whose holder is dead or expired (report-only otherwise) */
+      unlock: boolean;
+    }
+  | {
+      kind: "restore";
+      node: NodeRef;
+      /** list snapshots, diff one against current State, or apply it */
+      mode: "list";
+    }
+  | {
+      kind: "restore";
+      node: NodeRef;
+      mode: "diff" | "apply";
+      snapshotId: string;
+    }
+  | {
+      kind: "recover";
+      node: NodeRef;
+      /** Accept the salvaged State and resume saving (report-only otherwise) */
+      acknowledge: boolean;
+    }
+  | {
+      kind: "export";
+      node: NodeRef;
+      format: ExportFormat;
+      /** Directory to write into (default: a timestamped one under data/exports) */
+      out?: string;
+    }
+  | {
+      kind: "import";
+      node: NodeRef;
+      format: ExportFormat;
+      /** Bundle file or export directory to read */
+      from: string;
+      /** Report what would be imported without saving */
+      dryRun: boolean;
+    }
+  | {
+      kind: "merge";
+      node: NodeRef;
+      /** Common ancestor: a snapshot id or a state file */
+      base: string;
+      /** State file to merge into the current State */
+      theirs: string;
+      /** Whose version wins a conflict */
+      prefer?: MergeSide;
+      /** Report what the merge would do without saving */
+      dryRun: boolean;
+    }
+  | {
+      /** List Variables whose measurement cadence says they are due */
+      kind: "due";
+      node: NodeRef;
+    }
+  | {
+      /** Walk overdue episodes, offering close, extend or reframe */
+      kind: "review";
+      node: NodeRef;
+    }
+  | {
+      /** Outcome report; `episodes` covers closed Stabilize episodes */
+      kind: "report";
+      node: NodeRef;
+      report: "episodes";
+    }
+  | {
+      /** Time-in-status analytics, optionally with one Variable's changes */
+      kind: "history";
+      node: NodeRef;
+      variableId?: string;
+    }
+  | {
+      kind: "diff";
+      node: NodeRef;
+      /** Snapshot id to compare from */
+      from: string;
+      /** Snapshot id to compare to (omit for the current State) */
+      to?: string;
+    }
+  | {
+      /** Apply a JSON file of Regulator operations all-or-nothing */
+      kind: "batch";
+      node: NodeRef;
+      /** JSON file holding an array of { kind, params } operations */
+      file: string;
+      /** Report whether the batch applies without saving */
+      dryRun: boolean;
+    }
+  | {
+      /** Take back the most recent change with a compensating change */
+      kind: "undo";
+      node: NodeRef;
+    }
+  | {
+      /** Put back the most recently undone change */
+      kind: "redo";
+      node: NodeRef;
+    }
+  | {
+      /** Archive, unarchive or permanently delete one entity */
+      kind: "archive" | "unarchive" | "delete";
+      node: NodeRef;
+      collection: ArchivableCollection;
+      id: string;
+    }
+  | {
+      /** List the archived entities of one collection */
+      kind: "archived";
+      node: NodeRef;
+      collection: ArchivableCollection;
+    }
+  | {
+      /** Explain what the Membrane would decide for opening an Episode */
+      kind: "check";
+      node: NodeRef;
+      episodeType: EpisodeType;
+    }
+  | {
+      /** Audit Membrane exceptions and the Models excepted most often */
+      kind: "exceptions";
+      node: NodeRef;
+      modelId?: string;
+      mutationType?: MutationType;
+      /** ISO timestamp, inclusive */
+      from?: string;
+      /** ISO timestamp, inclusive */
+      to?: string;
+    }
+  | {
+      /** List the Normative Models due for review */
+      kind: "norms";
+      node: NodeRef;
+      mode: "list";
+    }
+  | {
+      kind: "norms";
+      node: NodeRef;
+      mode: "review";
+      modelId: string;
+      decision: NormReviewDecision;
+      reason?: string;
+    }
   | {
       kind: "signal";
       node: NodeRef;
       variableId: string;
       status: VariableStatus;
+      /** Override justification for bypassing a Membrane block */
+      override?: string;
     }
   | {
       kind: "act";
       node: NodeRef;
       episodeId?: string;
       description: string;
+      /** Due date, YYYY-MM-DD */
+      dueDate?: string;
+      /** Override justification for bypassing a Membrane block */
+      override?: string;
     }
+  | ({ kind: "action"; node: NodeRef } & ActionCommand)
   | {
       kind: "open";
       node: NodeRef;
       type: EpisodeType;
       variableId?: string;
       objective: string;
+      /** The episode this one follows up on */
+      previousEpisodeId?: string;
       /** Override justification for bypassing a Membrane block */
       override?: string;
     }
@@ -52,14 +221,75 @@ export type CliCommand =
       noteContent: string;
       /** Optional model for Explore episode closure (type + statement) */
       model?: { type: ModelType; statement: string };
+      /** What happens to open actions; the CLI asks when omitted */
+      pendingActions?: ClosePendingActions;
+      /** Override justification for bypassing a Membrane block */
+      override?: string;
     }
   | {
       kind: "add-variable";
       node: NodeRef;
       name: string;
       status: VariableStatus;
+      /** Override justification for bypassing a Membrane block */
+      override?: string;
     };
 
+/**
+ * What closing an Episode does with its open Actions:
+ * `--carry-over <episodeId>`, `--cancel-pending [--reason]` or `--detach-pending`.
+ */
+export type ClosePendingActions =
+  | { mode: "carryOver"; episodeId: string }
+  | { mode: "cancel"; reason?: string }
+  | { mode: "detach" };
+
+/**
+ * A lifecycle change to one Action, or a new order for an Episode's Actions.
+ * Parsed from `action <op> …`.
+ */
+export type ActionCommand =
+  | { op: "complete"; actionId: string }
+  | { op: "cancel"; actionId: string; reason: string }
+  | { op: "block"; actionId: string; blockedBy: string }
+  | { op: "unblock"; actionId: string }
+  /** dueDate null removes the due date */
+  | { op: "reschedule"; actionId: string; dueDate: string | null }
+  | { op: "reorder"; episodeId: string; actionIds: string[] };
+
+/**
+ * What a norm review decides. Dates are YYYY-MM-DD; null removes one,
+ * omitted keeps it.
+ */
+export type NormReviewDecision =
+  | { outcome: "renew"; reviewOn?: string | null; expiresOn?: string | null }
+  | {
+      outcome: "changeEnforcement";
+      enforcement: EnforcementLevel;
+      reviewOn?: string | null;
+      expiresOn?: string | null;
+    }
+  | { outcome: "retire" };
+
+const ACTION_OPS = [
+  "complete",
+  "cancel",
+  "block",
+  "unblock",
+  "reschedule",
+  "reorder",
+] as const;
+
+type ActionOp = (typeof ACTION_OPS)[number];
+
+function isActionOp(value: string): value is ActionOp {
+  return (ACTION_OPS as readonly string[]).includes(value);
+}
+
+function isArchivableCollection(value: string): value is ArchivableCollection {
+  return (ARCHIVABLE_COLLECTIONS as readonly string[]).includes(value);
+}
+
 function isNodeType(value: string): value is NodeType {
   return (NODE_TYPES as readonly string[]).includes(value);
 }
@@ -68,6 +298,45 @@ function isEpisodeType(value: string): value is EpisodeType {
   return (EPISODE_TYPES as readonly string[]).includes(value);
 }
 
+function isMutationType(value: string): value is MutationType {
+  return (MUTATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Parses a --from/--to/--as-of bound. A bare date covers the whole day, so
+ * `--to` and `--as-of` land on its last millisecond.
+ */
+function parseDateBound(
+  raw: string,
+  flag: "--from" | "--to" | "--as-of",
+): Result<string> {
+  const parsed = Date.parse(raw);
+  if (Number.isNaN(parsed)) {
+    return {
+      ok: false,
+      error: `Invalid ${flag} '${raw}'. Expected an ISO date or timestamp`,
+    };
+  }
+  const endOfDay = flag !== "--from" && /^\d{4}-\d{2}-\d{2}$/.test(raw);
+  return {
+    ok: true,
+    value: new Date(endOfDay ? parsed + 86_399_999 : parsed).toISOString(),
+  };
+}
+
+/**
+ * Parses the moment to view State as of, as `status --as-of` and the web
+ * Status lens take it.
+ *
+ * **Contract:**
+ * - Returns: ISO timestamp; a bare date (YYYY-MM-DD) resolves to its last
+ *   millisecond (UTC), so the view includes that whole day
+ * - Error handling: Returns error for anything Date.parse rejects
+ */
+export function parseAsOf(raw: string): Result<string> {
+  return parseDateBound(raw, "--as-of");
+}
+
 function isNoteTag(value: string): value is NoteTag {
   return (NOTE_TAGS as readonly string[]).includes(value);
 }
@@ -118,6 +387,194 @@ function getFlagValue(
   return value;
 }
 
+/**
+ * The optional `--override` justification for bypassing a Membrane block,
+ * ready to spread into a command.
+ */
+function overrideFlag(argv: readonly string[]): { override?: string } {
+  const override = getFlagValue(argv, "--override");
+  return override ? { override } : {};
+}
+
+/**
+ * Parses the (at most one) close flag saying what happens to open Actions.
+ */
+function parseClosePendingActions(
+  argv: readonly string[],
+): Result<ClosePendingActions | undefined> {
+  const carryOver = argv.includes("--carry-over");
+  const cancel = argv.includes("--cancel-pending");
+  const detach = argv.includes("--detach-pending");
+  if ([carryOver, cancel, detach].filter(Boolean).length > 1) {
+    return {
+      ok: false,
+      error: "Choose one of --carry-over, --cancel-pending or --detach-pending",
+    };
+  }
+
+  if (carryOver) {
+    const episodeId = getFlagValue(argv, "--carry-over");
+    if (!episodeId || episodeId.startsWith("--")) {
+      return { ok: false, error: "--carry-over requires an episode id" };
+    }
+    return { ok: true, value: { mode: "carryOver", episodeId } };
+  }
+  if (cancel) {
+    const reason = getFlagValue(argv, "--reason");
+    return {
+      ok: true,
+      value: { mode: "cancel", ...(reason ? { reason } : {}) },
+    };
+  }
+  if (detach) {
+    return { ok: true, value: { mode: "detach" } };
+  }
+  return { ok: true, value: undefined };
+}
+
+function isEnforcementLevel(value: string): value is EnforcementLevel {
+  return (ENFORCEMENT_LEVELS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses `norms review <modelId>` and its (exactly one) decision flag.
+ */
+function parseNormReview(
+  argv: readonly string[],
+): Result<{ modelId: string; decision: NormReviewDecision; reason?: string }> {
+  const [, , modelId] = argv;
+  if (!modelId || modelId.startsWith("--")) {
+    return {
+      ok: false,
+      error: "Missing model id. Usage: norms review <modelId>",
+    };
+  }
+
+  const renew = argv.includes("--renew");
+  const changeEnforcement = argv.includes("--enforcement");
+  const retire = argv.includes("--retire");
+  if ([renew, changeEnforcement, retire].filter(Boolean).length !== 1) {
+    return {
+      ok: false,
+      error: "Choose one of --renew, --enforcement <level> or --retire",
+    };
+  }
+
+  const reason = getFlagValue(argv, "--reason");
+  const withReason = reason ? { reason } : {};
+  if (retire) {
+    return {
+      ok: true,
+      value: { modelId, decision: { outcome: "retire" }, ...withReason },
+    };
+  }
+
+  // "none" clears a date; the Regulator validates the rest
+  const dates: { reviewOn?: string | null; expiresOn?: string | null } = {};
+  for (const flag of ["--review-on", "--expires-on"] as const) {
+    const raw = getFlagValue(argv, flag);
+    if (!raw) continue;
+    dates[flag === "--review-on" ? "reviewOn" : "expiresOn"] =
+      raw === "none" ? null : raw;
+  }
+
+  if (changeEnforcement) {
+    const enforcementRaw = getFlagValue(argv, "--enforcement");
+    if (!enforcementRaw || !isEnforcementLevel(enforcementRaw)) {
+      return {
+        ok: false,
+        error: `Invalid --enforcement '${enforcementRaw ?? ""}'. Expected one of: ${ENFORCEMENT_LEVELS.join(", ")}`,
+      };
+    }
+    return {
+      ok: true,
+      value: {
+        modelId,
+        decision: {
+          outcome: "changeEnforcement",
+          enforcement: enforcementRaw,
+          ...dates,
+        },
+        ...withReason,
+      },
+    };
+  }
+  return {
+    ok: true,
+    value: { modelId, decision: { outcome: "renew", ...dates }, ...withReason },
+  };
+}
+
+/**
+ * Parses `action <op> …`; every op but reorder takes the action id positionally.
+ */
+function parseActionCommand(argv: readonly string[]): Result<ActionCommand> {
+  const [, op, actionId] = argv;
+  if (!op || !isActionOp(op)) {
+    return {
+      ok: false,
+      error: op
+        ? `Unknown action operation '${op}'. Expected one of: ${ACTION_OPS.join(", ")}`
+        : `Missing action operation. Expected one of: ${ACTION_OPS.join(", ")}`,
+    };
+  }
+
+  if (op === "reorder") {
+    const episodeId = getFlagValue(argv, "--episodeId");
+    const order = getFlagValue(argv, "--order");
+    if (!episodeId) {
+      return { ok: false, error: "Missing required flag: --episodeId" };
+    }
+    if (!order) {
+      return { ok: false, error: "Missing required flag: --order" };
+    }
+    const actionIds = order
+      .split(",")
+      .map((id) => id.trim())
+      .filter((id) => id.length > 0);
+    return { ok: true, value: { op, episodeId, actionIds } };
+  }
+
+  if (!actionId || actionId.startsWith("--")) {
+    return {
+      ok: false,
+      error: `Missing action id. Usage: action ${op} <actionId>`,
+    };
+  }
+
+  if (op === "cancel") {
+    const reason = getFlagValue(argv, "--reason");
+    if (!reason || reason.trim().length === 0) {
+      return { ok: false, error: "Missing required flag: --reason" };
+    }
+    return { ok: true, value: { op, actionId, reason } };
+  }
+
+  if (op === "block") {
+    const blockedBy = getFlagValue(argv, "--by");
+    if (!blockedBy) {
+      return { ok: false, error: "Missing required flag: --by" };
+    }
+    return { ok: true, value: { op, actionId, blockedBy } };
+  }
+
+  if (op === "reschedule") {
+    const due = getFlagValue(argv, "--due");
+    if (!due) {
+      return {
+        ok: false,
+        error: "Missing required flag: --due (YYYY-MM-DD, or none to clear)",
+      };
+    }
+    return {
+      ok: true,
+      value: { op, actionId, dueDate: due === "none" ? null : due },
+    };
+  }
+
+  return { ok: true, value: { op, actionId } };
+}
+
 export function parseCli(argv: readonly string[]): Result<CliCommand> {
   // Expect argv to be process.argv slice starting at the command, e.g. ["status", "--node", ...]
   const [commandRaw] = argv;
@@ -137,7 +594,300 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
   }
 
   if (command === "status") {
-    return { ok: true, value: { kind: "status", node } };
+    const asOfRaw = getFlagValue(argv, "--as-of");
+    if (!asOfRaw) {
+      return { ok: true, value: { kind: "status", node } };
+    }
+
+    const asOf = parseAsOf(asOfRaw);
+    if (!asOf.ok) return asOf;
+
+    return { ok: true, value: { kind: "status", node, asOf: asOf.value } };
+  }
+
+  if (command === "doctor") {
+    return {
+      ok: true,
+      value: { kind: "doctor", node, unlock: argv.includes("--unlock") },
+    };
+  }
+
+  if (command === "restore") {
+    const diffId = getFlagValue(argv, "--diff");
+    const applyId = getFlagValue(argv, "--id");
+
+    if (diffId && applyId) {
+      return { ok: false, error: "Use either --diff or --id, not both" };
+    }
+    if (diffId) {
+      return {
+        ok: true,
+        value: { kind: "restore", node, mode: "diff", snapshotId: diffId },
+      };
+    }
+    if (applyId) {
+      return {
+        ok: true,
+        value: { kind: "restore", node, mode: "apply", snapshotId: applyId },
+      };
+    }
+    return { ok: true, value: { kind: "restore", node, mode: "list" } };
+  }
+
+  if (command === "recover") {
+    return {
+      ok: true,
+      value: {
+        kind: "recover",
+        node,
+        acknowledge: argv.includes("--acknowledge"),
+      },
+    };
+  }
+
+  if (command === "export" || command === "import") {
+    const formatRaw = getFlagValue(argv, "--format");
+    if (!formatRaw) {
+      return { ok: false, error: "Missing required flag: --format" };
+    }
+    if (!isExportFormat(formatRaw)) {
+      return {
+        ok: false,
+        error: `Invalid format '${formatRaw}'. Expected one of: ${EXPORT_FORMATS.join(", ")}`,
+      };
+    }
+
+    if (command === "export") {
+      const out = getFlagValue(argv, "--out");
+      return {
+        ok: true,
+        value: {
+          kind: "export",
+          node,
+          format: formatRaw,
+          ...(out ? { out } : {}),
+        },
+      };
+    }
+
+    const from = getFlagValue(argv, "--from");
+    if (!from) {
+      return { ok: false, error: "Missing required flag: --from" };
+    }
+    return {
+      ok: true,
+      value: {
+        kind: "import",
+        node,
+        format: formatRaw,
+        from,
+        dryRun: argv.includes("--dry-run"),
+      },
+    };
+  }
+
+  if (command === "merge") {
+    const base = getFlagValue(argv, "--base");
+    const theirs = getFlagValue(argv, "--theirs");
+    const prefer = getFlagValue(argv, "--prefer");
+
+    if (!base) {
+      return { ok: false, error: "Missing required flag: --base" };
+    }
+    if (!theirs) {
+      return { ok: false, error: "Missing required flag: --theirs" };
+    }
+    if (prefer !== undefined && prefer !== "ours" && prefer !== "theirs") {
+      return {
+        ok: false,
+        error: `Invalid --prefer '${prefer}'. Expected one of: ours, theirs`,
+      };
+    }
+
+    return {
+      ok: true,
+      value: {
+        kind: "merge",
+        node,
+        base,
+        theirs,
+        ...(prefer ? { prefer } : {}),
+        dryRun: argv.includes("--dry-run"),
+      },
+    };
+  }
+
+  if (command === "due") {
+    return { ok: true, value: { kind: "due", node } };
+  }
+
+  if (command === "review") {
+    return { ok: true, value: { kind: "review", node } };
+  }
+
+  if (command === "report") {
+    // Positional: becoming report episodes
+    const [, report] = argv;
+    if (report !== "episodes") {
+      return {
+        ok: false,
+        error: report
+          ? `Unknown report '${report}'. Expected one of: episodes`
+          : "Missing report. Usage: report episodes",
+      };
+    }
+    return { ok: true, value: { kind: "report", node, report } };
+  }
+
+  if (command === "history") {
+    const variableId = getFlagValue(argv, "--variableId");
+    return {
+      ok: true,
+      value: { kind: "history", node, ...(variableId ? { variableId } : {}) },
+    };
+  }
+
+  if (command === "batch") {
+    const file = getFlagValue(argv, "--file");
+    if (!file) {
+      return { ok: false, error: "Missing required flag: --file" };
+    }
+    return {
+      ok: true,
+      value: { kind: "batch", node, file, dryRun: argv.includes("--dry-run") },
+    };
+  }
+
+  if (command === "undo" || command === "redo") {
+    return { ok: true, value: { kind: command, node } };
+  }
+
+  if (
+    command === "archive" ||
+    command === "unarchive" ||
+    command === "delete" ||
+    command === "archived"
+  ) {
+    // Positional: becoming archive|unarchive|delete <collection> <id>,
+    // becoming archived <collection>
+    const [, collection, id] = argv;
+    const usage =
+      command === "archived"
+        ? "Usage: archived <collection>"
+        : `Usage: ${command} <collection> <id>`;
+    if (!collection || collection.startsWith("--")) {
+      return { ok: false, error: `Missing collection. ${usage}` };
+    }
+    if (!isArchivableCollection(collection)) {
+      return {
+        ok: false,
+        error: `Invalid collection '${collection}'. Expected one of: ${ARCHIVABLE_COLLECTIONS.join(", ")}`,
+      };
+    }
+    if (command === "archived") {
+      return { ok: true, value: { kind: command, node, collection } };
+    }
+    if (!id || id.startsWith("--")) {
+      return { ok: false, error: `Missing id. ${usage}` };
+    }
+    return { ok: true, value: { kind: command, node, collection, id } };
+  }
+
+  if (command === "check") {
+    // Positional: becoming check open <Stabilize|Explore>
+    const [, mutation, typeRaw] = argv;
+    const usage = `Usage: check open <${EPISODE_TYPES.join("|")}>`;
+    if (mutation !== "open") {
+      return {
+        ok: false,
+        error: mutation
+          ? `Cannot check '${mutation}'. ${usage}`
+          : `Missing mutation. ${usage}`,
+      };
+    }
+    if (!typeRaw || !isEpisodeType(typeRaw)) {
+      return {
+        ok: false,
+        error: typeRaw
+          ? `Invalid episode type '${typeRaw}'. Expected one of: ${EPISODE_TYPES.join(", ")}`
+          : `Missing episode type. ${usage}`,
+      };
+    }
+    return { ok: true, value: { kind: "check", node, episodeType: typeRaw } };
+  }
+
+  if (command === "exceptions") {
+    const modelId = getFlagValue(argv, "--modelId");
+    const typeRaw = getFlagValue(argv, "--type");
+    const filter: { mutationType?: MutationType; from?: string; to?: string } =
+      {};
+    if (typeRaw) {
+      if (!isMutationType(typeRaw)) {
+        return {
+          ok: false,
+          error: `Invalid --type '${typeRaw}'. Expected one of: ${MUTATION_TYPES.join(", ")}`,
+        };
+      }
+      filter.mutationType = typeRaw;
+    }
+
+    for (const flag of ["--from", "--to"] as const) {
+      const raw = getFlagValue(argv, flag);
+      if (!raw) continue;
+      const parsed = parseDateBound(raw, flag);
+      if (!parsed.ok) return parsed;
+      filter[flag === "--from" ? "from" : "to"] = parsed.value;
+    }
+
+    return {
+      ok: true,
+      value: {
+        kind: "exceptions",
+        node,
+        ...(modelId ? { modelId } : {}),
+        ...filter,
+      },
+    };
+  }
+
+  if (command === "norms") {
+    // Positional: becoming norms [review <modelId>]
+    const [, sub] = argv;
+    if (!sub || sub.startsWith("--")) {
+      return { ok: true, value: { kind: "norms", node, mode: "list" } };
+    }
+    if (sub !== "review") {
+      return {
+        ok: false,
+        error: `Unknown norms operation '${sub}'. Usage: norms [review <modelId>]`,
+      };
+    }
+    const parsed = parseNormReview(argv);
+    if (!parsed.ok) return parsed;
+    return {
+      ok: true,
+      value: { kind: "norms", node, mode: "review", ...parsed.value },
+    };
+  }
+
+  if (command === "diff") {
+    // Positional: becoming diff <snapshotA> [<snapshotB>]
+    const [, from, to] = argv;
+    if (!from || from.startsWith("--")) {
+      return {
+        ok: false,
+        error: "Missing snapshot id. Usage: diff <snapshotA> [<snapshotB>]",
+      };
+    }
+    return {
+      ok: true,
+      value: {
+        kind: "diff",
+        node,
+        from,
+        ...(to && !to.startsWith("--") ? { to } : {}),
+      },
+    };
   }
 
   if (command === "signal") {
@@ -166,6 +916,7 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
         node,
         variableId,
         status: status as VariableStatus,
+        ...overrideFlag(argv),
       },
     };
   }
@@ -173,6 +924,7 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
   if (command === "act") {
     const episodeId = getFlagValue(argv, "--episodeId");
     const description = getFlagValue(argv, "--description");
+    const dueDate = getFlagValue(argv, "--due");
 
     if (!description || description.trim().length === 0) {
       return { ok: false, error: "Missing required flag: --description" };
@@ -185,14 +937,23 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
         node,
         ...(episodeId ? { episodeId } : {}),
         description,
+        ...(dueDate ? { dueDate } : {}),
+        ...overrideFlag(argv),
       },
     };
   }
 
+  if (command === "action") {
+    const parsed = parseActionCommand(argv);
+    if (!parsed.ok) return parsed;
+    return { ok: true, value: { kind: "action", node, ...parsed.value } };
+  }
+
   if (command === "open") {
     const typeRaw = getFlagValue(argv, "--type");
     const variableId = getFlagValue(argv, "--variableId");
     const objective = getFlagValue(argv, "--objective");
+    const previousEpisodeId = getFlagValue(argv, "--previousEpisodeId");
 
     if (!typeRaw) {
       return { ok: false, error: "Missing required flag: --type" };
@@ -214,9 +975,6 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
       };
     }
 
-    // Optional override flag for bypassing Membrane blocks
-    const override = getFlagValue(argv, "--override");
-
     return {
       ok: true,
       value: {
@@ -225,7 +983,8 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
         type: typeRaw,
         ...(variableId ? { variableId } : {}),
         objective,
-        ...(override ? { override } : {}),
+        ...(previousEpisodeId ? { previousEpisodeId } : {}),
+        ...overrideFlag(argv),
       },
     };
   }
@@ -272,6 +1031,9 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
       model = { type: modelTypeRaw, statement: modelStatement };
     }
 
+    const pendingActions = parseClosePendingActions(argv);
+    if (!pendingActions.ok) return pendingActions;
+
     return {
       ok: true,
       value: {
@@ -280,6 +1042,10 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
         episodeId,
         noteContent,
         ...(model ? { model } : {}),
+        ...(pendingActions.value
+          ? { pendingActions: pendingActions.value }
+          : {}),
+        ...overrideFlag(argv),
       },
     };
   }
@@ -311,13 +1077,14 @@ export function parseCli(argv: readonly string[]): Result<CliCommand> {
         node,
         name: name.trim(),
         status,
+        ...overrideFlag(argv),
       },
     };
   }
 
   return {
     ok: false,
-    error: `Unknown command '${command}'. Expected one of: status, signal, act, open, close, add-variable, observe`,
+    error: `Unknown command '${command}'. Expected one of: status, doctor, restore, recover, diff, merge, due, review, history, report, export, import, batch, undo, redo, archive, unarchive, delete, archived, signal, act, action, open, check, exceptions, norms, close, add-variable, observe`,
   };
 }
 
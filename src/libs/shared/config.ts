@@ -15,6 +15,32 @@
  */
 export type Environment = "dev" | "prod";
 
+/**
+ * Persistence backend for State.
+ * - 'json': Single JSON file (default)
+ * - 'sqlite': SQLite database with one table per collection
+ */
+export type StoreBackend = "json" | "sqlite";
+
+/**
+ * When automatic State snapshots are taken and how many are kept.
+ * A snapshot survives if any rule keeps it; all keep counts zero disables
+ * snapshots.
+ */
+export interface SnapshotRetention {
+  /** Most recent snapshots */
+  keepLast: number;
+  /** Newest snapshot of each of the most recent days (UTC) */
+  keepDaily: number;
+  /** Newest snapshot of each of the most recent ISO weeks (UTC) */
+  keepWeekly: number;
+  /**
+   * Revisions between snapshots; the first save of a new day or week is
+   * snapshotted regardless
+   */
+  every: number;
+}
+
 /**
  * Application configuration.
  */
@@ -25,8 +51,25 @@ export interface Config {
   dataDir: string;
   /** State file name (depends on environment) */
   stateFile: string;
+  /** SQLite database file name (depends on environment) */
+  databaseFile: string;
+  /** Which backend persists State */
+  storeBackend: StoreBackend;
+  /** Directory for rolling State snapshots (relative to project root) */
+  snapshotDir: string;
+  /** When snapshots are taken and which are kept */
+  snapshotRetention: SnapshotRetention;
+  /** Default directory for `becoming export` (relative to project root) */
+  exportDir: string;
 }
 
+const DEFAULT_SNAPSHOT_RETENTION: SnapshotRetention = {
+  keepLast: 10,
+  keepDaily: 7,
+  keepWeekly: 4,
+  every: 10,
+};
+
 /**
  * Detects the current environment from process.env.
  * Defaults to 'prod' if BECOMING_ENV is not set.
@@ -39,6 +82,55 @@ function detectEnvironment(): Environment {
   return "prod";
 }
 
+/**
+ * Detects the storage backend from process.env.
+ * Defaults to 'json' if BECOMING_STORE is not set.
+ */
+function detectStoreBackend(): StoreBackend {
+  const backend = process.env.BECOMING_STORE;
+  if (backend === "sqlite") {
+    return "sqlite";
+  }
+  return "json";
+}
+
+/**
+ * Reads a non-negative integer from process.env, or the fallback when unset or invalid.
+ */
+function readCount(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || !/^\d+$/.test(raw.trim())) {
+    return fallback;
+  }
+  return Number(raw.trim());
+}
+
+/**
+ * Detects snapshot retention from process.env.
+ * BECOMING_SNAPSHOTS_LAST, _DAILY, _WEEKLY and _EVERY override the defaults
+ * (10, 7, 4, 10).
+ */
+function detectSnapshotRetention(): SnapshotRetention {
+  return {
+    keepLast: readCount(
+      "BECOMING_SNAPSHOTS_LAST",
+      DEFAULT_SNAPSHOT_RETENTION.keepLast,
+    ),
+    keepDaily: readCount(
+      "BECOMING_SNAPSHOTS_DAILY",
+      DEFAULT_SNAPSHOT_RETENTION.keepDaily,
+    ),
+    keepWeekly: readCount(
+      "BECOMING_SNAPSHOTS_WEEKLY",
+      DEFAULT_SNAPSHOT_RETENTION.keepWeekly,
+    ),
+    every: readCount(
+      "BECOMING_SNAPSHOTS_EVERY",
+      DEFAULT_SNAPSHOT_RETENTION.every,
+    ),
+  };
+}
+
 /**
  * Gets the application configuration.
  *
@@ -56,6 +148,11 @@ export function getConfig(): Config {
     env,
     dataDir: "data",
     stateFile: env === "dev" ? "state-dev.json" : "state.json",
+    databaseFile: env === "dev" ? "state-dev.sqlite" : "state.sqlite",
+    storeBackend: detectStoreBackend(),
+    snapshotDir: "data/snapshots",
+    snapshotRetention: detectSnapshotRetention(),
+    exportDir: "data/exports",
   };
 }
 
@@ -67,4 +164,9 @@ export const DEFAULT_CONFIG: Config = {
   env: "prod",
   dataDir: "data",
   stateFile: "state.json",
+  databaseFile: "state.sqlite",
+  storeBackend: "json",
+  snapshotDir: "data/snapshots",
+  snapshotRetention: DEFAULT_SNAPSHOT_RETENTION,
+  exportDir: "data/exports",
 };
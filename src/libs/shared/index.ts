@@ -10,3 +10,4 @@
 export * from "./logger.js";
 export * from "./types.js";
 export * from "./config.js";
+export * from "./lock.js";
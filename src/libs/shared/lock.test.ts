@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs-extra";
+import * as os from "node:os";
+import * as path from "node:path";
+import { spawnSync } from "node:child_process";
+import {
+  acquireFileLock,
+  clearStaleFileLock,
+  inspectFileLock,
+} from "./lock.js";
+import type { Logger } from "./logger.js";
+
+/** Pid of a process that has already exited */
+function deadPid(): number {
+  const child = spawnSync(process.execPath, ["-e", ""]);
+  return child.pid;
+}
+
+function lockContent(pid: number, createdAt: Date = new Date()): string {
+  return JSON.stringify({ pid, createdAt: createdAt.toISOString() });
+}
+
+describe("file locks", () => {
+  let dir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "becoming-lock-"));
+    lockPath = path.join(dir, "state.json.lock");
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(dir);
+  });
+
+  describe("inspectFileLock", () => {
+    it("reports a missing lock as free", async () => {
+      expect(await inspectFileLock(lockPath)).toEqual({ state: "free" });
+    });
+
+    it("reports a live, recent holder as held", async () => {
+      await fs.writeFile(lockPath, lockContent(process.pid));
+
+      const status = await inspectFileLock(lockPath);
+      expect(status.state).toBe("held");
+    });
+
+    it("reports a dead holder as stale", async () => {
+      const pid = deadPid();
+      await fs.writeFile(lockPath, lockContent(pid));
+
+      expect(await inspectFileLock(lockPath)).toMatchObject({
+        state: "stale",
+        reason: "dead-process",
+        info: { pid },
+      });
+    });
+
+    it("reports an old lock as expired even when the pid is alive", async () => {
+      const old = new Date(Date.now() - 120_000);
+      await fs.writeFile(lockPath, lockContent(process.pid, old));
+
+      expect(await inspectFileLock(lockPath)).toMatchObject({
+        state: "stale",
+        reason: "expired",
+      });
+    });
+
+    it("judges unreadable locks by file age", async () => {
+      await fs.writeFile(lockPath, "");
+      expect(await inspectFileLock(lockPath)).toEqual({
+        state: "held",
+        info: null,
+      });
+
+      const old = new Date(Date.now() - 120_000);
+      await fs.utimes(lockPath, old, old);
+      expect(await inspectFileLock(lockPath)).toEqual({
+        state: "stale",
+        info: null,
+        reason: "expired",
+      });
+    });
+  });
+
+  describe("clearStaleFileLock", () => {
+    it("removes stale locks and logs a warning", async () => {
+      await fs.writeFile(lockPath, lockContent(deadPid()));
+      const logger: Logger = {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+
+      const status = await clearStaleFileLock(lockPath, { logger });
+
+      expect(status.state).toBe("stale");
+      expect(await fs.pathExists(lockPath)).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining("Cleared stale lock"),
+      );
+    });
+
+    it("never removes a lock held by a live process", async () => {
+      await fs.writeFile(lockPath, lockContent(process.pid));
+
+      const status = await clearStaleFileLock(lockPath);
+
+      expect(status.state).toBe("held");
+      expect(await fs.pathExists(lockPath)).toBe(true);
+    });
+
+    it("keeps the lock the winner took when two clearers race", async () => {
+      await fs.writeFile(lockPath, lockContent(deadPid()));
+      const winnerLock = lockContent(process.pid);
+
+      // Hold the first claim until the second clearer has also judged the
+      // lock stale, and the second until the first has cleared and retaken it
+      const rename = fs.rename.bind(fs) as (
+        a: string,
+        b: string,
+      ) => Promise<void>;
+      let bothJudged!: () => void;
+      const judged = new Promise<void>((resolve) => (bothJudged = resolve));
+      let retake!: () => void;
+      const retaken = new Promise<void>((resolve) => (retake = resolve));
+      let claims = 0;
+      vi.spyOn(fs, "rename").mockImplementation((async (
+        from: string,
+        to: string,
+      ) => {
+        claims++;
+        if (claims === 1) {
+          await judged;
+        } else {
+          bothJudged();
+          await retaken;
+        }
+        return rename(from, to);
+      }) as never);
+
+      const clearers = [
+        clearStaleFileLock(lockPath),
+        clearStaleFileLock(lockPath),
+      ];
+      const first = await Promise.race(clearers);
+      await fs.writeFile(lockPath, winnerLock, { flag: "wx" });
+      retake();
+      const statuses = await Promise.all(clearers);
+
+      expect(first.state).toBe("stale");
+      expect(statuses.map((s) => s.state).sort()).toEqual(["held", "stale"]);
+      expect(await fs.readFile(lockPath, "utf-8")).toBe(winnerLock);
+      expect(await fs.readdir(dir)).toEqual(["state.json.lock"]);
+    });
+  });
+
+  describe("acquireFileLock", () => {
+    it("leaves a lock taken over by another holder on release", async () => {
+      const release = await acquireFileLock(lockPath);
+      // Same pid, later lock: e.g. this one expired and was cleared
+      const other = lockContent(process.pid, new Date(Date.now() + 1000));
+      await fs.writeFile(lockPath, other);
+
+      await release();
+
+      expect(await fs.readFile(lockPath, "utf-8")).toBe(other);
+    });
+
+    it("creates the lock and removes it on release", async () => {
+      const release = await acquireFileLock(lockPath);
+      const status = await inspectFileLock(lockPath);
+      expect(status).toMatchObject({
+        state: "held",
+        info: { pid: process.pid },
+      });
+
+      await release();
+      expect(await fs.pathExists(lockPath)).toBe(false);
+    });
+
+    it("recovers a lock left behind by a crashed process", async () => {
+      await fs.writeFile(lockPath, lockContent(deadPid()));
+
+      const release = await acquireFileLock(lockPath);
+      expect(await inspectFileLock(lockPath)).toMatchObject({
+        info: { pid: process.pid },
+      });
+      await release();
+    });
+
+    it("waits for a live holder to release", async () => {
+      const releaseFirst = await acquireFileLock(lockPath);
+      setTimeout(() => void releaseFirst(), 30);
+
+      const release = await acquireFileLock(lockPath, { retryDelayMs: 20 });
+      await release();
+    });
+
+    it("gives up after bounded retries, naming the holder", async () => {
+      const release = await acquireFileLock(lockPath);
+
+      await expect(
+        acquireFileLock(lockPath, { retries: 2, retryDelayMs: 1 }),
+      ).rejects.toThrow(`held by pid ${process.pid}`);
+      await release();
+    });
+  });
+});
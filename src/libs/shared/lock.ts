@@ -0,0 +1,266 @@
+// Shared file-lock infrastructure
+// Used by Memory (state file) and Signaling (event log) for exclusive writes
+
+import fs from "fs-extra";
+import { open as openFile } from "node:fs/promises";
+import type { Logger } from "./logger.js";
+
+/**
+ * Contents of a lock file: who holds it and since when.
+ */
+export interface FileLockInfo {
+  pid: number;
+  createdAt: string;
+}
+
+/**
+ * What a lock file says about its holder.
+ * - free: no lock file
+ * - held: a live process holds the lock and it has not expired
+ * - stale: the holder is gone (dead process, expired, or never finished
+ *   writing the lock) and the lock can be cleared safely
+ */
+export type FileLockStatus =
+  | { state: "free" }
+  | { state: "held"; info: FileLockInfo | null }
+  | {
+      state: "stale";
+      info: FileLockInfo | null;
+      reason: "dead-process" | "expired";
+    };
+
+export interface FileLockOptions {
+  /** Locks older than this are considered abandoned (ms) */
+  staleAfterMs?: number;
+  /** How many times to retry while a live holder keeps the lock */
+  retries?: number;
+  /** First retry delay; doubles on every attempt (ms) */
+  retryDelayMs?: number;
+  /** Receives a warning whenever a stale lock is cleared */
+  logger?: Logger;
+}
+
+/**
+ * Defaults: saves take milliseconds, so a lock older than a minute is
+ * abandoned; retries wait 25 + 50 + 100 + 200 + 400 ms before giving up.
+ */
+export const DEFAULT_FILE_LOCK_OPTIONS = {
+  staleAfterMs: 60_000,
+  retries: 5,
+  retryDelayMs: 25,
+} as const;
+
+function parseLockInfo(content: string): FileLockInfo | null {
+  try {
+    const value: unknown = JSON.parse(content);
+    if (typeof value !== "object" || value === null) return null;
+    const obj = value as Record<string, unknown>;
+    if (typeof obj.pid !== "number" || typeof obj.createdAt !== "string") {
+      return null;
+    }
+    return { pid: obj.pid, createdAt: obj.createdAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a process with this pid is running on this machine.
+ * EPERM means it exists but belongs to another user.
+ */
+function isProcessAlive(pid: number): boolean {
+  if (pid === process.pid) return true;
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === "ENOENT";
+}
+
+function sameHolder(a: FileLockInfo | null, b: FileLockInfo | null): boolean {
+  return a?.pid === b?.pid && a?.createdAt === b?.createdAt;
+}
+
+async function sleep(ms: number): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Inspects a lock file without touching it.
+ *
+ * **Intent:** Decide from the recorded pid and age whether a lock still
+ * protects a write in progress or was left behind by a crash.
+ *
+ * **Contract:**
+ * - Returns: FileLockStatus (free, held, or stale with a reason)
+ * - A lock whose contents can't be read is judged by file age alone: it may
+ *   be mid-write by its holder, so it only goes stale once expired
+ * - Error handling: Propagates filesystem errors other than a missing file
+ */
+export async function inspectFileLock(
+  lockPath: string,
+  options?: FileLockOptions,
+): Promise<FileLockStatus> {
+  const staleAfterMs =
+    options?.staleAfterMs ?? DEFAULT_FILE_LOCK_OPTIONS.staleAfterMs;
+
+  let content: string;
+  let modifiedAt: number;
+  try {
+    content = await fs.readFile(lockPath, "utf-8");
+    modifiedAt = (await fs.stat(lockPath)).mtimeMs;
+  } catch (error) {
+    if (isMissing(error)) return { state: "free" };
+    throw error;
+  }
+
+  const info = parseLockInfo(content);
+  if (info && !isProcessAlive(info.pid)) {
+    return { state: "stale", info, reason: "dead-process" };
+  }
+
+  const createdAt = info ? Date.parse(info.createdAt) : NaN;
+  const age = Date.now() - (Number.isNaN(createdAt) ? modifiedAt : createdAt);
+  if (age > staleAfterMs) {
+    return { state: "stale", info, reason: "expired" };
+  }
+
+  return { state: "held", info };
+}
+
+/**
+ * Removes a lock file only if it is stale.
+ *
+ * **Intent:** Recover from crashed writers without ever breaking a lock
+ * that a live process still holds.
+ *
+ * **Contract:**
+ * - Returns: The status the lock had before clearing (so callers can report
+ *   it), or the lock's status now when another process got there first
+ * - Side effects: Claims a stale lock by renaming it to a name no other
+ *   process uses, then deletes it only if the claimed file is still stale
+ *   and has the holder that was inspected. A lock another process took
+ *   meanwhile (after clearing the same stale lock) is renamed back.
+ */
+export async function clearStaleFileLock(
+  lockPath: string,
+  options?: FileLockOptions,
+): Promise<FileLockStatus> {
+  const status = await inspectFileLock(lockPath, options);
+  if (status.state !== "stale") {
+    return status;
+  }
+
+  // Rename is atomic: of several clearers, each claims a different file
+  const claimedPath = `${lockPath}.stale-${process.pid}-${crypto.randomUUID()}`;
+  try {
+    await fs.rename(lockPath, claimedPath);
+  } catch (error) {
+    if (isMissing(error)) return inspectFileLock(lockPath, options);
+    throw error;
+  }
+
+  const claimed = await inspectFileLock(claimedPath, options);
+  if (claimed.state !== "stale" || !sameHolder(claimed.info, status.info)) {
+    await restoreClaimedLock(claimedPath, lockPath, options);
+    return claimed;
+  }
+
+  await fs.remove(claimedPath);
+  options?.logger?.warn(
+    `Cleared stale lock ${lockPath} (${status.reason}${status.info ? `, pid ${status.info.pid} since ${status.info.createdAt}` : ""})`,
+  );
+  return status;
+}
+
+/**
+ * Puts back a lock claimed by mistake, unless yet another process has
+ * taken the lock since; linking never overwrites an existing file.
+ */
+async function restoreClaimedLock(
+  claimedPath: string,
+  lockPath: string,
+  options?: FileLockOptions,
+): Promise<void> {
+  try {
+    await fs.link(claimedPath, lockPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "EEXIST") throw error;
+    options?.logger?.warn(
+      `Could not restore lock ${lockPath}: another process took it meanwhile`,
+    );
+  } finally {
+    await fs.remove(claimedPath);
+  }
+}
+
+/**
+ * Acquires an exclusive lock file.
+ *
+ * **Intent:** Serialize writers across processes, and never leave every
+ * later write failing because one process crashed while holding the lock.
+ *
+ * **Contract:**
+ * - Returns: Promise resolving to a release function
+ * - Stale locks (dead holder or expired) are cleared and acquisition retried
+ * - Live holders are waited out with bounded exponential backoff
+ * - Release removes the lock only while it still records this holder
+ * - Error handling: Throws once retries are exhausted, naming the holder
+ */
+export async function acquireFileLock(
+  lockPath: string,
+  options?: FileLockOptions,
+): Promise<() => Promise<void>> {
+  const retries = options?.retries ?? DEFAULT_FILE_LOCK_OPTIONS.retries;
+  const retryDelayMs =
+    options?.retryDelayMs ?? DEFAULT_FILE_LOCK_OPTIONS.retryDelayMs;
+
+  let info: FileLockInfo;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const handle = await openFile(lockPath, "wx");
+      info = { pid: process.pid, createdAt: new Date().toISOString() };
+      try {
+        await handle.writeFile(JSON.stringify(info));
+      } finally {
+        await handle.close();
+      }
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+
+      const status = await clearStaleFileLock(lockPath, options);
+      if (status.state !== "held") {
+        // Cleared (or released meanwhile): try again without waiting
+        if (attempt < retries) continue;
+      }
+      if (attempt >= retries) {
+        const holder =
+          status.state === "held" && status.info
+            ? ` by pid ${status.info.pid} since ${status.info.createdAt}`
+            : "";
+        throw new Error(`Lock ${lockPath} is held${holder}`);
+      }
+      await sleep(retryDelayMs * 2 ** attempt);
+    }
+  }
+
+  return async (): Promise<void> => {
+    try {
+      // An expired lock may have been cleared and taken by another process
+      const current = parseLockInfo(await fs.readFile(lockPath, "utf-8"));
+      if (sameHolder(current, info)) {
+        await fs.remove(lockPath);
+      }
+    } catch {
+      // best-effort cleanup
+    }
+  };
+}
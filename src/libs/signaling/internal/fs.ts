@@ -3,7 +3,8 @@
 
 import fs from "fs-extra";
 import * as path from "node:path";
-import { open as openFile } from "node:fs/promises";
+import { acquireFileLock } from "../../shared/index.js";
+import type { Logger } from "../../shared/index.js";
 import type { SignalEvent } from "../types.js";
 import { isValidEvent } from "../logic.js";
 
@@ -26,32 +27,15 @@ export function getLockFilePath(basePath: string): string {
 
 /**
  * Acquires an exclusive lock on the events file.
+ * Stale locks left by crashed processes are cleared; live holders are waited out.
  * Returns a release function to call when done.
  */
 export async function acquireLock(
   lockPath: string,
+  logger: Logger,
 ): Promise<() => Promise<void>> {
   await fs.ensureDir(path.dirname(lockPath));
-
-  const handle = await openFile(lockPath, "wx");
-  try {
-    await handle.writeFile(
-      JSON.stringify({
-        pid: process.pid,
-        createdAt: new Date().toISOString(),
-      }),
-    );
-  } finally {
-    await handle.close();
-  }
-
-  return async (): Promise<void> => {
-    try {
-      await fs.remove(lockPath);
-    } catch {
-      // best-effort cleanup
-    }
-  };
+  return acquireFileLock(lockPath, { logger });
 }
 
 /**
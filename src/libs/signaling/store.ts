@@ -17,6 +17,14 @@ import {
 // Re-export Logger for API compatibility
 export type { Logger } from "../shared/index.js";
 
+/**
+ * Gets the path of the lock file guarding the event log.
+ * Exposed so maintenance tooling can inspect and clear orphaned locks.
+ */
+export function getEventLogLockPath(basePath?: string): string {
+  return getLockFilePath(basePath ?? process.cwd());
+}
+
 /**
  * EventLog manages the append-only event log for inter-node signaling.
  *
@@ -63,7 +71,7 @@ export class EventLog {
       }
 
       // Acquire lock, append event, update index
-      const release = await acquireLock(lockPath);
+      const release = await acquireLock(lockPath, this.logger);
       try {
         // Re-check after acquiring lock (another process may have added it)
         const freshIndex = await loadEventIdIndex(filePath);